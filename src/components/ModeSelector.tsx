@@ -4,7 +4,8 @@
 
 import React from 'react';
 import { AppMode } from '@/core/types';
-import { Network, Map, ArrowRight, BookOpen, Code, Layers } from 'lucide-react';
+import { APP_NAME } from '@/core/app';
+import { Network, Map, Grid3x3, ArrowRight, BookOpen, Code, Layers } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 
@@ -24,7 +25,7 @@ export function ModeSelector({ onSelectMode }: ModeSelectorProps) {
             </div>
             <div>
               <h1 className="text-xl font-semibold text-foreground">
-                PathFinder
+                {APP_NAME}
               </h1>
               <p className="text-sm text-muted-foreground">
                 Educational Shortest-Path Algorithm Explorer
@@ -38,7 +39,7 @@ export function ModeSelector({ onSelectMode }: ModeSelectorProps) {
       <main className="flex-1 flex items-center justify-center p-6">
         <div className="max-w-4xl w-full">
           {/* Mode cards */}
-          <div className="grid md:grid-cols-2 gap-6 mb-12">
+          <div className="grid md:grid-cols-3 gap-6 mb-12">
             {/* Visualizer Mode */}
             <button
               onClick={() => onSelectMode('visualizer')}
@@ -76,6 +77,40 @@ export function ModeSelector({ onSelectMode }: ModeSelectorProps) {
               </div>
             </button>
             
+            {/* Grid Mode */}
+            <button
+              onClick={() => onSelectMode('grid')}
+              className={cn(
+                'group relative bg-card border border-border rounded-xl p-6 text-left',
+                'hover:border-primary/50 hover:bg-card/80 transition-all duration-200',
+                'focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 focus:ring-offset-background'
+              )}
+            >
+              <div className="flex items-start justify-between mb-4">
+                <div className="w-12 h-12 rounded-lg bg-node-visited/10 flex items-center justify-center">
+                  <Grid3x3 className="w-6 h-6 text-node-visited" />
+                </div>
+                <ArrowRight className="w-5 h-5 text-muted-foreground group-hover:text-primary group-hover:translate-x-1 transition-all" />
+              </div>
+              
+              <h2 className="text-lg font-semibold text-foreground mb-2">
+                Grid Pathfinding
+              </h2>
+              <p className="text-sm text-muted-foreground mb-4">
+                Paint walls and terrain on a tile grid and watch Dijkstra 
+                and A* search it, the way games find paths.
+              </p>
+              
+              <div className="flex flex-wrap gap-2">
+                <span className="px-2 py-1 bg-node-visited/10 text-node-visited text-xs rounded">
+                  Walls & Terrain
+                </span>
+                <span className="px-2 py-1 bg-node-visited/10 text-node-visited text-xs rounded">
+                  4/8-Way Moves
+                </span>
+              </div>
+            </button>
+            
             {/* Map Mode */}
             <button
               onClick={() => onSelectMode('map')}
@@ -0,0 +1,153 @@
+/**
+ * GridCanvas - Tile grid rendering with paint-by-dragging
+ * Cells are drawn in grid units (one cell = 1×1) and scaled to fit.
+ */
+
+import React from 'react';
+import { AlgorithmStep, NodeState } from '@/core/types';
+import { Grid, GridCell, TERRAINS, cellId, parseCellId } from '@/core/grid';
+
+interface GridCanvasProps {
+  grid: Grid;
+  currentStep: AlgorithmStep | null;
+  sourceId: string | null;
+  targetId: string | null;
+  highlight?: Set<string>; // Cells a maze generator is working on
+  onPaintStart: (row: number, col: number) => void;
+  onPaint: (row: number, col: number) => void;
+  onPaintEnd: () => void;
+}
+
+const CELL_COLORS: Record<GridCell, string> = {
+  open: 'hsl(var(--cell-open))',
+  grass: 'hsl(var(--terrain-grass))',
+  sand: 'hsl(var(--terrain-sand))',
+  water: 'hsl(var(--terrain-water))',
+  wall: 'hsl(var(--cell-wall))',
+};
+
+// Search progress is drawn as a translucent overlay so terrain stays visible
+function getOverlayColor(state: NodeState | undefined): string | null {
+  switch (state) {
+    case 'current': return 'hsl(var(--node-current) / 0.8)';
+    case 'visited': return 'hsl(var(--node-visited) / 0.45)';
+    case 'in-queue': return 'hsl(var(--primary) / 0.35)';
+    case 'path': return 'hsl(var(--node-path) / 0.5)';
+    default: return null;
+  }
+}
+
+export function GridCanvas({
+  grid,
+  currentStep,
+  sourceId,
+  targetId,
+  highlight,
+  onPaintStart,
+  onPaint,
+  onPaintEnd,
+}: GridCanvasProps) {
+  const cells: JSX.Element[] = [];
+
+  for (let row = 0; row < grid.rows; row++) {
+    for (let col = 0; col < grid.cols; col++) {
+      const cell = grid.cells[row * grid.cols + col];
+      const id = cellId(row, col);
+      const overlay = highlight?.has(id)
+        ? getOverlayColor('current')
+        : getOverlayColor(currentStep?.nodeStates.get(id));
+      const distance = currentStep?.distances.get(id);
+
+      cells.push(
+        <g
+          key={id}
+          onMouseDown={(e) => {
+            if (e.button !== 0) return;
+            e.preventDefault(); // Don't start a text selection while painting
+            onPaintStart(row, col);
+          }}
+          onMouseEnter={(e) => {
+            if (e.buttons & 1) onPaint(row, col);
+          }}
+        >
+          <title>
+            {cell === 'wall'
+              ? `${id} · Wall`
+              : `${id} · ${TERRAINS[cell].label} (cost ${TERRAINS[cell].cost})` +
+                (distance !== undefined && distance !== Infinity ? ` · distance ${distance.toFixed(1)}` : '')}
+          </title>
+          <rect
+            x={col}
+            y={row}
+            width={1}
+            height={1}
+            fill={CELL_COLORS[cell]}
+            stroke="hsl(var(--border))"
+            strokeWidth={0.03}
+          />
+          {overlay && (
+            <rect
+              x={col}
+              y={row}
+              width={1}
+              height={1}
+              fill={overlay}
+              className="transition-colors duration-200"
+            />
+          )}
+        </g>
+      );
+    }
+  }
+
+  // Source and target markers
+  const renderMarker = (id: string | null, color: string) => {
+    const pos = id ? parseCellId(id) : null;
+    if (!pos) return null;
+    return (
+      <circle
+        cx={pos.col + 0.5}
+        cy={pos.row + 0.5}
+        r={0.32}
+        fill={color}
+        stroke="hsl(var(--background))"
+        strokeWidth={0.06}
+        className="pointer-events-none"
+      />
+    );
+  };
+
+  // Final path through cell centres
+  const pathPoints = (currentStep?.shortestPath ?? [])
+    .map(parseCellId)
+    .filter((pos): pos is { row: number; col: number } => pos !== null)
+    .map(pos => `${pos.col + 0.5},${pos.row + 0.5}`)
+    .join(' ');
+
+  return (
+    <svg
+      className="w-full h-full graph-container select-none"
+      viewBox={`-0.5 -0.5 ${grid.cols + 1} ${grid.rows + 1}`}
+      preserveAspectRatio="xMidYMid meet"
+      onMouseUp={onPaintEnd}
+      onMouseLeave={onPaintEnd}
+    >
+      {cells}
+
+      {pathPoints && (
+        <polyline
+          points={pathPoints}
+          fill="none"
+          stroke="hsl(var(--edge-path))"
+          strokeWidth={0.18}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          className="pointer-events-none"
+        />
+      )}
+
+      {renderMarker(sourceId, 'hsl(var(--node-start))')}
+      {renderMarker(targetId, 'hsl(var(--node-end))')}
+    </svg>
+  );
+}
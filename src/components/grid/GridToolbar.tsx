@@ -0,0 +1,303 @@
+/**
+ * GridToolbar - Brushes, maze generation, connectivity and grid size for grid mode
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CircleDot, Target, Square, Trash2, Dices, Grid2x2, FastForward } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { AlgorithmType, HeuristicSettings, TieBreakingSettings } from '@/core/types';
+import { ALGORITHMS } from '@/core/algorithms/registry';
+import { Connectivity, GridCell, GridOptions, GridSize, GRID_SIZES, Terrain, TERRAINS } from '@/core/grid';
+import { MazeAlgorithm, MAZE_ALGORITHMS } from '@/core/maze';
+import { randomSeed } from '@/core/random';
+import { HeuristicSelector } from '@/components/visualizer/HeuristicSelector';
+import { TieBreakingSelector } from '@/components/visualizer/TieBreakingSelector';
+
+export type GridBrush = GridCell | 'source' | 'target';
+
+// Grids have only non-negative weights and no use for all-pairs or spanning trees
+const GRID_ALGORITHMS: AlgorithmType[] = ['dijkstra', 'astar'];
+
+const TERRAIN_SWATCHES: Record<Terrain, string> = {
+  open: 'bg-cell-open',
+  grass: 'bg-terrain-grass',
+  sand: 'bg-terrain-sand',
+  water: 'bg-terrain-water',
+};
+
+interface GridToolbarProps {
+  algorithm: AlgorithmType;
+  brush: GridBrush;
+  options: GridOptions;
+  size: GridSize;
+  sourceId: string | null;
+  targetId: string | null;
+  heuristic: HeuristicSettings;
+  tieBreaking: TieBreakingSettings;
+  mazeAnimating: boolean;
+  onAlgorithmChange: (algorithm: AlgorithmType) => void;
+  onHeuristicChange: (heuristic: HeuristicSettings) => void;
+  onTieBreakingChange: (settings: TieBreakingSettings) => void;
+  onBrushChange: (brush: GridBrush) => void;
+  onOptionsChange: (options: GridOptions) => void;
+  onSizeChange: (size: GridSize) => void;
+  onGenerateMaze: (algorithm: MazeAlgorithm, seed: number, animate: boolean) => void;
+  onSkipMaze: () => void;
+  onClear: () => void;
+}
+
+export function GridToolbar({
+  algorithm,
+  brush,
+  options,
+  size,
+  sourceId,
+  targetId,
+  heuristic,
+  tieBreaking,
+  mazeAnimating,
+  onAlgorithmChange,
+  onHeuristicChange,
+  onTieBreakingChange,
+  onBrushChange,
+  onOptionsChange,
+  onSizeChange,
+  onGenerateMaze,
+  onSkipMaze,
+  onClear,
+}: GridToolbarProps) {
+  const [diagonalCost, setDiagonalCost] = useState(String(options.diagonalCost));
+  const [mazeAlgorithm, setMazeAlgorithm] = useState<MazeAlgorithm>('backtracker');
+  const [mazeSeed, setMazeSeed] = useState(() => String(randomSeed()));
+  const [animateMaze, setAnimateMaze] = useState(true);
+  const parsedSeed = Number(mazeSeed);
+  const seedValid = mazeSeed.trim() !== '' && Number.isInteger(parsedSeed);
+
+  useEffect(() => {
+    setDiagonalCost(String(Number(options.diagonalCost.toFixed(4))));
+  }, [options.diagonalCost]);
+
+  const segmentClass = (active: boolean) => cn(
+    'flex-1 py-2 text-sm font-medium transition-colors',
+    active
+      ? 'bg-primary text-primary-foreground'
+      : 'bg-muted text-muted-foreground hover:text-foreground'
+  );
+
+  const brushButton = (value: GridBrush, label: string, icon: React.ReactNode) => (
+    <Button
+      key={value}
+      variant={brush === value ? 'default' : 'outline'}
+      size="sm"
+      onClick={() => onBrushChange(value)}
+      className="justify-start gap-2"
+    >
+      {icon}
+      <span className="text-xs">{label}</span>
+    </Button>
+  );
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-4 space-y-4">
+      {/* Algorithm selector */}
+      <div className="space-y-2">
+        <div className="text-sm font-medium text-foreground">Algorithm</div>
+        <div className="flex rounded-lg border border-border overflow-hidden">
+          {GRID_ALGORITHMS.map(type => (
+            <button key={type} onClick={() => onAlgorithmChange(type)} className={segmentClass(algorithm === type)}>
+              {ALGORITHMS[type].label}
+            </button>
+          ))}
+        </div>
+        {ALGORITHMS[algorithm].requires.heuristic && (
+          <HeuristicSelector settings={heuristic} onChange={onHeuristicChange} />
+        )}
+        {ALGORITHMS[algorithm].capabilities.tieBreaking && (
+          <TieBreakingSelector
+            settings={tieBreaking}
+            usesHeuristic={ALGORITHMS[algorithm].requires.heuristic}
+            onChange={onTieBreakingChange}
+          />
+        )}
+      </div>
+
+      {/* Brushes */}
+      <div className="space-y-2">
+        <div className="text-sm font-medium text-foreground">Paint</div>
+        <div className="grid grid-cols-2 gap-2">
+          {brushButton('wall', 'Wall', <Square className="h-4 w-4 fill-cell-wall text-cell-wall" />)}
+          {(Object.keys(TERRAINS) as Terrain[]).map(terrain =>
+            brushButton(
+              terrain,
+              `${TERRAINS[terrain].label} (${TERRAINS[terrain].cost})`,
+              <span className={cn('h-4 w-4 rounded-sm border border-border', TERRAIN_SWATCHES[terrain])} />
+            )
+          )}
+          {brushButton('source', 'Source', <CircleDot className="h-4 w-4 text-node-start" />)}
+          {brushButton('target', 'Target', <Target className="h-4 w-4 text-node-end" />)}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Click or drag to paint. Dragging from a wall with the wall brush erases.
+        </p>
+      </div>
+
+      {/* Maze generator */}
+      <div className="space-y-2">
+        <div className="text-sm font-medium text-foreground">Maze</div>
+        <Select value={mazeAlgorithm} onValueChange={(value) => setMazeAlgorithm(value as MazeAlgorithm)}>
+          <SelectTrigger className="h-8 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(MAZE_ALGORITHMS) as MazeAlgorithm[]).map(key => (
+              <SelectItem key={key} value={key}>
+                {MAZE_ALGORITHMS[key].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">{MAZE_ALGORITHMS[mazeAlgorithm].description}</p>
+        <div className="flex items-center gap-1">
+          <Label htmlFor="maze-seed" className="text-sm text-muted-foreground font-normal mr-1">
+            Seed
+          </Label>
+          <Input
+            id="maze-seed"
+            type="number"
+            value={mazeSeed}
+            onChange={(e) => setMazeSeed(e.target.value)}
+            className="h-8 font-mono"
+          />
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setMazeSeed(String(randomSeed()))}
+            className="h-8 w-8 flex-shrink-0"
+            title="New random seed"
+          >
+            <Dices className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="maze-animate" className="text-sm text-muted-foreground font-normal">
+            Animate construction
+          </Label>
+          <Switch id="maze-animate" checked={animateMaze} onCheckedChange={setAnimateMaze} />
+        </div>
+        {mazeAnimating ? (
+          <Button variant="outline" size="sm" onClick={onSkipMaze} className="w-full">
+            <FastForward className="h-4 w-4 mr-2" />
+            Skip animation
+          </Button>
+        ) : (
+          <Button
+            size="sm"
+            onClick={() => onGenerateMaze(mazeAlgorithm, parsedSeed, animateMaze)}
+            disabled={!seedValid}
+            className="w-full"
+          >
+            <Grid2x2 className="h-4 w-4 mr-2" />
+            Generate maze
+          </Button>
+        )}
+      </div>
+
+      {/* Movement */}
+      <div className="space-y-2">
+        <div className="text-sm font-medium text-foreground">Movement</div>
+        <div className="flex rounded-lg border border-border overflow-hidden">
+          {([4, 8] as Connectivity[]).map(connectivity => (
+            <button
+              key={connectivity}
+              onClick={() => onOptionsChange({ ...options, connectivity })}
+              className={segmentClass(options.connectivity === connectivity)}
+            >
+              {connectivity}-way
+            </button>
+          ))}
+        </div>
+        {options.connectivity === 8 && (
+          <div className="space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="diagonal-cost" className="text-sm text-muted-foreground font-normal">
+                Diagonal cost ×
+              </Label>
+              <Input
+                id="diagonal-cost"
+                type="number"
+                min="1"
+                step="0.1"
+                value={diagonalCost}
+                onChange={(e) => {
+                  setDiagonalCost(e.target.value);
+                  const value = parseFloat(e.target.value);
+                  if (value >= 1) onOptionsChange({ ...options, diagonalCost: value });
+                }}
+                className="w-24 h-8 font-mono"
+              />
+            </div>
+            {options.diagonalCost < Math.SQRT2 && (
+              <p className="text-xs text-muted-foreground">
+                Below √2 ≈ 1.414 the Euclidean and octile heuristics can overestimate, so A* may miss the shortest path.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Grid size */}
+      <div className="space-y-2">
+        <div className="text-sm font-medium text-foreground">Grid size</div>
+        <div className="flex rounded-lg border border-border overflow-hidden">
+          {(Object.keys(GRID_SIZES) as GridSize[]).map(key => (
+            <button
+              key={key}
+              onClick={() => onSizeChange(key)}
+              className={segmentClass(size === key)}
+              title={`${GRID_SIZES[key].rows} × ${GRID_SIZES[key].cols}`}
+            >
+              {GRID_SIZES[key].label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Status display */}
+      <div className="space-y-2 pt-2 border-t border-border">
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">Source:</span>
+          <span className={cn('font-mono', sourceId ? 'text-node-start' : 'text-muted-foreground')}>
+            {sourceId || 'None'}
+          </span>
+        </div>
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">Target:</span>
+          <span className={cn('font-mono', targetId ? 'text-node-end' : 'text-muted-foreground')}>
+            {targetId || 'None'}
+          </span>
+        </div>
+      </div>
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={onClear}
+        className="w-full text-destructive hover:text-destructive"
+      >
+        <Trash2 className="h-4 w-4 mr-2" />
+        Clear grid
+      </Button>
+    </div>
+  );
+}
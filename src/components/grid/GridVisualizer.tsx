@@ -0,0 +1,322 @@
+/**
+ * GridVisualizer - Main component for grid mode
+ * Paint walls and terrain (or generate a maze) on a tile grid, then run the
+ * graph algorithms on the compiled grid with the same playback and
+ * educational panels.
+ */
+
+import React, { useState, useCallback, useMemo, useRef } from 'react';
+import { AlgorithmType, HeuristicSettings, TieBreakingSettings } from '@/core/types';
+import {
+  Grid,
+  GridCell,
+  GridOptions,
+  GridSize,
+  GRID_SIZES,
+  DEFAULT_GRID_OPTIONS,
+  DEFAULT_GRID_HEURISTIC,
+  createGrid,
+  resizeGrid,
+  getCell,
+  setCell,
+  cellId,
+  parseCellId,
+  compileGrid,
+} from '@/core/grid';
+import { MazeAlgorithm, MazeStep, MAZE_ALGORITHMS, generateMazeSteps, mazeEndpoints } from '@/core/maze';
+import { ALGORITHMS, getMissingInput } from '@/core/algorithms/registry';
+import { DEFAULT_TIE_BREAKING, effectiveTieBreaking } from '@/core/queues';
+import { useAlgorithmVisualizer } from '@/hooks/useAlgorithmVisualizer';
+import { useStepPlayback } from '@/hooks/useStepPlayback';
+import { GridCanvas } from './GridCanvas';
+import { GridToolbar, GridBrush } from './GridToolbar';
+import { ControlPanel } from '@/components/visualizer/ControlPanel';
+import { PseudocodePanel } from '@/components/visualizer/PseudocodePanel';
+import { InsightPanel } from '@/components/visualizer/InsightPanel';
+import { MetricsPanel } from '@/components/visualizer/MetricsPanel';
+import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from '@/components/ui/resizable';
+import { Button } from '@/components/ui/button';
+import { Home } from 'lucide-react';
+
+interface GridVisualizerProps {
+  onBackToDashboard?: () => void;
+}
+
+const INITIAL_SIZE: GridSize = 'medium';
+const MAZE_STEP_SPEED = 25; // ms between maze construction steps
+
+// Source in the top-left corner, target in the bottom-right
+function cornerIds(grid: Grid): { sourceId: string; targetId: string } {
+  return { sourceId: cellId(0, 0), targetId: cellId(grid.rows - 1, grid.cols - 1) };
+}
+
+export function GridVisualizer({ onBackToDashboard }: GridVisualizerProps) {
+  const [size, setSize] = useState<GridSize>(INITIAL_SIZE);
+  const [grid, setGrid] = useState<Grid>(() => createGrid(GRID_SIZES[INITIAL_SIZE].rows, GRID_SIZES[INITIAL_SIZE].cols));
+  const [options, setOptions] = useState<GridOptions>(DEFAULT_GRID_OPTIONS);
+  const [brush, setBrush] = useState<GridBrush>('wall');
+  const [algorithm, setAlgorithm] = useState<AlgorithmType>('astar');
+  const [heuristic, setHeuristic] = useState<HeuristicSettings>(DEFAULT_GRID_HEURISTIC);
+  // Open grids are full of equal keys, so the tie rule shapes the search visibly
+  const [tieBreakingChoice, setTieBreaking] = useState<TieBreakingSettings>(DEFAULT_TIE_BREAKING);
+  const tieBreaking = useMemo(
+    () => effectiveTieBreaking(tieBreakingChoice, ALGORITHMS[algorithm].requires.heuristic),
+    [tieBreakingChoice, algorithm]
+  );
+  const [sourceId, setSourceId] = useState<string | null>(() => cornerIds(grid).sourceId);
+  const [targetId, setTargetId] = useState<string | null>(() => cornerIds(grid).targetId);
+
+  // Cell type painted by the current drag; null when not painting
+  const strokeRef = useRef<GridCell | null>(null);
+
+  const graph = useMemo(() => compileGrid(grid, options), [grid, options]);
+
+  const visualizer = useAlgorithmVisualizer({
+    graph,
+    sourceId,
+    targetId,
+    algorithm,
+    heuristic,
+    tieBreaking,
+  });
+
+  // Maze construction playback. The finished maze is already in `grid`; the
+  // animation only changes what is drawn until it ends or is skipped.
+  const maze = useStepPlayback<MazeStep>(MAZE_STEP_SPEED);
+  const [mazeAlgorithm, setMazeAlgorithm] = useState<MazeAlgorithm>('backtracker');
+  const mazeStep = maze.isRunning ? maze.currentStep : null;
+  const mazeHighlight = useMemo(() => mazeStep ? new Set(mazeStep.highlight) : undefined, [mazeStep]);
+
+  const paintCell = useCallback((row: number, col: number, cell: GridCell) => {
+    const id = cellId(row, col);
+    // Keep the endpoints walkable
+    if (cell === 'wall' && (id === sourceId || id === targetId)) return;
+    setGrid(g => setCell(g, row, col, cell));
+  }, [sourceId, targetId]);
+
+  const handlePaintStart = useCallback((row: number, col: number) => {
+    if (maze.isRunning) return;
+    const current = getCell(grid, row, col);
+    visualizer.reset();
+
+    if (brush === 'source' || brush === 'target') {
+      if (current === 'wall') setGrid(g => setCell(g, row, col, 'open'));
+      if (brush === 'source') setSourceId(cellId(row, col));
+      else setTargetId(cellId(row, col));
+      return;
+    }
+
+    // Dragging from a wall with the wall brush erases instead
+    strokeRef.current = brush === 'wall' && current === 'wall' ? 'open' : brush;
+    paintCell(row, col, strokeRef.current);
+  }, [grid, brush, paintCell, visualizer, maze.isRunning]);
+
+  const handlePaint = useCallback((row: number, col: number) => {
+    if (strokeRef.current) paintCell(row, col, strokeRef.current);
+  }, [paintCell]);
+
+  const handlePaintEnd = useCallback(() => {
+    strokeRef.current = null;
+  }, []);
+
+  const handleOptionsChange = useCallback((newOptions: GridOptions) => {
+    setOptions(newOptions);
+    visualizer.reset();
+  }, [visualizer]);
+
+  const handleSizeChange = useCallback((newSize: GridSize) => {
+    const { rows, cols } = GRID_SIZES[newSize];
+    const resized = resizeGrid(grid, rows, cols);
+    const inside = (id: string | null) => {
+      const pos = id ? parseCellId(id) : null;
+      return pos !== null && pos.row < rows && pos.col < cols;
+    };
+    const corners = cornerIds(resized);
+    setSize(newSize);
+    setGrid(resized);
+    if (!inside(sourceId)) setSourceId(corners.sourceId);
+    if (!inside(targetId)) setTargetId(corners.targetId);
+    maze.reset();
+    visualizer.reset();
+  }, [grid, sourceId, targetId, visualizer, maze]);
+
+  const handleClear = useCallback(() => {
+    const cleared = createGrid(grid.rows, grid.cols);
+    setGrid(cleared);
+    setSourceId(cornerIds(cleared).sourceId);
+    setTargetId(cornerIds(cleared).targetId);
+    maze.reset();
+    visualizer.reset();
+  }, [grid, visualizer, maze]);
+
+  const handleGenerateMaze = useCallback((newAlgorithm: MazeAlgorithm, seed: number, animate: boolean) => {
+    const steps = [...generateMazeSteps(newAlgorithm, grid.rows, grid.cols, seed)];
+    const endpoints = mazeEndpoints(grid.rows, grid.cols);
+    setGrid(steps[steps.length - 1].grid);
+    setSourceId(endpoints.sourceId);
+    setTargetId(endpoints.targetId);
+    setMazeAlgorithm(newAlgorithm);
+    visualizer.reset();
+    if (animate) maze.play(steps);
+    else maze.reset();
+  }, [grid, visualizer, maze]);
+
+  const canStart = !maze.isRunning &&
+    getMissingInput(ALGORITHMS[algorithm], graph, sourceId, targetId) === null;
+
+  const wallCount = grid.cells.filter(cell => cell === 'wall').length;
+
+  return (
+    <div className="h-screen flex flex-col bg-background">
+      {/* Header */}
+      <header className="flex-shrink-0 border-b border-border bg-card px-6 py-4">
+        <div className="max-w-7xl mx-auto flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            {onBackToDashboard && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onBackToDashboard}
+                className="gap-2"
+              >
+                <Home className="h-4 w-4" />
+                Dashboard
+              </Button>
+            )}
+            <div>
+              <h1 className="text-xl font-semibold text-foreground">
+                Grid Pathfinding
+              </h1>
+              <p className="text-sm text-muted-foreground">
+                Paint walls and terrain, then watch the search spread across the tiles
+              </p>
+            </div>
+          </div>
+          <div className="text-sm text-muted-foreground">
+            <span className="font-mono">{grid.rows} × {grid.cols}</span> cells,{' '}
+            <span className="font-mono">{wallCount}</span> walls,{' '}
+            <span className="font-mono">{graph.edges.size}</span> edges
+          </div>
+        </div>
+      </header>
+
+      {/* Main content with resizable panels */}
+      <ResizablePanelGroup direction="horizontal" className="flex-1">
+        {/* Left sidebar - Toolbar */}
+        <ResizablePanel defaultSize={20} minSize={15} maxSize={30}>
+          <aside className="h-full border-r border-border bg-sidebar p-4 overflow-y-auto">
+            <GridToolbar
+              algorithm={algorithm}
+              brush={brush}
+              options={options}
+              size={size}
+              sourceId={sourceId}
+              targetId={targetId}
+              heuristic={heuristic}
+              tieBreaking={tieBreaking}
+              mazeAnimating={maze.isRunning}
+              onAlgorithmChange={(alg) => {
+                setAlgorithm(alg);
+                visualizer.reset();
+              }}
+              onHeuristicChange={(settings) => {
+                setHeuristic(settings);
+                visualizer.reset();
+              }}
+              onTieBreakingChange={(settings) => {
+                setTieBreaking(settings);
+                visualizer.reset();
+              }}
+              onBrushChange={setBrush}
+              onOptionsChange={handleOptionsChange}
+              onSizeChange={handleSizeChange}
+              onGenerateMaze={handleGenerateMaze}
+              onSkipMaze={maze.reset}
+              onClear={handleClear}
+            />
+
+            <div className="mt-4">
+              <ControlPanel
+                isRunning={visualizer.isRunning}
+                isPaused={visualizer.isPaused}
+                isComplete={visualizer.isComplete}
+                canStart={canStart}
+                currentStepIndex={visualizer.currentStepIndex}
+                totalSteps={visualizer.steps.length}
+                speed={visualizer.speed}
+                explanationLevel={visualizer.explanationLevel}
+                isGenerating={visualizer.isGenerating}
+                generationProgress={visualizer.progress}
+                generationError={visualizer.generationError}
+                onStart={visualizer.start}
+                onPause={visualizer.pause}
+                onResume={visualizer.resume}
+                onReset={visualizer.reset}
+                onNextStep={visualizer.nextStep}
+                onPrevStep={visualizer.prevStep}
+                onSpeedChange={visualizer.setSpeed}
+                onExplanationLevelChange={visualizer.setExplanationLevel}
+                onCancel={visualizer.cancel}
+              />
+            </div>
+
+            <div className="mt-4">
+              <MetricsPanel metrics={visualizer.metrics} currentStepIndex={visualizer.currentStepIndex} />
+            </div>
+          </aside>
+        </ResizablePanel>
+
+        <ResizableHandle withHandle />
+
+        {/* Center - Grid canvas */}
+        <ResizablePanel defaultSize={55} minSize={30}>
+          <main className="h-full relative p-4">
+            <GridCanvas
+              grid={mazeStep?.grid ?? grid}
+              currentStep={visualizer.currentStep}
+              sourceId={sourceId}
+              targetId={targetId}
+              highlight={mazeHighlight}
+              onPaintStart={handlePaintStart}
+              onPaint={handlePaint}
+              onPaintEnd={handlePaintEnd}
+            />
+
+            {/* Maze construction progress */}
+            {mazeStep && (
+              <div className="absolute top-6 left-6 right-6 bg-card/90 backdrop-blur-sm border border-border rounded-lg px-4 py-2 text-sm pointer-events-none">
+                <div className="flex items-center justify-between gap-4">
+                  <span className="font-medium text-foreground">{MAZE_ALGORITHMS[mazeAlgorithm].label}</span>
+                  <span className="font-mono text-xs text-muted-foreground">
+                    {maze.currentStepIndex + 1} / {maze.steps.length}
+                  </span>
+                </div>
+                <p className="text-muted-foreground">{mazeStep.explanation}</p>
+              </div>
+            )}
+          </main>
+        </ResizablePanel>
+
+        <ResizableHandle withHandle />
+
+        {/* Right sidebar - Educational panels */}
+        <ResizablePanel defaultSize={25} minSize={15} maxSize={40}>
+          <aside className="h-full border-l border-border bg-sidebar flex flex-col">
+            <div className="flex-1 border-b border-border overflow-hidden">
+              <PseudocodePanel
+                algorithm={algorithm}
+                currentLine={visualizer.currentStep?.pseudocodeLine ?? -1}
+              />
+            </div>
+            <div className="flex-1 overflow-hidden">
+              <InsightPanel
+                currentStep={visualizer.currentStep}
+                explanationLevel={visualizer.explanationLevel}
+              />
+            </div>
+          </aside>
+        </ResizablePanel>
+      </ResizablePanelGroup>
+    </div>
+  );
+}
@@ -3,46 +3,80 @@
  * Orchestrates graph editing, algorithm execution, and educational panels
  */
 
-import React, { useState, useCallback } from 'react';
-import { Graph, AlgorithmType, Node } from '@/core/types';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import { AlgorithmType, Graph, HeuristicSettings, Node, PriorityQueueType, TieBreakingSettings } from '@/core/types';
 import { 
   createGraph, 
   createSampleGraph, 
+  createProjectGraph,
   addNode, 
   addEdge,
   removeNode,
-  generateNodeId,
-  generateEdgeId,
+  removeEdge,
+  renameNode,
+  updateEdge,
+  nextEdgeId,
+  nodeLabel,
+  setGraphDirected,
+  hasNegativeWeights,
+  DirectionConversion,
   resetIdCounters,
   getEdgeBetween
 } from '@/core/graph';
+import { reconstructAllPairsPath } from '@/core/algorithms/floydWarshall';
+import {
+  ALGORITHMS,
+  AlgorithmParameterKey,
+  DEFAULT_ALGORITHM_PARAMETERS,
+  getMissingInput,
+} from '@/core/algorithms/registry';
+import { runDijkstra } from '@/core/algorithms/dijkstra';
+import { minimumSpanningForest } from '@/core/algorithms/kruskal';
+import { DEFAULT_HEURISTIC, analyzeHeuristic, createHeuristic } from '@/core/algorithms/heuristics';
+import { DEFAULT_TIE_BREAKING, effectiveTieBreaking } from '@/core/queues';
+import { generateGraph, GeneratorOptions, GRAPH_GENERATORS } from '@/core/generators';
+import { importGraphFiles, exportGraphFiles, GraphFormatError, GraphFileFormat } from '@/core/io';
 import { useAlgorithmVisualizer } from '@/hooks/useAlgorithmVisualizer';
+import { useGraphHistory } from '@/hooks/useGraphHistory';
 import { GraphCanvas } from './GraphCanvas';
 import { PseudocodePanel } from './PseudocodePanel';
 import { InsightPanel } from './InsightPanel';
 import { ControlPanel } from './ControlPanel';
 import { Toolbar } from './Toolbar';
 import { EdgeWeightDialog } from './EdgeWeightDialog';
+import { HistoryPanel } from './HistoryPanel';
+import { MatrixPanel, NodePair } from './MatrixPanel';
+import { PathListPanel } from './PathListPanel';
+import { UnionFindPanel } from './UnionFindPanel';
+import { HeuristicPanel } from './HeuristicPanel';
+import { MetricsPanel } from './MetricsPanel';
+import { NodeRenameDialog } from './NodeRenameDialog';
+import { GraphContextMenu, ContextTarget } from './GraphContextMenu';
+import { GraphDirectionDialog } from './GraphDirectionDialog';
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from '@/components/ui/resizable';
 import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { toast } from '@/components/ui/sonner';
+import { downloadTextFile } from '@/lib/download';
 import { Home } from 'lucide-react';
 
 interface AlgorithmVisualizerProps {
   onBackToDashboard?: () => void;
 }
 
-type ToolMode = 'select-source' | 'select-target' | 'add-node' | 'add-edge' | 'view';
-
-const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+type ToolMode = 'select-source' | 'select-target' | 'add-node' | 'add-edge' | 'delete' | 'view';
 
 export function AlgorithmVisualizer({ onBackToDashboard }: AlgorithmVisualizerProps) {
-  // Graph state
-  const [graph, setGraph] = useState<Graph>(() => createSampleGraph());
+  // Graph and source/target selection, with undo/redo history
+  const history = useGraphHistory(
+    { graph: createSampleGraph(), sourceId: 'A', targetId: 'F' },
+    'Load sample'
+  );
+  const { graph, sourceId, targetId } = history.present;
   const [nodeCounter, setNodeCounter] = useState(6); // Sample graph has A-F
   
   // Selection state
-  const [sourceId, setSourceId] = useState<string | null>('A');
-  const [targetId, setTargetId] = useState<string | null>('F');
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
   
   // Tool state
@@ -53,6 +87,50 @@ export function AlgorithmVisualizer({ onBackToDashboard }: AlgorithmVisualizerPr
   // Edge dialog state
   const [edgeDialogOpen, setEdgeDialogOpen] = useState(false);
   const [pendingEdge, setPendingEdge] = useState<{ source: string; target: string } | null>(null);
+  const [editingEdgeId, setEditingEdgeId] = useState<string | null>(null);
+  
+  // Rename dialog and context menu state
+  const [renamingNodeId, setRenamingNodeId] = useState<string | null>(null);
+  const [contextTarget, setContextTarget] = useState<ContextTarget | null>(null);
+  
+  // Direction being switched to while the conversion dialog is open
+  const [pendingDirected, setPendingDirected] = useState<boolean | null>(null);
+  
+  // Opt-in to run Dijkstra/A* on negative edges and watch them go wrong
+  const [allowNegativeWeights, setAllowNegativeWeights] = useState(false);
+  
+  // Tunable algorithm inputs (weighted A*'s ε, Yen's k), kept across algorithm switches
+  const [parameters, setParameters] = useState(DEFAULT_ALGORITHM_PARAMETERS);
+  
+  // Priority queue behind Dijkstra, A* and the like, to compare operation counts
+  const [queueType, setQueueType] = useState<PriorityQueueType>('binary');
+  
+  // Order among equal keys in that queue. The g and h rules are kept across
+  // a switch to Dijkstra but run as FIFO there
+  const [tieBreakingChoice, setTieBreaking] = useState<TieBreakingSettings>(DEFAULT_TIE_BREAKING);
+  const tieBreaking = useMemo(
+    () => effectiveTieBreaking(tieBreakingChoice, ALGORITHMS[algorithm].requires.heuristic),
+    [tieBreakingChoice, algorithm]
+  );
+  
+  // Pair picked in the all-pairs matrix, drawn on the canvas
+  const [selectedPair, setSelectedPair] = useState<NodePair | null>(null);
+  
+  // Rank of the k-shortest path picked in the results list
+  const [selectedPathIndex, setSelectedPathIndex] = useState<number | null>(null);
+  
+  // Draw the minimum spanning tree and the shortest-path tree over the graph
+  const [showTreeOverlay, setShowTreeOverlay] = useState(false);
+  
+  // Estimate used by A* and its relatives, and whether to mark where it breaks its bounds
+  const [heuristic, setHeuristic] = useState<HeuristicSettings>(DEFAULT_HEURISTIC);
+  const [showHeuristicViolations, setShowHeuristicViolations] = useState(true);
+  const [showHeuristicField, setShowHeuristicField] = useState(false);
+  
+  // The graph as it was when the current node drag began. A drag commits a
+  // new graph on every mouse move, so the heuristic check holds on to this
+  // one and catches up once, when the drag ends
+  const [dragStartGraph, setDragStartGraph] = useState<Graph | null>(null);
   
   // Algorithm visualizer hook
   const visualizer = useAlgorithmVisualizer({
@@ -60,111 +138,418 @@ export function AlgorithmVisualizer({ onBackToDashboard }: AlgorithmVisualizerPr
     sourceId,
     targetId,
     algorithm,
+    heuristic,
+    parameters,
+    queue: queueType,
+    tieBreaking,
   });
   
+  // Path of the selected matrix pair or ranked path, as of the current step
+  const allPairs = visualizer.currentStep?.allPairs ?? null;
+  const kShortest = visualizer.currentStep?.kShortest ?? null;
+  const highlightedPath = useMemo(() => {
+    if (kShortest) {
+      const path = selectedPathIndex !== null ? kShortest.found[selectedPathIndex] : undefined;
+      return path ? { nodes: path.nodes, edges: path.edges } : null;
+    }
+    if (!allPairs || !selectedPair) return null;
+    const i = allPairs.nodes.indexOf(selectedPair.from);
+    const j = allPairs.nodes.indexOf(selectedPair.to);
+    if (i < 0 || j < 0) return null;
+    const nodes = reconstructAllPairsPath(allPairs.nodes, allPairs.next, i, j);
+    if (!nodes) return null;
+    const edges: string[] = [];
+    for (let p = 0; p < nodes.length - 1; p++) {
+      const edge = getEdgeBetween(graph, nodes[p], nodes[p + 1]);
+      if (edge) edges.push(edge.id);
+    }
+    return { nodes, edges };
+  }, [kShortest, selectedPathIndex, allPairs, selectedPair, graph]);
+  
+  // Both trees of the current graph; the SPT needs a source to grow from
+  const treeOverlay = useMemo(() => {
+    if (!showTreeOverlay) return null;
+    const spt = new Set<string>();
+    if (sourceId && graph.nodes.has(sourceId)) {
+      for (const edgeId of runDijkstra(graph, sourceId).predecessorEdges.values()) {
+        if (edgeId) spt.add(edgeId);
+      }
+    }
+    return { mst: minimumSpanningForest(graph), spt };
+  }, [showTreeOverlay, graph, sourceId]);
+  
+  // The heuristic checked against true distances to the target, for the algorithms that use one
+  const usesHeuristic = ALGORITHMS[algorithm].requires.heuristic;
+  const heuristicUnavailable = !targetId || !graph.nodes.has(targetId)
+    ? 'Set a target to check the heuristic against the true distances'
+    : hasNegativeWeights(graph)
+      ? 'True distances need non-negative edge weights'
+      : null;
+  const analyzedGraph = dragStartGraph ?? graph;
+  const heuristicAnalysis = useMemo(() => {
+    if (!usesHeuristic || heuristicUnavailable) return null;
+    return analyzeHeuristic(analyzedGraph, targetId!, heuristic);
+  }, [usesHeuristic, heuristicUnavailable, analyzedGraph, targetId, heuristic]);
+  const heuristicViolations = useMemo(() => {
+    if (!showHeuristicViolations || !heuristicAnalysis) return null;
+    return {
+      nodes: new Set(heuristicAnalysis.overestimates.keys()),
+      edges: new Set(heuristicAnalysis.inconsistentEdges.keys()),
+    };
+  }, [showHeuristicViolations, heuristicAnalysis]);
+  
+  // h at every canvas point for the heat-map; only the target's position matters
+  const targetNode = targetId ? graph.nodes.get(targetId) : undefined;
+  const targetX = targetNode?.x;
+  const targetY = targetNode?.y;
+  const heuristicField = useMemo(() => {
+    if (!showHeuristicField || !usesHeuristic || targetX === undefined || targetY === undefined) return null;
+    const h = createHeuristic(heuristic);
+    const target: Node = { id: '', x: targetX, y: targetY };
+    return (x: number, y: number) => h({ id: '', x, y }, target);
+  }, [showHeuristicField, usesHeuristic, heuristic, targetX, targetY]);
+  
+  // Delete a node and its edges, clearing source/target if it was one
+  const handleDeleteNode = useCallback((nodeId: string) => {
+    history.commit(`Delete node ${nodeId}`, s => ({
+      graph: removeNode(s.graph, nodeId),
+      sourceId: s.sourceId === nodeId ? null : s.sourceId,
+      targetId: s.targetId === nodeId ? null : s.targetId,
+    }));
+    setSelectedNodeId(id => (id === nodeId ? null : id));
+    setEdgeStartNode(id => (id === nodeId ? null : id));
+    visualizer.reset();
+  }, [history, visualizer]);
+  
+  const handleDeleteEdge = useCallback((edgeId: string) => {
+    const edge = graph.edges.get(edgeId);
+    if (!edge) return;
+    history.commit(`Delete edge ${edge.source}–${edge.target}`, s => ({
+      ...s,
+      graph: removeEdge(s.graph, edgeId),
+    }));
+    visualizer.reset();
+  }, [graph, history, visualizer]);
+  
+  // Source/target changes are not undo steps, but are restored with the graph
+  const handleSetSource = useCallback((nodeId: string) => {
+    history.replace(s => ({ ...s, sourceId: nodeId }));
+    visualizer.reset();
+  }, [history, visualizer]);
+  
+  const handleSetTarget = useCallback((nodeId: string) => {
+    history.replace(s => ({ ...s, targetId: nodeId }));
+    visualizer.reset();
+  }, [history, visualizer]);
+  
+  // A finished run's bound or ranked paths no longer match a new ε or k
+  const handleParameterChange = useCallback((key: AlgorithmParameterKey, value: number) => {
+    setParameters(p => ({ ...p, [key]: value }));
+    setSelectedPathIndex(null);
+    visualizer.reset();
+  }, [visualizer]);
+  
+  // Switching off the opt-in would block the run still on screen
+  const handleAllowNegativeWeightsChange = useCallback((allow: boolean) => {
+    setAllowNegativeWeights(allow);
+    visualizer.reset();
+  }, [visualizer]);
+  
   // Handle node click based on current mode
   const handleNodeClick = useCallback((nodeId: string) => {
     switch (mode) {
       case 'select-source':
-        setSourceId(nodeId);
-        visualizer.reset();
+        handleSetSource(nodeId);
         break;
       case 'select-target':
-        setTargetId(nodeId);
-        visualizer.reset();
+        handleSetTarget(nodeId);
         break;
       case 'add-edge':
         if (!edgeStartNode) {
           setEdgeStartNode(nodeId);
-        } else if (edgeStartNode !== nodeId) {
-          // Check if edge already exists
-          const existingEdge = getEdgeBetween(graph, edgeStartNode, nodeId);
-          if (!existingEdge) {
-            setPendingEdge({ source: edgeStartNode, target: nodeId });
-            setEdgeDialogOpen(true);
-          }
+        } else {
+          // Parallel edges and self-loops (clicking the start node again) are allowed
+          setPendingEdge({ source: edgeStartNode, target: nodeId });
+          setEdgeDialogOpen(true);
           setEdgeStartNode(null);
         }
         break;
+      case 'delete':
+        handleDeleteNode(nodeId);
+        break;
       case 'view':
         setSelectedNodeId(nodeId === selectedNodeId ? null : nodeId);
         break;
     }
-  }, [mode, edgeStartNode, graph, selectedNodeId, visualizer]);
+  }, [mode, edgeStartNode, selectedNodeId, handleSetSource, handleSetTarget, handleDeleteNode]);
+  
+  // Edge click: delete in delete mode, otherwise edit its weight
+  const handleEdgeClick = useCallback((edgeId: string) => {
+    if (mode === 'delete') {
+      handleDeleteEdge(edgeId);
+    } else if (mode === 'view') {
+      setEditingEdgeId(edgeId);
+    }
+  }, [mode, handleDeleteEdge]);
+  
+  // Add a node with the next free letter label
+  const handleAddNode = useCallback((x: number, y: number) => {
+    // Skip labels already taken (imported or renamed nodes may use any IDs)
+    let counter = nodeCounter;
+    let label = nodeLabel(counter);
+    while (graph.nodes.has(label)) {
+      label = nodeLabel(++counter);
+    }
+    
+    const newNode: Node = {
+      id: label,
+      x,
+      y,
+      label,
+    };
+    
+    history.commit(`Add node ${label}`, s => ({ ...s, graph: addNode(s.graph, newNode) }));
+    setNodeCounter(counter + 1);
+    visualizer.reset();
+  }, [nodeCounter, graph, history, visualizer]);
   
   // Handle canvas click for adding nodes
   const handleCanvasClick = useCallback((x: number, y: number) => {
     if (mode === 'add-node') {
-      const label = nodeCounter < 26 
-        ? ALPHABET[nodeCounter] 
-        : `N${nodeCounter - 25}`;
-      
-      const newNode: Node = {
-        id: label,
-        x,
-        y,
-        label,
-      };
-      
-      setGraph(g => addNode(g, newNode));
-      setNodeCounter(c => c + 1);
-      visualizer.reset();
+      handleAddNode(x, y);
     }
-  }, [mode, nodeCounter, visualizer]);
+  }, [mode, handleAddNode]);
   
-  // Handle node dragging
+  // Handle node dragging; one drag gesture becomes one history entry
   const handleNodeDrag = useCallback((nodeId: string, x: number, y: number) => {
-    setGraph(g => {
-      const node = g.nodes.get(nodeId);
-      if (!node) return g;
+    setDragStartGraph(g => g ?? graph);
+    history.commit(`Move ${nodeId}`, s => {
+      const node = s.graph.nodes.get(nodeId);
+      if (!node) return s;
       
-      const newNodes = new Map(g.nodes);
+      const newNodes = new Map(s.graph.nodes);
       newNodes.set(nodeId, { ...node, x, y });
       
-      return { ...g, nodes: newNodes };
-    });
-  }, []);
+      return { ...s, graph: { ...s.graph, nodes: newNodes } };
+    }, `drag:${nodeId}`);
+  }, [history, graph]);
+  
+  const handleNodeDragEnd = useCallback(() => {
+    history.endCoalesce();
+    setDragStartGraph(null);
+  }, [history]);
   
   // Handle edge creation confirmation
-  const handleEdgeConfirm = useCallback((weight: number) => {
+  const handleEdgeConfirm = useCallback((weight: number, directed: boolean) => {
     if (pendingEdge) {
-      const edgeId = `${pendingEdge.source}${pendingEdge.target}`;
-      setGraph(g => addEdge(g, {
-        id: edgeId,
-        source: pendingEdge.source,
-        target: pendingEdge.target,
-        weight,
+      const edgeId = nextEdgeId(graph, pendingEdge.source, pendingEdge.target);
+      history.commit(`Add edge ${pendingEdge.source}–${pendingEdge.target}`, s => ({
+        ...s,
+        graph: addEdge(s.graph, {
+          id: edgeId,
+          source: pendingEdge.source,
+          target: pendingEdge.target,
+          weight,
+          directed,
+        }),
       }));
       visualizer.reset();
     }
     setEdgeDialogOpen(false);
     setPendingEdge(null);
-  }, [pendingEdge, visualizer]);
+  }, [pendingEdge, graph, history, visualizer]);
+  
+  // Handle weight edit confirmation
+  const handleEdgeWeightEdit = useCallback((weight: number) => {
+    const edge = editingEdgeId ? graph.edges.get(editingEdgeId) : undefined;
+    if (edge && edge.weight !== weight) {
+      history.commit(`Set ${edge.source}–${edge.target} weight to ${weight}`, s => ({
+        ...s,
+        graph: updateEdge(s.graph, edge.id, { weight }),
+      }));
+      visualizer.reset();
+    }
+    setEditingEdgeId(null);
+  }, [editingEdgeId, graph, history, visualizer]);
+  
+  // Handle rename confirmation; the dialog has already checked for collisions
+  const handleRenameConfirm = useCallback((newId: string) => {
+    const oldId = renamingNodeId;
+    if (oldId && newId !== oldId) {
+      history.commit(`Rename ${oldId} to ${newId}`, s => ({
+        graph: renameNode(s.graph, oldId, newId),
+        sourceId: s.sourceId === oldId ? newId : s.sourceId,
+        targetId: s.targetId === oldId ? newId : s.targetId,
+      }));
+      setSelectedNodeId(id => (id === oldId ? newId : id));
+      visualizer.reset();
+    }
+    setRenamingNodeId(null);
+  }, [renamingNodeId, history, visualizer]);
   
   // Clear graph
   const handleClearGraph = useCallback(() => {
-    setGraph(createGraph(false));
-    setSourceId(null);
-    setTargetId(null);
+    history.commit('Clear graph', s => ({ graph: createGraph(s.graph.directed), sourceId: null, targetId: null }));
     setSelectedNodeId(null);
     setNodeCounter(0);
     resetIdCounters();
     visualizer.reset();
-  }, [visualizer]);
+  }, [history, visualizer]);
   
   // Load sample graph
   const handleLoadSample = useCallback(() => {
-    setGraph(createSampleGraph());
-    setSourceId('A');
-    setTargetId('F');
+    history.commit('Load sample', () => ({ graph: createSampleGraph(), sourceId: 'A', targetId: 'F' }));
     setNodeCounter(6);
     visualizer.reset();
-  }, [visualizer]);
+  }, [history, visualizer]);
+  
+  // Project network for the DAG algorithms, from start to finish event
+  const handleLoadProject = useCallback(() => {
+    history.commit('Load project example', () => ({ graph: createProjectGraph(), sourceId: 'A', targetId: 'H' }));
+    setNodeCounter(8);
+    visualizer.reset();
+  }, [history, visualizer]);
+  
+  // Replace the graph with a generated one, from its first to its last node
+  const handleGenerateGraph = useCallback((options: GeneratorOptions) => {
+    const generated = generateGraph(options);
+    const ids = [...generated.nodes.keys()];
+    history.commit(`Generate ${GRAPH_GENERATORS[options.type].label} graph (seed ${options.seed})`, () => ({
+      graph: generated,
+      sourceId: ids[0],
+      targetId: ids[ids.length - 1],
+    }));
+    setSelectedNodeId(null);
+    setNodeCounter(ids.length);
+    visualizer.reset();
+    toast.success(`Generated ${generated.nodes.size} nodes and ${generated.edges.size} edges`);
+  }, [history, visualizer]);
+  
+  // Switching direction asks how to convert existing edges
+  const handleDirectedChange = useCallback((directed: boolean) => {
+    if (graph.edges.size === 0) {
+      history.commit(directed ? 'Make graph directed' : 'Make graph undirected', s => ({
+        ...s,
+        graph: setGraphDirected(s.graph, directed, 'keep-edges'),
+      }));
+    } else {
+      setPendingDirected(directed);
+    }
+  }, [graph, history]);
+  
+  const handleDirectionConfirm = useCallback((conversion: DirectionConversion) => {
+    if (pendingDirected !== null) {
+      const directed = pendingDirected;
+      history.commit(directed ? 'Make graph directed' : 'Make graph undirected', s => ({
+        ...s,
+        graph: setGraphDirected(s.graph, directed, conversion),
+      }));
+      visualizer.reset();
+    }
+    setPendingDirected(null);
+  }, [pendingDirected, history, visualizer]);
+  
+  // Undo/redo move through history; the running visualization no longer
+  // matches the graph, so it is reset
+  const handleUndo = useCallback(() => {
+    history.undo();
+    setSelectedNodeId(null);
+    setEdgeStartNode(null);
+    visualizer.reset();
+  }, [history, visualizer]);
+  
+  const handleRedo = useCallback(() => {
+    history.redo();
+    setSelectedNodeId(null);
+    setEdgeStartNode(null);
+    visualizer.reset();
+  }, [history, visualizer]);
+  
+  const handleJumpToHistory = useCallback((index: number) => {
+    history.jumpTo(index);
+    setSelectedNodeId(null);
+    setEdgeStartNode(null);
+    visualizer.reset();
+  }, [history, visualizer]);
+  
+  // Keyboard shortcuts: Ctrl+Z undo, Ctrl+Shift+Z / Ctrl+Y redo, Delete removes selection
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) {
+        return;
+      }
+      
+      // Delete/Backspace removes the selected node
+      if ((e.key === 'Delete' || e.key === 'Backspace') && selectedNodeId) {
+        e.preventDefault();
+        handleDeleteNode(selectedNodeId);
+        return;
+      }
+      
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo, handleDeleteNode, selectedNodeId]);
+  
+  // Import a graph file (JSON, DOT, GraphML or a DIMACS .gr/.co pair)
+  const handleImportGraph = useCallback(async (files: File[]) => {
+    const names = files.map(f => f.name).join(', ');
+    try {
+      const contents = await Promise.all(files.map(async f => ({ name: f.name, content: await f.text() })));
+      const { document, warnings } = importGraphFiles(contents);
+      const { graph: imported, selection } = document;
+      history.commit(`Import ${names}`, () => ({ graph: imported, ...selection }));
+      setSelectedNodeId(null);
+      setNodeCounter(imported.nodes.size);
+      visualizer.reset();
+      if (warnings.length > 0) {
+        toast.warning(`Imported ${names} with warnings`, { description: warnings.join('\n') });
+      } else {
+        toast.success(`Imported ${names}`);
+      }
+    } catch (err) {
+      // Nothing awaits this callback, so a rethrown error would go unseen: report every failure
+      if (!(err instanceof GraphFormatError)) console.error('Import error:', err);
+      toast.error(`Could not import ${names}`, {
+        description: err instanceof GraphFormatError
+          ? err.message
+          : 'The files could not be read or parsed. Check that they are text files in a supported format.',
+      });
+    }
+  }, [history, visualizer]);
+  
+  // Export the current graph and selection
+  const handleExportGraph = useCallback((format: GraphFileFormat) => {
+    try {
+      const files = exportGraphFiles(format, { graph, selection: { sourceId, targetId } });
+      for (const file of files) {
+        downloadTextFile(file.name, file.content, file.mimeType);
+      }
+    } catch (err) {
+      if (!(err instanceof GraphFormatError)) throw err;
+      toast.error('Could not export graph', { description: err.message });
+    }
+  }, [graph, sourceId, targetId]);
   
   // Check if we can start the algorithm
-  const canStart = sourceId !== null && 
-    graph.nodes.size > 0 && 
-    (algorithm === 'dijkstra' || targetId !== null);
+  const negativeWeights = hasNegativeWeights(graph);
+  const definition = ALGORITHMS[algorithm];
+  const panel = definition.capabilities.panel;
+  const tooLarge = definition.requires.maxNodes !== undefined && graph.nodes.size > definition.requires.maxNodes;
+  const canStart = getMissingInput(definition, graph, sourceId, targetId) === null &&
+    (!definition.requires.nonNegativeWeights || !negativeWeights || allowNegativeWeights);
   
   return (
     <div className="h-screen flex flex-col bg-background">
@@ -207,15 +592,43 @@ export function AlgorithmVisualizer({ onBackToDashboard }: AlgorithmVisualizerPr
             <Toolbar
               mode={mode}
               algorithm={algorithm}
+              directed={graph.directed}
+              hasNegativeWeights={negativeWeights}
+              allowNegativeWeights={allowNegativeWeights}
+              parameters={parameters}
+              heuristic={heuristic}
+              queueType={queueType}
+              tieBreaking={tieBreaking}
               sourceId={sourceId}
               targetId={targetId}
               onModeChange={setMode}
               onAlgorithmChange={(alg) => {
                 setAlgorithm(alg);
+                setSelectedPair(null);
+                setSelectedPathIndex(null);
+                visualizer.reset();
+              }}
+              onDirectedChange={handleDirectedChange}
+              onAllowNegativeWeightsChange={handleAllowNegativeWeightsChange}
+              onParameterChange={handleParameterChange}
+              onHeuristicChange={(settings) => {
+                setHeuristic(settings);
+                visualizer.reset();
+              }}
+              onQueueTypeChange={(type) => {
+                setQueueType(type);
+                visualizer.reset();
+              }}
+              onTieBreakingChange={(settings) => {
+                setTieBreaking(settings);
                 visualizer.reset();
               }}
               onClearGraph={handleClearGraph}
               onLoadSample={handleLoadSample}
+              onLoadProject={handleLoadProject}
+              onGenerateGraph={handleGenerateGraph}
+              onImportGraph={handleImportGraph}
+              onExportGraph={handleExportGraph}
             />
             
             <div className="mt-4">
@@ -228,6 +641,9 @@ export function AlgorithmVisualizer({ onBackToDashboard }: AlgorithmVisualizerPr
                 totalSteps={visualizer.steps.length}
                 speed={visualizer.speed}
                 explanationLevel={visualizer.explanationLevel}
+                isGenerating={visualizer.isGenerating}
+                generationProgress={visualizer.progress}
+                generationError={visualizer.generationError}
                 onStart={visualizer.start}
                 onPause={visualizer.pause}
                 onResume={visualizer.resume}
@@ -236,6 +652,23 @@ export function AlgorithmVisualizer({ onBackToDashboard }: AlgorithmVisualizerPr
                 onPrevStep={visualizer.prevStep}
                 onSpeedChange={visualizer.setSpeed}
                 onExplanationLevelChange={visualizer.setExplanationLevel}
+                onCancel={visualizer.cancel}
+              />
+            </div>
+            
+            <div className="mt-4">
+              <MetricsPanel metrics={visualizer.metrics} currentStepIndex={visualizer.currentStepIndex} />
+            </div>
+            
+            <div className="mt-4">
+              <HistoryPanel
+                entries={history.entries}
+                currentIndex={history.index}
+                canUndo={history.canUndo}
+                canRedo={history.canRedo}
+                onUndo={handleUndo}
+                onRedo={handleRedo}
+                onJumpTo={handleJumpToHistory}
               />
             </div>
           </aside>
@@ -246,28 +679,93 @@ export function AlgorithmVisualizer({ onBackToDashboard }: AlgorithmVisualizerPr
         {/* Center - Graph canvas */}
         <ResizablePanel defaultSize={55} minSize={30}>
           <main className="h-full relative">
-            <GraphCanvas
+            <GraphContextMenu
               graph={graph}
-              currentStep={visualizer.currentStep}
-              sourceId={sourceId}
-              targetId={targetId}
-              selectedNodeId={selectedNodeId}
-              onNodeClick={handleNodeClick}
-              onCanvasClick={handleCanvasClick}
-              onNodeDrag={handleNodeDrag}
-              mode={mode}
-              edgeStartNode={edgeStartNode}
-            />
+              target={contextTarget}
+              onAddNode={handleAddNode}
+              onRenameNode={setRenamingNodeId}
+              onSetSource={handleSetSource}
+              onSetTarget={handleSetTarget}
+              onDeleteNode={handleDeleteNode}
+              onEditEdge={setEditingEdgeId}
+              onDeleteEdge={handleDeleteEdge}
+            >
+              <GraphCanvas
+                graph={graph}
+                currentStep={visualizer.currentStep}
+                sourceId={sourceId}
+                targetId={targetId}
+                selectedNodeId={selectedNodeId}
+                highlightedPath={highlightedPath}
+                treeOverlay={treeOverlay}
+                heuristicViolations={heuristicViolations}
+                heuristicField={heuristicField}
+                onNodeClick={handleNodeClick}
+                onCanvasClick={handleCanvasClick}
+                onNodeDrag={handleNodeDrag}
+                onNodeDragEnd={handleNodeDragEnd}
+                onEdgeClick={handleEdgeClick}
+                onContextTarget={setContextTarget}
+                mode={mode}
+                edgeStartNode={edgeStartNode}
+              />
+            </GraphContextMenu>
             
             {/* Mode indicator */}
             {mode !== 'view' && (
               <div className="absolute top-4 left-4 bg-primary text-primary-foreground px-3 py-1.5 rounded-full text-sm font-medium">
                 {mode === 'add-node' && 'Click canvas to add node'}
-                {mode === 'add-edge' && (edgeStartNode ? `Click second node (from ${edgeStartNode})` : 'Click first node')}
+                {mode === 'add-edge' && (edgeStartNode ? `Click second node (from ${edgeStartNode}; click it again for a self-loop)` : 'Click first node')}
                 {mode === 'select-source' && 'Click node to set as source'}
                 {mode === 'select-target' && 'Click node to set as target'}
+                {mode === 'delete' && 'Click a node or edge to delete it'}
               </div>
             )}
+            
+            {/* MST vs shortest-path tree overlay */}
+            <div className="absolute top-4 right-4 bg-card/90 border border-border rounded-lg px-3 py-2 space-y-2 text-xs">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="tree-overlay"
+                  checked={showTreeOverlay}
+                  onCheckedChange={setShowTreeOverlay}
+                />
+                <Label htmlFor="tree-overlay" className="text-xs cursor-pointer">
+                  MST vs shortest-path tree
+                </Label>
+              </div>
+              {showTreeOverlay && (
+                <div className="space-y-1 text-muted-foreground">
+                  <div className="flex items-center gap-2">
+                    <span className="w-5 h-1 rounded bg-primary" /> Minimum spanning tree only
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="w-5 border-t-2 border-dashed border-node-visited" />
+                    {sourceId ? `Shortest paths from ${sourceId} only` : 'Set a source to see shortest paths'}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="w-5 h-1 rounded bg-edge-path" /> In both trees
+                  </div>
+                </div>
+              )}
+              {usesHeuristic && (
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="heuristic-field"
+                    checked={showHeuristicField}
+                    onCheckedChange={setShowHeuristicField}
+                  />
+                  <Label htmlFor="heuristic-field" className="text-xs cursor-pointer">
+                    Heuristic heat-map
+                  </Label>
+                </div>
+              )}
+              {usesHeuristic && showHeuristicField && (
+                <div className="text-muted-foreground">
+                  {targetId ? `Deeper tint = lower h, i.e. closer to ${targetId} by the estimate` : 'Set a target to see h'}
+                </div>
+              )}
+            </div>
           </main>
         </ResizablePanel>
         
@@ -282,6 +780,46 @@ export function AlgorithmVisualizer({ onBackToDashboard }: AlgorithmVisualizerPr
                 currentLine={visualizer.currentStep?.pseudocodeLine ?? -1}
               />
             </div>
+            {panel === 'matrix' && (
+              <div className="flex-1 border-b border-border overflow-hidden">
+                <MatrixPanel
+                  matrix={allPairs}
+                  updated={visualizer.currentStep?.type === 'relax-edge'}
+                  selectedPair={selectedPair}
+                  tooLarge={tooLarge}
+                  onSelectPair={setSelectedPair}
+                />
+              </div>
+            )}
+            {panel === 'paths' && (
+              <div className="flex-1 border-b border-border overflow-hidden">
+                <PathListPanel
+                  state={kShortest}
+                  selectedIndex={selectedPathIndex}
+                  onSelect={setSelectedPathIndex}
+                />
+              </div>
+            )}
+            {usesHeuristic && (
+              <div className="flex-1 border-b border-border overflow-hidden">
+                <HeuristicPanel
+                  analysis={heuristicAnalysis}
+                  settings={heuristic}
+                  unavailable={heuristicUnavailable}
+                  highlight={showHeuristicViolations}
+                  onHighlightChange={setShowHeuristicViolations}
+                  onScaleChange={(scale) => {
+                    setHeuristic(h => ({ ...h, scale }));
+                    visualizer.reset();
+                  }}
+                />
+              </div>
+            )}
+            {panel === 'union-find' && (
+              <div className="flex-1 border-b border-border overflow-hidden">
+                <UnionFindPanel state={visualizer.currentStep?.unionFind ?? null} />
+              </div>
+            )}
             <div className="flex-1 overflow-hidden">
               <InsightPanel
                 currentStep={visualizer.currentStep}
@@ -297,12 +835,41 @@ export function AlgorithmVisualizer({ onBackToDashboard }: AlgorithmVisualizerPr
         open={edgeDialogOpen}
         sourceLabel={pendingEdge?.source ?? ''}
         targetLabel={pendingEdge?.target ?? ''}
+        defaultDirected={graph.directed}
         onConfirm={handleEdgeConfirm}
         onCancel={() => {
           setEdgeDialogOpen(false);
           setPendingEdge(null);
         }}
       />
+      
+      {/* Edge weight editing */}
+      <EdgeWeightDialog
+        open={editingEdgeId !== null}
+        sourceLabel={editingEdgeId ? graph.edges.get(editingEdgeId)?.source ?? '' : ''}
+        targetLabel={editingEdgeId ? graph.edges.get(editingEdgeId)?.target ?? '' : ''}
+        initialWeight={editingEdgeId ? graph.edges.get(editingEdgeId)?.weight : undefined}
+        onConfirm={handleEdgeWeightEdit}
+        onCancel={() => setEditingEdgeId(null)}
+      />
+      
+      {/* Direction conversion */}
+      <GraphDirectionDialog
+        open={pendingDirected !== null}
+        graph={graph}
+        directed={pendingDirected ?? graph.directed}
+        onConfirm={handleDirectionConfirm}
+        onCancel={() => setPendingDirected(null)}
+      />
+      
+      {/* Node rename */}
+      <NodeRenameDialog
+        open={renamingNodeId !== null}
+        nodeId={renamingNodeId ?? ''}
+        isTaken={(id) => graph.nodes.has(id)}
+        onConfirm={handleRenameConfirm}
+        onCancel={() => setRenamingNodeId(null)}
+      />
     </div>
   );
 }
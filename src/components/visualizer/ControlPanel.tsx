@@ -5,16 +5,20 @@
 import React from 'react';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
+import { Progress } from '@/components/ui/progress';
 import { 
   Play, 
   Pause, 
   SkipForward, 
   SkipBack, 
   RotateCcw,
-  Gauge
+  Gauge,
+  Loader2,
+  X
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { ExplanationLevel } from '@/core/types';
+import { TraceProgress } from '@/workers/traceProtocol';
 
 interface ControlPanelProps {
   isRunning: boolean;
@@ -25,6 +29,9 @@ interface ControlPanelProps {
   totalSteps: number;
   speed: number;
   explanationLevel: ExplanationLevel;
+  isGenerating?: boolean; // Steps are still being generated; totalSteps will grow
+  generationProgress?: TraceProgress | null;
+  generationError?: string | null;
   onStart: () => void;
   onPause: () => void;
   onResume: () => void;
@@ -33,6 +40,7 @@ interface ControlPanelProps {
   onPrevStep: () => void;
   onSpeedChange: (speed: number) => void;
   onExplanationLevelChange: (level: ExplanationLevel) => void;
+  onCancel?: () => void;
 }
 
 export function ControlPanel({
@@ -44,6 +52,9 @@ export function ControlPanel({
   totalSteps,
   speed,
   explanationLevel,
+  isGenerating = false,
+  generationProgress = null,
+  generationError = null,
   onStart,
   onPause,
   onResume,
@@ -52,6 +63,7 @@ export function ControlPanel({
   onPrevStep,
   onSpeedChange,
   onExplanationLevelChange,
+  onCancel,
 }: ControlPanelProps) {
   const hasStarted = currentStepIndex >= 0;
   
@@ -111,11 +123,49 @@ export function ControlPanel({
         </Button>
       </div>
       
+      {/* Generation progress */}
+      {isGenerating && (
+        <div className="space-y-1.5">
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span className="flex items-center gap-1.5">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Generating steps… {generationProgress?.steps.toLocaleString() ?? 0}
+            </span>
+            {onCancel && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onCancel}
+                className="h-6 px-2 text-xs"
+                title="Stop generating; steps so far stay playable"
+              >
+                <X className="h-3 w-3 mr-1" />
+                Cancel
+              </Button>
+            )}
+          </div>
+          {generationProgress && generationProgress.nodes > 0 && (
+            <>
+              <Progress
+                value={generationProgress.visited / generationProgress.nodes * 100}
+                className="h-1.5"
+              />
+              <div className="text-xs text-muted-foreground">
+                {generationProgress.visited} of {generationProgress.nodes} nodes reached
+              </div>
+            </>
+          )}
+        </div>
+      )}
+      {generationError && (
+        <p className="text-xs text-destructive">Step generation stopped: {generationError}</p>
+      )}
+      
       {/* Progress indicator */}
-      {hasStarted && (
+      {hasStarted && totalSteps > 0 && (
         <div className="space-y-1">
           <div className="flex justify-between text-xs text-muted-foreground">
-            <span>Step {currentStepIndex + 1} of {totalSteps}</span>
+            <span>Step {currentStepIndex + 1} of {totalSteps}{isGenerating && '+'}</span>
             <span>{Math.round((currentStepIndex + 1) / totalSteps * 100)}%</span>
           </div>
           <div className="h-1.5 bg-muted rounded-full overflow-hidden">
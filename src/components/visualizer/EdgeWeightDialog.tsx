@@ -1,8 +1,8 @@
 /**
- * EdgeWeightDialog - Modal for entering edge weight when creating edges
+ * EdgeWeightDialog - Modal for entering edge weight when creating or editing edges
  */
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -14,12 +14,17 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 
 interface EdgeWeightDialogProps {
   open: boolean;
   sourceLabel: string;
   targetLabel: string;
-  onConfirm: (weight: number) => void;
+  // When set, the dialog edits an existing edge starting from this weight
+  initialWeight?: number;
+  // Initial state of the one-way switch when adding an edge
+  defaultDirected?: boolean;
+  onConfirm: (weight: number, directed: boolean) => void;
   onCancel: () => void;
 }
 
@@ -27,21 +32,33 @@ export function EdgeWeightDialog({
   open,
   sourceLabel,
   targetLabel,
+  initialWeight,
+  defaultDirected = false,
   onConfirm,
   onCancel,
 }: EdgeWeightDialogProps) {
   const [weight, setWeight] = useState('1');
   const [error, setError] = useState('');
+  const [directed, setDirected] = useState(defaultDirected);
+  const isEditing = initialWeight !== undefined;
+  
+  // Start from the edge's current weight each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setWeight(String(initialWeight ?? 1));
+      setDirected(defaultDirected);
+      setError('');
+    }
+  }, [open, initialWeight, defaultDirected]);
   
   const handleConfirm = () => {
     const numWeight = parseFloat(weight);
-    if (isNaN(numWeight) || numWeight <= 0) {
-      setError('Please enter a positive number');
+    if (!Number.isFinite(numWeight)) {
+      setError('Please enter a number');
       return;
     }
-    onConfirm(numWeight);
-    setWeight('1');
-    setError('');
+    // State is reset when the dialog next opens, so a rejected edge keeps its inputs
+    onConfirm(numWeight, directed);
   };
   
   const handleCancel = () => {
@@ -54,9 +71,9 @@ export function EdgeWeightDialog({
     <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleCancel()}>
       <DialogContent className="sm:max-w-[360px]">
         <DialogHeader>
-          <DialogTitle>Add Edge</DialogTitle>
+          <DialogTitle>{isEditing ? 'Edit Edge Weight' : 'Add Edge'}</DialogTitle>
           <DialogDescription>
-            Create an edge from <span className="font-mono text-primary">{sourceLabel}</span> to{' '}
+            {isEditing ? 'Change the weight of the edge from' : 'Create an edge from'} <span className="font-mono text-primary">{sourceLabel}</span> to{' '}
             <span className="font-mono text-primary">{targetLabel}</span>
           </DialogDescription>
         </DialogHeader>
@@ -67,7 +84,6 @@ export function EdgeWeightDialog({
             <Input
               id="weight"
               type="number"
-              min="0.1"
               step="0.1"
               value={weight}
               onChange={(e) => {
@@ -82,7 +98,27 @@ export function EdgeWeightDialog({
             {error && (
               <p className="text-xs text-destructive">{error}</p>
             )}
+            {!error && parseFloat(weight) <= 0 && (
+              <p className="text-xs text-muted-foreground">
+                {parseFloat(weight) < 0
+                  ? 'Negative weights break Dijkstra and A*, which assume a settled node can never get cheaper. Use Bellman-Ford to handle them.'
+                  : 'Zero-weight edges are allowed, but a zero-cost step can make ties and paths harder to read.'}
+              </p>
+            )}
           </div>
+          
+          {!isEditing && (
+            <div className="flex items-center justify-between">
+              <Label htmlFor="directed" className="font-normal">
+                One-way (<span className="font-mono">{sourceLabel}</span> → <span className="font-mono">{targetLabel}</span>)
+              </Label>
+              <Switch
+                id="directed"
+                checked={directed}
+                onCheckedChange={setDirected}
+              />
+            </div>
+          )}
         </div>
         
         <DialogFooter>
@@ -90,7 +126,7 @@ export function EdgeWeightDialog({
             Cancel
           </Button>
           <Button onClick={handleConfirm}>
-            Add Edge
+            {isEditing ? 'Save' : 'Add Edge'}
           </Button>
         </DialogFooter>
       </DialogContent>
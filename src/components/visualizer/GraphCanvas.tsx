@@ -3,9 +3,12 @@
  * Handles node/edge visualization and user interactions
  */
 
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
 import { Graph, Node, Edge, NodeState, EdgeState, AlgorithmStep } from '@/core/types';
+import { isEdgeDirected } from '@/core/graph';
+import { fScoreOf } from '@/core/algorithms/heuristics';
 import { cn } from '@/lib/utils';
+import { ContextTarget } from './GraphContextMenu';
 
 interface GraphCanvasProps {
   graph: Graph;
@@ -13,15 +16,126 @@ interface GraphCanvasProps {
   sourceId: string | null;
   targetId: string | null;
   selectedNodeId: string | null;
+  // Path drawn over the algorithm state, e.g. a pair picked in the matrix panel
+  highlightedPath?: { nodes: string[]; edges: string[] } | null;
+  // Minimum spanning tree and shortest-path tree edges, drawn instead of edge states
+  treeOverlay?: { mst: Set<string>; spt: Set<string> } | null;
+  // Nodes where the heuristic overestimates and edges where it is inconsistent, ringed and dashed in red
+  heuristicViolations?: { nodes: Set<string>; edges: Set<string> } | null;
+  // h at any canvas point, drawn as a background heat-map
+  heuristicField?: ((x: number, y: number) => number) | null;
   onNodeClick: (nodeId: string) => void;
   onCanvasClick: (x: number, y: number) => void;
   onNodeDrag: (nodeId: string, x: number, y: number) => void;
-  mode: 'select-source' | 'select-target' | 'add-node' | 'add-edge' | 'view';
+  onNodeDragEnd: () => void;
+  onEdgeClick: (edgeId: string) => void;
+  onContextTarget: (target: ContextTarget) => void;
+  mode: 'select-source' | 'select-target' | 'add-node' | 'add-edge' | 'delete' | 'view';
   edgeStartNode: string | null;
 }
 
 const NODE_RADIUS = 24;
 
+// Heat-map resolution: cells of at least HEAT_MIN_CELL px, at most
+// HEAT_MAX_CELLS of them, shaded in HEAT_BANDS steps so contours show
+const HEAT_MIN_CELL = 16;
+const HEAT_MAX_CELLS = 4000;
+const HEAT_BANDS = 10;
+const HEAT_MIN_SIZE = { width: 1600, height: 1000 }; // The canvas is usually wider than its nodes reach
+const PARALLEL_SPACING = 36; // Gap between curved edges sharing the same endpoints
+
+/**
+ * Curvature offset per edge. Edges between the same pair of nodes (parallel
+ * roads, or the two directions of a one-way street pair) fan out
+ * symmetrically; offsets are measured against the lower-ID → higher-ID
+ * direction so opposite edges bend to opposite sides. Self-loops instead get
+ * growing loop sizes so they nest above their node.
+ */
+function computeEdgeOffsets(graph: Graph): Map<string, number> {
+  const groups = new Map<string, Edge[]>();
+  for (const edge of graph.edges.values()) {
+    const key = edge.source < edge.target
+      ? `${edge.source}\u0000${edge.target}`
+      : `${edge.target}\u0000${edge.source}`;
+    const group = groups.get(key);
+    if (group) {
+      group.push(edge);
+    } else {
+      groups.set(key, [edge]);
+    }
+  }
+  
+  const offsets = new Map<string, number>();
+  for (const group of groups.values()) {
+    group.forEach((edge, i) => {
+      if (edge.source === edge.target) {
+        offsets.set(edge.id, (i + 1) * PARALLEL_SPACING);
+        return;
+      }
+      const offset = (i - (group.length - 1) / 2) * PARALLEL_SPACING;
+      offsets.set(edge.id, edge.source > edge.target ? -offset : offset);
+    });
+  }
+  return offsets;
+}
+
+interface EdgeGeometry {
+  path: string;
+  labelX: number;
+  labelY: number;
+  endX: number;
+  endY: number;
+  angle: number; // Direction at the target end, in degrees
+}
+
+// Quadratic curve whose midpoint sits `offset` px to the side of the straight line
+function getEdgeGeometry(source: Node, target: Node, offset: number): EdgeGeometry {
+  if (source.id === target.id) return getSelfLoopGeometry(source, offset);
+  
+  const dx = target.x - source.x;
+  const dy = target.y - source.y;
+  const length = Math.sqrt(dx * dx + dy * dy) || 1;
+  const controlX = (source.x + target.x) / 2 - (dy / length) * offset * 2;
+  const controlY = (source.y + target.y) / 2 + (dx / length) * offset * 2;
+  
+  // Offset start and end toward the control point so they don't overlap nodes
+  const [startX, startY] = pointToward(source, controlX, controlY, NODE_RADIUS);
+  const [endX, endY] = pointToward(target, controlX, controlY, NODE_RADIUS);
+  
+  return {
+    path: `M ${startX} ${startY} Q ${controlX} ${controlY} ${endX} ${endY}`,
+    labelX: (startX + 2 * controlX + endX) / 4,
+    labelY: (startY + 2 * controlY + endY) / 4,
+    endX,
+    endY,
+    angle: Math.atan2(endY - controlY, endX - controlX) * 180 / Math.PI,
+  };
+}
+
+// Teardrop loop above the node, leaving and re-entering 30° either side of the top
+function getSelfLoopGeometry(node: Node, size: number): EdgeGeometry {
+  const startX = node.x - NODE_RADIUS / 2;
+  const endX = node.x + NODE_RADIUS / 2;
+  const baseY = node.y - NODE_RADIUS * Math.cos(Math.PI / 6);
+  const controlY = node.y - NODE_RADIUS - size * 1.5;
+  
+  return {
+    path: `M ${startX} ${baseY} C ${node.x - size} ${controlY} ${node.x + size} ${controlY} ${endX} ${baseY}`,
+    labelX: node.x,
+    labelY: 0.25 * baseY + 0.75 * controlY,
+    endX,
+    endY: baseY,
+    angle: Math.atan2(baseY - controlY, endX - (node.x + size)) * 180 / Math.PI,
+  };
+}
+
+function pointToward(node: Node, x: number, y: number, distance: number): [number, number] {
+  const dx = x - node.x;
+  const dy = y - node.y;
+  const length = Math.sqrt(dx * dx + dy * dy) || 1;
+  return [node.x + (dx / length) * distance, node.y + (dy / length) * distance];
+}
+
 export function GraphCanvas({
   graph,
   currentStep,
@@ -31,27 +145,36 @@ export function GraphCanvas({
   onNodeClick,
   onCanvasClick,
   onNodeDrag,
+  onNodeDragEnd,
+  onEdgeClick,
+  onContextTarget,
   mode,
   edgeStartNode,
+  highlightedPath,
+  treeOverlay,
+  heuristicViolations,
+  heuristicField,
 }: GraphCanvasProps) {
   const [draggingNode, setDraggingNode] = useState<string | null>(null);
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
   
   const getNodeState = useCallback((nodeId: string): NodeState => {
+    if (highlightedPath?.nodes.includes(nodeId)) return 'path';
     if (currentStep?.nodeStates.has(nodeId)) {
       return currentStep.nodeStates.get(nodeId)!;
     }
     if (nodeId === sourceId) return 'start';
     if (nodeId === targetId) return 'end';
     return 'default';
-  }, [currentStep, sourceId, targetId]);
+  }, [currentStep, sourceId, targetId, highlightedPath]);
   
   const getEdgeState = useCallback((edgeId: string): EdgeState => {
+    if (highlightedPath?.edges.includes(edgeId)) return 'path';
     if (currentStep?.edgeStates.has(edgeId)) {
       return currentStep.edgeStates.get(edgeId)!;
     }
     return 'default';
-  }, [currentStep]);
+  }, [currentStep, highlightedPath]);
   
   const getNodeColor = (state: NodeState): string => {
     switch (state) {
@@ -61,6 +184,10 @@ export function GraphCanvas({
       case 'visited': return 'hsl(var(--node-visited))';
       case 'in-queue': return 'hsl(var(--primary) / 0.5)';
       case 'path': return 'hsl(var(--node-path))';
+      case 'cycle': return 'hsl(var(--destructive))';
+      case 'backward-visited': return 'hsl(var(--node-backward))';
+      case 'backward-in-queue': return 'hsl(var(--node-backward) / 0.5)';
+      case 'meeting': return 'hsl(var(--node-meeting))';
       default: return 'hsl(var(--node-default))';
     }
   };
@@ -71,23 +198,51 @@ export function GraphCanvas({
       case 'relaxed': return 'hsl(var(--edge-relaxed))';
       case 'rejected': return 'hsl(var(--destructive) / 0.5)';
       case 'path': return 'hsl(var(--edge-path))';
+      case 'cycle': return 'hsl(var(--destructive))';
+      case 'tree': return 'hsl(var(--edge-relaxed))';
+      case 'back': return 'hsl(var(--destructive) / 0.8)';
+      case 'forward': return 'hsl(var(--primary) / 0.6)';
+      case 'cross': return 'hsl(var(--muted-foreground) / 0.6)';
       default: return 'hsl(var(--edge-default))';
     }
   };
   
   const getEdgeWidth = (state: EdgeState): number => {
     switch (state) {
-      case 'path': return 4;
+      case 'path':
+      case 'cycle': return 4;
       case 'considering':
-      case 'relaxed': return 3;
+      case 'relaxed':
+      case 'tree': return 3;
       default: return 2;
     }
   };
   
+  // Overlay colors: MST only, SPT only, both; every other edge fades out
+  const getOverlayStyle = (edgeId: string): { color: string; width: number; dashed?: boolean } => {
+    const inMst = treeOverlay!.mst.has(edgeId);
+    const inSpt = treeOverlay!.spt.has(edgeId);
+    if (inMst && inSpt) return { color: 'hsl(var(--edge-path))', width: 4 };
+    if (inMst) return { color: 'hsl(var(--primary))', width: 4 };
+    if (inSpt) return { color: 'hsl(var(--node-visited))', width: 3, dashed: true };
+    return { color: 'hsl(var(--edge-default) / 0.3)', width: 1 };
+  };
+  
   const getDistance = (nodeId: string): string => {
-    if (!currentStep) return '';
+    // Spanning trees (Kruskal) have no distances to show
+    if (!currentStep || currentStep.distances.size === 0) return '';
     const dist = currentStep.distances.get(nodeId);
+    // Nodes only the backward search has reached show their distance to the target
+    const backwardDist = currentStep.backward?.distances.get(nodeId);
+    if ((dist === undefined || dist === Infinity) && backwardDist !== undefined && backwardDist !== Infinity) {
+      return `←${backwardDist.toFixed(1)}`;
+    }
     if (dist === undefined || dist === Infinity) return '∞';
+    if (dist === -Infinity) return '−∞'; // Longest paths: not reached yet
+    // Best-first searches rank by f, so show it beside g
+    if (currentStep.heuristic) {
+      return `g ${dist.toFixed(1)} · f ${fScoreOf(currentStep.heuristic, nodeId, dist).toFixed(1)}`;
+    }
     return dist.toFixed(1);
   };
   
@@ -103,6 +258,7 @@ export function GraphCanvas({
   
   const handleNodeMouseDown = (e: React.MouseEvent, nodeId: string) => {
     e.stopPropagation();
+    if (e.button !== 0) return; // Right-click opens the context menu instead
     
     if (mode === 'view') {
       const node = graph.nodes.get(nodeId);
@@ -127,6 +283,9 @@ export function GraphCanvas({
   };
   
   const handleMouseUp = () => {
+    if (draggingNode) {
+      onNodeDragEnd();
+    }
     setDraggingNode(null);
   };
   
@@ -137,9 +296,24 @@ export function GraphCanvas({
     }
   };
   
+  const handleEdgeClick = (e: React.MouseEvent, edgeId: string) => {
+    e.stopPropagation();
+    onEdgeClick(edgeId);
+  };
+  
+  // Right-clicks on the bare canvas land on the <svg> itself; node and edge
+  // handlers report their own target and let the event bubble to the menu
+  const handleSvgContextMenu = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (e.target === e.currentTarget) {
+      const rect = e.currentTarget.getBoundingClientRect();
+      onContextTarget({ kind: 'canvas', x: e.clientX - rect.left, y: e.clientY - rect.top });
+    }
+  };
+  
   // Render edges
   const renderEdges = () => {
     const edges: JSX.Element[] = [];
+    const offsets = computeEdgeOffsets(graph);
     
     for (const [edgeId, edge] of graph.edges) {
       const sourceNode = graph.nodes.get(edge.source);
@@ -148,44 +322,49 @@ export function GraphCanvas({
       if (!sourceNode || !targetNode) continue;
       
       const state = getEdgeState(edgeId);
-      const color = getEdgeColor(state);
-      const width = getEdgeWidth(state);
-      
-      // Calculate edge midpoint for weight label
-      const midX = (sourceNode.x + targetNode.x) / 2;
-      const midY = (sourceNode.y + targetNode.y) / 2;
-      
-      // Calculate direction for arrow
-      const dx = targetNode.x - sourceNode.x;
-      const dy = targetNode.y - sourceNode.y;
-      const length = Math.sqrt(dx * dx + dy * dy);
-      const unitX = dx / length;
-      const unitY = dy / length;
-      
-      // Offset start and end to not overlap with nodes
-      const startX = sourceNode.x + unitX * NODE_RADIUS;
-      const startY = sourceNode.y + unitY * NODE_RADIUS;
-      const endX = targetNode.x - unitX * NODE_RADIUS;
-      const endY = targetNode.y - unitY * NODE_RADIUS;
+      const overlay = treeOverlay ? getOverlayStyle(edgeId) : null;
+      const color = overlay?.color ?? getEdgeColor(state);
+      const width = overlay?.width ?? getEdgeWidth(state);
+      const geometry = getEdgeGeometry(sourceNode, targetNode, offsets.get(edgeId) ?? 0);
       
       edges.push(
-        <g key={edgeId}>
-          <line
-            x1={startX}
-            y1={startY}
-            x2={endX}
-            y2={endY}
+        <g
+          key={edgeId}
+          className={cn(mode === 'delete' ? 'cursor-not-allowed' : 'cursor-pointer')}
+          onClick={(e) => handleEdgeClick(e, edgeId)}
+          onContextMenu={() => onContextTarget({ kind: 'edge', edgeId })}
+        >
+          {/* Wide transparent stroke makes thin edges easy to click */}
+          <path
+            d={geometry.path}
+            fill="none"
+            stroke="transparent"
+            strokeWidth={14}
+          />
+          <path
+            d={geometry.path}
+            fill="none"
             stroke={color}
             strokeWidth={width}
             className={cn(
               'transition-all duration-200',
-              state === 'path' && 'edge-animate'
+              !overlay && state === 'path' && 'edge-animate'
             )}
-            strokeDasharray={state === 'path' ? '100' : undefined}
+            strokeDasharray={overlay ? (overlay.dashed ? '8 5' : undefined) : state === 'path' ? '100' : undefined}
           />
+          {heuristicViolations?.edges.has(edgeId) && (
+            <path
+              d={geometry.path}
+              fill="none"
+              stroke="hsl(var(--destructive))"
+              strokeWidth={3}
+              strokeDasharray="3 4"
+              className="pointer-events-none"
+            />
+          )}
           
           {/* Weight label */}
-          <g transform={`translate(${midX}, ${midY})`}>
+          <g transform={`translate(${geometry.labelX}, ${geometry.labelY})`}>
             <rect
               x={-12}
               y={-10}
@@ -205,12 +384,12 @@ export function GraphCanvas({
             </text>
           </g>
           
-          {/* Arrow for directed graphs */}
-          {graph.directed && (
+          {/* Arrowhead for one-way edges, tip touching the target node */}
+          {isEdgeDirected(graph, edge) && (
             <polygon
-              points={`0,-6 12,0 0,6`}
+              points="-12,-6 0,0 -12,6"
               fill={color}
-              transform={`translate(${endX}, ${endY}) rotate(${Math.atan2(dy, dx) * 180 / Math.PI})`}
+              transform={`translate(${geometry.endX}, ${geometry.endY}) rotate(${geometry.angle})`}
             />
           )}
         </g>
@@ -228,6 +407,8 @@ export function GraphCanvas({
       const state = getNodeState(nodeId);
       const color = getNodeColor(state);
       const distance = getDistance(nodeId);
+      const distanceWidth = Math.max(32, distance.length * 7 + 8);
+      const h = currentStep?.heuristic?.values.get(nodeId);
       const isSelected = nodeId === selectedNodeId || nodeId === edgeStartNode;
       const isCurrent = state === 'current';
       
@@ -241,6 +422,7 @@ export function GraphCanvas({
           )}
           onMouseDown={(e) => handleNodeMouseDown(e, nodeId)}
           onClick={(e) => handleNodeClick(e, nodeId)}
+          onContextMenu={() => onContextTarget({ kind: 'node', nodeId })}
         >
           {/* Pulse animation for current node */}
           {isCurrent && (
@@ -265,6 +447,17 @@ export function GraphCanvas({
             />
           )}
           
+          {/* Heuristic overestimates the distance to the target here */}
+          {heuristicViolations?.nodes.has(nodeId) && (
+            <circle
+              r={NODE_RADIUS + 6}
+              fill="none"
+              stroke="hsl(var(--destructive))"
+              strokeWidth={2}
+              strokeDasharray="3 3"
+            />
+          )}
+          
           {/* Main node circle */}
           <circle
             r={NODE_RADIUS}
@@ -283,13 +476,36 @@ export function GraphCanvas({
             {node.label || nodeId}
           </text>
           
+          {/* Heuristic estimate (above node) */}
+          {h !== undefined && (
+            <g transform="translate(0, -36)">
+              <rect
+                x={-22}
+                y={-10}
+                width={44}
+                height={20}
+                rx={4}
+                fill="hsl(var(--code-bg))"
+                stroke="hsl(var(--border))"
+                strokeWidth={1}
+              />
+              <text
+                textAnchor="middle"
+                dominantBaseline="middle"
+                className="fill-muted-foreground font-mono text-xs pointer-events-none"
+              >
+                h {h.toFixed(1)}
+              </text>
+            </g>
+          )}
+          
           {/* Distance label (below node) */}
           {distance && currentStep && (
             <g transform="translate(0, 36)">
               <rect
-                x={-16}
+                x={-distanceWidth / 2}
                 y={-10}
-                width={32}
+                width={distanceWidth}
                 height={20}
                 rx={4}
                 fill="hsl(var(--code-bg))"
@@ -312,14 +528,63 @@ export function GraphCanvas({
     return nodes;
   };
   
+  // Large (e.g. generated) graphs stretch the canvas; the container scrolls
+  let extentX = 0;
+  let extentY = 0;
+  for (const node of graph.nodes.values()) {
+    extentX = Math.max(extentX, node.x + NODE_RADIUS * 2);
+    extentY = Math.max(extentY, node.y + NODE_RADIUS * 2);
+  }
+  
+  // Banded h over the canvas, tinted most strongly where h is lowest, so the
+  // shape of the heuristic's contours (circles, diamonds, squares) shows through
+  const heatMap = useMemo(() => {
+    if (!heuristicField) return null;
+    const width = Math.max(extentX, HEAT_MIN_SIZE.width);
+    const height = Math.max(extentY, HEAT_MIN_SIZE.height);
+    const size = Math.max(HEAT_MIN_CELL, Math.ceil(Math.sqrt(width * height / HEAT_MAX_CELLS)));
+    const samples: Array<{ x: number; y: number; value: number }> = [];
+    let max = 0;
+    for (let y = 0; y < height; y += size) {
+      for (let x = 0; x < width; x += size) {
+        const value = heuristicField(x + size / 2, y + size / 2);
+        samples.push({ x, y, value });
+        max = Math.max(max, value);
+      }
+    }
+    if (max <= 0) return null; // The zero heuristic has nothing to show
+    return {
+      size,
+      cells: samples.map(({ x, y, value }) => ({ x, y, band: Math.min(HEAT_BANDS - 1, Math.floor(value / max * HEAT_BANDS)) })),
+    };
+  }, [heuristicField, extentX, extentY]);
+  
   return (
     <svg
       className="w-full h-full graph-container"
+      style={{ minWidth: extentX, minHeight: extentY }}
       onClick={handleSvgClick}
       onMouseMove={handleMouseMove}
       onMouseUp={handleMouseUp}
       onMouseLeave={handleMouseUp}
+      onContextMenu={handleSvgContextMenu}
     >
+      {/* Heuristic heat-map, behind everything */}
+      {heatMap && (
+        <g className="pointer-events-none">
+          {heatMap.cells.map(({ x, y, band }) => (
+            <rect
+              key={`${x},${y}`}
+              x={x}
+              y={y}
+              width={heatMap.size}
+              height={heatMap.size}
+              fill={`hsl(var(--node-end) / ${((HEAT_BANDS - band) / HEAT_BANDS * 0.35).toFixed(3)})`}
+            />
+          ))}
+        </g>
+      )}
+      
       {/* Edge being created */}
       {edgeStartNode && graph.nodes.has(edgeStartNode) && (
         <line
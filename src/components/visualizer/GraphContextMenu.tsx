@@ -0,0 +1,127 @@
+/**
+ * GraphContextMenu - Right-click actions for nodes, edges and empty canvas
+ */
+
+import React from 'react';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuLabel,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from '@/components/ui/context-menu';
+import { Pencil, Trash2, CircleDot, Target, Plus, Scale } from 'lucide-react';
+import { Graph } from '@/core/types';
+
+export type ContextTarget =
+  | { kind: 'node'; nodeId: string }
+  | { kind: 'edge'; edgeId: string }
+  | { kind: 'canvas'; x: number; y: number };
+
+interface GraphContextMenuProps {
+  graph: Graph;
+  target: ContextTarget | null;
+  children: React.ReactNode;
+  onAddNode: (x: number, y: number) => void;
+  onRenameNode: (nodeId: string) => void;
+  onSetSource: (nodeId: string) => void;
+  onSetTarget: (nodeId: string) => void;
+  onDeleteNode: (nodeId: string) => void;
+  onEditEdge: (edgeId: string) => void;
+  onDeleteEdge: (edgeId: string) => void;
+}
+
+export function GraphContextMenu({
+  graph,
+  target,
+  children,
+  onAddNode,
+  onRenameNode,
+  onSetSource,
+  onSetTarget,
+  onDeleteNode,
+  onEditEdge,
+  onDeleteEdge,
+}: GraphContextMenuProps) {
+  const renderItems = () => {
+    if (!target) return null;
+
+    switch (target.kind) {
+      case 'node': {
+        const node = graph.nodes.get(target.nodeId);
+        if (!node) return null;
+        return (
+          <>
+            <ContextMenuLabel className="font-mono">{node.label || node.id}</ContextMenuLabel>
+            <ContextMenuSeparator />
+            <ContextMenuItem onSelect={() => onRenameNode(node.id)}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Rename
+            </ContextMenuItem>
+            <ContextMenuItem onSelect={() => onSetSource(node.id)}>
+              <CircleDot className="h-4 w-4 mr-2 text-node-start" />
+              Set as source
+            </ContextMenuItem>
+            <ContextMenuItem onSelect={() => onSetTarget(node.id)}>
+              <Target className="h-4 w-4 mr-2 text-node-end" />
+              Set as target
+            </ContextMenuItem>
+            <ContextMenuSeparator />
+            <ContextMenuItem
+              onSelect={() => onDeleteNode(node.id)}
+              className="text-destructive focus:text-destructive"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete node
+            </ContextMenuItem>
+          </>
+        );
+      }
+      case 'edge': {
+        const edge = graph.edges.get(target.edgeId);
+        if (!edge) return null;
+        return (
+          <>
+            <ContextMenuLabel className="font-mono">
+              {edge.source}–{edge.target} ({edge.weight})
+            </ContextMenuLabel>
+            <ContextMenuSeparator />
+            <ContextMenuItem onSelect={() => onEditEdge(edge.id)}>
+              <Scale className="h-4 w-4 mr-2" />
+              Edit weight
+            </ContextMenuItem>
+            <ContextMenuSeparator />
+            <ContextMenuItem
+              onSelect={() => onDeleteEdge(edge.id)}
+              className="text-destructive focus:text-destructive"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete edge
+            </ContextMenuItem>
+          </>
+        );
+      }
+      case 'canvas':
+        return (
+          <ContextMenuItem onSelect={() => onAddNode(target.x, target.y)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add node here
+          </ContextMenuItem>
+        );
+    }
+  };
+
+  return (
+    <ContextMenu>
+      <ContextMenuTrigger asChild>
+        <div className="w-full h-full overflow-auto">
+          {children}
+        </div>
+      </ContextMenuTrigger>
+      <ContextMenuContent className="w-48">
+        {renderItems()}
+      </ContextMenuContent>
+    </ContextMenu>
+  );
+}
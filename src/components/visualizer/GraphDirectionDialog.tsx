@@ -0,0 +1,116 @@
+/**
+ * GraphDirectionDialog - Choose how existing edges are converted when the
+ * graph switches between directed and undirected
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Graph } from '@/core/types';
+import { DirectionConversion, isEdgeDirected } from '@/core/graph';
+
+interface GraphDirectionDialogProps {
+  open: boolean;
+  graph: Graph;
+  directed: boolean; // The direction being switched to
+  onConfirm: (conversion: DirectionConversion) => void;
+  onCancel: () => void;
+}
+
+export function GraphDirectionDialog({
+  open,
+  graph,
+  directed,
+  onConfirm,
+  onCancel,
+}: GraphDirectionDialogProps) {
+  const [conversion, setConversion] = useState<DirectionConversion>('convert');
+
+  useEffect(() => {
+    if (open) setConversion('convert');
+  }, [open]);
+
+  // Edges whose direction disagrees with the new default
+  let affected = 0;
+  for (const edge of graph.edges.values()) {
+    if (isEdgeDirected(graph, edge) !== directed) affected++;
+  }
+
+  const options: { value: DirectionConversion; label: string; description: string }[] = directed
+    ? [
+        {
+          value: 'convert',
+          label: 'Make every edge one-way',
+          description: `${affected} two-way edge(s) will point from their first to their second node.`,
+        },
+        {
+          value: 'convert-split',
+          label: 'Split two-way edges',
+          description: `${affected} two-way edge(s) become a pair of opposite one-way edges.`,
+        },
+        {
+          value: 'keep-edges',
+          label: 'Keep existing edges (mixed graph)',
+          description: 'Only new edges default to one-way.',
+        },
+      ]
+    : [
+        {
+          value: 'convert',
+          label: 'Make every edge two-way',
+          description: `${affected} one-way edge(s) become two-way; opposite pairs become parallel edges.`,
+        },
+        {
+          value: 'keep-edges',
+          label: 'Keep existing edges (mixed graph)',
+          description: 'Only new edges default to two-way.',
+        },
+      ];
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>{directed ? 'Make Graph Directed' : 'Make Graph Undirected'}</DialogTitle>
+          <DialogDescription>
+            Choose what happens to the {graph.edges.size} existing edge(s).
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup
+          value={conversion}
+          onValueChange={(value) => setConversion(value as DirectionConversion)}
+          className="py-4 space-y-2"
+        >
+          {options.map(option => (
+            <div key={option.value} className="flex items-start gap-3">
+              <RadioGroupItem value={option.value} id={`direction-${option.value}`} className="mt-0.5" />
+              <Label htmlFor={`direction-${option.value}`} className="font-normal space-y-1 cursor-pointer">
+                <div className="font-medium text-foreground">{option.label}</div>
+                <div className="text-xs text-muted-foreground">{option.description}</div>
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={() => onConfirm(conversion)}>
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,259 @@
+/**
+ * GraphGeneratorDialog - Settings for generating a reproducible random graph
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Dices } from 'lucide-react';
+import {
+  GeneratorOptions,
+  GeneratorType,
+  WeightDistribution,
+  GRAPH_GENERATORS,
+  WEIGHT_DISTRIBUTIONS,
+  MIN_GENERATED_NODES,
+  MAX_GENERATED_NODES,
+  MAX_GENERATED_EDGES,
+  estimateEdgeCount,
+} from '@/core/generators';
+import { randomSeed } from '@/core/random';
+
+interface GraphGeneratorDialogProps {
+  open: boolean;
+  directed: boolean; // Generated graphs follow the current graph direction
+  onGenerate: (options: GeneratorOptions) => void;
+  onCancel: () => void;
+}
+
+export function GraphGeneratorDialog({
+  open,
+  directed,
+  onGenerate,
+  onCancel,
+}: GraphGeneratorDialogProps) {
+  // Settings persist between openings so a graph can be regenerated with a tweak
+  const [type, setType] = useState<GeneratorType>('geometric');
+  const [nodeCount, setNodeCount] = useState('30');
+  const [density, setDensity] = useState(0.3);
+  const [seed, setSeed] = useState(() => String(randomSeed()));
+  const [distribution, setDistribution] = useState<WeightDistribution>('uniform');
+  const [minWeight, setMinWeight] = useState('1');
+  const [maxWeight, setMaxWeight] = useState('9');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (open) setError('');
+  }, [open]);
+
+  const options: GeneratorOptions = {
+    type,
+    nodeCount: Number(nodeCount),
+    density,
+    seed: Number(seed),
+    directed,
+    weights: { distribution, min: Number(minWeight), max: Number(maxWeight) },
+  };
+  const nodeCountValid = Number.isInteger(options.nodeCount)
+    && options.nodeCount >= MIN_GENERATED_NODES
+    && options.nodeCount <= MAX_GENERATED_NODES;
+  const estimate = nodeCountValid ? estimateEdgeCount(options) : null;
+
+  const handleGenerate = () => {
+    if (!nodeCountValid) {
+      setError(`Node count must be a whole number from ${MIN_GENERATED_NODES} to ${MAX_GENERATED_NODES.toLocaleString()}`);
+      return;
+    }
+    if (!Number.isInteger(options.seed)) {
+      setError('Seed must be a whole number');
+      return;
+    }
+    const { min, max } = options.weights;
+    if (distribution !== 'euclidean' && !(Number.isInteger(min) && min > 0)) {
+      setError('Minimum weight must be a positive whole number');
+      return;
+    }
+    if ((distribution === 'uniform' || distribution === 'exponential') && !(Number.isInteger(max) && max >= min)) {
+      setError('Maximum weight must be a whole number no smaller than the minimum');
+      return;
+    }
+    if (estimate !== null && estimate > MAX_GENERATED_EDGES) {
+      setError(`These settings give about ${Math.round(estimate).toLocaleString()} edges; lower the density to stay under ${MAX_GENERATED_EDGES.toLocaleString()}`);
+      return;
+    }
+    onGenerate(options);
+  };
+
+  const generator = GRAPH_GENERATORS[type];
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>Generate Random Graph</DialogTitle>
+          <DialogDescription>
+            The same settings and seed always produce the same graph.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label>Graph family</Label>
+            <Select value={type} onValueChange={(value) => setType(value as GeneratorType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(GRAPH_GENERATORS) as GeneratorType[]).map(key => (
+                  <SelectItem key={key} value={key}>
+                    {GRAPH_GENERATORS[key].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{generator.description}</p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="generator-nodes">Nodes</Label>
+              <Input
+                id="generator-nodes"
+                type="number"
+                min={MIN_GENERATED_NODES}
+                max={MAX_GENERATED_NODES}
+                value={nodeCount}
+                onChange={(e) => {
+                  setNodeCount(e.target.value);
+                  setError('');
+                }}
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="generator-seed">Seed</Label>
+              <div className="flex gap-1">
+                <Input
+                  id="generator-seed"
+                  type="number"
+                  value={seed}
+                  onChange={(e) => {
+                    setSeed(e.target.value);
+                    setError('');
+                  }}
+                  className="font-mono"
+                />
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => setSeed(String(randomSeed()))}
+                  title="New random seed"
+                >
+                  <Dices className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>{generator.densityLabel}</Label>
+              <span className="text-xs font-mono text-muted-foreground">{density.toFixed(3)}</span>
+            </div>
+            <Slider
+              value={[density]}
+              onValueChange={([value]) => {
+                setDensity(value);
+                setError('');
+              }}
+              min={0}
+              max={1}
+              step={0.001}
+              className="w-full"
+            />
+            {estimate !== null && (
+              <p className="text-xs text-muted-foreground">
+                About {Math.round(estimate).toLocaleString()} edges
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Edge weights</Label>
+            <div className="flex gap-2">
+              <Select value={distribution} onValueChange={(value) => setDistribution(value as WeightDistribution)}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(WEIGHT_DISTRIBUTIONS) as WeightDistribution[]).map(key => (
+                    <SelectItem key={key} value={key}>
+                      {WEIGHT_DISTRIBUTIONS[key].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {distribution !== 'euclidean' && (
+                <Input
+                  type="number"
+                  min={1}
+                  value={minWeight}
+                  onChange={(e) => {
+                    setMinWeight(e.target.value);
+                    setError('');
+                  }}
+                  className="w-20 font-mono"
+                  aria-label="Minimum weight"
+                />
+              )}
+              {(distribution === 'uniform' || distribution === 'exponential') && (
+                <Input
+                  type="number"
+                  min={1}
+                  value={maxWeight}
+                  onChange={(e) => {
+                    setMaxWeight(e.target.value);
+                    setError('');
+                  }}
+                  className="w-20 font-mono"
+                  aria-label="Maximum weight"
+                />
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">{WEIGHT_DISTRIBUTIONS[distribution].description}</p>
+          </div>
+
+          {error && (
+            <p className="text-xs text-destructive">{error}</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={handleGenerate}>
+            Generate
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
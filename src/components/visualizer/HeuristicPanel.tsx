@@ -0,0 +1,161 @@
+/**
+ * HeuristicPanel - Admissibility and consistency of the chosen heuristic
+ * Compares h with the true distance to the target at every node, and the
+ * drop in h with the weight along every edge, listing the worst offenders.
+ */
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { cn } from '@/lib/utils';
+import { HeuristicSettings } from '@/core/types';
+import { HEURISTICS, HeuristicAnalysis } from '@/core/algorithms/heuristics';
+import { Check, Compass, X } from 'lucide-react';
+
+const MAX_LISTED = 8;
+
+interface HeuristicPanelProps {
+  analysis: HeuristicAnalysis | null;
+  settings: HeuristicSettings;
+  unavailable: string | null; // Why there is no analysis, if there is none
+  highlight: boolean;
+  onHighlightChange: (highlight: boolean) => void;
+  onScaleChange: (scale: number) => void;
+}
+
+// Four significant digits, rounded down so the suggested scale stays within its bound
+function floorScale(scale: number): number {
+  const magnitude = 10 ** (Math.floor(Math.log10(scale)) - 3);
+  return Math.floor(scale / magnitude) * magnitude;
+}
+
+function formatScale(scale: number): string {
+  return String(Number(scale.toPrecision(4)));
+}
+
+export function HeuristicPanel({
+  analysis,
+  settings,
+  unavailable,
+  highlight,
+  onHighlightChange,
+  onScaleChange,
+}: HeuristicPanelProps) {
+  const verdict = (ok: boolean, label: string, detail: string) => (
+    <div className="flex items-start gap-2">
+      {ok
+        ? <Check className="h-4 w-4 mt-0.5 text-node-visited shrink-0" />
+        : <X className="h-4 w-4 mt-0.5 text-destructive shrink-0" />}
+      <div>
+        <div className={cn('text-sm font-medium', ok ? 'text-foreground' : 'text-destructive')}>{label}</div>
+        <div className="text-xs text-muted-foreground">{detail}</div>
+      </div>
+    </div>
+  );
+
+  const scaleBound = (label: string, bound: number) => (
+    <div className="flex items-center justify-between gap-2 text-xs">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="flex items-center gap-2">
+        <span className="font-mono text-foreground">{bound === Infinity ? 'any' : formatScale(bound)}</span>
+        {bound !== Infinity && bound > 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onScaleChange(floorScale(bound))}
+            disabled={settings.type === 'zero' || floorScale(bound) === settings.scale}
+            className="h-6 px-2 text-xs"
+          >
+            Use
+          </Button>
+        )}
+      </span>
+    </div>
+  );
+
+  const worstNodes = analysis
+    ? [...analysis.overestimates].sort((a, b) => b[1] - a[1]).slice(0, MAX_LISTED)
+    : [];
+  const worstEdges = analysis
+    ? [...analysis.inconsistentEdges].sort((a, b) => b[1] - a[1]).slice(0, MAX_LISTED)
+    : [];
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+        <h3 className="text-sm font-semibold text-foreground">Heuristic Check</h3>
+        <span className="font-mono text-xs text-muted-foreground">
+          {HEURISTICS[settings.type].label}
+          {settings.type !== 'zero' && ` × ${formatScale(settings.scale)}`}
+        </span>
+      </div>
+
+      {!analysis ? (
+        <div className="flex-1 flex items-center justify-center text-muted-foreground p-4">
+          <div className="text-center">
+            <Compass className="w-8 h-8 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">{unavailable}</p>
+          </div>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-auto p-3 space-y-3">
+          {verdict(
+            analysis.overestimates.size === 0,
+            analysis.overestimates.size === 0 ? 'Admissible' : 'Not admissible',
+            analysis.overestimates.size === 0
+              ? `h never exceeds the true distance to ${analysis.targetId}.`
+              : `${analysis.overestimates.size} node${analysis.overestimates.size === 1 ? '' : 's'} overestimate the distance to ${analysis.targetId}; A* may return a longer path.`
+          )}
+          {worstNodes.length > 0 && (
+            <ul className="ml-6 space-y-0.5 font-mono text-xs">
+              {worstNodes.map(([nodeId, excess]) => {
+                const trueDistance = analysis.trueDistances.get(nodeId)!;
+                return (
+                  <li key={nodeId} className="text-muted-foreground">
+                    <span className="text-destructive">{nodeId}</span>: h = {(trueDistance + excess).toFixed(2)} &gt; h* = {trueDistance.toFixed(2)}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {verdict(
+            analysis.inconsistentEdges.size === 0,
+            analysis.inconsistentEdges.size === 0 ? 'Consistent' : 'Not consistent',
+            analysis.inconsistentEdges.size === 0
+              ? 'Along every edge, h drops by no more than the edge weight.'
+              : `${analysis.inconsistentEdges.size} edge${analysis.inconsistentEdges.size === 1 ? '' : 's'} where h drops by more than the weight; A* may reopen closed nodes.`
+          )}
+          {worstEdges.length > 0 && (
+            <ul className="ml-6 space-y-0.5 font-mono text-xs">
+              {worstEdges.map(([edgeId, excess]) => (
+                <li key={edgeId} className="text-muted-foreground">
+                  <span className="text-destructive">{edgeId}</span>: over by {excess.toFixed(2)}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="space-y-1.5 pt-2 border-t border-border">
+            {scaleBound('Largest admissible scale', analysis.maxAdmissibleScale)}
+            {scaleBound('Largest consistent scale', analysis.maxConsistentScale)}
+            <div className="flex items-center justify-between text-xs">
+              <span className="text-muted-foreground" title="Mean of h / h* over the nodes that can reach the target">
+                Informedness
+              </span>
+              <span className="font-mono text-foreground">{(analysis.informedness * 100).toFixed(0)}%</span>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2 pt-2 border-t border-border">
+            <Switch id="heuristic-violations" checked={highlight} onCheckedChange={onHighlightChange} />
+            <Label htmlFor="heuristic-violations" className="text-xs cursor-pointer">
+              Highlight violations on the canvas
+            </Label>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
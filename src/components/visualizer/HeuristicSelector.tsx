@@ -0,0 +1,73 @@
+/**
+ * HeuristicSelector - Heuristic choice and scale for the goal-directed searches
+ * Shared by the graph and grid toolbars
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { HeuristicSettings, HeuristicType } from '@/core/types';
+import { HEURISTICS } from '@/core/algorithms/heuristics';
+
+interface HeuristicSelectorProps {
+  settings: HeuristicSettings;
+  onChange: (settings: HeuristicSettings) => void;
+}
+
+export function HeuristicSelector({ settings, onChange }: HeuristicSelectorProps) {
+  // Typed text, so half-entered numbers like "0." survive re-renders
+  const [scale, setScale] = useState(String(settings.scale));
+
+  useEffect(() => {
+    setScale(String(Number(settings.scale.toPrecision(6))));
+  }, [settings.scale]);
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs font-normal text-foreground">Heuristic</Label>
+      <div className="flex items-center gap-2">
+        <Select
+          value={settings.type}
+          onValueChange={(value) => onChange({ ...settings, type: value as HeuristicType })}
+        >
+          <SelectTrigger className="h-8 text-xs flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(HEURISTICS) as HeuristicType[]).map(type => (
+              <SelectItem key={type} value={type}>
+                {HEURISTICS[type].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Label htmlFor="heuristic-scale" className="text-xs text-muted-foreground font-normal">
+          ×
+        </Label>
+        <Input
+          id="heuristic-scale"
+          type="number"
+          min="0"
+          step="any"
+          value={scale}
+          disabled={settings.type === 'zero'}
+          onChange={(e) => {
+            setScale(e.target.value);
+            const value = parseFloat(e.target.value);
+            if (value >= 0) onChange({ ...settings, scale: value });
+          }}
+          title="Cost of one unit of canvas distance"
+          className="w-24 h-8 font-mono text-xs"
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">{HEURISTICS[settings.type].description}</p>
+    </div>
+  );
+}
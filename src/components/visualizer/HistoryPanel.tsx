@@ -0,0 +1,82 @@
+/**
+ * HistoryPanel - Undo/redo controls and list of graph edits
+ */
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Undo2, Redo2, History } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { HistoryEntry } from '@/hooks/useGraphHistory';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  currentIndex: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJumpTo: (index: number) => void;
+}
+
+export function HistoryPanel({
+  entries,
+  currentIndex,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onJumpTo,
+}: HistoryPanelProps) {
+  return (
+    <div className="bg-card border border-border rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+          <History className="h-4 w-4" />
+          History
+        </div>
+        <div className="flex gap-1">
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-7 w-7"
+            onClick={onUndo}
+            disabled={!canUndo}
+            title="Undo (Ctrl+Z)"
+          >
+            <Undo2 className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-7 w-7"
+            onClick={onRedo}
+            disabled={!canRedo}
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <Redo2 className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="max-h-48 overflow-y-auto -mx-1">
+        {/* Newest first */}
+        {entries.map((entry, index) => ({ entry, index })).reverse().map(({ entry, index }) => (
+          <button
+            key={index}
+            onClick={() => onJumpTo(index)}
+            className={cn(
+              'w-full text-left px-2 py-1 rounded text-xs transition-colors',
+              index === currentIndex
+                ? 'bg-primary/10 text-primary font-medium'
+                : index > currentIndex
+                  ? 'text-muted-foreground/50 line-through hover:text-muted-foreground'
+                  : 'text-muted-foreground hover:text-foreground hover:bg-muted'
+            )}
+          >
+            {entry.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
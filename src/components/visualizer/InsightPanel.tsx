@@ -3,9 +3,11 @@
  */
 
 import React from 'react';
-import { AlgorithmStep, ExplanationLevel } from '@/core/types';
+import { AlgorithmStep, ExplanationLevel, HeuristicState } from '@/core/types';
 import { cn } from '@/lib/utils';
-import { Lightbulb, ArrowRight, Check, X, Circle } from 'lucide-react';
+import { Lightbulb, ArrowRight, Check, X, Circle, Repeat, AlertTriangle } from 'lucide-react';
+
+const MAX_OPEN_ROWS = 8;
 
 interface InsightPanelProps {
   currentStep: AlgorithmStep | null;
@@ -34,8 +36,12 @@ export function InsightPanel({ currentStep, explanationLevel }: InsightPanelProp
         return <Check className="w-5 h-5 text-node-visited" />;
       case 'skip-edge':
         return <X className="w-5 h-5 text-destructive" />;
+      case 'begin-pass':
+        return <Repeat className="w-5 h-5 text-primary" />;
       case 'path-found':
         return <Check className="w-5 h-5 text-accent" />;
+      case 'negative-cycle':
+        return <AlertTriangle className="w-5 h-5 text-destructive" />;
       default:
         return <Lightbulb className="w-5 h-5 text-primary" />;
     }
@@ -49,16 +55,94 @@ export function InsightPanel({ currentStep, explanationLevel }: InsightPanelProp
       case 'relax-edge': return 'Edge Relaxation';
       case 'skip-edge': return 'Edge Skipped';
       case 'mark-visited': return 'Node Visited';
+      case 'begin-pass': return 'Relaxation Pass';
       case 'path-found': return 'Path Found!';
       case 'no-path': return 'No Path Exists';
+      case 'negative-cycle': return 'Negative Cycle!';
       case 'complete': return 'Algorithm Complete';
       default: return 'Step';
     }
   };
   
+  const renderQueue = (title: string, queue: AlgorithmStep['queue'], chipClass: string) => queue.length > 0 && (
+    <div className="space-y-2">
+      <div className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+        {title}
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {queue.slice(0, 6).map((item, i) => (
+          <span
+            key={i}
+            className={cn('px-2 py-1 text-xs font-mono rounded', chipClass)}
+          >
+            {currentStep.queueKind ? item.nodeId : `${item.nodeId}:${item.priority.toFixed(1)}`}
+          </span>
+        ))}
+        {queue.length > 6 && (
+          <span className="px-2 py-1 text-muted-foreground text-xs">
+            +{queue.length - 6} more
+          </span>
+        )}
+      </div>
+    </div>
+  );
+  
+  // Best-first searches: the open set by f, with g and h beside it so ties show up
+  const renderOpenSet = (estimates: HeuristicState) => {
+    const entries = currentStep.queue;
+    if (entries.length === 0) return null;
+    const tiedAt = (i: number) =>
+      entries[i - 1]?.priority === entries[i].priority || entries[i + 1]?.priority === entries[i].priority;
+    const shown = entries.slice(0, MAX_OPEN_ROWS);
+    const weight = (value: number) => value === 1 ? '' : `${Number(value.toFixed(2))}·`;
+    const formula = estimates.gWeight === 0
+      ? `f = ${weight(estimates.hWeight)}h`
+      : `f = ${weight(estimates.gWeight)}g + ${weight(estimates.hWeight)}h`;
+    
+    return (
+      <div className="space-y-2">
+        <div className="flex items-baseline justify-between">
+          <span className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+            Open Set (lowest f first)
+          </span>
+          <span className="text-xs font-mono text-muted-foreground">{formula}</span>
+        </div>
+        <table className="w-full text-xs font-mono">
+          <thead>
+            <tr className="text-muted-foreground">
+              <th className="text-left font-normal">node</th>
+              <th className="text-right font-normal">g</th>
+              <th className="text-right font-normal">h</th>
+              <th className="text-right font-normal">f</th>
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map((entry, i) => (
+              <tr key={entry.nodeId} className={cn(tiedAt(i) && 'bg-muted/60')}>
+                <td className="text-primary">{tiedAt(i) && <span className="text-muted-foreground">= </span>}{entry.nodeId}</td>
+                <td className="text-right">{currentStep.distances.get(entry.nodeId)?.toFixed(1) ?? '∞'}</td>
+                <td className="text-right">{estimates.values.get(entry.nodeId)?.toFixed(1) ?? '—'}</td>
+                <td className="text-right text-foreground">{entry.priority.toFixed(1)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {entries.length > MAX_OPEN_ROWS && (
+          <div className="text-xs text-muted-foreground">+{entries.length - MAX_OPEN_ROWS} more</div>
+        )}
+        {shown.some((_, i) => tiedAt(i)) && (
+          <p className="text-xs text-muted-foreground">
+            Rows marked = share an f-score. Any of them is a correct next pick; the tie-breaking rule decides, and rows are listed in the order they will come out.
+          </p>
+        )}
+      </div>
+    );
+  };
+  
   const explanation = explanationLevel === 'beginner'
     ? currentStep.explanation.beginner
     : currentStep.explanation.advanced;
+  const cycle = currentStep.negativeCycle ?? currentStep.cycle;
   
   return (
     <div className="h-full flex flex-col">
@@ -117,35 +201,176 @@ export function InsightPanel({ currentStep, explanationLevel }: InsightPanelProp
           </div>
         )}
         
-        {/* Queue state */}
-        {currentStep.queue.length > 0 && (
+        {/* Queue state: one per direction for bidirectional searches */}
+        {currentStep.backward ? (
+          <>
+            {renderQueue('Forward Queue', currentStep.queue, 'bg-primary/10 text-primary')}
+            {renderQueue('Backward Queue', currentStep.backward.queue, 'bg-node-backward/10 text-node-backward')}
+            <div className="space-y-1 text-sm">
+              <div className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+                Meeting Point
+              </div>
+              <div>
+                <span className="text-muted-foreground">Best path μ: </span>
+                <span className="font-mono text-foreground">
+                  {currentStep.bestCost === undefined || currentStep.bestCost === Infinity ? '∞' : currentStep.bestCost.toFixed(1)}
+                </span>
+              </div>
+              <div>
+                <span className="text-muted-foreground">Through: </span>
+                <span className="font-mono text-node-meeting">{currentStep.meetingNode ?? '—'}</span>
+              </div>
+            </div>
+          </>
+        ) : currentStep.heuristic ? (
+          renderOpenSet(currentStep.heuristic)
+        ) : (
+          renderQueue(
+            currentStep.queueKind === 'fifo'
+              ? 'Queue (front first)'
+              : currentStep.queueKind === 'stack'
+                ? 'Stack (top first)'
+                : 'Priority Queue',
+            currentStep.queue,
+            'bg-primary/10 text-primary'
+          )
+        )}
+        
+        {/* Priority queue work so far */}
+        {currentStep.queueStats && (
+          <div className="space-y-1 text-sm">
+            <div className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+              Queue Operations
+            </div>
+            <div className="grid grid-cols-2 gap-x-2 gap-y-1 font-mono">
+              <div>
+                <span className="text-muted-foreground">Insert: </span>
+                <span className="text-foreground">{currentStep.queueStats.insert}</span>
+              </div>
+              <div>
+                <span className="text-muted-foreground">Decrease-key: </span>
+                <span className="text-foreground">{currentStep.queueStats.decreaseKey}</span>
+              </div>
+              <div>
+                <span className="text-muted-foreground">Extract-min: </span>
+                <span className="text-foreground">{currentStep.queueStats.extractMin}</span>
+              </div>
+              <div>
+                <span className="text-muted-foreground">Comparisons: </span>
+                <span className="text-foreground">{currentStep.queueStats.comparisons}</span>
+              </div>
+              <div>
+                <span className="text-muted-foreground">Moves: </span>
+                <span className="text-foreground">{currentStep.queueStats.moves}</span>
+              </div>
+              {currentStep.queueStats.bucketScans > 0 && (
+                <div>
+                  <span className="text-muted-foreground">Bucket scans: </span>
+                  <span className="text-foreground">{currentStep.queueStats.bucketScans}</span>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Heuristic search effort */}
+        {currentStep.expanded !== undefined && (
+          <div className="space-y-1 text-sm">
+            <div className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+              Search Effort
+            </div>
+            <div>
+              <span className="text-muted-foreground">Nodes expanded: </span>
+              <span className="font-mono text-foreground">{currentStep.expanded}</span>
+            </div>
+            {currentStep.threshold !== undefined && (
+              <div>
+                <span className="text-muted-foreground">f threshold: </span>
+                <span className="font-mono text-foreground">{currentStep.threshold.toFixed(1)}</span>
+              </div>
+            )}
+            {currentStep.suboptimalityBound !== undefined && (
+              <div>
+                <span className="text-muted-foreground">Guarantee: </span>
+                <span className="font-mono text-foreground">
+                  cost ≤ {Number(currentStep.suboptimalityBound.toFixed(2))} × optimal
+                </span>
+              </div>
+            )}
+          </div>
+        )}
+        
+        {/* Traversal order */}
+        {currentStep.traversal && (
+          <div className="space-y-1 text-sm">
+            <div className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+              Traversal Order
+            </div>
+            <div>
+              <span className="text-muted-foreground">Discovered: </span>
+              <span className="font-mono text-foreground">{currentStep.traversal.discovered.join(', ') || '—'}</span>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Finished: </span>
+              <span className="font-mono text-foreground">{currentStep.traversal.finished.join(', ') || '—'}</span>
+            </div>
+          </div>
+        )}
+        
+        {/* Topological order, with slack once the critical path's backward pass has it */}
+        {currentStep.topological && currentStep.topological.order.length > 0 && (
           <div className="space-y-2">
             <div className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
-              Priority Queue
+              Topological Order
             </div>
             <div className="flex flex-wrap gap-1">
-              {currentStep.queue.slice(0, 6).map((item, i) => (
+              {currentStep.topological.order.map((nodeId, i) => (
                 <span
-                  key={i}
-                  className="px-2 py-1 bg-primary/10 text-primary text-xs font-mono rounded"
+                  key={nodeId}
+                  className={cn(
+                    'px-2 py-0.5 text-xs font-mono rounded',
+                    i === currentStep.topological!.index
+                      ? 'bg-node-current/20 text-node-current ring-1 ring-inset ring-node-current'
+                      : 'bg-muted text-foreground'
+                  )}
                 >
-                  {item.nodeId}:{item.priority.toFixed(1)}
+                  {nodeId}
+                  {currentStep.topological!.slack?.has(nodeId) && (
+                    <span className="ml-1 text-muted-foreground">
+                      +{currentStep.topological!.slack.get(nodeId) === Infinity ? '∞' : Number(currentStep.topological!.slack.get(nodeId)!.toFixed(2))}
+                    </span>
+                  )}
                 </span>
               ))}
-              {currentStep.queue.length > 6 && (
-                <span className="px-2 py-1 text-muted-foreground text-xs">
-                  +{currentStep.queue.length - 6} more
-                </span>
-              )}
             </div>
+            {currentStep.topological.slack && (
+              <p className="text-xs text-muted-foreground">+n: slack, how long an event can slip without delaying the finish.</p>
+            )}
           </div>
         )}
         
+        {/* Spanning tree so far */}
+        {currentStep.spanningTree && (
+          <div className="space-y-1 text-sm">
+            <div className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+              Spanning Tree
+            </div>
+            <div>
+              <span className="text-muted-foreground">Edges: </span>
+              <span className="font-mono text-foreground">{currentStep.spanningTree.edges.length}</span>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Total weight: </span>
+              <span className="font-mono text-foreground">{Number(currentStep.spanningTree.weight.toFixed(2))}</span>
+            </div>
+          </div>
+        )}
+
         {/* Final path */}
         {currentStep.shortestPath && (
           <div className="space-y-2">
             <div className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
-              Shortest Path
+              {currentStep.topological?.slack ? 'Critical Path' : 'Shortest Path'}
             </div>
             <div className="flex items-center gap-2 flex-wrap">
               {currentStep.shortestPath.map((nodeId, i) => (
@@ -160,7 +385,28 @@ export function InsightPanel({ currentStep, explanationLevel }: InsightPanelProp
               ))}
             </div>
             <div className="text-sm text-muted-foreground">
-              Total distance: <span className="text-accent font-mono">{currentStep.totalDistance?.toFixed(1)}</span>
+              {currentStep.topological?.slack ? 'Project length' : 'Total distance'}: <span className="text-accent font-mono">{currentStep.totalDistance?.toFixed(1)}</span>
+            </div>
+          </div>
+        )}
+        
+        {/* Negative cycle, or a cycle that rules out a topological order */}
+        {cycle && (
+          <div className="space-y-2">
+            <div className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+              {currentStep.negativeCycle ? 'Negative Cycle' : 'Cycle'}
+            </div>
+            <div className="flex items-center gap-2 flex-wrap">
+              {[...cycle, cycle[0]].map((nodeId, i) => (
+                <React.Fragment key={i}>
+                  <span className="px-2 py-1 bg-destructive/20 text-destructive text-sm font-mono rounded">
+                    {nodeId}
+                  </span>
+                  {i < cycle.length && (
+                    <ArrowRight className="w-4 h-4 text-muted-foreground" />
+                  )}
+                </React.Fragment>
+              ))}
             </div>
           </div>
         )}
@@ -0,0 +1,135 @@
+/**
+ * MatrixPanel - Live distance / next-hop matrix for all-pairs algorithms
+ * Highlights the cell being updated and the k row/column; clicking a cell
+ * selects that pair so its path can be drawn on the canvas.
+ */
+
+import React, { useState } from 'react';
+import { cn } from '@/lib/utils';
+import { AllPairsState } from '@/core/types';
+import { Table2 } from 'lucide-react';
+
+export interface NodePair {
+  from: string;
+  to: string;
+}
+
+interface MatrixPanelProps {
+  matrix: AllPairsState | null;
+  updated: boolean; // Whether the current step changed the highlighted cell
+  selectedPair: NodePair | null;
+  tooLarge: boolean;
+  onSelectPair: (pair: NodePair | null) => void;
+}
+
+type MatrixView = 'dist' | 'next';
+
+export function MatrixPanel({ matrix, updated, selectedPair, tooLarge, onSelectPair }: MatrixPanelProps) {
+  const [view, setView] = useState<MatrixView>('dist');
+
+  const segmentClass = (active: boolean) => cn(
+    'px-2 py-0.5 text-xs font-medium transition-colors',
+    active
+      ? 'bg-primary text-primary-foreground'
+      : 'bg-muted text-muted-foreground hover:text-foreground'
+  );
+
+  const formatCell = (i: number, j: number): string => {
+    if (!matrix) return '';
+    if (view === 'next') {
+      const hop = matrix.next[i][j];
+      return hop === null ? '–' : matrix.nodes[hop];
+    }
+    const d = matrix.dist[i][j];
+    return d === Infinity ? '∞' : String(Number(d.toFixed(2)));
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+        <h3 className="text-sm font-semibold text-foreground">
+          {view === 'dist' ? 'Distance Matrix' : 'Next-Hop Matrix'}
+          {matrix?.k != null && (
+            <span className="ml-2 font-mono text-xs text-node-current">k = {matrix.nodes[matrix.k]}</span>
+          )}
+        </h3>
+        <div className="flex rounded border border-border overflow-hidden">
+          <button onClick={() => setView('dist')} className={segmentClass(view === 'dist')}>dist</button>
+          <button onClick={() => setView('next')} className={segmentClass(view === 'next')}>next</button>
+        </div>
+      </div>
+
+      {!matrix ? (
+        <div className="flex-1 flex items-center justify-center text-muted-foreground p-4">
+          <div className="text-center">
+            <Table2 className="w-8 h-8 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">
+              {tooLarge
+                ? 'The matrix view is limited to small graphs; remove some nodes to run Floyd–Warshall.'
+                : 'Run the algorithm to fill in the matrix'}
+            </p>
+          </div>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-auto p-3">
+          <table className="text-xs font-mono border-collapse">
+            <thead>
+              <tr>
+                <th className="px-1.5 py-1 text-muted-foreground font-normal">from \ to</th>
+                {matrix.nodes.map((id, j) => (
+                  <th
+                    key={id}
+                    className={cn(
+                      'px-1.5 py-1 font-semibold',
+                      j === matrix.k ? 'text-node-current' : 'text-muted-foreground'
+                    )}
+                  >
+                    {id}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {matrix.nodes.map((fromId, i) => (
+                <tr key={fromId}>
+                  <th
+                    className={cn(
+                      'px-1.5 py-1 text-right font-semibold',
+                      i === matrix.k ? 'text-node-current' : 'text-muted-foreground'
+                    )}
+                  >
+                    {fromId}
+                  </th>
+                  {matrix.nodes.map((toId, j) => {
+                    const isActive = i === matrix.i && j === matrix.j;
+                    const isSelected = selectedPair?.from === fromId && selectedPair?.to === toId;
+                    const isNegative = view === 'dist' && matrix.dist[i][j] < 0;
+                    return (
+                      <td
+                        key={toId}
+                        onClick={() => onSelectPair(isSelected ? null : { from: fromId, to: toId })}
+                        title={`${fromId} → ${toId}`}
+                        className={cn(
+                          'px-1.5 py-1 text-center border border-border cursor-pointer transition-colors',
+                          (i === matrix.k || j === matrix.k) && 'bg-node-current/10',
+                          isActive && (updated ? 'bg-node-visited/30 text-foreground' : 'bg-code-highlight'),
+                          isSelected && 'ring-2 ring-inset ring-primary',
+                          isNegative ? 'text-destructive' : !isActive && 'text-foreground'
+                        )}
+                      >
+                        {formatCell(i, j)}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-2 text-xs text-muted-foreground">
+            Click a cell to draw its path on the canvas.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+/**
+ * MetricsPanel - Counters of the run so far and the frontier size over time
+ * Everything shown is as of the current step, so the numbers and the plot
+ * grow as playback advances and shrink when it steps back.
+ */
+
+import React, { useMemo } from 'react';
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { BarChart3 } from 'lucide-react';
+import { RunMetrics, RUN_METRICS } from '@/core/metrics';
+
+// More points than the plot has pixels only slows recharts down
+const MAX_CHART_POINTS = 240;
+
+const chartConfig = {
+  frontier: { label: 'Frontier', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+interface MetricsPanelProps {
+  metrics: RunMetrics[]; // After each step generated so far
+  currentStepIndex: number;
+}
+
+function formatValue(value: number | null): string {
+  return value === null ? '—' : String(Number(value.toFixed(2)));
+}
+
+export function MetricsPanel({ metrics, currentStepIndex }: MetricsPanelProps) {
+  const current = currentStepIndex >= 0 ? metrics[currentStepIndex] : undefined;
+
+  // Frontier size up to the current step; each point is the largest in its
+  // stretch of steps, so thinning out a long run keeps its peaks
+  const data = useMemo(() => {
+    const end = Math.min(currentStepIndex + 1, metrics.length);
+    const stride = Math.max(1, Math.ceil(metrics.length / MAX_CHART_POINTS));
+    const points: Array<{ step: number; frontier: number }> = [];
+    for (let start = 0; start < end; start += stride) {
+      let frontier = 0;
+      for (let i = start; i < Math.min(start + stride, end); i++) {
+        frontier = Math.max(frontier, metrics[i].frontierSize);
+      }
+      points.push({ step: start + 1, frontier });
+    }
+    return points;
+  }, [metrics, currentStepIndex]);
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-4 space-y-3">
+      <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+        <BarChart3 className="h-4 w-4" />
+        Run Metrics
+      </div>
+
+      {!current ? (
+        <p className="text-xs text-muted-foreground">Run an algorithm to count its work step by step.</p>
+      ) : (
+        <>
+          <dl className="grid grid-cols-2 gap-x-3 gap-y-1.5">
+            {(Object.keys(RUN_METRICS) as Array<keyof typeof RUN_METRICS>).map(key => (
+              <div key={key} title={RUN_METRICS[key].description} className="flex items-baseline justify-between gap-2">
+                <dt className="text-xs text-muted-foreground truncate">{RUN_METRICS[key].label}</dt>
+                <dd className="font-mono text-xs text-foreground">{formatValue(current[key])}</dd>
+              </div>
+            ))}
+          </dl>
+
+          <div className="space-y-1">
+            <div className="flex items-baseline justify-between text-xs">
+              <span className="text-muted-foreground">Frontier size</span>
+              <span className="font-mono text-foreground">{current.frontierSize}</span>
+            </div>
+            <ChartContainer config={chartConfig} className="aspect-auto h-28 w-full">
+              <AreaChart data={data} margin={{ top: 4, right: 4, bottom: 0, left: 0 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="step"
+                  type="number"
+                  domain={[1, Math.max(metrics.length, 2)]}
+                  tickLine={false}
+                  axisLine={false}
+                  tickMargin={4}
+                  allowDecimals={false}
+                />
+                <YAxis width={28} tickLine={false} axisLine={false} allowDecimals={false} />
+                <ChartTooltip
+                  content={<ChartTooltipContent labelFormatter={(_, payload) => `Step ${payload[0]?.payload.step}`} />}
+                />
+                <Area
+                  dataKey="frontier"
+                  type="stepAfter"
+                  stroke="var(--color-frontier)"
+                  fill="var(--color-frontier)"
+                  fillOpacity={0.25}
+                  isAnimationActive={false}
+                />
+              </AreaChart>
+            </ChartContainer>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+/**
+ * NodeRenameDialog - Modal for renaming a node, rejecting IDs already in use
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface NodeRenameDialogProps {
+  open: boolean;
+  nodeId: string;
+  isTaken: (id: string) => boolean;
+  onConfirm: (newId: string) => void;
+  onCancel: () => void;
+}
+
+export function NodeRenameDialog({
+  open,
+  nodeId,
+  isTaken,
+  onConfirm,
+  onCancel,
+}: NodeRenameDialogProps) {
+  const [name, setName] = useState(nodeId);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setName(nodeId);
+      setError('');
+    }
+  }, [open, nodeId]);
+
+  const handleConfirm = () => {
+    const newId = name.trim();
+    if (newId.length === 0) {
+      setError('Please enter a name');
+      return;
+    }
+    if (newId !== nodeId && isTaken(newId)) {
+      setError(`A node named "${newId}" already exists`);
+      return;
+    }
+    onConfirm(newId);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-[360px]">
+        <DialogHeader>
+          <DialogTitle>Rename Node</DialogTitle>
+          <DialogDescription>
+            Choose a new name for <span className="font-mono text-primary">{nodeId}</span>
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="node-name">Node Name</Label>
+            <Input
+              id="node-name"
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setError('');
+              }}
+              onKeyDown={(e) => e.key === 'Enter' && handleConfirm()}
+              className="font-mono"
+              autoFocus
+            />
+            {error && (
+              <p className="text-xs text-destructive">{error}</p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm}>
+            Rename
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,89 @@
+/**
+ * PathListPanel - Ranked results of a k-shortest-paths search
+ * Lists accepted paths best first, with the pending candidates below;
+ * clicking an accepted path highlights it on the canvas.
+ */
+
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { KShortestState, RankedPath } from '@/core/types';
+import { ListOrdered } from 'lucide-react';
+
+interface PathListPanelProps {
+  state: KShortestState | null;
+  selectedIndex: number | null;
+  onSelect: (index: number | null) => void;
+}
+
+export function PathListPanel({ state, selectedIndex, onSelect }: PathListPanelProps) {
+  const formatCost = (cost: number) => String(Number(cost.toFixed(2)));
+
+  const renderPath = (path: RankedPath) => (
+    <span className="font-mono text-xs break-all">{path.nodes.join(' → ')}</span>
+  );
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+        <h3 className="text-sm font-semibold text-foreground">k Shortest Paths</h3>
+        {state?.spurNode && (
+          <span className="font-mono text-xs text-node-current">spur = {state.spurNode}</span>
+        )}
+      </div>
+
+      {!state ? (
+        <div className="flex-1 flex items-center justify-center text-muted-foreground p-4">
+          <div className="text-center">
+            <ListOrdered className="w-8 h-8 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">Run the algorithm to rank the best paths</p>
+          </div>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-auto p-3 space-y-3">
+          <ol className="space-y-1">
+            {state.found.map((path, i) => (
+              <li key={path.edges.join(',')}>
+                <button
+                  onClick={() => onSelect(selectedIndex === i ? null : i)}
+                  className={cn(
+                    'w-full flex items-start gap-2 rounded px-2 py-1.5 text-left transition-colors',
+                    selectedIndex === i
+                      ? 'bg-node-path/20 ring-1 ring-inset ring-node-path'
+                      : 'hover:bg-muted'
+                  )}
+                >
+                  <span className="text-xs font-semibold text-muted-foreground">#{i + 1}</span>
+                  <span className="flex-1 text-foreground">{renderPath(path)}</span>
+                  <span className="text-xs font-mono text-node-path">{formatCost(path.cost)}</span>
+                </button>
+              </li>
+            ))}
+          </ol>
+
+          {state.candidates.length > 0 && (
+            <div className="space-y-1">
+              <div className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+                Candidates
+              </div>
+              {state.candidates.map(path => (
+                <div
+                  key={path.edges.join(',')}
+                  className="flex items-start gap-2 px-2 py-1 text-muted-foreground"
+                >
+                  <span className="flex-1">{renderPath(path)}</span>
+                  <span className="text-xs font-mono">{formatCost(path.cost)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {state.found.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Click a path to highlight it on the canvas.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,8 +5,7 @@
 import React from 'react';
 import { cn } from '@/lib/utils';
 import { AlgorithmType } from '@/core/types';
-import { DIJKSTRA_PSEUDOCODE } from '@/core/algorithms/dijkstra';
-import { ASTAR_PSEUDOCODE } from '@/core/algorithms/astar';
+import { ALGORITHMS } from '@/core/algorithms/registry';
 
 interface PseudocodePanelProps {
   algorithm: AlgorithmType;
@@ -14,13 +13,13 @@ interface PseudocodePanelProps {
 }
 
 export function PseudocodePanel({ algorithm, currentLine }: PseudocodePanelProps) {
-  const pseudocode = algorithm === 'dijkstra' ? DIJKSTRA_PSEUDOCODE : ASTAR_PSEUDOCODE;
+  const { name: title, pseudocode } = ALGORITHMS[algorithm];
   
   return (
     <div className="h-full flex flex-col">
       <div className="flex items-center justify-between px-4 py-3 border-b border-border">
         <h3 className="text-sm font-semibold text-foreground">
-          {algorithm === 'dijkstra' ? "Dijkstra's Algorithm" : 'A* Algorithm'}
+          {title}
         </h3>
         <span className="text-xs text-muted-foreground font-mono">
           Line {currentLine + 1}
@@ -0,0 +1,87 @@
+/**
+ * TieBreakingSelector - Rule for equal queue keys, plus the seed of the random rule
+ * Shared by the graph and grid toolbars
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Dices } from 'lucide-react';
+import { TieBreakingPolicy, TieBreakingSettings } from '@/core/types';
+import { TIE_BREAKING_POLICIES } from '@/core/queues';
+import { randomSeed } from '@/core/random';
+
+interface TieBreakingSelectorProps {
+  settings: TieBreakingSettings; // Already resolved for the algorithm (see effectiveTieBreaking)
+  usesHeuristic: boolean; // Offer the rules that read g and h
+  onChange: (settings: TieBreakingSettings) => void;
+}
+
+export function TieBreakingSelector({ settings, usesHeuristic, onChange }: TieBreakingSelectorProps) {
+  // Typed text, so clearing the field to type a new seed doesn't snap back
+  const [seed, setSeed] = useState(String(settings.seed));
+
+  useEffect(() => {
+    setSeed(String(settings.seed));
+  }, [settings.seed]);
+
+  const policies = (Object.keys(TIE_BREAKING_POLICIES) as TieBreakingPolicy[])
+    .filter(policy => usesHeuristic || !TIE_BREAKING_POLICIES[policy].heuristicOnly);
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs font-normal text-foreground">Tie-breaking</Label>
+      <Select
+        value={settings.policy}
+        onValueChange={(value) => onChange({ ...settings, policy: value as TieBreakingPolicy })}
+      >
+        <SelectTrigger className="h-8 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {policies.map(policy => (
+            <SelectItem key={policy} value={policy}>
+              {TIE_BREAKING_POLICIES[policy].label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {settings.policy === 'random' && (
+        <div className="flex items-center gap-1">
+          <Label htmlFor="tie-breaking-seed" className="text-xs text-muted-foreground font-normal mr-1">
+            Seed
+          </Label>
+          <Input
+            id="tie-breaking-seed"
+            type="number"
+            value={seed}
+            onChange={(e) => {
+              setSeed(e.target.value);
+              const value = Number(e.target.value);
+              if (e.target.value.trim() !== '' && Number.isInteger(value)) onChange({ ...settings, seed: value });
+            }}
+            className="h-8 font-mono text-xs"
+          />
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => onChange({ ...settings, seed: randomSeed() })}
+            className="h-8 w-8 flex-shrink-0"
+            title="New random seed"
+          >
+            <Dices className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+      <p className="text-xs text-muted-foreground">{TIE_BREAKING_POLICIES[settings.policy].description}</p>
+    </div>
+  );
+}
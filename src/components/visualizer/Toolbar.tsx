@@ -2,8 +2,24 @@
  * Toolbar - Graph editing tools and algorithm selection
  */
 
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { 
   Plus, 
   Link, 
@@ -11,71 +27,221 @@ import {
   CircleDot,
   Target,
   Trash2,
-  RotateCcw
+  RotateCcw,
+  Upload,
+  Download,
+  Eraser,
+  Shuffle,
+  AlertTriangle
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { AlgorithmType } from '@/core/types';
+import { AlgorithmType, HeuristicSettings, PriorityQueueType, TieBreakingSettings } from '@/core/types';
+import { ALGORITHMS, ALGORITHM_PARAMETERS, AlgorithmParameterKey, AlgorithmParameters } from '@/core/algorithms/registry';
+import { PRIORITY_QUEUES } from '@/core/queues';
+import { GRAPH_FILE_FORMATS, GRAPH_FILE_ACCEPT, GraphFileFormat } from '@/core/io';
+import { GeneratorOptions } from '@/core/generators';
+import { GraphGeneratorDialog } from './GraphGeneratorDialog';
+import { HeuristicSelector } from './HeuristicSelector';
+import { TieBreakingSelector } from './TieBreakingSelector';
 
-type ToolMode = 'select-source' | 'select-target' | 'add-node' | 'add-edge' | 'view';
+type ToolMode = 'select-source' | 'select-target' | 'add-node' | 'add-edge' | 'delete' | 'view';
 
 interface ToolbarProps {
   mode: ToolMode;
   algorithm: AlgorithmType;
+  directed: boolean;
+  hasNegativeWeights: boolean;
+  allowNegativeWeights: boolean;
+  parameters: AlgorithmParameters;
+  heuristic: HeuristicSettings;
+  queueType: PriorityQueueType;
+  tieBreaking: TieBreakingSettings;
   sourceId: string | null;
   targetId: string | null;
   onModeChange: (mode: ToolMode) => void;
   onAlgorithmChange: (algorithm: AlgorithmType) => void;
+  onDirectedChange: (directed: boolean) => void;
+  onAllowNegativeWeightsChange: (allow: boolean) => void;
+  onParameterChange: (key: AlgorithmParameterKey, value: number) => void;
+  onHeuristicChange: (heuristic: HeuristicSettings) => void;
+  onQueueTypeChange: (type: PriorityQueueType) => void;
+  onTieBreakingChange: (settings: TieBreakingSettings) => void;
   onClearGraph: () => void;
   onLoadSample: () => void;
+  onLoadProject: () => void;
+  onGenerateGraph: (options: GeneratorOptions) => void;
+  onImportGraph: (files: File[]) => void;
+  onExportGraph: (format: GraphFileFormat) => void;
 }
 
 export function Toolbar({
   mode,
   algorithm,
+  directed,
+  hasNegativeWeights,
+  allowNegativeWeights,
+  parameters,
+  heuristic,
+  queueType,
+  tieBreaking,
   sourceId,
   targetId,
   onModeChange,
   onAlgorithmChange,
+  onDirectedChange,
+  onAllowNegativeWeightsChange,
+  onParameterChange,
+  onHeuristicChange,
+  onQueueTypeChange,
+  onTieBreakingChange,
   onClearGraph,
   onLoadSample,
+  onLoadProject,
+  onGenerateGraph,
+  onImportGraph,
+  onExportGraph,
 }: ToolbarProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [generatorOpen, setGeneratorOpen] = useState(false);
+  
   const tools: { mode: ToolMode; icon: React.ElementType; label: string; color?: string }[] = [
     { mode: 'view', icon: MousePointer, label: 'Select / Move' },
     { mode: 'add-node', icon: Plus, label: 'Add Node' },
     { mode: 'add-edge', icon: Link, label: 'Add Edge' },
+    { mode: 'delete', icon: Eraser, label: 'Delete', color: 'text-destructive' },
     { mode: 'select-source', icon: CircleDot, label: 'Set Source', color: 'text-node-start' },
     { mode: 'select-target', icon: Target, label: 'Set Target', color: 'text-node-end' },
   ];
   
+  const definition = ALGORITHMS[algorithm];
+  
   return (
     <div className="bg-card border border-border rounded-lg p-4 space-y-4">
       {/* Algorithm selector */}
       <div className="space-y-2">
         <div className="text-sm font-medium text-foreground">Algorithm</div>
-        <div className="flex rounded-lg border border-border overflow-hidden">
-          <button
-            onClick={() => onAlgorithmChange('dijkstra')}
-            className={cn(
-              'flex-1 py-2 text-sm font-medium transition-colors',
-              algorithm === 'dijkstra'
-                ? 'bg-primary text-primary-foreground'
-                : 'bg-muted text-muted-foreground hover:text-foreground'
-            )}
-          >
-            Dijkstra
-          </button>
-          <button
-            onClick={() => onAlgorithmChange('astar')}
-            className={cn(
-              'flex-1 py-2 text-sm font-medium transition-colors',
-              algorithm === 'astar'
-                ? 'bg-primary text-primary-foreground'
-                : 'bg-muted text-muted-foreground hover:text-foreground'
-            )}
-          >
-            A*
-          </button>
+        <div className="flex flex-wrap rounded-lg border border-border overflow-hidden">
+          {(Object.keys(ALGORITHMS) as AlgorithmType[]).map(type => (
+            <button
+              key={type}
+              onClick={() => onAlgorithmChange(type)}
+              title={ALGORITHMS[type].description}
+              className={cn(
+                'flex-1 basis-1/3 py-2 text-sm font-medium transition-colors',
+                algorithm === type
+                  ? 'bg-primary text-primary-foreground'
+                  : 'bg-muted text-muted-foreground hover:text-foreground'
+              )}
+            >
+              {ALGORITHMS[type].label}
+            </button>
+          ))}
         </div>
+        
+        {definition.capabilities.parameters?.map(key => {
+          const parameter = ALGORITHM_PARAMETERS[key];
+          return (
+            <div key={key} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs font-normal text-foreground">{parameter.label}</Label>
+                <span className="text-xs font-mono text-muted-foreground">{parameter.format(parameters[key])}</span>
+              </div>
+              <Slider
+                value={[parameters[key]]}
+                onValueChange={([value]) => onParameterChange(key, value)}
+                min={parameter.min}
+                max={parameter.max}
+                step={parameter.step}
+                className="w-full"
+              />
+              {parameter.hint && (
+                <p className="text-xs text-muted-foreground">{parameter.hint(parameters[key])}</p>
+              )}
+            </div>
+          );
+        })}
+        
+        {definition.requires.heuristic && (
+          <HeuristicSelector settings={heuristic} onChange={onHeuristicChange} />
+        )}
+        
+        {definition.capabilities.priorityQueue && (
+          <div className="space-y-2">
+            <Label className="text-xs font-normal text-foreground">Priority queue</Label>
+            <Select value={queueType} onValueChange={(value) => onQueueTypeChange(value as PriorityQueueType)}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PRIORITY_QUEUES) as PriorityQueueType[]).map(type => (
+                  <SelectItem key={type} value={type}>
+                    {PRIORITY_QUEUES[type].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{PRIORITY_QUEUES[queueType].description}</p>
+          </div>
+        )}
+        
+        {definition.capabilities.tieBreaking && (
+          <TieBreakingSelector
+            settings={tieBreaking}
+            usesHeuristic={definition.requires.heuristic}
+            onChange={onTieBreakingChange}
+          />
+        )}
+        
+        {(definition.capabilities.hint || (definition.capabilities.ignoresDirection && directed)) && (
+          <p className="text-xs text-muted-foreground">
+            {definition.capabilities.hint}
+            {definition.capabilities.ignoresDirection && directed && ' Edge directions are ignored: a spanning tree connects nodes either way.'}
+          </p>
+        )}
+        
+        {definition.requires.acyclic && (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">Needs a directed graph without cycles.</p>
+            <Button variant="outline" size="sm" onClick={onLoadProject} className="w-full">
+              Load project example
+            </Button>
+          </div>
+        )}
+        
+        {/* Dijkstra, A*, IDA* and their variants give wrong answers on negative edges */}
+        {hasNegativeWeights && definition.requires.nonNegativeWeights && (
+          <div className="rounded-md border border-destructive/50 bg-destructive/10 p-3 space-y-2">
+            <div className="flex gap-2 text-xs text-destructive">
+              <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+              <span>
+                This graph has negative edge weights. {definition.label} assumes a path never
+                gets cheaper as it grows, so it can return a wrong path. Use Bellman-Ford instead.
+              </span>
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="allow-negative" className="text-xs font-normal text-foreground">
+                Run anyway to see it fail
+              </Label>
+              <Switch
+                id="allow-negative"
+                checked={allowNegativeWeights}
+                onCheckedChange={onAllowNegativeWeightsChange}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+      
+      {/* Graph direction (default for new edges) */}
+      <div className="flex items-center justify-between">
+        <Label htmlFor="graph-directed" className="text-sm font-medium text-foreground">
+          Directed graph
+        </Label>
+        <Switch
+          id="graph-directed"
+          checked={directed}
+          onCheckedChange={onDirectedChange}
+        />
       </div>
       
       {/* Tool buttons */}
@@ -133,6 +299,15 @@ export function Toolbar({
           <RotateCcw className="h-4 w-4 mr-2" />
           Sample
         </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setGeneratorOpen(true)}
+          className="flex-1"
+        >
+          <Shuffle className="h-4 w-4 mr-2" />
+          Random
+        </Button>
         <Button
           variant="outline"
           size="sm"
@@ -143,6 +318,61 @@ export function Toolbar({
           Clear
         </Button>
       </div>
+      
+      {/* File actions */}
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          className="flex-1"
+        >
+          <Upload className="h-4 w-4 mr-2" />
+          Import
+        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Export
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {(Object.keys(GRAPH_FILE_FORMATS) as GraphFileFormat[]).map(format => (
+              <DropdownMenuItem key={format} onClick={() => onExportGraph(format)}>
+                {GRAPH_FILE_FORMATS[format].label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={GRAPH_FILE_ACCEPT}
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            const files = Array.from(e.target.files ?? []);
+            if (files.length > 0) onImportGraph(files);
+            // Allow re-importing the same file
+            e.target.value = '';
+          }}
+        />
+      </div>
+      
+      <GraphGeneratorDialog
+        open={generatorOpen}
+        directed={directed}
+        onGenerate={(options) => {
+          onGenerateGraph(options);
+          setGeneratorOpen(false);
+        }}
+        onCancel={() => setGeneratorOpen(false)}
+      />
     </div>
   );
 }
@@ -0,0 +1,117 @@
+/**
+ * UnionFindPanel - Kruskal's disjoint-set forest
+ * Draws each set as a tree of parent pointers under its root, with ranks,
+ * and highlights the nodes the current step's Find calls walked through.
+ */
+
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { UnionFindState } from '@/core/types';
+import { Network } from 'lucide-react';
+
+interface UnionFindPanelProps {
+  state: UnionFindState | null;
+}
+
+export function UnionFindPanel({ state }: UnionFindPanelProps) {
+  // Children lists, so the forest can be drawn from the roots down
+  const children = new Map<string, string[]>();
+  const roots: string[] = [];
+  if (state) {
+    for (const [nodeId, parent] of state.parent) {
+      if (nodeId === parent) {
+        roots.push(nodeId);
+      } else {
+        children.set(parent, [...(children.get(parent) ?? []), nodeId]);
+      }
+    }
+  }
+  // Bigger sets first; singletons collapse into one row at the bottom
+  const sizeOf = (nodeId: string): number =>
+    1 + (children.get(nodeId) ?? []).reduce((sum, child) => sum + sizeOf(child), 0);
+  const sets = roots.filter(root => children.has(root)).sort((a, b) => sizeOf(b) - sizeOf(a));
+  const singletons = roots.filter(root => !children.has(root));
+
+  const renderNode = (nodeId: string, depth: number): React.ReactNode => (
+    <li key={nodeId}>
+      <div className="flex items-center gap-1.5" style={{ paddingLeft: depth * 14 }}>
+        {depth > 0 && <span className="text-muted-foreground">└</span>}
+        <span
+          className={cn(
+            'font-mono text-xs px-1.5 py-0.5 rounded',
+            state!.touched.includes(nodeId)
+              ? 'bg-node-current/20 text-node-current ring-1 ring-inset ring-node-current'
+              : 'bg-muted text-foreground'
+          )}
+        >
+          {nodeId}
+        </span>
+        {depth === 0 && (
+          <span className="text-xs text-muted-foreground">rank {state!.rank.get(nodeId) ?? 0}</span>
+        )}
+      </div>
+      {children.has(nodeId) && (
+        <ul className="space-y-0.5 mt-0.5">
+          {children.get(nodeId)!.map(child => renderNode(child, depth + 1))}
+        </ul>
+      )}
+    </li>
+  );
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+        <h3 className="text-sm font-semibold text-foreground">Union-Find Forest</h3>
+        {state && (
+          <span className="font-mono text-xs text-muted-foreground">
+            {roots.length} set{roots.length === 1 ? '' : 's'}
+          </span>
+        )}
+      </div>
+
+      {!state ? (
+        <div className="flex-1 flex items-center justify-center text-muted-foreground p-4">
+          <div className="text-center">
+            <Network className="w-8 h-8 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">Run Kruskal to watch the sets merge</p>
+          </div>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-auto p-3 space-y-3">
+          {sets.map(root => (
+            <ul key={root} className="space-y-0.5">
+              {renderNode(root, 0)}
+            </ul>
+          ))}
+
+          {singletons.length > 0 && (
+            <div className="space-y-1">
+              <div className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+                On their own
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {singletons.map(nodeId => (
+                  <span
+                    key={nodeId}
+                    className={cn(
+                      'font-mono text-xs px-1.5 py-0.5 rounded',
+                      state.touched.includes(nodeId)
+                        ? 'bg-node-current/20 text-node-current ring-1 ring-inset ring-node-current'
+                        : 'bg-muted text-muted-foreground'
+                    )}
+                  >
+                    {nodeId}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <p className="text-xs text-muted-foreground">
+            Each node hangs under its parent; the top node names the set. Highlighted nodes were walked by Find.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
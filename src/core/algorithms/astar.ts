@@ -8,48 +8,26 @@
  * where g(n) is the actual cost from start to n
  * and h(n) is the estimated cost from n to goal
  * 
+ * The same best-first loop also runs two relatives that trade path quality
+ * for fewer expansions:
+ *   greedy best-first   f(n) = h(n)             no guarantee at all
+ *   weighted A*         f(n) = g(n) + (1+ε)h(n)  cost ≤ (1+ε) × optimal
+ * 
+ * Closed nodes are never reopened, so A*'s optimality and weighted A*'s
+ * bound only hold when h is consistent (and so admissible) on the graph.
+ * 
  * Time Complexity: O(E) in best case (with perfect heuristic), O((V + E) log V) worst case
  * Space Complexity: O(V)
  */
 
-import { Graph, Node, AlgorithmStep, NodeState, EdgeState } from '../types';
-import { getNeighbors } from '../graph';
+import { Graph, Node, AlgorithmStep, NodeState, EdgeState, PriorityQueueType, HeuristicState, TieBreakingSettings } from '../types';
+import { getNeighbors, hasNegativeWeights } from '../graph';
+import { createPriorityQueue, TieBreaker, DEFAULT_TIE_BREAKING, TIE_BREAKING_POLICIES } from '../queues';
+import { TrackedMap, TrackedSet } from '../trace';
+import { euclideanDistance, isConsistentEstimate } from './heuristics';
 
 // ============================================
-// HEURISTIC FUNCTIONS
-// ============================================
-
-export function euclideanDistance(nodeA: Node, nodeB: Node): number {
-  const dx = nodeA.x - nodeB.x;
-  const dy = nodeA.y - nodeB.y;
-  return Math.sqrt(dx * dx + dy * dy) / 50; // Scale down for reasonable weights
-}
-
-export function manhattanDistance(nodeA: Node, nodeB: Node): number {
-  return (Math.abs(nodeA.x - nodeB.x) + Math.abs(nodeA.y - nodeB.y)) / 50;
-}
-
-// Haversine distance for geographic coordinates (in km)
-export function haversineDistance(nodeA: { lat: number; lng: number }, nodeB: { lat: number; lng: number }): number {
-  const R = 6371; // Earth's radius in km
-  const dLat = toRad(nodeB.lat - nodeA.lat);
-  const dLon = toRad(nodeB.lng - nodeA.lng);
-  const lat1 = toRad(nodeA.lat);
-  const lat2 = toRad(nodeB.lat);
-  
-  const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-            Math.sin(dLon / 2) * Math.sin(dLon / 2) * Math.cos(lat1) * Math.cos(lat2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  
-  return R * c;
-}
-
-function toRad(deg: number): number {
-  return deg * (Math.PI / 180);
-}
-
-// ============================================
-// A* PSEUDOCODE (for display)
+// PSEUDOCODE (for display)
 // ============================================
 
 export const ASTAR_PSEUDOCODE = [
@@ -72,120 +50,138 @@ export const ASTAR_PSEUDOCODE = [
   '                cameFrom[neighbor] ← current',
   '                gScore[neighbor] ← tentative_gScore',
   '                fScore[neighbor] ← gScore[neighbor] + h(neighbor, target)',
-  '                add neighbor to openSet',
+  '                add neighbor to openSet or decrease its key',
   '',
   '    return failure (no path exists)',
 ];
 
+// Same line layout as A*, so the generator's line numbers fit all three
+export const GREEDY_BEST_FIRST_PSEUDOCODE = ASTAR_PSEUDOCODE.map((line, i) =>
+  i === 0 ? 'function GreedyBestFirst(Graph, source, target, h):'
+    : i === 5 ? '    fScore[source] ← h(source, target)        // g is ignored'
+      : i === 18 ? '                fScore[neighbor] ← h(neighbor, target)'
+        : line
+);
+
+export const WEIGHTED_ASTAR_PSEUDOCODE = ASTAR_PSEUDOCODE.map((line, i) =>
+  i === 0 ? 'function WeightedA*(Graph, source, target, h, ε):'
+    : i === 5 ? '    fScore[source] ← (1 + ε) · h(source, target)'
+      : i === 18 ? '                fScore[neighbor] ← gScore[neighbor] + (1 + ε) · h(neighbor, target)'
+        : line
+);
+
 // ============================================
-// PRIORITY QUEUE
+// STEP GENERATORS
 // ============================================
 
-class PriorityQueue<T> {
-  private heap: Array<{ item: T; priority: number }> = [];
-  
-  enqueue(item: T, priority: number): void {
-    this.heap.push({ item, priority });
-    this.bubbleUp(this.heap.length - 1);
-  }
-  
-  dequeue(): T | undefined {
-    if (this.isEmpty()) return undefined;
-    
-    const min = this.heap[0];
-    const last = this.heap.pop()!;
-    
-    if (this.heap.length > 0) {
-      this.heap[0] = last;
-      this.bubbleDown(0);
-    }
-    
-    return min.item;
-  }
-  
-  isEmpty(): boolean {
-    return this.heap.length === 0;
-  }
-  
-  toArray(): Array<{ nodeId: string; priority: number }> {
-    return this.heap.map(h => ({ 
-      nodeId: h.item as unknown as string, 
-      priority: h.priority 
-    }));
-  }
-  
-  private bubbleUp(index: number): void {
-    while (index > 0) {
-      const parentIndex = Math.floor((index - 1) / 2);
-      if (this.heap[parentIndex].priority <= this.heap[index].priority) break;
-      [this.heap[parentIndex], this.heap[index]] = [this.heap[index], this.heap[parentIndex]];
-      index = parentIndex;
-    }
-  }
-  
-  private bubbleDown(index: number): void {
-    while (true) {
-      const leftChild = 2 * index + 1;
-      const rightChild = 2 * index + 2;
-      let smallest = index;
-      
-      if (leftChild < this.heap.length && this.heap[leftChild].priority < this.heap[smallest].priority) {
-        smallest = leftChild;
-      }
-      if (rightChild < this.heap.length && this.heap[rightChild].priority < this.heap[smallest].priority) {
-        smallest = rightChild;
-      }
-      
-      if (smallest === index) break;
-      
-      [this.heap[smallest], this.heap[index]] = [this.heap[index], this.heap[smallest]];
-      index = smallest;
-    }
-  }
+// How a best-first search ranks the open set: f = gWeight·g + hWeight·h
+interface BestFirstVariant {
+  name: string;
+  gWeight: number;
+  hWeight: number;
 }
 
-// ============================================
-// A* STEP GENERATOR
-// ============================================
+export function generateAStarSteps(
+  graph: Graph,
+  sourceId: string,
+  targetId: string,
+  heuristic: (a: Node, b: Node) => number = euclideanDistance,
+  queueType: PriorityQueueType = 'binary',
+  tieBreaking: TieBreakingSettings = DEFAULT_TIE_BREAKING
+): Generator<AlgorithmStep, void, unknown> {
+  return generateBestFirstSteps(graph, sourceId, targetId, heuristic, { name: 'A*', gWeight: 1, hWeight: 1 }, queueType, tieBreaking);
+}
 
-export function* generateAStarSteps(
+export function generateGreedyBestFirstSteps(
   graph: Graph,
   sourceId: string,
   targetId: string,
-  heuristic: (a: Node, b: Node) => number = euclideanDistance
+  heuristic: (a: Node, b: Node) => number = euclideanDistance,
+  queueType: PriorityQueueType = 'binary',
+  tieBreaking: TieBreakingSettings = DEFAULT_TIE_BREAKING
+): Generator<AlgorithmStep, void, unknown> {
+  return generateBestFirstSteps(graph, sourceId, targetId, heuristic, { name: 'Greedy best-first search', gWeight: 0, hWeight: 1 }, queueType, tieBreaking);
+}
+
+export function generateWeightedAStarSteps(
+  graph: Graph,
+  sourceId: string,
+  targetId: string,
+  epsilon: number,
+  heuristic: (a: Node, b: Node) => number = euclideanDistance,
+  queueType: PriorityQueueType = 'binary',
+  tieBreaking: TieBreakingSettings = DEFAULT_TIE_BREAKING
+): Generator<AlgorithmStep, void, unknown> {
+  if (!(epsilon >= 0)) {
+    throw new Error(`Weighted A* needs ε ≥ 0, got ${epsilon}`);
+  }
+  return generateBestFirstSteps(graph, sourceId, targetId, heuristic, { name: `Weighted A* (ε = ${Number(epsilon.toFixed(2))})`, gWeight: 1, hWeight: 1 + epsilon }, queueType, tieBreaking);
+}
+
+function* generateBestFirstSteps(
+  graph: Graph,
+  sourceId: string,
+  targetId: string,
+  heuristic: (a: Node, b: Node) => number,
+  variant: BestFirstVariant,
+  queueType: PriorityQueueType,
+  tieBreaking: TieBreakingSettings
 ): Generator<AlgorithmStep, void, unknown> {
   const targetNode = graph.nodes.get(targetId);
   if (!targetNode) {
     throw new Error(`Target node ${targetId} not found in graph`);
   }
   
+  const { name, gWeight, hWeight } = variant;
+  const isGreedy = gWeight === 0;
+  const isWeighted = !isGreedy && hWeight !== 1;
+  const w = String(Number(hWeight.toFixed(2))); // For display; ε from a slider can carry float noise
+  const fOf = (g: number, h: number) => gWeight * g + hWeight * h;
+  // How f is made up, e.g. "g(2.0) + 1.5·h(3.1)"
+  const describeF = (g: number, h: number) => isGreedy
+    ? `h(${h.toFixed(1)})`
+    : `g(${g.toFixed(1)}) + ${isWeighted ? `${w}·` : ''}h(${h.toFixed(1)})`;
+  
+  // Tracked so that steps can share these maps instead of copying them
   // g(n) - actual cost from start to n
-  const gScore = new Map<string, number>();
-  // f(n) = g(n) + h(n)
+  const gScore = new TrackedMap<string, number>();
+  // f(n), the open-set priority
   const fScore = new Map<string, number>();
-  const predecessors = new Map<string, string | null>();
-  const visited = new Set<string>(); // Closed set
-  const nodeStates = new Map<string, NodeState>();
-  const edgeStates = new Map<string, EdgeState>();
-  const openSet = new PriorityQueue<string>();
-  const inOpenSet = new Set<string>();
+  const predecessors = new TrackedMap<string, string | null>();
+  const predecessorEdges = new TrackedMap<string, string | null>();
+  const visited = new TrackedSet<string>(); // Closed set
+  const nodeStates = new TrackedMap<string, NodeState>();
+  const edgeStates = new TrackedMap<string, EdgeState>();
+  // h never changes during a run, so every step shares one table of it
+  const estimates: HeuristicState = { values: new TrackedMap(), gWeight, hWeight };
+  const tieBreaker = new TieBreaker(tieBreaking, {
+    g: nodeId => gScore.get(nodeId)!,
+    h: nodeId => estimates.values.get(nodeId)!,
+  });
+  const openSet = createPriorityQueue(queueType, tieBreaker);
   
   // Initialize all nodes
-  for (const [nodeId] of graph.nodes) {
+  for (const [nodeId, node] of graph.nodes) {
+    estimates.values.set(nodeId, heuristic(node, targetNode));
     gScore.set(nodeId, Infinity);
     fScore.set(nodeId, Infinity);
     predecessors.set(nodeId, null);
+    predecessorEdges.set(nodeId, null);
     nodeStates.set(nodeId, 'default');
   }
   
+  // Otherwise a node may be closed before its cheapest route is found
+  const guaranteed = !isGreedy && isConsistentEstimate(graph, targetId, nodeId => estimates.values.get(nodeId)!);
+  const unguaranteedReason = hasNegativeWeights(graph)
+    ? 'An edge has a negative weight'
+    : "The heuristic drops by more than an edge's weight somewhere on this graph";
+  
   // Initialize source
-  const sourceNode = graph.nodes.get(sourceId)!;
-  const hValue = heuristic(sourceNode, targetNode);
+  const hValue = estimates.values.get(sourceId)!;
   
   gScore.set(sourceId, 0);
-  fScore.set(sourceId, hValue);
-  openSet.enqueue(sourceId, hValue);
-  inOpenSet.add(sourceId);
+  fScore.set(sourceId, fOf(0, hValue));
+  openSet.insert(sourceId, fOf(0, hValue));
   
   nodeStates.set(sourceId, 'start');
   nodeStates.set(targetId, 'end');
@@ -195,31 +191,43 @@ export function* generateAStarSteps(
     edgeStates.set(edgeId, 'default');
   }
   
-  // Yield initialization step
-  yield {
-    type: 'init',
-    currentNode: null,
-    distances: new Map(gScore),
-    predecessors: new Map(predecessors),
-    visited: new Set(visited),
+  const snapshot = (
+    type: AlgorithmStep['type'],
+    currentNode: string | null,
+    pseudocodeLine: number,
+    explanation: AlgorithmStep['explanation'],
+    extra: Partial<AlgorithmStep> = {}
+  ): AlgorithmStep => ({
+    type,
+    currentNode,
+    distances: gScore,
+    predecessors,
+    predecessorEdges,
+    visited,
     queue: openSet.toArray(),
-    nodeStates: new Map(nodeStates),
-    edgeStates: new Map(edgeStates),
-    pseudocodeLine: 0,
-    explanation: {
-      beginner: `Starting A* from ${sourceId} to ${targetId}. We use a heuristic to guide our search toward the goal more efficiently than Dijkstra.`,
-      advanced: `Init: g(${sourceId})=0, f(${sourceId})=h(${sourceId},${targetId})=${hValue.toFixed(1)}. Open set: {${sourceId}}.`,
-    },
-  };
+    queueStats: { ...openSet.counts },
+    nodeStates,
+    edgeStates,
+    pseudocodeLine,
+    explanation,
+    expanded: visited.size,
+    heuristic: estimates,
+    ...(isWeighted && guaranteed ? { suboptimalityBound: hWeight } : {}),
+    ...extra,
+  });
+  
+  yield snapshot('init', null, 0, {
+    beginner: isGreedy
+      ? `Starting greedy best-first search from ${sourceId} to ${targetId}. It always heads for the node that looks closest to the goal, ignoring how far it has already traveled, so it is fast but may find a long path.`
+      : isWeighted
+        ? `Starting ${name} from ${sourceId} to ${targetId}. Trusting the heuristic ${w}× as much pulls the search harder toward the goal; ${guaranteed ? `the path found costs at most ${w}× the shortest one` : 'with a heuristic that is inconsistent on this graph, the path found has no bound on its cost'}.`
+        : `Starting A* from ${sourceId} to ${targetId}. We use a heuristic to guide our search toward the goal more efficiently than Dijkstra.`,
+    advanced: `Init: g(${sourceId})=0, f(${sourceId})=${describeF(0, hValue)}=${fOf(0, hValue).toFixed(1)}. Open set: {${sourceId}}.` +
+      (isWeighted ? ` With a consistent h, cost ≤ (1+ε)·C* = ${w}·C*.` : ''),
+  });
   
   while (!openSet.isEmpty()) {
-    const currentId = openSet.dequeue()!;
-    inOpenSet.delete(currentId);
-    
-    // Skip if already visited
-    if (visited.has(currentId)) continue;
-    
-    const currentNode = graph.nodes.get(currentId)!;
+    const currentId = openSet.extractMin()!.nodeId;
     
     // Mark as current
     if (currentId !== sourceId && currentId !== targetId) {
@@ -228,53 +236,50 @@ export function* generateAStarSteps(
     
     const currentF = fScore.get(currentId)!;
     const currentG = gScore.get(currentId)!;
-    const currentH = heuristic(currentNode, targetNode);
+    const currentH = estimates.values.get(currentId)!;
     
-    yield {
-      type: 'select-node',
-      currentNode: currentId,
-      distances: new Map(gScore),
-      predecessors: new Map(predecessors),
-      visited: new Set(visited),
-      queue: openSet.toArray(),
-      nodeStates: new Map(nodeStates),
-      edgeStates: new Map(edgeStates),
-      pseudocodeLine: 8,
-      explanation: {
-        beginner: `Selecting node ${currentId} because it has the lowest f-score (${currentF.toFixed(1)}). This combines actual distance (${currentG.toFixed(1)}) + estimated remaining (${currentH.toFixed(1)}).`,
-        advanced: `Pop ${currentId}: f=${currentF.toFixed(1)} = g(${currentG.toFixed(1)}) + h(${currentH.toFixed(1)})`,
-      },
+    // Open nodes that were just as good lost the tie; name the rule that picked this one
+    const tied = openSet.toArray().filter(entry => entry.priority === currentF).map(entry => entry.nodeId);
+    const reason = tied.length > 0 ? tieBreaker.reason(currentId, tied) : '';
+    const tieNote = tied.length === 0 ? { beginner: '', advanced: '' } : {
+      beginner: ` ${tied.length === 1 ? `${tied[0]} had` : `${tied.length} other nodes had`} the same f-score; ${currentId} goes first because ${reason}.`,
+      advanced: ` Tie at f=${currentF.toFixed(1)} with {${tied.join(', ')}} broken by ${TIE_BREAKING_POLICIES[tieBreaking.policy].label}: ${reason}.`,
     };
     
+    yield snapshot('select-node', currentId, 8, {
+      beginner: (isGreedy
+        ? `Selecting node ${currentId} because it looks closest to the goal (estimate ${currentH.toFixed(1)}). How far we traveled to get here (${currentG.toFixed(1)}) doesn't count.`
+        : `Selecting node ${currentId} because it has the lowest f-score (${currentF.toFixed(1)}). This combines actual distance (${currentG.toFixed(1)}) + ${isWeighted ? `${w}× ` : ''}estimated remaining (${currentH.toFixed(1)}).`) + tieNote.beginner,
+      advanced: `Pop ${currentId}: f=${currentF.toFixed(1)} = ${describeF(currentG, currentH)}.` + tieNote.advanced,
+    });
+    
     // Check if we've reached the target
     if (currentId === targetId) {
       const path = reconstructPath(predecessors, targetId);
       
       // Mark path
       for (let i = 0; i < path.length - 1; i++) {
-        const edgeId = findEdgeId(graph, path[i], path[i + 1]);
+        // Use the recorded edge; with parallel edges the node pair is ambiguous
+        const edgeId = predecessorEdges.get(path[i + 1]);
         if (edgeId) edgeStates.set(edgeId, 'path');
         nodeStates.set(path[i], path[i] === sourceId ? 'start' : 'path');
       }
       nodeStates.set(targetId, 'end');
       
-      yield {
-        type: 'path-found',
-        currentNode: currentId,
-        distances: new Map(gScore),
-        predecessors: new Map(predecessors),
-        visited: new Set(visited),
-        queue: openSet.toArray(),
-        nodeStates: new Map(nodeStates),
-        edgeStates: new Map(edgeStates),
-        pseudocodeLine: 10,
-        explanation: {
-          beginner: `Found the shortest path! Total distance: ${gScore.get(targetId)?.toFixed(1)}. A* found this by prioritizing nodes that seem closer to the goal.`,
-          advanced: `Path found: ${path.join(' → ')}. Cost: ${gScore.get(targetId)?.toFixed(1)}. Nodes explored: ${visited.size + 1}.`,
-        },
-        shortestPath: path,
-        totalDistance: gScore.get(targetId),
-      };
+      const cost = gScore.get(targetId)!;
+      yield snapshot('path-found', currentId, 10, {
+        beginner: isGreedy
+          ? `Reached the goal! This path costs ${cost.toFixed(1)}, but greedy search never compared it with other routes, so a shorter one may exist.`
+          : !guaranteed
+            ? `Reached the goal with a path of cost ${cost.toFixed(1)}. ${unguaranteedReason}, so a node may have been closed before its cheapest route was found: this cost is not guaranteed to be ${isWeighted ? `within ${w}× the shortest` : 'optimal'}.`
+            : isWeighted
+              ? `Reached the goal with a path of cost ${cost.toFixed(1)}. It may not be the shortest, but it is at most ${w}× the shortest.`
+              : `Found the shortest path! Total distance: ${cost.toFixed(1)}. A* found this by prioritizing nodes that seem closer to the goal.`,
+        advanced: `Path found: ${path.join(' → ')}. Cost: ${cost.toFixed(1)}. Nodes expanded: ${visited.size + 1}.` +
+          (isGreedy || !guaranteed
+            ? ` No optimality guarantee${isGreedy ? '' : ': h(u) > w + h(v) on some edge'}.`
+            : isWeighted ? ` Bound: C* ≥ ${(cost / hWeight).toFixed(1)}.` : ''),
+      }, { shortestPath: path, totalDistance: cost, expanded: visited.size + 1 });
       return;
     }
     
@@ -290,107 +295,55 @@ export function* generateAStarSteps(
     for (const { nodeId: neighborId, edgeId, weight } of neighbors) {
       if (visited.has(neighborId)) continue;
       
-      const neighborNode = graph.nodes.get(neighborId)!;
       const tentativeG = gScore.get(currentId)! + weight;
       const currentNeighborG = gScore.get(neighborId)!;
+      const currentEdge = {
+        edgeId,
+        from: currentId,
+        to: neighborId,
+        weight,
+        oldDistance: currentNeighborG,
+        newDistance: tentativeG,
+        wasRelaxed: tentativeG < currentNeighborG,
+      };
       
       edgeStates.set(edgeId, 'considering');
       
-      yield {
-        type: 'examine-edge',
-        currentNode: currentId,
-        distances: new Map(gScore),
-        predecessors: new Map(predecessors),
-        visited: new Set(visited),
-        queue: openSet.toArray(),
-        nodeStates: new Map(nodeStates),
-        edgeStates: new Map(edgeStates),
-        pseudocodeLine: 14,
-        currentEdge: {
-          edgeId,
-          from: currentId,
-          to: neighborId,
-          weight,
-          oldDistance: currentNeighborG,
-          newDistance: tentativeG,
-          wasRelaxed: tentativeG < currentNeighborG,
-        },
-        explanation: {
-          beginner: `Checking neighbor ${neighborId}. Path through ${currentId} would cost ${tentativeG.toFixed(1)}, current best is ${currentNeighborG === Infinity ? '∞' : currentNeighborG.toFixed(1)}.`,
-          advanced: `Edge (${currentId},${neighborId}): tentative_g = ${gScore.get(currentId)!.toFixed(1)} + ${weight} = ${tentativeG.toFixed(1)}`,
-        },
-      };
+      yield snapshot('examine-edge', currentId, 14, {
+        beginner: `Checking neighbor ${neighborId}. Path through ${currentId} would cost ${tentativeG.toFixed(1)}, current best is ${currentNeighborG === Infinity ? '∞' : currentNeighborG.toFixed(1)}.`,
+        advanced: `Edge (${currentId},${neighborId}): tentative_g = ${gScore.get(currentId)!.toFixed(1)} + ${weight} = ${tentativeG.toFixed(1)}`,
+      }, { currentEdge });
       
       if (tentativeG < currentNeighborG) {
         // Found a better path
-        const h = heuristic(neighborNode, targetNode);
-        const f = tentativeG + h;
+        const h = estimates.values.get(neighborId)!;
+        const f = fOf(tentativeG, h);
         
         predecessors.set(neighborId, currentId);
+        predecessorEdges.set(neighborId, edgeId);
         gScore.set(neighborId, tentativeG);
         fScore.set(neighborId, f);
         edgeStates.set(edgeId, 'relaxed');
         
-        if (!inOpenSet.has(neighborId)) {
-          openSet.enqueue(neighborId, f);
-          inOpenSet.add(neighborId);
-        }
+        // Already open (e.g. a cheaper parallel edge was found): lower its
+        // key in place. f only falls, since h(neighbor) is unchanged
+        openSet.insertOrDecreaseKey(neighborId, f);
         
         if (neighborId !== targetId) {
           nodeStates.set(neighborId, 'in-queue');
         }
         
-        yield {
-          type: 'relax-edge',
-          currentNode: currentId,
-          distances: new Map(gScore),
-          predecessors: new Map(predecessors),
-          visited: new Set(visited),
-          queue: openSet.toArray(),
-          nodeStates: new Map(nodeStates),
-          edgeStates: new Map(edgeStates),
-          pseudocodeLine: 17,
-          currentEdge: {
-            edgeId,
-            from: currentId,
-            to: neighborId,
-            weight,
-            oldDistance: currentNeighborG,
-            newDistance: tentativeG,
-            wasRelaxed: true,
-          },
-          explanation: {
-            beginner: `Found better path to ${neighborId}! g=${tentativeG.toFixed(1)}, h=${h.toFixed(1)}, f=${f.toFixed(1)}`,
-            advanced: `Update: g[${neighborId}]=${tentativeG.toFixed(1)}, f[${neighborId}]=${f.toFixed(1)}, prev[${neighborId}]=${currentId}`,
-          },
-        };
+        yield snapshot('relax-edge', currentId, 17, {
+          beginner: `Found better path to ${neighborId}! g=${tentativeG.toFixed(1)}, h=${h.toFixed(1)}, f=${f.toFixed(1)}`,
+          advanced: `Update: g[${neighborId}]=${tentativeG.toFixed(1)}, f[${neighborId}]=${describeF(tentativeG, h)}=${f.toFixed(1)}, prev[${neighborId}]=${currentId}`,
+        }, { currentEdge });
       } else {
         edgeStates.set(edgeId, 'rejected');
         
-        yield {
-          type: 'skip-edge',
-          currentNode: currentId,
-          distances: new Map(gScore),
-          predecessors: new Map(predecessors),
-          visited: new Set(visited),
-          queue: openSet.toArray(),
-          nodeStates: new Map(nodeStates),
-          edgeStates: new Map(edgeStates),
-          pseudocodeLine: 15,
-          currentEdge: {
-            edgeId,
-            from: currentId,
-            to: neighborId,
-            weight,
-            oldDistance: currentNeighborG,
-            newDistance: tentativeG,
-            wasRelaxed: false,
-          },
-          explanation: {
-            beginner: `Path through ${currentId} to ${neighborId} isn't better. Keeping current path.`,
-            advanced: `No update: ${tentativeG.toFixed(1)} ≥ ${currentNeighborG.toFixed(1)}`,
-          },
-        };
+        yield snapshot('skip-edge', currentId, 15, {
+          beginner: `Path through ${currentId} to ${neighborId} isn't better. Keeping current path.`,
+          advanced: `No update: ${tentativeG.toFixed(1)} ≥ ${currentNeighborG.toFixed(1)}`,
+        }, { currentEdge });
         
         edgeStates.set(edgeId, 'default');
       }
@@ -405,21 +358,10 @@ export function* generateAStarSteps(
   }
   
   // No path found
-  yield {
-    type: 'no-path',
-    currentNode: null,
-    distances: new Map(gScore),
-    predecessors: new Map(predecessors),
-    visited: new Set(visited),
-    queue: [],
-    nodeStates: new Map(nodeStates),
-    edgeStates: new Map(edgeStates),
-    pseudocodeLine: 21,
-    explanation: {
-      beginner: `No path exists from ${sourceId} to ${targetId}.`,
-      advanced: `Open set empty. Target ${targetId} unreachable.`,
-    },
-  };
+  yield snapshot('no-path', null, 21, {
+    beginner: `No path exists from ${sourceId} to ${targetId}.`,
+    advanced: `Open set empty. Target ${targetId} unreachable.`,
+  }, { queue: [] });
 }
 
 // ============================================
@@ -437,15 +379,3 @@ function reconstructPath(predecessors: Map<string, string | null>, targetId: str
   
   return path;
 }
-
-function findEdgeId(graph: Graph, nodeA: string, nodeB: string): string | null {
-  for (const [edgeId, edge] of graph.edges) {
-    if (
-      (edge.source === nodeA && edge.target === nodeB) ||
-      (!graph.directed && edge.source === nodeB && edge.target === nodeA)
-    ) {
-      return edgeId;
-    }
-  }
-  return null;
-}
@@ -0,0 +1,323 @@
+/**
+ * Bellman-Ford Algorithm - Step-by-Step Generator
+ *
+ * Relaxes every edge once per pass instead of settling nodes in order, so
+ * unlike Dijkstra and A* it stays correct with negative edge weights. After
+ * |V| − 1 passes all shortest paths are known; if one more pass can still
+ * improve a distance, a negative cycle is reachable from the source and
+ * shortest paths are undefined. The cycle is then found and highlighted.
+ *
+ * Undirected edges can be walked both ways, so an undirected negative edge
+ * is itself a negative cycle (u → v → u).
+ *
+ * Time Complexity: O(V · E)
+ * Space Complexity: O(V)
+ */
+
+import { Graph, AlgorithmStep, NodeState, EdgeState } from '../types';
+import { isEdgeDirected } from '../graph';
+import { TrackedMap, TrackedSet } from '../trace';
+
+// ============================================
+// BELLMAN-FORD PSEUDOCODE (for display)
+// ============================================
+
+export const BELLMAN_FORD_PSEUDOCODE = [
+  'function BellmanFord(Graph, source):',
+  '    for each vertex v in Graph:',
+  '        dist[v] ← INFINITY',
+  '        prev[v] ← UNDEFINED',
+  '    dist[source] ← 0',
+  '',
+  '    repeat |V| − 1 times:',
+  '        changed ← false',
+  '        for each edge (u, v) with weight w:',
+  '            if dist[u] + w < dist[v]:',
+  '                dist[v] ← dist[u] + w',
+  '                prev[v] ← u',
+  '                changed ← true',
+  '        if not changed: break',
+  '',
+  '    for each edge (u, v) with weight w:',
+  '        if dist[u] + w < dist[v]:',
+  '            error "negative cycle"',
+  '',
+  '    return dist[], prev[]',
+];
+
+// ============================================
+// STEP GENERATOR
+// ============================================
+
+// One traversable direction of an edge
+interface Arc {
+  edgeId: string;
+  from: string;
+  to: string;
+  weight: number;
+}
+
+export function* generateBellmanFordSteps(
+  graph: Graph,
+  sourceId: string,
+  targetId?: string
+): Generator<AlgorithmStep, void, unknown> {
+  const distances = new TrackedMap<string, number>();
+  const predecessors = new TrackedMap<string, string | null>();
+  const predecessorEdges = new TrackedMap<string, string | null>();
+  const reached = new TrackedSet<string>();
+  const nodeStates = new TrackedMap<string, NodeState>();
+  const edgeStates = new TrackedMap<string, EdgeState>();
+
+  for (const [nodeId] of graph.nodes) {
+    distances.set(nodeId, nodeId === sourceId ? 0 : Infinity);
+    predecessors.set(nodeId, null);
+    predecessorEdges.set(nodeId, null);
+    nodeStates.set(nodeId, 'default');
+  }
+  reached.add(sourceId);
+
+  for (const [edgeId] of graph.edges) {
+    edgeStates.set(edgeId, 'default');
+  }
+
+  // Every pass relaxes the edges in the same order
+  const arcs: Arc[] = [];
+  for (const edge of graph.edges.values()) {
+    arcs.push({ edgeId: edge.id, from: edge.source, to: edge.target, weight: edge.weight });
+    if (!isEdgeDirected(graph, edge) && edge.source !== edge.target) {
+      arcs.push({ edgeId: edge.id, from: edge.target, to: edge.source, weight: edge.weight });
+    }
+  }
+
+  // Source and target keep their markers unless they are on a cycle
+  const endpointState = (nodeId: string): NodeState | null =>
+    nodeId === sourceId ? 'start' : nodeId === targetId ? 'end' : null;
+  const setNodeState = (nodeId: string, state: NodeState) => {
+    nodeStates.set(nodeId, endpointState(nodeId) ?? state);
+  };
+  setNodeState(sourceId, 'default');
+  if (targetId) setNodeState(targetId, 'default');
+
+  const snapshot = (
+    type: AlgorithmStep['type'],
+    currentNode: string | null,
+    pseudocodeLine: number,
+    explanation: AlgorithmStep['explanation'],
+    extra: Partial<AlgorithmStep> = {}
+  ): AlgorithmStep => ({
+    type,
+    currentNode,
+    distances,
+    predecessors,
+    predecessorEdges,
+    visited: reached,
+    queue: [],
+    nodeStates,
+    edgeStates,
+    pseudocodeLine,
+    explanation,
+    ...extra,
+  });
+
+  const format = (d: number) => (d === Infinity ? '∞' : String(d));
+  const passCount = Math.max(graph.nodes.size - 1, 0);
+
+  yield snapshot('init', null, 4, {
+    beginner: `Starting Bellman-Ford from node ${sourceId}. Every edge will be checked up to ${passCount} times, which works even when some weights are negative.`,
+    advanced: `Initialization: dist[${sourceId}] = 0, dist[v] = ∞ for all v ≠ ${sourceId}. ${arcs.length} relaxable arcs (undirected edges count both ways), at most |V| − 1 = ${passCount} passes.`,
+  });
+
+  // Relax one arc, yielding a step unless its tail is still unreached
+  function* relax(arc: Arc, pass: number, checking: boolean): Generator<AlgorithmStep, boolean, unknown> {
+    const fromDist = distances.get(arc.from)!;
+    if (fromDist === Infinity) return false; // ∞ + w never improves anything
+
+    const oldDist = distances.get(arc.to)!;
+    const newDist = fromDist + arc.weight;
+    const improves = newDist < oldDist;
+    const currentEdge = {
+      edgeId: arc.edgeId,
+      from: arc.from,
+      to: arc.to,
+      weight: arc.weight,
+      oldDistance: oldDist,
+      newDistance: newDist,
+      wasRelaxed: improves,
+    };
+
+    const previousFromState = nodeStates.get(arc.from)!;
+    setNodeState(arc.from, 'current');
+
+    if (!improves) {
+      edgeStates.set(arc.edgeId, 'rejected');
+      yield snapshot('skip-edge', arc.from, checking ? 16 : 9, {
+        beginner: `Edge ${arc.from} → ${arc.to} (weight ${arc.weight}) would give ${arc.to} a distance of ${newDist}, which isn't better than ${format(oldDist)}.`,
+        advanced: `${checking ? 'Check pass' : `Pass ${pass}`}: dist[${arc.from}] + w = ${fromDist} + ${arc.weight} = ${newDist} ≥ dist[${arc.to}] = ${format(oldDist)}. No change.`,
+      }, { currentEdge });
+      edgeStates.set(arc.edgeId, 'default');
+      nodeStates.set(arc.from, previousFromState);
+      return false;
+    }
+
+    if (checking) {
+      // Record the improvement so the predecessor chain leads into the cycle
+      distances.set(arc.to, newDist);
+      predecessors.set(arc.to, arc.from);
+      predecessorEdges.set(arc.to, arc.edgeId);
+      edgeStates.set(arc.edgeId, 'considering');
+      yield snapshot('examine-edge', arc.from, 17, {
+        beginner: `After ${passCount} passes, edge ${arc.from} → ${arc.to} can STILL shorten the distance to ${arc.to} (${format(oldDist)} → ${newDist}). That can only happen if there is a loop of negative total weight.`,
+        advanced: `dist[${arc.from}] + w = ${newDist} < dist[${arc.to}] = ${format(oldDist)} after |V| − 1 passes: a negative-weight cycle is reachable from ${sourceId}.`,
+      }, { currentEdge });
+      nodeStates.set(arc.from, previousFromState);
+      return true;
+    }
+
+    distances.set(arc.to, newDist);
+    predecessors.set(arc.to, arc.from);
+    predecessorEdges.set(arc.to, arc.edgeId);
+    reached.add(arc.to);
+    edgeStates.set(arc.edgeId, 'relaxed');
+    setNodeState(arc.to, 'in-queue');
+
+    yield snapshot('relax-edge', arc.from, 10, {
+      beginner: `Found a shorter way to ${arc.to} through ${arc.from}! Its distance drops from ${format(oldDist)} to ${newDist}.`,
+      advanced: `Pass ${pass}: ${fromDist} + ${arc.weight} = ${newDist} < ${format(oldDist)}, so dist[${arc.to}] ← ${newDist}, prev[${arc.to}] ← ${arc.from}.`,
+    }, { currentEdge });
+
+    nodeStates.set(arc.from, previousFromState);
+    return true;
+  }
+
+  // Nodes and edges changed during a pass are shown until the next one begins
+  const endPass = () => {
+    for (const nodeId of reached) setNodeState(nodeId, 'visited');
+    for (const [edgeId, state] of edgeStates) {
+      if (state === 'relaxed') edgeStates.set(edgeId, 'default');
+    }
+  };
+
+  let converged = false;
+  let lastPass = 0;
+
+  for (let pass = 1; pass <= passCount; pass++) {
+    lastPass = pass;
+    yield snapshot('begin-pass', null, 6, {
+      beginner: `Pass ${pass} of at most ${passCount}: check every edge in turn and keep any shortcut it offers.`,
+      advanced: `Pass ${pass}/${passCount}. After pass k, dist[v] is optimal for every v whose shortest path uses at most k edges.`,
+    });
+
+    let changed = 0;
+    for (const arc of arcs) {
+      if (yield* relax(arc, pass, false)) changed++;
+    }
+    endPass();
+
+    if (changed === 0) {
+      converged = true;
+      yield snapshot('begin-pass', null, 13, {
+        beginner: `Nothing changed during pass ${pass}, so no further pass can change anything either. We can stop early.`,
+        advanced: `Pass ${pass} relaxed no arcs: dist[] is a fixed point, so it is optimal and no negative cycle is reachable. Early termination after ${pass} of ${passCount} passes.`,
+      });
+      break;
+    }
+  }
+
+  // One extra pass: any improvement now proves a negative cycle
+  if (!converged && arcs.length > 0) {
+    yield snapshot('begin-pass', null, 15, {
+      beginner: `All ${passCount} passes are done. One more check of every edge: if anything can still improve, there is a negative cycle.`,
+      advanced: `Negative-cycle check: a further relaxation after |V| − 1 = ${passCount} passes is impossible unless a negative-weight cycle is reachable.`,
+    });
+
+    let witness: string | null = null;
+    for (const arc of arcs) {
+      if (yield* relax(arc, passCount + 1, true)) witness = arc.to;
+    }
+
+    if (witness !== null) {
+      const cycle = findCycle(predecessors, witness, graph.nodes.size);
+      for (const [edgeId] of edgeStates) edgeStates.set(edgeId, 'default');
+      for (let i = 0; i < cycle.length; i++) {
+        nodeStates.set(cycle[i], 'cycle');
+        const edgeId = predecessorEdges.get(cycle[(i + 1) % cycle.length]);
+        if (edgeId) edgeStates.set(edgeId, 'cycle');
+      }
+      const cycleWeight = cycle.reduce((sum, nodeId, i) => {
+        const edgeId = predecessorEdges.get(cycle[(i + 1) % cycle.length]);
+        return sum + (edgeId ? graph.edges.get(edgeId)!.weight : 0);
+      }, 0);
+      const loop = [...cycle, cycle[0]].join(' → ');
+
+      yield snapshot('negative-cycle', null, 17, {
+        beginner: `Negative cycle found: ${loop} has total weight ${cycleWeight}. Going around it again and again makes paths cheaper forever, so there is no shortest path to any node reachable from it.`,
+        advanced: `Negative cycle ${loop} with weight ${cycleWeight} (found by following prev[] ${graph.nodes.size} times from ${witness}). dist[] is undefined (−∞) for every vertex reachable from the cycle.`,
+      }, { negativeCycle: cycle });
+      return;
+    }
+  }
+
+  const stopped = converged ? `after ${lastPass} pass${lastPass === 1 ? '' : 'es'}` : `after all ${passCount} passes`;
+
+  if (targetId) {
+    if (distances.get(targetId) === Infinity) {
+      yield snapshot('no-path', null, 19, {
+        beginner: `No path exists from ${sourceId} to ${targetId}.`,
+        advanced: `Algorithm terminated ${stopped}. dist[${targetId}] = ∞: target unreachable from ${sourceId}.`,
+      });
+      return;
+    }
+
+    const path = reconstructPath(predecessors, targetId);
+    for (let i = 0; i < path.length - 1; i++) {
+      const edgeId = predecessorEdges.get(path[i + 1]);
+      if (edgeId) edgeStates.set(edgeId, 'path');
+      setNodeState(path[i], 'path');
+    }
+
+    yield snapshot('path-found', targetId, 19, {
+      beginner: `Found the shortest path to ${targetId}! Total distance: ${distances.get(targetId)}.`,
+      advanced: `Terminated ${stopped}. Shortest path: ${path.join(' → ')} with total weight ${distances.get(targetId)}.`,
+    }, { shortestPath: path, totalDistance: distances.get(targetId) });
+    return;
+  }
+
+  yield snapshot('complete', null, 19, {
+    beginner: `Bellman-Ford complete! Found shortest paths from ${sourceId} to all reachable nodes.`,
+    advanced: `Algorithm terminated ${stopped}. Single-source shortest paths computed for all vertices reachable from ${sourceId}; no negative cycle is reachable.`,
+  });
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function reconstructPath(predecessors: Map<string, string | null>, targetId: string): string[] {
+  const path: string[] = [];
+  let current: string | null = targetId;
+
+  while (current !== null) {
+    path.unshift(current);
+    current = predecessors.get(current) ?? null;
+  }
+
+  return path;
+}
+
+// Walking prev[] |V| times from a node improved in the check pass is
+// guaranteed to land on the cycle; then follow it around once
+function findCycle(predecessors: Map<string, string | null>, start: string, nodeCount: number): string[] {
+  let onCycle = start;
+  for (let i = 0; i < nodeCount; i++) {
+    onCycle = predecessors.get(onCycle) ?? onCycle;
+  }
+
+  const cycle: string[] = [onCycle];
+  let current = predecessors.get(onCycle) ?? onCycle;
+  while (current !== onCycle) {
+    cycle.unshift(current);
+    current = predecessors.get(current) ?? onCycle;
+  }
+  return cycle;
+}
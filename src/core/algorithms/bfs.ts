@@ -0,0 +1,222 @@
+/**
+ * Breadth-First Search - Step-by-Step Generator
+ *
+ * BFS is Dijkstra with every edge weighing 1: a plain FIFO queue already
+ * hands out nodes in order of distance, so no priority queue is needed.
+ * Edge weights are ignored and distances count edges (hops). The first
+ * time a node is discovered is along a path with the fewest edges.
+ *
+ * Time Complexity: O(V + E)
+ * Space Complexity: O(V)
+ */
+
+import { Graph, AlgorithmStep, NodeState, EdgeState } from '../types';
+import { getNeighbors } from '../graph';
+import { TrackedMap, TrackedSet } from '../trace';
+
+// ============================================
+// BFS PSEUDOCODE (for display)
+// ============================================
+
+export const BFS_PSEUDOCODE = [
+  'function BFS(Graph, source):',
+  '    for each vertex v in Graph:',
+  '        dist[v] ← INFINITY',
+  '    dist[source] ← 0',
+  '    Q ← queue containing source',
+  '',
+  '    while Q is not empty:',
+  '        u ← Q.dequeue()',
+  '        for each neighbor v of u:',
+  '            if dist[v] = INFINITY:',
+  '                dist[v] ← dist[u] + 1',
+  '                prev[v] ← u',
+  '                Q.enqueue(v)',
+  '',
+  '    return dist[], prev[]',
+];
+
+// ============================================
+// STEP GENERATOR
+// ============================================
+
+export function* generateBfsSteps(
+  graph: Graph,
+  sourceId: string,
+  targetId?: string
+): Generator<AlgorithmStep, void, unknown> {
+  const distances = new TrackedMap<string, number>();
+  const predecessors = new TrackedMap<string, string | null>();
+  const predecessorEdges = new TrackedMap<string, string | null>();
+  const visited = new TrackedSet<string>(); // Dequeued and fully expanded
+  const nodeStates = new TrackedMap<string, NodeState>();
+  const edgeStates = new TrackedMap<string, EdgeState>();
+  const queue: string[] = [sourceId];
+  const discovered: string[] = [sourceId];
+  const finished: string[] = [];
+
+  for (const [nodeId] of graph.nodes) {
+    distances.set(nodeId, nodeId === sourceId ? 0 : Infinity);
+    predecessors.set(nodeId, null);
+    predecessorEdges.set(nodeId, null);
+    nodeStates.set(nodeId, nodeId === sourceId ? 'start' : 'default');
+  }
+  if (targetId) nodeStates.set(targetId, 'end');
+
+  for (const [edgeId] of graph.edges) {
+    edgeStates.set(edgeId, 'default');
+  }
+
+  const setNodeState = (nodeId: string, state: NodeState) => {
+    if (nodeId !== sourceId && nodeId !== targetId) nodeStates.set(nodeId, state);
+  };
+
+  const snapshot = (
+    type: AlgorithmStep['type'],
+    currentNode: string | null,
+    pseudocodeLine: number,
+    explanation: AlgorithmStep['explanation'],
+    extra: Partial<AlgorithmStep> = {}
+  ): AlgorithmStep => ({
+    type,
+    currentNode,
+    distances,
+    predecessors,
+    predecessorEdges,
+    visited,
+    queue: queue.map(nodeId => ({ nodeId, priority: distances.get(nodeId)! })),
+    queueKind: 'fifo',
+    traversal: { discovered, finished },
+    nodeStates,
+    edgeStates,
+    pseudocodeLine,
+    explanation,
+    ...extra,
+  });
+
+  // A non-tree edge leads back to an ancestor (or u itself) in the BFS tree,
+  // or across to another branch
+  const isAncestor = (ancestorId: string, nodeId: string): boolean => {
+    for (let id: string | null = nodeId; id !== null; id = predecessors.get(id) ?? null) {
+      if (id === ancestorId) return true;
+    }
+    return false;
+  };
+
+  yield snapshot('init', null, 4, {
+    beginner: `Starting breadth-first search from ${sourceId}. Edge weights are ignored: every edge counts as one step, and the queue serves nodes first-come, first-served.`,
+    advanced: `Initialization: dist[${sourceId}] = 0, dist[v] = ∞ otherwise, Q = [${sourceId}]. BFS is Dijkstra with w ≡ 1, where a FIFO queue is already ordered by dist.`,
+  });
+
+  if (targetId === sourceId) {
+    yield snapshot('path-found', sourceId, 3, {
+      beginner: `${sourceId} is both the source and the target, so the path has no steps at all.`,
+      advanced: `source = target: dist[${sourceId}] = 0 with the trivial path.`,
+    }, { shortestPath: [sourceId], totalDistance: 0 });
+    return;
+  }
+
+  while (queue.length > 0) {
+    const currentId = queue.shift()!;
+    const currentDist = distances.get(currentId)!;
+    setNodeState(currentId, 'current');
+
+    yield snapshot('select-node', currentId, 7, {
+      beginner: `Taking ${currentId} from the front of the queue. It is ${currentDist} step${currentDist === 1 ? '' : 's'} from ${sourceId}.`,
+      advanced: `Dequeue u = ${currentId}, dist[u] = ${currentDist}. Nodes leave the queue in non-decreasing order of dist.`,
+    });
+
+    for (const { nodeId: neighborId, edgeId } of getNeighbors(graph, currentId)) {
+      // An undirected edge is classified once, from the side that reaches it first
+      if (edgeStates.get(edgeId) !== 'default') continue;
+
+      const oldDist = distances.get(neighborId)!;
+      const newDist = currentDist + 1;
+      const currentEdge = {
+        edgeId,
+        from: currentId,
+        to: neighborId,
+        weight: 1,
+        oldDistance: oldDist,
+        newDistance: newDist,
+        wasRelaxed: oldDist === Infinity,
+      };
+
+      if (oldDist !== Infinity) {
+        const kind = isAncestor(neighborId, currentId) ? 'back' : 'cross';
+        edgeStates.set(edgeId, kind);
+        yield snapshot('skip-edge', currentId, 9, {
+          beginner: `${neighborId} was already discovered (${oldDist} step${oldDist === 1 ? '' : 's'} away), so this edge adds nothing.`,
+          advanced: `dist[${neighborId}] = ${oldDist} ≠ ∞: non-tree ${kind} edge (${currentId}, ${neighborId}).`,
+        }, { currentEdge });
+        continue;
+      }
+
+      distances.set(neighborId, newDist);
+      predecessors.set(neighborId, currentId);
+      predecessorEdges.set(neighborId, edgeId);
+      queue.push(neighborId);
+      discovered.push(neighborId);
+      edgeStates.set(edgeId, 'tree');
+      setNodeState(neighborId, 'in-queue');
+
+      yield snapshot('relax-edge', currentId, 12, {
+        beginner: `Discovered ${neighborId}! It is ${newDist} step${newDist === 1 ? '' : 's'} from ${sourceId}; it joins the back of the queue.`,
+        advanced: `Tree edge (${currentId}, ${neighborId}): dist[${neighborId}] ← ${newDist}, prev[${neighborId}] ← ${currentId}, enqueue ${neighborId}.`,
+      }, { currentEdge });
+
+      // The first discovery is already along a fewest-edges path
+      if (neighborId === targetId) {
+        const path = reconstructPath(predecessors, targetId);
+        for (let i = 0; i < path.length - 1; i++) {
+          const pathEdgeId = predecessorEdges.get(path[i + 1]);
+          if (pathEdgeId) edgeStates.set(pathEdgeId, 'path');
+          setNodeState(path[i], 'path');
+        }
+
+        yield snapshot('path-found', targetId, 10, {
+          beginner: `Reached ${targetId} in ${newDist} step${newDist === 1 ? '' : 's'}. No path with fewer edges exists, though a path with more edges might weigh less.`,
+          advanced: `Target discovered: ${path.join(' → ')} with ${newDist} edges. BFS minimizes edge count, not total weight.`,
+        }, { shortestPath: path, totalDistance: newDist });
+        return;
+      }
+    }
+
+    visited.add(currentId);
+    finished.push(currentId);
+    setNodeState(currentId, 'visited');
+
+    yield snapshot('mark-visited', currentId, 6, {
+      beginner: `All of ${currentId}'s neighbors have been seen. ${queue.length > 0 ? `Next up is ${queue[0]}.` : 'The queue is empty.'}`,
+      advanced: `Finished expanding ${currentId} (#${finished.length}). |Q| = ${queue.length}.`,
+    });
+  }
+
+  if (targetId) {
+    yield snapshot('no-path', null, 14, {
+      beginner: `The queue ran dry without reaching ${targetId}, so no path exists from ${sourceId}.`,
+      advanced: `Q empty, dist[${targetId}] = ∞: target unreachable from ${sourceId}.`,
+    });
+  } else {
+    yield snapshot('complete', null, 14, {
+      beginner: `Breadth-first search complete! Every node reachable from ${sourceId} is labeled with its number of steps.`,
+      advanced: `Traversal complete: ${discovered.length} vertices reachable from ${sourceId}; dist[] holds hop counts and prev[] a BFS tree.`,
+    });
+  }
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function reconstructPath(predecessors: Map<string, string | null>, targetId: string): string[] {
+  const path: string[] = [];
+  let current: string | null = targetId;
+
+  while (current !== null) {
+    path.unshift(current);
+    current = predecessors.get(current) ?? null;
+  }
+
+  return path;
+}
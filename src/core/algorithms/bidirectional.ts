@@ -0,0 +1,403 @@
+/**
+ * Bidirectional Dijkstra and Bidirectional A* - Step-by-Step Generators
+ *
+ * Two searches grow at once: a forward search from the source and a
+ * backward search from the target over reversed edges. Each round expands
+ * the side whose queue has the smaller top key. Whenever an edge reaches a
+ * node the other side has labeled, the complete path through it is a
+ * candidate; μ is the cheapest candidate so far.
+ *
+ * It is NOT safe to stop when the frontiers first touch: the first meeting
+ * node need not lie on a shortest path. The search may stop once
+ * top_f + top_b ≥ μ, because any path not yet seen must cost at least that.
+ *
+ * Bidirectional A* uses the average potential p(v) = (h(v, t) − h(s, v)) / 2
+ * for the forward side and −p(v) for the backward side, so both searches
+ * see the same reduced edge costs and the same stopping rule still holds.
+ * Settled nodes are never reopened, so the result is only a shortest path
+ * when no reduced cost is negative, as with a consistent h on non-negative
+ * edges.
+ *
+ * Time Complexity: O((V + E) log V), typically exploring far fewer nodes
+ * Space Complexity: O(V)
+ */
+
+import {
+  Graph,
+  Node,
+  AlgorithmStep,
+  NodeState,
+  EdgeState,
+  SearchFrontier,
+  PriorityQueueType,
+  QueueOperationCounts,
+} from '../types';
+import { getNeighbors, getIncomingAdjacency, hasNegativeWeights } from '../graph';
+import { IndexedPriorityQueue, createPriorityQueue } from '../queues';
+import { euclideanDistance, isConsistentEstimate } from './heuristics';
+import { TrackedMap, TrackedSet } from '../trace';
+
+// ============================================
+// PSEUDOCODE (for display)
+// ============================================
+
+export const BIDIRECTIONAL_DIJKSTRA_PSEUDOCODE = [
+  'function BidirectionalDijkstra(Graph, s, t):',
+  '    dist_f[s] ← 0;  dist_b[t] ← 0',
+  '    Q_f ← {s};  Q_b ← {t}',
+  '    μ ← INFINITY              // best s–t path seen',
+  '',
+  '    while Q_f and Q_b are not empty:',
+  '        if top(Q_f) + top(Q_b) ≥ μ:',
+  '            return path through the meeting node',
+  '        pick the side with the smaller top key',
+  '        u ← extract-min from that side',
+  '        for each edge (u, v) in that side\'s direction:',
+  '            if dist[u] + w(u, v) < dist[v]:',
+  '                dist[v] ← dist[u] + w(u, v);  prev[v] ← u',
+  '            if v is labeled by the other side:',
+  '                μ ← min(μ, dist_f[v] + dist_b[v])',
+  '',
+  '    return μ                  // ∞: the searches never met',
+];
+
+export const BIDIRECTIONAL_ASTAR_PSEUDOCODE = [
+  'function BidirectionalAStar(Graph, s, t, h):',
+  '    p(v) ← (h(v, t) − h(s, v)) / 2   // backward side uses −p',
+  '    dist_f[s] ← 0;  dist_b[t] ← 0',
+  '    Q_f ← {s: p(s)};  Q_b ← {t: −p(t)}',
+  '    μ ← INFINITY',
+  '',
+  '    while Q_f and Q_b are not empty:',
+  '        if top(Q_f) + top(Q_b) ≥ μ:',
+  '            return path through the meeting node',
+  '        pick the side with the smaller top key',
+  '        u ← extract-min from that side',
+  '        for each edge (u, v) in that side\'s direction:',
+  '            if dist[u] + w(u, v) < dist[v]:',
+  '                dist[v] ← dist[u] + w(u, v);  prev[v] ← u',
+  '                key(v) ← dist[v] ± p(v)',
+  '            if v is labeled by the other side:',
+  '                μ ← min(μ, dist_f[v] + dist_b[v])',
+  '',
+  '    return μ',
+];
+
+// Pseudocode line of each kind of step, per variant
+const LINES = {
+  dijkstra: { init: 3, stop: 6, extract: 9, check: 11, relax: 12, meet: 14, end: 16 },
+  astar: { init: 4, stop: 7, extract: 10, check: 12, relax: 13, meet: 16, end: 18 },
+};
+
+// ============================================
+// STEP GENERATORS
+// ============================================
+
+export function generateBidirectionalDijkstraSteps(
+  graph: Graph,
+  sourceId: string,
+  targetId: string,
+  queueType: PriorityQueueType = 'binary'
+): Generator<AlgorithmStep, void, unknown> {
+  return generateBidirectionalSteps(graph, sourceId, targetId, null, queueType);
+}
+
+export function generateBidirectionalAStarSteps(
+  graph: Graph,
+  sourceId: string,
+  targetId: string,
+  heuristic: (a: Node, b: Node) => number = euclideanDistance,
+  queueType: PriorityQueueType = 'binary'
+): Generator<AlgorithmStep, void, unknown> {
+  return generateBidirectionalSteps(graph, sourceId, targetId, heuristic, queueType);
+}
+
+type Direction = 'forward' | 'backward';
+
+interface Side {
+  direction: Direction;
+  distances: TrackedMap<string, number>;
+  predecessors: TrackedMap<string, string | null>;
+  predecessorEdges: TrackedMap<string, string | null>;
+  visited: TrackedSet<string>;
+  queue: IndexedPriorityQueue;
+  potential: (nodeId: string) => number;
+  neighbors: (nodeId: string) => Array<{ nodeId: string; edgeId: string; weight: number }>;
+}
+
+function* generateBidirectionalSteps(
+  graph: Graph,
+  sourceId: string,
+  targetId: string,
+  heuristic: ((a: Node, b: Node) => number) | null,
+  queueType: PriorityQueueType
+): Generator<AlgorithmStep, void, unknown> {
+  const sourceNode = graph.nodes.get(sourceId);
+  const targetNode = graph.nodes.get(targetId);
+  if (!sourceNode || !targetNode) {
+    throw new Error(`Source ${sourceId} or target ${targetId} not found in graph`);
+  }
+
+  const name = heuristic ? 'bidirectional A*' : 'bidirectional Dijkstra';
+  const lines = heuristic ? LINES.astar : LINES.dijkstra;
+
+  // Forward potential; zero for plain Dijkstra
+  const potential = (nodeId: string): number => {
+    if (!heuristic) return 0;
+    const node = graph.nodes.get(nodeId)!;
+    return (heuristic(node, targetNode) - heuristic(sourceNode, node)) / 2;
+  };
+
+  // False when some reduced cost is negative: a settled node may then have a cheaper route
+  const guaranteed = isConsistentEstimate(graph, targetId, potential);
+
+  // Edges into each node, for the backward search; built once, as finding
+  // them node by node would mean a scan of every edge each time
+  const incoming = getIncomingAdjacency(graph);
+
+  const makeSide = (direction: Direction, origin: string): Side => {
+    const side: Side = {
+      direction,
+      distances: new TrackedMap(),
+      predecessors: new TrackedMap(),
+      predecessorEdges: new TrackedMap(),
+      visited: new TrackedSet(),
+      queue: createPriorityQueue(queueType),
+      potential: direction === 'forward' ? potential : (nodeId) => -potential(nodeId),
+      neighbors: direction === 'forward'
+        ? (nodeId) => getNeighbors(graph, nodeId)
+        : (nodeId) => incoming.get(nodeId)!,
+    };
+    for (const [nodeId] of graph.nodes) {
+      side.distances.set(nodeId, nodeId === origin ? 0 : Infinity);
+      side.predecessors.set(nodeId, null);
+      side.predecessorEdges.set(nodeId, null);
+    }
+    side.queue.insert(origin, side.potential(origin));
+    return side;
+  };
+
+  const forward = makeSide('forward', sourceId);
+  const backward = makeSide('backward', targetId);
+
+  const nodeStates = new TrackedMap<string, NodeState>();
+  const edgeStates = new TrackedMap<string, EdgeState>();
+  for (const [nodeId] of graph.nodes) {
+    nodeStates.set(nodeId, 'default');
+  }
+  for (const [edgeId] of graph.edges) {
+    edgeStates.set(edgeId, 'default');
+  }
+  const setNodeState = (nodeId: string, state: NodeState) => {
+    if (nodeId !== sourceId && nodeId !== targetId) nodeStates.set(nodeId, state);
+  };
+  nodeStates.set(sourceId, 'start');
+  nodeStates.set(targetId, 'end');
+
+  let mu = Infinity;
+  let meetingNode: string | null = null;
+
+  // A side's live collections; only the queue is copied out
+  const frontier = (side: Side): SearchFrontier => ({
+    distances: side.distances,
+    predecessors: side.predecessors,
+    predecessorEdges: side.predecessorEdges,
+    visited: side.visited,
+    queue: side.queue.toArray(),
+  });
+
+  const snapshot = (
+    type: AlgorithmStep['type'],
+    currentNode: string | null,
+    pseudocodeLine: number,
+    explanation: AlgorithmStep['explanation'],
+    extra: Partial<AlgorithmStep> = {}
+  ): AlgorithmStep => ({
+    type,
+    currentNode,
+    ...frontier(forward),
+    backward: frontier(backward),
+    bestCost: mu,
+    meetingNode,
+    queueStats: sumCounts(forward.queue.counts, backward.queue.counts),
+    nodeStates,
+    edgeStates,
+    pseudocodeLine,
+    explanation,
+    ...extra,
+  });
+
+  // What a node shows once it stops being the meeting node
+  const restingState = (nodeId: string): NodeState => {
+    if (forward.visited.has(nodeId)) return 'visited';
+    if (backward.visited.has(nodeId)) return 'backward-visited';
+    return forward.distances.get(nodeId) !== Infinity ? 'in-queue' : 'backward-in-queue';
+  };
+
+  const format = (d: number) => (d === Infinity ? '∞' : String(Number(d.toFixed(2))));
+
+  const topKey = (side: Side): number => side.queue.peek()?.priority ?? Infinity;
+
+  yield snapshot('init', null, lines.init, {
+    beginner: `Starting ${name}: one search grows from ${sourceId} and another grows backward from ${targetId}. They meet in the middle, together exploring far less than one search would.`,
+    advanced: heuristic
+      ? `Initialization: dist_f[${sourceId}] = 0, dist_b[${targetId}] = 0, μ = ∞. Keys use the average potential p(v) = (h(v,${targetId}) − h(${sourceId},v))/2 forward and −p(v) backward, which keeps reduced costs consistent on both sides.`
+      : `Initialization: dist_f[${sourceId}] = 0, dist_b[${targetId}] = 0, μ = ∞. The backward search runs Dijkstra on the reversed graph.`,
+  });
+
+  if (sourceId === targetId) {
+    meetingNode = sourceId;
+    mu = 0;
+    yield snapshot('path-found', sourceId, lines.stop + 1, {
+      beginner: `${sourceId} is both the source and the target, so the path has no edges.`,
+      advanced: `s = t: μ = 0 with the trivial path.`,
+    }, { shortestPath: [sourceId], totalDistance: 0 });
+    return;
+  }
+
+  while (true) {
+    const topF = topKey(forward);
+    const topB = topKey(backward);
+
+    // Stopping criterion; an empty queue has top ∞, which always stops
+    if (topF + topB >= mu) break;
+
+    // Expand the side with the smaller top key
+    const side = topF <= topB ? forward : backward;
+    const opposite = side === forward ? backward : forward;
+    const label = side.direction === 'forward' ? 'forward' : 'backward';
+    const currentId = side.queue.extractMin()!.nodeId;
+    const currentDist = side.distances.get(currentId)!;
+    side.visited.add(currentId);
+    const settledState: NodeState = side.direction === 'forward' ? 'visited' : 'backward-visited';
+    const queuedState: NodeState = side.direction === 'forward' ? 'in-queue' : 'backward-in-queue';
+    setNodeState(currentId, 'current');
+    const relaxedEdges: string[] = []; // Shown as relaxed until this expansion ends
+
+    yield snapshot('select-node', currentId, lines.extract, {
+      beginner: `The ${label} search expands ${currentId} (distance ${format(currentDist)} from ${side.direction === 'forward' ? sourceId : targetId}). Its queue has the smaller top, so it goes next.`,
+      advanced: `top_f = ${format(topF)}, top_b = ${format(topB)}, μ = ${format(mu)}: ${format(topF + topB)} < μ, so continue. Extract-min on the ${label} side: u = ${currentId}, dist_${label[0]}[u] = ${format(currentDist)}.`,
+    });
+
+    for (const { nodeId: neighborId, edgeId, weight } of side.neighbors(currentId)) {
+      if (side.visited.has(neighborId)) continue;
+
+      const oldDist = side.distances.get(neighborId)!;
+      const newDist = currentDist + weight;
+      const improves = newDist < oldDist;
+      const [from, to] = side.direction === 'forward' ? [currentId, neighborId] : [neighborId, currentId];
+      const currentEdge = {
+        edgeId,
+        from,
+        to,
+        weight,
+        oldDistance: oldDist,
+        newDistance: newDist,
+        wasRelaxed: improves,
+      };
+
+      if (improves) {
+        side.distances.set(neighborId, newDist);
+        side.predecessors.set(neighborId, currentId);
+        side.predecessorEdges.set(neighborId, edgeId);
+        side.queue.insertOrDecreaseKey(neighborId, newDist + side.potential(neighborId));
+        edgeStates.set(edgeId, 'relaxed');
+        relaxedEdges.push(edgeId);
+        if (nodeStates.get(neighborId) === 'default') setNodeState(neighborId, queuedState);
+      } else {
+        edgeStates.set(edgeId, 'rejected');
+      }
+
+      // Does this edge complete a cheaper source–target path?
+      const otherDist = opposite.distances.get(neighborId)!;
+      const candidate = side.distances.get(neighborId)! + otherDist;
+      let meetNote = '';
+      if (otherDist !== Infinity && candidate < mu) {
+        if (meetingNode) setNodeState(meetingNode, restingState(meetingNode));
+        mu = candidate;
+        meetingNode = neighborId;
+        setNodeState(neighborId, 'meeting');
+        meetNote = ` ${neighborId} is already labeled by the other search, so μ ← dist_f + dist_b = ${format(mu)}.`;
+      }
+
+      yield snapshot(improves ? 'relax-edge' : 'skip-edge', currentId, meetNote ? lines.meet : improves ? lines.relax : lines.check, {
+        beginner: (improves
+          ? `The ${label} search found a shorter way to ${neighborId}: ${format(oldDist)} → ${format(newDist)}.`
+          : `Reaching ${neighborId} this way costs ${format(newDist)}, no better than ${format(oldDist)}.`) +
+          (meetNote ? ` The two searches touch at ${neighborId}! Best complete path so far: ${format(mu)}. We can't stop yet, because a cheaper path may still cross elsewhere.` : ''),
+        advanced: (improves
+          ? `Relax (${from}, ${to}) on the ${label} side: dist_${label[0]}[${neighborId}] ← ${format(newDist)}${heuristic ? `, key ${format(newDist + side.potential(neighborId))}` : ''}.`
+          : `No relaxation on the ${label} side: ${format(newDist)} ≥ ${format(oldDist)}.`) + meetNote,
+      }, { currentEdge });
+
+      if (edgeStates.get(edgeId) === 'rejected') edgeStates.set(edgeId, 'default');
+    }
+
+    if (nodeStates.get(currentId) !== 'meeting') setNodeState(currentId, settledState);
+    for (const edgeId of relaxedEdges) {
+      if (edgeStates.get(edgeId) === 'relaxed') edgeStates.set(edgeId, 'default');
+    }
+  }
+
+  const topF = topKey(forward);
+  const topB = topKey(backward);
+
+  if (meetingNode === null) {
+    yield snapshot('no-path', null, lines.end, {
+      beginner: `One of the searches ran out of nodes before the two ever met, so no path exists from ${sourceId} to ${targetId}.`,
+      advanced: `A queue emptied with μ = ∞: ${targetId} is unreachable from ${sourceId}.`,
+    });
+    return;
+  }
+
+  const path = joinPaths(forward, backward, meetingNode);
+  for (let i = 0; i < path.length - 1; i++) {
+    setNodeState(path[i], 'path');
+  }
+  for (const side of [forward, backward]) {
+    for (let nodeId: string | null = meetingNode; nodeId !== null; nodeId = side.predecessors.get(nodeId) ?? null) {
+      const edgeId = side.predecessorEdges.get(nodeId);
+      if (edgeId) edgeStates.set(edgeId, 'path');
+    }
+  }
+  setNodeState(meetingNode, 'meeting');
+  const total = forward.distances.get(meetingNode)! + backward.distances.get(meetingNode)!;
+
+  yield snapshot('path-found', meetingNode, lines.stop + 1, {
+    beginner: guaranteed
+      ? `Nothing the two searches have left can beat the path through ${meetingNode}, so it is the shortest path. Total distance: ${format(total)}.`
+      : `The searches stopped with the path through ${meetingNode}, of cost ${format(total)}. ${hasNegativeWeights(graph) ? 'An edge has a negative weight' : "The heuristic drops by more than an edge's weight somewhere on this graph"}, so a settled node may have had a cheaper route: this cost is not guaranteed to be optimal.`,
+    advanced: guaranteed
+      ? `Stop: top_f + top_b = ${format(topF)} + ${format(topB)} = ${format(topF + topB)} ≥ μ = ${format(mu)}, and every path not yet seen costs at least top_f + top_b. Stopping when the frontiers first touch would be wrong. Path: ${path.join(' → ')} via ${meetingNode}.`
+      : `Stop: top_f + top_b = ${format(topF)} + ${format(topB)} ≥ μ = ${format(mu)}, but ${heuristic ? 'some reduced cost w + p(v) − p(u)' : 'some edge weight'} is negative, so unseen paths are not bounded below by top_f + top_b. No optimality guarantee. Path: ${path.join(' → ')} via ${meetingNode}.`,
+  }, { shortestPath: path, totalDistance: total });
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+// Source → meeting node from the forward tree, then on to the target
+// along the backward tree
+function joinPaths(forward: Side, backward: Side, meetingNode: string): string[] {
+  const path: string[] = [];
+  for (let nodeId: string | null = meetingNode; nodeId !== null; nodeId = forward.predecessors.get(nodeId) ?? null) {
+    path.unshift(nodeId);
+  }
+  for (let nodeId = backward.predecessors.get(meetingNode) ?? null; nodeId !== null; nodeId = backward.predecessors.get(nodeId) ?? null) {
+    path.push(nodeId);
+  }
+  return path;
+}
+
+// Work done by both queues together
+function sumCounts(a: QueueOperationCounts, b: QueueOperationCounts): QueueOperationCounts {
+  return {
+    insert: a.insert + b.insert,
+    decreaseKey: a.decreaseKey + b.decreaseKey,
+    extractMin: a.extractMin + b.extractMin,
+    comparisons: a.comparisons + b.comparisons,
+    moves: a.moves + b.moves,
+    bucketScans: a.bucketScans + b.bucketScans,
+  };
+}
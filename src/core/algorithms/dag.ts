@@ -0,0 +1,545 @@
+/**
+ * DAG Algorithms - Step-by-Step Generators
+ *
+ * In a directed acyclic graph (DAG) every edge can be handled after the
+ * edge that reaches its source, so one pass in topological order settles
+ * every distance: O(V + E), with no priority queue, and negative weights
+ * are fine. Maximizing instead of minimizing gives longest paths, which
+ * in a project network (events as nodes, tasks as edges weighted by
+ * duration) is the critical path: the chain of tasks that sets how long
+ * the whole project takes.
+ *
+ * - Topological sort: Kahn's algorithm, repeatedly taking a node with no
+ *   remaining incoming edges. Nodes left over lie on or behind a cycle.
+ * - DAG shortest paths: relax each node's outgoing edges in topological order.
+ * - Critical path: a forward pass for earliest event times, then a
+ *   backward pass for latest times; events with zero slack are critical.
+ *
+ * An undirected edge counts as a cycle, since it leads both ways.
+ *
+ * Time Complexity: O(V + E)
+ * Space Complexity: O(V)
+ */
+
+import { Graph, AlgorithmStep, NodeState, EdgeState, TopologicalState } from '../types';
+import { getNeighbors } from '../graph';
+import { TrackedMap, TrackedSet } from '../trace';
+
+// ============================================
+// PSEUDOCODE (for display)
+// ============================================
+
+export const TOPOLOGICAL_SORT_PSEUDOCODE = [
+  'function TopologicalSort(Graph):        // Kahn',
+  '    for each vertex v: indegree[v] ← number of edges into v',
+  '    Q ← queue of all vertices with indegree 0',
+  '    L ← empty list',
+  '',
+  '    while Q is not empty:',
+  '        u ← dequeue(Q); append u to L',
+  '        for each edge (u, v):',
+  '            indegree[v] ← indegree[v] − 1   // remove the edge',
+  '            if indegree[v] = 0: enqueue(Q, v)',
+  '',
+  '    if |L| < |V|: error "Graph has a cycle"',
+  '    return L',
+];
+
+export const DAG_SHORTEST_PATH_PSEUDOCODE = [
+  'function DagShortestPath(Graph, source):',
+  '    L ← TopologicalSort(Graph)      // fails if Graph has a cycle',
+  '    for each vertex v: dist[v] ← INFINITY; prev[v] ← UNDEFINED',
+  '    dist[source] ← 0',
+  '',
+  '    for each vertex u in L:',
+  '        if dist[u] = INFINITY: continue   // unreachable',
+  '        for each edge (u, v):',
+  '            if dist[u] + w(u, v) < dist[v]:',
+  '                dist[v] ← dist[u] + w(u, v)',
+  '                prev[v] ← u',
+  '',
+  '    return dist[], prev[]',
+];
+
+export const CRITICAL_PATH_PSEUDOCODE = [
+  'function CriticalPath(Graph):',
+  '    L ← TopologicalSort(Graph)      // fails if Graph has a cycle',
+  '    for each vertex v: earliest[v] ← −INFINITY; prev[v] ← UNDEFINED',
+  '    for each vertex v with no incoming edges: earliest[v] ← 0',
+  '',
+  '    for each vertex u in L:                 // forward pass',
+  '        for each edge (u, v):',
+  '            if earliest[u] + w(u, v) > earliest[v]:',
+  '                earliest[v] ← earliest[u] + w(u, v)',
+  '                prev[v] ← u',
+  '',
+  '    end ← target, or the vertex with the largest earliest[]',
+  '    latest[end] ← earliest[end]',
+  '    for each vertex u in reverse L:         // backward pass',
+  '        latest[u] ← min over edges (u, v) of latest[v] − w(u, v)',
+  '        slack[u] ← latest[u] − earliest[u]',
+  '',
+  '    return path from prev[] back to end     // all slack 0',
+];
+
+// Pseudocode line of each step, per variant (-1: no such line)
+const LINES = {
+  shortest: { sort: 1, init: 3, loop: 5, unreachable: 6, test: 8, update: 9, end: -1, backward: -1, done: 12 },
+  critical: { sort: 1, init: 3, loop: 5, unreachable: -1, test: 7, update: 8, end: 12, backward: 14, done: 17 },
+};
+
+// ============================================
+// TOPOLOGICAL SORT STEP GENERATOR
+// ============================================
+
+export function* generateTopologicalSortSteps(graph: Graph): Generator<AlgorithmStep, void, unknown> {
+  const indegree = new TrackedMap(countIncoming(graph));
+  const order: string[] = [];
+  const placed = new TrackedSet<string>(); // The nodes in `order`
+  const queue: string[] = [];
+  const nodeStates = new TrackedMap<string, NodeState>();
+  const edgeStates = new TrackedMap<string, EdgeState>();
+
+  for (const [nodeId] of graph.nodes) {
+    nodeStates.set(nodeId, 'default');
+  }
+  for (const [edgeId] of graph.edges) {
+    edgeStates.set(edgeId, 'default');
+  }
+
+  // Labels under the nodes show the remaining in-degree
+  const snapshot = (
+    type: AlgorithmStep['type'],
+    currentNode: string | null,
+    pseudocodeLine: number,
+    explanation: AlgorithmStep['explanation'],
+    extra: Partial<AlgorithmStep> = {}
+  ): AlgorithmStep => ({
+    type,
+    currentNode,
+    distances: indegree,
+    predecessors: new Map(),
+    predecessorEdges: new Map(),
+    visited: placed,
+    queue: queue.map((nodeId, i) => ({ nodeId, priority: i })),
+    queueKind: 'fifo',
+    nodeStates,
+    edgeStates,
+    pseudocodeLine,
+    explanation,
+    topological: { order, index: currentNode ? order.indexOf(currentNode) : -1 },
+    ...extra,
+  });
+
+  for (const [nodeId, degree] of indegree) {
+    if (degree === 0) {
+      queue.push(nodeId);
+      nodeStates.set(nodeId, 'in-queue');
+    }
+  }
+
+  yield snapshot('init', null, 2, {
+    beginner: `Putting the nodes in an order where every edge points forward. The number under each node counts the edges still pointing into it; ${queue.length === 0 ? 'no node has zero, so there is nowhere to start' : `${queue.join(', ')} ${queue.length === 1 ? 'has' : 'have'} none, so ${queue.length === 1 ? 'it goes' : 'they go'} first`}.`,
+    advanced: `Kahn's algorithm. indegree[] computed in O(V + E); Q = [${queue.join(', ')}].`,
+  });
+
+  while (queue.length > 0) {
+    const currentId = queue.shift()!;
+    order.push(currentId);
+    placed.add(currentId);
+    nodeStates.set(currentId, 'current');
+
+    yield snapshot('select-node', currentId, 6, {
+      beginner: `${currentId} has nothing left pointing into it, so it can go next: position ${order.length} in the order.`,
+      advanced: `Dequeue ${currentId}; L = [${order.join(', ')}].`,
+    });
+
+    for (const { nodeId: neighborId, edgeId } of getNeighbors(graph, currentId)) {
+      const remaining = indegree.get(neighborId)! - 1;
+      indegree.set(neighborId, remaining);
+      edgeStates.set(edgeId, 'relaxed');
+
+      if (remaining === 0) {
+        queue.push(neighborId);
+        nodeStates.set(neighborId, 'in-queue');
+      }
+
+      yield snapshot('relax-edge', currentId, remaining === 0 ? 9 : 8, {
+        beginner: remaining === 0
+          ? `Removing edge ${currentId} → ${neighborId} leaves ${neighborId} with no incoming edges, so it joins the queue.`
+          : `Removing edge ${currentId} → ${neighborId}; ${neighborId} still waits on ${remaining} more.`,
+        advanced: `indegree[${neighborId}] ← ${remaining}${remaining === 0 ? `; enqueue ${neighborId}` : ''}.`,
+      });
+    }
+
+    nodeStates.set(currentId, 'visited');
+  }
+
+  if (order.length < graph.nodes.size) {
+    const cycle = findCycle(graph)!;
+    cycle.nodes.forEach(nodeId => nodeStates.set(nodeId, 'cycle'));
+    cycle.edges.forEach(edgeId => edgeStates.set(edgeId, 'cycle'));
+
+    yield snapshot('no-path', null, 11, {
+      beginner: `Stuck: ${graph.nodes.size - order.length} node${graph.nodes.size - order.length === 1 ? ' is' : 's are'} still waiting on each other. The graph has a cycle (${cycle.nodes.join(' → ')} → ${cycle.nodes[0]}), so no order can put every edge forward.`,
+      advanced: `|L| = ${order.length} < |V| = ${graph.nodes.size}: every remaining vertex has indegree > 0, which only a cycle allows. Not a DAG.`,
+    }, { cycle: cycle.nodes });
+    return;
+  }
+
+  yield snapshot('complete', null, 12, {
+    beginner: `Done! In the order ${order.join(', ')}, every edge points from an earlier node to a later one.`,
+    advanced: `L = [${order.join(', ')}]. Every vertex was dequeued, so the graph is acyclic. Other valid orders exist whenever Q held more than one vertex.`,
+  });
+}
+
+// ============================================
+// DAG PATH STEP GENERATORS
+// ============================================
+
+export function* generateDagShortestPathSteps(
+  graph: Graph,
+  sourceId: string,
+  targetId?: string
+): Generator<AlgorithmStep, void, unknown> {
+  yield* generateDagRelaxationSteps(graph, 'shortest', sourceId, targetId);
+}
+
+// Sourceless: every event with no incoming edges starts at time 0
+export function* generateCriticalPathSteps(
+  graph: Graph,
+  targetId?: string
+): Generator<AlgorithmStep, void, unknown> {
+  yield* generateDagRelaxationSteps(graph, 'critical', null, targetId);
+}
+
+function* generateDagRelaxationSteps(
+  graph: Graph,
+  mode: 'shortest' | 'critical',
+  sourceId: string | null,
+  targetId?: string
+): Generator<AlgorithmStep, void, unknown> {
+  const lines = LINES[mode];
+  const critical = mode === 'critical';
+  const unset = critical ? -Infinity : Infinity;
+  const improves = (candidate: number, current: number) => (critical ? candidate > current : candidate < current);
+
+  const distances = new TrackedMap<string, number>();
+  const predecessors = new TrackedMap<string, string | null>();
+  const predecessorEdges = new TrackedMap<string, string | null>();
+  const done = new TrackedSet<string>();
+  const nodeStates = new TrackedMap<string, NodeState>();
+  const edgeStates = new TrackedMap<string, EdgeState>();
+  const slack = new TrackedMap<string, number>();
+  let order: string[] = [];
+  let index = -1;
+
+  for (const [nodeId] of graph.nodes) {
+    distances.set(nodeId, unset);
+    predecessors.set(nodeId, null);
+    predecessorEdges.set(nodeId, null);
+    nodeStates.set(nodeId, 'default');
+  }
+  for (const [edgeId] of graph.edges) {
+    edgeStates.set(edgeId, 'default');
+  }
+
+  const setNodeState = (nodeId: string, state: NodeState) => {
+    if (nodeId !== sourceId && nodeId !== targetId) nodeStates.set(nodeId, state);
+  };
+  if (sourceId) nodeStates.set(sourceId, 'start');
+  if (targetId) nodeStates.set(targetId, 'end');
+
+  const snapshot = (
+    type: AlgorithmStep['type'],
+    currentNode: string | null,
+    pseudocodeLine: number,
+    explanation: AlgorithmStep['explanation'],
+    extra: Partial<AlgorithmStep> = {}
+  ): AlgorithmStep => {
+    const topological: TopologicalState = { order, index };
+    if (critical && slack.size > 0) topological.slack = slack;
+    return {
+      type,
+      currentNode,
+      distances,
+      predecessors,
+      predecessorEdges,
+      visited: done,
+      queue: [],
+      nodeStates,
+      edgeStates,
+      pseudocodeLine,
+      explanation,
+      topological,
+      ...extra,
+    };
+  };
+
+  const format = (d: number) => (d === Infinity ? '∞' : d === -Infinity ? '−∞' : String(Number(d.toFixed(2))));
+
+  // Follow prev[] back from a node, marking the path; returns it in order
+  const markPath = (endId: string): string[] => {
+    const path: string[] = [];
+    for (let nodeId: string | null = endId; nodeId !== null; nodeId = predecessors.get(nodeId) ?? null) {
+      path.unshift(nodeId);
+      setNodeState(nodeId, 'path');
+      const edgeId = predecessorEdges.get(nodeId);
+      if (edgeId) edgeStates.set(edgeId, 'path');
+    }
+    return path;
+  };
+
+  const sorted = topologicalOrder(graph);
+  if (!sorted) {
+    const cycle = findCycle(graph)!;
+    cycle.nodes.forEach(nodeId => nodeStates.set(nodeId, 'cycle'));
+    cycle.edges.forEach(edgeId => edgeStates.set(edgeId, 'cycle'));
+
+    yield snapshot('no-path', null, lines.sort, {
+      beginner: `This only works when the edges never lead back around, but ${cycle.nodes.join(' → ')} → ${cycle.nodes[0]} is a loop${graph.directed ? '' : ' (undirected edges go both ways)'}. Use ${critical ? 'a graph without cycles' : 'Dijkstra or Bellman-Ford'} instead.`,
+      advanced: `TopologicalSort fails: the graph has a cycle, so it is not a DAG.`,
+    }, { cycle: cycle.nodes });
+    return;
+  }
+  order = sorted;
+
+  // Critical path: every event nothing has to wait for starts at time 0
+  const indegree = countIncoming(graph);
+  const starts = critical ? order.filter(nodeId => indegree.get(nodeId) === 0) : [sourceId!];
+  starts.forEach(nodeId => distances.set(nodeId, 0));
+
+  yield snapshot('init', null, lines.init, critical ? {
+    beginner: `Each edge is a task and its weight is how long it takes. Going through the nodes in topological order (${order.join(', ')}), work out the earliest time each event can happen. ${starts.join(', ')} ${starts.length === 1 ? 'starts' : 'start'} at time 0.`,
+    advanced: `Topological order L = [${order.join(', ')}]. earliest[v] = 0 for the ${starts.length} vertex${starts.length === 1 ? '' : 'es'} with indegree 0, −∞ otherwise. Longest paths are well defined because there are no cycles.`,
+  } : {
+    beginner: `The graph has no cycles, so the nodes can be handled in topological order (${order.join(', ')}): by the time a node is reached, every path into it has been seen. No priority queue needed, and negative weights are fine.`,
+    advanced: `Topological order L = [${order.join(', ')}]. dist[${sourceId}] = 0. Each edge is relaxed exactly once: O(V + E).`,
+  });
+
+  // Forward pass
+  for (index = 0; index < order.length; index++) {
+    const currentId = order[index];
+    const currentDist = distances.get(currentId)!;
+
+    if (currentDist === unset) {
+      done.add(currentId);
+      yield snapshot('select-node', currentId, lines.unreachable, {
+        beginner: `${currentId} can't be reached from ${sourceId} (it comes before it in the order, or on a separate branch). Skip it.`,
+        advanced: `dist[${currentId}] = ∞: no edges to relax.`,
+      });
+      continue;
+    }
+
+    setNodeState(currentId, 'current');
+    yield snapshot('select-node', currentId, lines.loop, {
+      beginner: critical
+        ? `Event ${currentId} can happen at time ${format(currentDist)} at the earliest: all tasks leading into it are accounted for. Now its own tasks can start.`
+        : `Every path into ${currentId} has been seen, so its distance ${format(currentDist)} is final. Relax its outgoing edges.`,
+      advanced: `u = ${currentId} (position ${index + 1} of ${order.length}), ${critical ? 'earliest' : 'dist'}[u] = ${format(currentDist)}.`,
+    });
+
+    for (const { nodeId: neighborId, edgeId, weight } of getNeighbors(graph, currentId)) {
+      const oldDist = distances.get(neighborId)!;
+      const newDist = currentDist + weight;
+      const currentEdge = {
+        edgeId,
+        from: currentId,
+        to: neighborId,
+        weight,
+        oldDistance: oldDist,
+        newDistance: newDist,
+        wasRelaxed: improves(newDist, oldDist),
+      };
+
+      if (improves(newDist, oldDist)) {
+        // The old best edge into the neighbor is no longer the best
+        const oldEdge = predecessorEdges.get(neighborId);
+        if (oldEdge) edgeStates.set(oldEdge, 'default');
+
+        distances.set(neighborId, newDist);
+        predecessors.set(neighborId, currentId);
+        predecessorEdges.set(neighborId, edgeId);
+        edgeStates.set(edgeId, 'relaxed');
+        setNodeState(neighborId, 'in-queue');
+
+        yield snapshot('relax-edge', currentId, lines.update, critical ? {
+          beginner: `${neighborId} has to wait for this task: ${format(currentDist)} + ${format(weight)} = ${format(newDist)} is later than ${format(oldDist)}.`,
+          advanced: `earliest[${currentId}] + w = ${format(newDist)} > earliest[${neighborId}] = ${format(oldDist)}: earliest ← ${format(newDist)}, prev ← ${currentId}.`,
+        } : {
+          beginner: `Going through ${currentId} reaches ${neighborId} for ${format(newDist)}, better than ${format(oldDist)}.`,
+          advanced: `dist[${currentId}] + w = ${format(newDist)} < dist[${neighborId}] = ${format(oldDist)}: dist ← ${format(newDist)}, prev ← ${currentId}.`,
+        }, { currentEdge });
+      } else {
+        const previousState = edgeStates.get(edgeId)!;
+        edgeStates.set(edgeId, 'rejected');
+
+        yield snapshot('skip-edge', currentId, lines.test, critical ? {
+          beginner: `This task would let ${neighborId} happen at ${format(newDist)}, but ${neighborId} already waits until ${format(oldDist)} for another one.`,
+          advanced: `${format(newDist)} ≤ earliest[${neighborId}] = ${format(oldDist)}: no change.`,
+        } : {
+          beginner: `Going through ${currentId} costs ${format(newDist)}, no better than ${format(oldDist)}.`,
+          advanced: `${format(newDist)} ≥ dist[${neighborId}] = ${format(oldDist)}: no change.`,
+        }, { currentEdge });
+
+        edgeStates.set(edgeId, previousState);
+      }
+    }
+
+    done.add(currentId);
+    setNodeState(currentId, 'visited');
+  }
+  index = -1;
+
+  if (!critical) {
+    if (targetId) {
+      if (distances.get(targetId) === Infinity) {
+        yield snapshot('no-path', null, lines.done, {
+          beginner: `No path exists from ${sourceId} to ${targetId}.`,
+          advanced: `dist[${targetId}] = ∞ after the pass: target unreachable from ${sourceId}.`,
+        });
+        return;
+      }
+
+      const path = markPath(targetId);
+      yield snapshot('path-found', targetId, lines.done, {
+        beginner: `Found the shortest path to ${targetId}! Total distance: ${format(distances.get(targetId)!)}.`,
+        advanced: `One pass in topological order. Shortest path: ${path.join(' → ')} with total weight ${format(distances.get(targetId)!)}.`,
+      }, { shortestPath: path, totalDistance: distances.get(targetId) });
+      return;
+    }
+
+    yield snapshot('complete', null, lines.done, {
+      beginner: `Done! One pass over the nodes in topological order found the shortest paths from ${sourceId} to every reachable node.`,
+      advanced: `Single-source shortest paths in O(V + E): each of the ${graph.edges.size} edges relaxed at most once.`,
+    });
+    return;
+  }
+
+  // The project ends at the target if one is set, else at the latest event
+  const endId = targetId ?? order.reduce((best, nodeId) =>
+    distances.get(nodeId)! > distances.get(best)! ? nodeId : best);
+  const length = distances.get(endId)!;
+
+  // Backward pass: how late can each event happen without delaying the end?
+  const latest = new Map<string, number>();
+  for (index = order.length - 1; index >= 0; index--) {
+    const currentId = order[index];
+    let value = currentId === endId ? length : Infinity;
+    if (currentId !== endId) {
+      for (const { nodeId: neighborId, weight } of getNeighbors(graph, currentId)) {
+        value = Math.min(value, latest.get(neighborId)! - weight);
+      }
+    }
+    latest.set(currentId, value);
+    slack.set(currentId, value - distances.get(currentId)!);
+
+    yield snapshot('mark-visited', currentId, currentId === endId ? lines.end : lines.backward, {
+      beginner: value === Infinity
+        ? `Nothing after ${currentId} leads to ${endId}, so it can't delay the finish.`
+        : slack.get(currentId) === 0
+          ? `${currentId} must happen at exactly ${format(value)}: any delay pushes back ${endId}. It is critical.`
+          : `${currentId} can happen as late as ${format(value)} without delaying ${endId}: ${format(slack.get(currentId)!)} time units of slack.`,
+      advanced: `latest[${currentId}] = ${format(value)}, slack = latest − earliest = ${format(slack.get(currentId)!)}.`,
+    });
+  }
+  index = -1;
+
+  // Critical events and the tasks between them with no float
+  for (const [nodeId, value] of slack) {
+    if (value === 0) setNodeState(nodeId, 'path');
+  }
+  for (const [edgeId, edge] of graph.edges) {
+    const float = latest.get(edge.target)! - distances.get(edge.source)! - edge.weight;
+    if (float === 0 && slack.get(edge.source) === 0) edgeStates.set(edgeId, 'path');
+  }
+  const path = markPath(endId);
+
+  yield snapshot('path-found', endId, lines.done, {
+    beginner: `The critical path is ${path.join(' → ')}: ${format(length)} time units, the shortest the whole project can take. Speeding up any other task won't finish it sooner.`,
+    advanced: `Longest path to ${endId}: ${format(length)}. Zero-slack events: ${[...slack].filter(([, s]) => s === 0).map(([v]) => v).join(', ')}; highlighted edges have zero total float.`,
+  }, { shortestPath: path, totalDistance: length });
+}
+
+// ============================================
+// PLAIN HELPERS (no steps)
+// ============================================
+
+// Kahn's algorithm; null when the graph has a cycle
+export function topologicalOrder(graph: Graph): string[] | null {
+  const indegree = countIncoming(graph);
+
+  const queue = [...indegree].filter(([, degree]) => degree === 0).map(([nodeId]) => nodeId);
+  const order: string[] = [];
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    order.push(nodeId);
+    for (const { nodeId: neighborId } of getNeighbors(graph, nodeId)) {
+      const remaining = indegree.get(neighborId)! - 1;
+      indegree.set(neighborId, remaining);
+      if (remaining === 0) queue.push(neighborId);
+    }
+  }
+  return order.length === graph.nodes.size ? order : null;
+}
+
+/**
+ * A directed cycle, nodes in order with the edges between them (the last
+ * edge closes the loop), or null when the graph is acyclic. Iterative DFS:
+ * an edge to a node still on the stack closes a cycle.
+ */
+export function findCycle(graph: Graph): { nodes: string[]; edges: string[] } | null {
+  const finished = new Set<string>();
+  const onStack = new Map<string, number>(); // Node → position in `path`
+
+  for (const [rootId] of graph.nodes) {
+    if (finished.has(rootId)) continue;
+
+    const path: Array<{ nodeId: string; viaEdge: string | null; next: number }> = [];
+    path.push({ nodeId: rootId, viaEdge: null, next: 0 });
+    onStack.set(rootId, 0);
+
+    while (path.length > 0) {
+      const frame = path[path.length - 1];
+      const neighbors = getNeighbors(graph, frame.nodeId);
+
+      if (frame.next === neighbors.length) {
+        path.pop();
+        onStack.delete(frame.nodeId);
+        finished.add(frame.nodeId);
+        continue;
+      }
+
+      const { nodeId: neighborId, edgeId } = neighbors[frame.next++];
+      const at = onStack.get(neighborId);
+      if (at !== undefined) {
+        const loop = path.slice(at);
+        return {
+          nodes: loop.map(f => f.nodeId),
+          edges: [...loop.slice(1).map(f => f.viaEdge!), edgeId],
+        };
+      }
+      if (!finished.has(neighborId)) {
+        onStack.set(neighborId, path.length);
+        path.push({ nodeId: neighborId, viaEdge: edgeId, next: 0 });
+      }
+    }
+  }
+  return null;
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+// Edges into each node; an undirected edge counts at both ends
+function countIncoming(graph: Graph): Map<string, number> {
+  const indegree = new Map<string, number>();
+  for (const [nodeId] of graph.nodes) indegree.set(nodeId, 0);
+  for (const [nodeId] of graph.nodes) {
+    for (const { nodeId: neighborId } of getNeighbors(graph, nodeId)) {
+      indegree.set(neighborId, indegree.get(neighborId)! + 1);
+    }
+  }
+  return indegree;
+}
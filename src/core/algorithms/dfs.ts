@@ -0,0 +1,254 @@
+/**
+ * Depth-First Search - Step-by-Step Generator
+ *
+ * DFS follows one branch as deep as it goes before backing up. The
+ * recursion is run on an explicit stack of frames so every step can be
+ * shown; the stack is reported top-first in the step's queue. Each node is
+ * white (undiscovered), gray (on the stack) or black (finished), which
+ * classifies every edge:
+ *
+ *   tree     u → white v    v is discovered through this edge
+ *   back     u → gray v     v is an ancestor of u: the edge closes a cycle
+ *   forward  u → black v    v is a descendant of u (directed graphs only)
+ *   cross    u → black v    v is in an earlier, finished branch
+ *
+ * Edge weights are ignored, and the path DFS finds to a target is
+ * generally not the shortest one.
+ *
+ * Time Complexity: O(V + E)
+ * Space Complexity: O(V)
+ */
+
+import { Graph, AlgorithmStep, NodeState, EdgeState } from '../types';
+import { getNeighbors } from '../graph';
+import { TrackedMap, TrackedSet } from '../trace';
+
+// ============================================
+// DFS PSEUDOCODE (for display)
+// ============================================
+
+export const DFS_PSEUDOCODE = [
+  'function DFS(Graph, source):',
+  '    for each vertex v in Graph:',
+  '        color[v] ← WHITE',
+  '    Visit(source)',
+  '',
+  'function Visit(u):',
+  '    color[u] ← GRAY; discover[u] ← time++',
+  '    for each neighbor v of u:',
+  '        if color[v] = WHITE:',
+  '            prev[v] ← u            // tree edge',
+  '            Visit(v)',
+  '        else if color[v] = GRAY:',
+  '            // back edge: a cycle',
+  '        else:',
+  '            // forward or cross edge',
+  '    color[u] ← BLACK; finish[u] ← time++',
+];
+
+// ============================================
+// STEP GENERATOR
+// ============================================
+
+// One call of Visit(u) on the explicit stack
+interface Frame {
+  nodeId: string;
+  neighbors: Array<{ nodeId: string; edgeId: string }>;
+  next: number;
+}
+
+export function* generateDfsSteps(
+  graph: Graph,
+  sourceId: string,
+  targetId?: string
+): Generator<AlgorithmStep, void, unknown> {
+  const depths = new TrackedMap<string, number>(); // Depth in the DFS tree
+  const predecessors = new TrackedMap<string, string | null>();
+  const predecessorEdges = new TrackedMap<string, string | null>();
+  const finishedSet = new TrackedSet<string>(); // Black nodes
+  const nodeStates = new TrackedMap<string, NodeState>();
+  const edgeStates = new TrackedMap<string, EdgeState>();
+  const discoverTime = new Map<string, number>();
+  const discovered: string[] = [];
+  const finished: string[] = [];
+  const stack: Frame[] = [];
+
+  for (const [nodeId] of graph.nodes) {
+    depths.set(nodeId, Infinity);
+    predecessors.set(nodeId, null);
+    predecessorEdges.set(nodeId, null);
+    nodeStates.set(nodeId, nodeId === sourceId ? 'start' : 'default');
+  }
+  if (targetId) nodeStates.set(targetId, 'end');
+
+  for (const [edgeId] of graph.edges) {
+    edgeStates.set(edgeId, 'default');
+  }
+
+  const setNodeState = (nodeId: string, state: NodeState) => {
+    if (nodeId !== sourceId && nodeId !== targetId) nodeStates.set(nodeId, state);
+  };
+
+  const snapshot = (
+    type: AlgorithmStep['type'],
+    currentNode: string | null,
+    pseudocodeLine: number,
+    explanation: AlgorithmStep['explanation'],
+    extra: Partial<AlgorithmStep> = {}
+  ): AlgorithmStep => ({
+    type,
+    currentNode,
+    distances: depths,
+    predecessors,
+    predecessorEdges,
+    visited: finishedSet,
+    queue: stack.map(frame => ({ nodeId: frame.nodeId, priority: depths.get(frame.nodeId)! })).reverse(),
+    queueKind: 'stack',
+    traversal: { discovered, finished },
+    nodeStates,
+    edgeStates,
+    pseudocodeLine,
+    explanation,
+    ...extra,
+  });
+
+  const discover = (nodeId: string, depth: number) => {
+    depths.set(nodeId, depth);
+    discoverTime.set(nodeId, discovered.length);
+    discovered.push(nodeId);
+    stack.push({
+      nodeId,
+      neighbors: getNeighbors(graph, nodeId).map(({ nodeId: v, edgeId }) => ({ nodeId: v, edgeId })),
+      next: 0,
+    });
+  };
+
+  yield snapshot('init', null, 2, {
+    beginner: `Starting depth-first search from ${sourceId}. DFS dives down one branch as far as possible before backing up. Edge weights are ignored.`,
+    advanced: `Initialization: color[v] = WHITE for all v. The recursion of Visit() runs on an explicit stack of frames.`,
+  });
+
+  discover(sourceId, 0);
+  yield snapshot('select-node', sourceId, 6, {
+    beginner: `Visiting ${sourceId} first and pushing it onto the stack.`,
+    advanced: `Visit(${sourceId}): color ← GRAY, discover[${sourceId}] = 0.`,
+  });
+
+  if (targetId === sourceId) {
+    yield snapshot('path-found', sourceId, 6, {
+      beginner: `${sourceId} is both the source and the target, so the path has no steps at all.`,
+      advanced: `source = target: trivial path.`,
+    }, { shortestPath: [sourceId], totalDistance: 0 });
+    return;
+  }
+
+  while (stack.length > 0) {
+    const frame = stack[stack.length - 1];
+    const currentId = frame.nodeId;
+
+    if (frame.next >= frame.neighbors.length) {
+      // Every neighbor explored: finish u and return to the caller
+      stack.pop();
+      finishedSet.add(currentId);
+      finished.push(currentId);
+      setNodeState(currentId, 'visited');
+      const caller = stack.length > 0 ? stack[stack.length - 1].nodeId : null;
+      if (caller) setNodeState(caller, 'current');
+
+      yield snapshot('mark-visited', caller, 15, {
+        beginner: `${currentId} has no unexplored neighbors left, so it is finished. ${caller ? `Back up to ${caller}.` : 'The stack is empty.'}`,
+        advanced: `color[${currentId}] ← BLACK, finish[${currentId}] = #${finished.length}. ${caller ? `Return to Visit(${caller}).` : 'Traversal from the source is done.'}`,
+      });
+      continue;
+    }
+
+    const { nodeId: neighborId, edgeId } = frame.neighbors[frame.next++];
+
+    // An undirected edge is classified once: skip it when seen again from the other end
+    if (edgeStates.get(edgeId) !== 'default') continue;
+
+    const depth = depths.get(currentId)!;
+    const currentEdge = {
+      edgeId,
+      from: currentId,
+      to: neighborId,
+      weight: 1,
+      oldDistance: depths.get(neighborId)!,
+      newDistance: depth + 1,
+      wasRelaxed: !discoverTime.has(neighborId),
+    };
+
+    if (discoverTime.has(neighborId)) {
+      const onStack = !finishedSet.has(neighborId);
+      const kind: EdgeState = onStack
+        ? 'back'
+        : discoverTime.get(neighborId)! > discoverTime.get(currentId)! ? 'forward' : 'cross';
+      edgeStates.set(edgeId, kind);
+
+      yield snapshot('skip-edge', currentId, onStack ? 12 : 14, {
+        beginner: onStack
+          ? `${neighborId} is still on the stack, so this edge loops back to an ancestor: the graph has a cycle.`
+          : `${neighborId} is already finished, so there is nothing new to explore this way.`,
+        advanced: onStack
+          ? `color[${neighborId}] = GRAY: back edge (${currentId}, ${neighborId}) closes a cycle.`
+          : `color[${neighborId}] = BLACK: ${kind} edge (${currentId}, ${neighborId}); discover[${neighborId}] ${kind === 'forward' ? '>' : '<'} discover[${currentId}].`,
+      }, { currentEdge });
+      continue;
+    }
+
+    predecessors.set(neighborId, currentId);
+    predecessorEdges.set(neighborId, edgeId);
+    edgeStates.set(edgeId, 'tree');
+    setNodeState(currentId, 'in-queue');
+    setNodeState(neighborId, 'current');
+    discover(neighborId, depth + 1);
+
+    yield snapshot('relax-edge', neighborId, 10, {
+      beginner: `${neighborId} hasn't been seen yet, so we go deeper: ${currentId} waits on the stack while we explore ${neighborId}.`,
+      advanced: `Tree edge (${currentId}, ${neighborId}): prev[${neighborId}] ← ${currentId}, Visit(${neighborId}) with discover[${neighborId}] = ${discovered.length - 1}.`,
+    }, { currentEdge });
+
+    if (neighborId === targetId) {
+      const path = reconstructPath(predecessors, targetId);
+      for (let i = 0; i < path.length - 1; i++) {
+        const pathEdgeId = predecessorEdges.get(path[i + 1]);
+        if (pathEdgeId) edgeStates.set(pathEdgeId, 'path');
+        setNodeState(path[i], 'path');
+      }
+
+      yield snapshot('path-found', targetId, 10, {
+        beginner: `Reached ${targetId} after ${path.length - 1} edges. DFS stops at the first path it finds, which is usually not the shortest.`,
+        advanced: `Target discovered: ${path.join(' → ')} (the current stack). DFS gives no shortest-path guarantee.`,
+      }, { shortestPath: path, totalDistance: path.length - 1 });
+      return;
+    }
+  }
+
+  if (targetId) {
+    yield snapshot('no-path', null, 3, {
+      beginner: `Every branch from ${sourceId} has been explored without reaching ${targetId}, so no path exists.`,
+      advanced: `Stack empty and color[${targetId}] = WHITE: target unreachable from ${sourceId}.`,
+    });
+  } else {
+    yield snapshot('complete', null, 3, {
+      beginner: `Depth-first search complete! All ${discovered.length} nodes reachable from ${sourceId} were visited.`,
+      advanced: `Traversal complete. Discovery order: ${discovered.join(', ')}. Finish order: ${finished.join(', ')}.`,
+    });
+  }
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function reconstructPath(predecessors: Map<string, string | null>, targetId: string): string[] {
+  const path: string[] = [];
+  let current: string | null = targetId;
+
+  while (current !== null) {
+    path.unshift(current);
+    current = predecessors.get(current) ?? null;
+  }
+
+  return path;
+}
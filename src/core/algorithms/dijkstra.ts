@@ -4,79 +4,15 @@
  * This implementation uses a generator function to yield each step,
  * allowing the UI to visualize the algorithm's progress incrementally.
  * 
- * Time Complexity: O((V + E) log V) with a priority queue
+ * Time Complexity: O((V + E) log V) with a binary heap, O(E + V log V)
+ * with a Fibonacci heap (see ../queues for the other choices)
  * Space Complexity: O(V)
  */
 
-import { Graph, Node, AlgorithmStep, NodeState, EdgeState } from '../types';
+import { Graph, AlgorithmStep, NodeState, EdgeState, PriorityQueueType, TieBreakingSettings } from '../types';
 import { getNeighbors } from '../graph';
-
-// ============================================
-// PRIORITY QUEUE (Min-Heap)
-// ============================================
-
-class PriorityQueue<T> {
-  private heap: Array<{ item: T; priority: number }> = [];
-  
-  enqueue(item: T, priority: number): void {
-    this.heap.push({ item, priority });
-    this.bubbleUp(this.heap.length - 1);
-  }
-  
-  dequeue(): T | undefined {
-    if (this.isEmpty()) return undefined;
-    
-    const min = this.heap[0];
-    const last = this.heap.pop()!;
-    
-    if (this.heap.length > 0) {
-      this.heap[0] = last;
-      this.bubbleDown(0);
-    }
-    
-    return min.item;
-  }
-  
-  isEmpty(): boolean {
-    return this.heap.length === 0;
-  }
-  
-  toArray(): Array<{ nodeId: string; priority: number }> {
-    return this.heap.map(h => ({ 
-      nodeId: h.item as unknown as string, 
-      priority: h.priority 
-    }));
-  }
-  
-  private bubbleUp(index: number): void {
-    while (index > 0) {
-      const parentIndex = Math.floor((index - 1) / 2);
-      if (this.heap[parentIndex].priority <= this.heap[index].priority) break;
-      [this.heap[parentIndex], this.heap[index]] = [this.heap[index], this.heap[parentIndex]];
-      index = parentIndex;
-    }
-  }
-  
-  private bubbleDown(index: number): void {
-    while (true) {
-      const leftChild = 2 * index + 1;
-      const rightChild = 2 * index + 2;
-      let smallest = index;
-      
-      if (leftChild < this.heap.length && this.heap[leftChild].priority < this.heap[smallest].priority) {
-        smallest = leftChild;
-      }
-      if (rightChild < this.heap.length && this.heap[rightChild].priority < this.heap[smallest].priority) {
-        smallest = rightChild;
-      }
-      
-      if (smallest === index) break;
-      
-      [this.heap[smallest], this.heap[index]] = [this.heap[index], this.heap[smallest]];
-      index = smallest;
-    }
-  }
-}
+import { createPriorityQueue, TieBreaker, DEFAULT_TIE_BREAKING, TIE_BREAKING_POLICIES } from '../queues';
+import { TrackedMap, TrackedSet } from '../trace';
 
 // ============================================
 // DIJKSTRA PSEUDOCODE (for display)
@@ -110,20 +46,26 @@ export const DIJKSTRA_PSEUDOCODE = [
 export function* generateDijkstraSteps(
   graph: Graph,
   sourceId: string,
-  targetId?: string
+  targetId?: string,
+  queueType: PriorityQueueType = 'binary',
+  tieBreaking: TieBreakingSettings = DEFAULT_TIE_BREAKING
 ): Generator<AlgorithmStep, void, unknown> {
   // Initialize data structures
-  const distances = new Map<string, number>();
-  const predecessors = new Map<string, string | null>();
-  const visited = new Set<string>();
-  const nodeStates = new Map<string, NodeState>();
-  const edgeStates = new Map<string, EdgeState>();
-  const pq = new PriorityQueue<string>();
+  // Live, change-tracked state: steps share it rather than copying it (see ../trace)
+  const distances = new TrackedMap<string, number>();
+  const predecessors = new TrackedMap<string, string | null>();
+  const predecessorEdges = new TrackedMap<string, string | null>();
+  const visited = new TrackedSet<string>();
+  const nodeStates = new TrackedMap<string, NodeState>();
+  const edgeStates = new TrackedMap<string, EdgeState>();
+  const tieBreaker = new TieBreaker(tieBreaking, { g: nodeId => distances.get(nodeId)! });
+  const pq = createPriorityQueue(queueType, tieBreaker);
   
   // Initialize all nodes
   for (const [nodeId] of graph.nodes) {
     distances.set(nodeId, nodeId === sourceId ? 0 : Infinity);
     predecessors.set(nodeId, null);
+    predecessorEdges.set(nodeId, null);
     nodeStates.set(nodeId, nodeId === sourceId ? 'start' : 'default');
   }
   
@@ -137,18 +79,20 @@ export function* generateDijkstraSteps(
   }
   
   // Enqueue source
-  pq.enqueue(sourceId, 0);
+  pq.insert(sourceId, 0);
   
   // Yield initialization step
   yield {
     type: 'init',
     currentNode: null,
-    distances: new Map(distances),
-    predecessors: new Map(predecessors),
-    visited: new Set(visited),
+    distances,
+    predecessors,
+    predecessorEdges,
+    visited,
     queue: pq.toArray(),
-    nodeStates: new Map(nodeStates),
-    edgeStates: new Map(edgeStates),
+    queueStats: { ...pq.counts },
+    nodeStates,
+    edgeStates,
     pseudocodeLine: 0,
     explanation: {
       beginner: `Starting Dijkstra's algorithm from node ${sourceId}. All distances are set to infinity except the source, which is 0.`,
@@ -158,30 +102,36 @@ export function* generateDijkstraSteps(
   
   // Main algorithm loop
   while (!pq.isEmpty()) {
-    const currentId = pq.dequeue()!;
-    
-    // Skip if already visited (we may have duplicate entries in PQ)
-    if (visited.has(currentId)) continue;
+    const currentId = pq.extractMin()!.nodeId;
+    const currentDist = distances.get(currentId)!;
     
     // Mark as current
     if (currentId !== sourceId && currentId !== targetId) {
       nodeStates.set(currentId, 'current');
     }
     
+    // Nodes left at the same distance lost the tie; say which rule picked this one
+    const tied = pq.toArray().filter(entry => entry.priority === currentDist).map(entry => entry.nodeId);
+    const reason = tied.length > 0 ? tieBreaker.reason(currentId, tied) : '';
+    
     // Yield node selection step
     yield {
       type: 'select-node',
       currentNode: currentId,
-      distances: new Map(distances),
-      predecessors: new Map(predecessors),
-      visited: new Set(visited),
+      distances,
+      predecessors,
+      predecessorEdges,
+      visited,
       queue: pq.toArray(),
-      nodeStates: new Map(nodeStates),
-      edgeStates: new Map(edgeStates),
+      queueStats: { ...pq.counts },
+      nodeStates,
+      edgeStates,
       pseudocodeLine: 8,
       explanation: {
-        beginner: `Selecting node ${currentId} because it has the smallest known distance (${distances.get(currentId)}).`,
-        advanced: `Extract-min: u = ${currentId} with dist[u] = ${distances.get(currentId)}. This distance is now final.`,
+        beginner: `Selecting node ${currentId} because it has the smallest known distance (${currentDist}).` +
+          (tied.length > 0 ? ` ${tied.length === 1 ? `${tied[0]} is` : `${tied.length} other nodes are`} just as close; ${currentId} goes first because ${reason}.` : ''),
+        advanced: `Extract-min: u = ${currentId} with dist[u] = ${currentDist}. This distance is now final.` +
+          (tied.length > 0 ? ` Tie with {${tied.join(', ')}} broken by ${TIE_BREAKING_POLICIES[tieBreaking.policy].label}: ${reason}.` : ''),
       },
     };
     
@@ -195,7 +145,8 @@ export function* generateDijkstraSteps(
       
       // Mark path edges
       for (let i = 0; i < path.length - 1; i++) {
-        const edgeId = findEdgeId(graph, path[i], path[i + 1]);
+        // Use the recorded edge; with parallel edges the node pair is ambiguous
+        const edgeId = predecessorEdges.get(path[i + 1]);
         if (edgeId) edgeStates.set(edgeId, 'path');
         nodeStates.set(path[i], path[i] === sourceId ? 'start' : 'path');
       }
@@ -203,12 +154,14 @@ export function* generateDijkstraSteps(
       yield {
         type: 'path-found',
         currentNode: currentId,
-        distances: new Map(distances),
-        predecessors: new Map(predecessors),
-        visited: new Set(visited),
+        distances,
+        predecessors,
+        predecessorEdges,
+        visited,
         queue: pq.toArray(),
-        nodeStates: new Map(nodeStates),
-        edgeStates: new Map(edgeStates),
+        queueStats: { ...pq.counts },
+        nodeStates,
+        edgeStates,
         pseudocodeLine: 16,
         explanation: {
           beginner: `Found the shortest path to ${targetId}! Total distance: ${distances.get(targetId)}.`,
@@ -229,12 +182,14 @@ export function* generateDijkstraSteps(
     yield {
       type: 'mark-visited',
       currentNode: currentId,
-      distances: new Map(distances),
-      predecessors: new Map(predecessors),
-      visited: new Set(visited),
+      distances,
+      predecessors,
+      predecessorEdges,
+      visited,
       queue: pq.toArray(),
-      nodeStates: new Map(nodeStates),
-      edgeStates: new Map(edgeStates),
+      queueStats: { ...pq.counts },
+      nodeStates,
+      edgeStates,
       pseudocodeLine: 9,
       explanation: {
         beginner: `Node ${currentId} is now permanently visited. We've found the shortest path to it.`,
@@ -258,12 +213,14 @@ export function* generateDijkstraSteps(
       yield {
         type: 'examine-edge',
         currentNode: currentId,
-        distances: new Map(distances),
-        predecessors: new Map(predecessors),
-        visited: new Set(visited),
+        distances,
+        predecessors,
+        predecessorEdges,
+        visited,
         queue: pq.toArray(),
-        nodeStates: new Map(nodeStates),
-        edgeStates: new Map(edgeStates),
+        queueStats: { ...pq.counts },
+        nodeStates,
+        edgeStates,
         pseudocodeLine: 11,
         currentEdge: {
           edgeId,
@@ -284,7 +241,10 @@ export function* generateDijkstraSteps(
       if (newDist < oldDist) {
         distances.set(neighborId, newDist);
         predecessors.set(neighborId, currentId);
-        pq.enqueue(neighborId, newDist);
+        predecessorEdges.set(neighborId, edgeId);
+        // Lower the key in place if queued; no stale duplicates
+        const wasQueued = pq.has(neighborId);
+        pq.insertOrDecreaseKey(neighborId, newDist);
         edgeStates.set(edgeId, 'relaxed');
         
         if (neighborId !== targetId) {
@@ -294,12 +254,14 @@ export function* generateDijkstraSteps(
         yield {
           type: 'relax-edge',
           currentNode: currentId,
-          distances: new Map(distances),
-          predecessors: new Map(predecessors),
-          visited: new Set(visited),
+          distances,
+          predecessors,
+          predecessorEdges,
+          visited,
           queue: pq.toArray(),
-          nodeStates: new Map(nodeStates),
-          edgeStates: new Map(edgeStates),
+          queueStats: { ...pq.counts },
+          nodeStates,
+          edgeStates,
           pseudocodeLine: 14,
           currentEdge: {
             edgeId,
@@ -312,7 +274,7 @@ export function* generateDijkstraSteps(
           },
           explanation: {
             beginner: `Found a shorter path to ${neighborId}! Updated distance from ${oldDist === Infinity ? '∞' : oldDist} to ${newDist}.`,
-            advanced: `Relaxation: ${newDist} < ${oldDist === Infinity ? '∞' : oldDist}, so dist[${neighborId}] ← ${newDist}, prev[${neighborId}] ← ${currentId}`,
+            advanced: `Relaxation: ${newDist} < ${oldDist === Infinity ? '∞' : oldDist}, so dist[${neighborId}] ← ${newDist}, prev[${neighborId}] ← ${currentId}, ${wasQueued ? 'decrease-key' : 'insert'} ${neighborId} in Q`,
           },
         };
       } else {
@@ -321,12 +283,14 @@ export function* generateDijkstraSteps(
         yield {
           type: 'skip-edge',
           currentNode: currentId,
-          distances: new Map(distances),
-          predecessors: new Map(predecessors),
-          visited: new Set(visited),
+          distances,
+          predecessors,
+          predecessorEdges,
+          visited,
           queue: pq.toArray(),
-          nodeStates: new Map(nodeStates),
-          edgeStates: new Map(edgeStates),
+          queueStats: { ...pq.counts },
+          nodeStates,
+          edgeStates,
           pseudocodeLine: 13,
           currentEdge: {
             edgeId,
@@ -361,12 +325,14 @@ export function* generateDijkstraSteps(
     yield {
       type: 'no-path',
       currentNode: null,
-      distances: new Map(distances),
-      predecessors: new Map(predecessors),
-      visited: new Set(visited),
+      distances,
+      predecessors,
+      predecessorEdges,
+      visited,
       queue: [],
-      nodeStates: new Map(nodeStates),
-      edgeStates: new Map(edgeStates),
+      queueStats: { ...pq.counts },
+      nodeStates,
+      edgeStates,
       pseudocodeLine: 16,
       explanation: {
         beginner: `No path exists from ${sourceId} to ${targetId}.`,
@@ -377,12 +343,14 @@ export function* generateDijkstraSteps(
     yield {
       type: 'complete',
       currentNode: null,
-      distances: new Map(distances),
-      predecessors: new Map(predecessors),
-      visited: new Set(visited),
+      distances,
+      predecessors,
+      predecessorEdges,
+      visited,
       queue: [],
-      nodeStates: new Map(nodeStates),
-      edgeStates: new Map(edgeStates),
+      queueStats: { ...pq.counts },
+      nodeStates,
+      edgeStates,
       pseudocodeLine: 16,
       explanation: {
         beginner: `Dijkstra's algorithm complete! Found shortest paths from ${sourceId} to all reachable nodes.`,
@@ -392,6 +360,61 @@ export function* generateDijkstraSteps(
   }
 }
 
+// ============================================
+// PLAIN SHORTEST PATH (no steps)
+// ============================================
+
+export interface ShortestPathTree {
+  distances: Map<string, number>;
+  predecessors: Map<string, string | null>;
+  predecessorEdges: Map<string, string | null>;
+}
+
+/**
+ * Dijkstra without the step-by-step output, for algorithms that run it
+ * as a subroutine. Blocked nodes and edges are treated as removed from
+ * the graph; the search stops early once `targetId` is settled.
+ */
+export function runDijkstra(
+  graph: Graph,
+  sourceId: string,
+  options: { targetId?: string; blockedNodes?: Set<string>; blockedEdges?: Set<string> } = {}
+): ShortestPathTree {
+  const { targetId, blockedNodes, blockedEdges } = options;
+  const distances = new Map<string, number>();
+  const predecessors = new Map<string, string | null>();
+  const predecessorEdges = new Map<string, string | null>();
+  const visited = new Set<string>();
+  const pq = createPriorityQueue();
+
+  for (const [nodeId] of graph.nodes) {
+    distances.set(nodeId, nodeId === sourceId ? 0 : Infinity);
+    predecessors.set(nodeId, null);
+    predecessorEdges.set(nodeId, null);
+  }
+  pq.insert(sourceId, 0);
+
+  while (!pq.isEmpty()) {
+    const currentId = pq.extractMin()!.nodeId;
+    visited.add(currentId);
+    if (currentId === targetId) break;
+
+    for (const { nodeId: neighborId, edgeId, weight } of getNeighbors(graph, currentId)) {
+      if (visited.has(neighborId) || blockedNodes?.has(neighborId) || blockedEdges?.has(edgeId)) continue;
+
+      const alt = distances.get(currentId)! + weight;
+      if (alt < distances.get(neighborId)!) {
+        distances.set(neighborId, alt);
+        predecessors.set(neighborId, currentId);
+        predecessorEdges.set(neighborId, edgeId);
+        pq.insertOrDecreaseKey(neighborId, alt);
+      }
+    }
+  }
+
+  return { distances, predecessors, predecessorEdges };
+}
+
 // ============================================
 // HELPER FUNCTIONS
 // ============================================
@@ -407,15 +430,3 @@ function reconstructPath(predecessors: Map<string, string | null>, targetId: str
   
   return path;
 }
-
-function findEdgeId(graph: Graph, nodeA: string, nodeB: string): string | null {
-  for (const [edgeId, edge] of graph.edges) {
-    if (
-      (edge.source === nodeA && edge.target === nodeB) ||
-      (!graph.directed && edge.source === nodeB && edge.target === nodeA)
-    ) {
-      return edgeId;
-    }
-  }
-  return null;
-}
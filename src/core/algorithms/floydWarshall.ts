@@ -0,0 +1,247 @@
+/**
+ * Floyd–Warshall Algorithm - Step-by-Step Generator
+ *
+ * Computes shortest paths between every pair of nodes at once. Pass k
+ * allows node k as an intermediate stop: every pair (i, j) checks whether
+ * going i → k → j beats the best path found so far. Steps carry the whole
+ * distance and next-hop matrices so they can be shown as a table.
+ *
+ * Negative edges are fine; a negative cycle shows up as a negative entry
+ * on the diagonal (a node that can reach itself at negative cost).
+ *
+ * Time Complexity: O(V³)
+ * Space Complexity: O(V²)
+ */
+
+import { Graph, AlgorithmStep, AllPairsState, NodeState, EdgeState } from '../types';
+import { getEdgeBetween, isEdgeDirected } from '../graph';
+
+// Every step copies both V×V matrices, and the table has to fit in a panel
+export const FLOYD_WARSHALL_MAX_NODES = 20;
+
+// ============================================
+// FLOYD-WARSHALL PSEUDOCODE (for display)
+// ============================================
+
+export const FLOYD_WARSHALL_PSEUDOCODE = [
+  'function FloydWarshall(Graph):',
+  '    for each pair of vertices (i, j):',
+  '        dist[i][j] ← w(i, j), 0 if i = j, else INFINITY',
+  '        next[i][j] ← j if edge (i, j) exists',
+  '',
+  '    for each vertex k:',
+  '        for each vertex i:',
+  '            for each vertex j:',
+  '                if dist[i][k] + dist[k][j] < dist[i][j]:',
+  '                    dist[i][j] ← dist[i][k] + dist[k][j]',
+  '                    next[i][j] ← next[i][k]',
+  '',
+  '    if any dist[i][i] < 0: error "negative cycle"',
+  '    return dist[], next[]',
+];
+
+// ============================================
+// STEP GENERATOR
+// ============================================
+
+export function* generateFloydWarshallSteps(
+  graph: Graph,
+  sourceId?: string,
+  targetId?: string
+): Generator<AlgorithmStep, void, unknown> {
+  const nodes = [...graph.nodes.keys()];
+  const n = nodes.length;
+  const index = new Map(nodes.map((id, i) => [id, i]));
+
+  const dist: number[][] = nodes.map((_, i) => nodes.map((_, j) => (i === j ? 0 : Infinity)));
+  const next: Array<Array<number | null>> = nodes.map((_, i) => nodes.map((_, j) => (i === j ? i : null)));
+
+  // The cheapest of any parallel edges; a negative self-loop lowers the diagonal
+  for (const edge of graph.edges.values()) {
+    const u = index.get(edge.source)!;
+    const v = index.get(edge.target)!;
+    const arcs: Array<[number, number]> = isEdgeDirected(graph, edge) ? [[u, v]] : [[u, v], [v, u]];
+    for (const [a, b] of arcs) {
+      if (edge.weight < dist[a][b]) {
+        dist[a][b] = edge.weight;
+        next[a][b] = b;
+      }
+    }
+  }
+
+  const nodeStates = new Map<string, NodeState>();
+  const edgeStates = new Map<string, EdgeState>();
+  const resetNodeStates = () => {
+    for (const id of nodes) {
+      nodeStates.set(id, id === sourceId ? 'start' : id === targetId ? 'end' : 'default');
+    }
+  };
+  resetNodeStates();
+  for (const [edgeId] of graph.edges) {
+    edgeStates.set(edgeId, 'default');
+  }
+
+  // Single-source fields show the source's row so the canvas labels stay meaningful
+  const sourceRow = sourceId !== undefined ? index.get(sourceId) : undefined;
+  const predecessorsFromSource = (): Map<string, string | null> => {
+    const predecessors = new Map<string, string | null>();
+    for (const id of nodes) {
+      const path = sourceRow !== undefined ? reconstructAllPairsPath(nodes, next, sourceRow, index.get(id)!) : null;
+      predecessors.set(id, path && path.length > 1 ? path[path.length - 2] : null);
+    }
+    return predecessors;
+  };
+
+  const snapshot = (
+    type: AlgorithmStep['type'],
+    cell: { k: number | null; i: number | null; j: number | null },
+    pseudocodeLine: number,
+    explanation: AlgorithmStep['explanation'],
+    extra: Partial<AlgorithmStep> = {}
+  ): AlgorithmStep => {
+    const allPairs: AllPairsState = {
+      nodes,
+      dist: dist.map(row => row.slice()),
+      next: next.map(row => row.slice()),
+      ...cell,
+    };
+    const distances = new Map<string, number>();
+    if (sourceRow !== undefined) {
+      nodes.forEach((id, j) => distances.set(id, dist[sourceRow][j]));
+    }
+    const predecessors = predecessorsFromSource();
+    const predecessorEdges = new Map<string, string | null>();
+    for (const [id, prev] of predecessors) {
+      predecessorEdges.set(id, prev ? getEdgeBetween(graph, prev, id)?.id ?? null : null);
+    }
+
+    return {
+      type,
+      currentNode: cell.k !== null ? nodes[cell.k] : null,
+      distances,
+      predecessors,
+      predecessorEdges,
+      visited: new Set(nodes.slice(0, cell.k ?? 0)), // Nodes already allowed as intermediates
+      queue: [],
+      nodeStates: new Map(nodeStates),
+      edgeStates: new Map(edgeStates),
+      pseudocodeLine,
+      explanation,
+      allPairs,
+      ...extra,
+    };
+  };
+
+  const format = (d: number) => (d === Infinity ? '∞' : String(d));
+  const none = { k: null, i: null, j: null };
+
+  yield snapshot('init', none, 2, {
+    beginner: `Floyd–Warshall finds the shortest path between every pair of nodes. The table starts with the direct edge weights: 0 on the diagonal, ∞ where there is no edge.`,
+    advanced: `Initialization: dist is the ${n}×${n} weight matrix (cheapest parallel edge, 0 on the diagonal, ∞ elsewhere); next[i][j] = j for every edge.`,
+  });
+
+  for (let k = 0; k < n; k++) {
+    const kId = nodes[k];
+    resetNodeStates();
+    nodeStates.set(kId, 'current');
+
+    yield snapshot('begin-pass', { k, i: null, j: null }, 5, {
+      beginner: `Now every path may also pass through ${kId}. Check each pair to see whether a detour via ${kId} is shorter.`,
+      advanced: `Pass k = ${kId} (${k + 1}/${n}). Invariant: dist[i][j] is the shortest path using only intermediates from {${nodes.slice(0, k + 1).join(', ')}} after this pass.`,
+    });
+
+    for (let i = 0; i < n; i++) {
+      // A pair through k needs a way into k and a way out of it
+      if (i === k || dist[i][k] === Infinity) continue;
+      for (let j = 0; j < n; j++) {
+        if (j === k || dist[k][j] === Infinity) continue;
+
+        const iId = nodes[i];
+        const jId = nodes[j];
+        const oldDist = dist[i][j];
+        const viaK = dist[i][k] + dist[k][j];
+
+        nodeStates.set(iId, 'in-queue');
+        nodeStates.set(jId, 'in-queue');
+        nodeStates.set(kId, 'current');
+
+        if (viaK < oldDist) {
+          dist[i][j] = viaK;
+          next[i][j] = next[i][k];
+
+          yield snapshot('relax-edge', { k, i, j }, 9, {
+            beginner: `Going ${iId} → ${kId} → ${jId} costs ${viaK}, better than ${format(oldDist)}. Update the table.`,
+            advanced: `dist[${iId}][${kId}] + dist[${kId}][${jId}] = ${dist[i][k]} + ${dist[k][j]} = ${viaK} < ${format(oldDist)}: dist[${iId}][${jId}] ← ${viaK}, next[${iId}][${jId}] ← ${nodes[next[i][j]!]}.`,
+          });
+        } else {
+          yield snapshot('skip-edge', { k, i, j }, 8, {
+            beginner: `Going ${iId} → ${kId} → ${jId} costs ${viaK}, no better than ${format(oldDist)}. Keep the current entry.`,
+            advanced: `dist[${iId}][${kId}] + dist[${kId}][${jId}] = ${viaK} ≥ dist[${iId}][${jId}] = ${format(oldDist)}.`,
+          });
+        }
+
+        resetNodeStates();
+        nodeStates.set(kId, 'current');
+      }
+    }
+  }
+
+  resetNodeStates();
+
+  // A node that reaches itself at negative cost lies on a negative cycle
+  const onCycle = nodes.filter((_, i) => dist[i][i] < 0);
+  if (onCycle.length > 0) {
+    for (const id of onCycle) nodeStates.set(id, 'cycle');
+    yield snapshot('negative-cycle', none, 12, {
+      beginner: `Some nodes can return to themselves at negative cost: ${onCycle.join(', ')}. They lie on a negative cycle, so the table's distances through them are not real shortest paths.`,
+      advanced: `dist[v][v] < 0 for v ∈ {${onCycle.join(', ')}}: a negative cycle exists and shortest paths through these vertices are undefined (−∞).`,
+    });
+    return;
+  }
+
+  // Highlight the source–target path when both are selected
+  const s = sourceRow;
+  const t = targetId !== undefined ? index.get(targetId) : undefined;
+  const path = s !== undefined && t !== undefined ? reconstructAllPairsPath(nodes, next, s, t) : null;
+  const reachable = dist.flat().filter(d => d !== Infinity).length - n;
+
+  if (path) {
+    for (let p = 0; p < path.length - 1; p++) {
+      const edge = getEdgeBetween(graph, path[p], path[p + 1]);
+      if (edge) edgeStates.set(edge.id, 'path');
+      if (p > 0) nodeStates.set(path[p], 'path');
+    }
+  }
+
+  yield snapshot('complete', none, 13, {
+    beginner: path
+      ? `Floyd–Warshall complete! The table now holds every shortest distance; ${sourceId} → ${targetId} costs ${dist[s!][t!]}. Click any cell to see its path.`
+      : `Floyd–Warshall complete! The table now holds every shortest distance. Click any cell to see its path.`,
+    advanced: `Terminated after ${n} passes. ${reachable} ordered pairs (i ≠ j) are connected; paths are recovered by following next[][].`,
+  }, path ? { shortestPath: path, totalDistance: dist[s!][t!] } : {});
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+// Follow next-hop entries from i to j; null when j is unreachable. Around a
+// negative cycle the entries stop describing simple paths, so give up there.
+export function reconstructAllPairsPath(
+  nodes: string[],
+  next: Array<Array<number | null>>,
+  i: number,
+  j: number
+): string[] | null {
+  if (next[i][j] === null) return null;
+  const path = [nodes[i]];
+  let current = i;
+  while (current !== j) {
+    const hop = next[current][j];
+    if (hop === null) return null;
+    current = hop;
+    path.push(nodes[current]);
+    if (path.length > nodes.length) return null;
+  }
+  return path;
+}
@@ -0,0 +1,192 @@
+/**
+ * Heuristics - distance estimates for the goal-directed searches
+ *
+ * Every canvas heuristic is a distance between node coordinates times a
+ * scale: the cost of one unit of canvas distance. A* only finds shortest
+ * paths when the estimate never exceeds the true remaining cost
+ * (admissible), and never expands a node twice when it also drops by at
+ * most w across every edge of weight w (consistent). Whether that holds
+ * depends on the weights, so analyzeHeuristic checks it against the real
+ * distances to the target.
+ */
+
+import { Graph, Node, HeuristicType, HeuristicSettings, HeuristicState } from '../types';
+import { getNeighbors, getIncomingAdjacency } from '../graph';
+import { createPriorityQueue } from '../queues';
+
+export const HEURISTICS: Record<HeuristicType, { label: string; description: string }> = {
+  zero: {
+    label: 'Zero',
+    description: 'Estimates nothing, so A* expands nodes exactly as Dijkstra does. Always admissible and consistent.',
+  },
+  euclidean: {
+    label: 'Euclidean',
+    description: 'Straight-line distance. Admissible when no edge costs less than scale × its drawn length.',
+  },
+  manhattan: {
+    label: 'Manhattan',
+    description: '|Δx| + |Δy|. Exact on 4-connected grids; overestimates as soon as diagonal or slanted edges cut corners.',
+  },
+  chebyshev: {
+    label: 'Chebyshev',
+    description: 'max(|Δx|, |Δy|): a diagonal step costs the same as a straight one. Never above Euclidean, so admissible wherever it is.',
+  },
+  octile: {
+    label: 'Octile',
+    description: 'Straight moves cost 1 and diagonal moves √2, as on an 8-connected grid. Between Chebyshev and Manhattan.',
+  },
+};
+
+// One unit of cost per 50 px, the scale that was hard-coded before it became
+// a setting. It slightly overestimates on the sample graph, which the
+// analyzer points out along with the largest scale that would not.
+export const DEFAULT_HEURISTIC: HeuristicSettings = { type: 'euclidean', scale: 0.02 };
+
+// Unscaled distance between two nodes' coordinates
+function baseDistance(type: HeuristicType, a: Node, b: Node): number {
+  const dx = Math.abs(a.x - b.x);
+  const dy = Math.abs(a.y - b.y);
+  switch (type) {
+    case 'zero': return 0;
+    case 'euclidean': return Math.sqrt(dx * dx + dy * dy);
+    case 'manhattan': return dx + dy;
+    case 'chebyshev': return Math.max(dx, dy);
+    case 'octile': return Math.max(dx, dy) + (Math.SQRT2 - 1) * Math.min(dx, dy);
+  }
+}
+
+export function createHeuristic({ type, scale }: HeuristicSettings): (a: Node, b: Node) => number {
+  return (a, b) => baseDistance(type, a, b) * scale;
+}
+
+export const euclideanDistance = createHeuristic(DEFAULT_HEURISTIC);
+export const manhattanDistance = createHeuristic({ type: 'manhattan', scale: DEFAULT_HEURISTIC.scale });
+
+// A node's f as a best-first search ranks it; unreached nodes (g = ∞) have f = ∞
+export function fScoreOf(state: HeuristicState, nodeId: string, g: number): number {
+  if (g === Infinity) return Infinity;
+  return state.gWeight * g + state.hWeight * (state.values.get(nodeId) ?? 0);
+}
+
+// Haversine distance for geographic coordinates (in km)
+export function haversineDistance(nodeA: { lat: number; lng: number }, nodeB: { lat: number; lng: number }): number {
+  const R = 6371; // Earth's radius in km
+  const dLat = toRad(nodeB.lat - nodeA.lat);
+  const dLon = toRad(nodeB.lng - nodeA.lng);
+  const lat1 = toRad(nodeA.lat);
+  const lat2 = toRad(nodeB.lat);
+  
+  const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+            Math.sin(dLon / 2) * Math.sin(dLon / 2) * Math.cos(lat1) * Math.cos(lat2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  
+  return R * c;
+}
+
+function toRad(deg: number): number {
+  return deg * (Math.PI / 180);
+}
+
+// ============================================
+// ANALYSIS
+// ============================================
+
+export interface HeuristicAnalysis {
+  targetId: string;
+  trueDistances: Map<string, number>; // h*(v); nodes that cannot reach the target are left out
+  overestimates: Map<string, number>; // Nodes with h(v) > h*(v), by how much
+  inconsistentEdges: Map<string, number>; // Edges (u, v) with h(u) > w + h(v), by how much
+  maxAdmissibleScale: number; // Largest scale at which this heuristic would be admissible
+  maxConsistentScale: number; // ... and consistent
+  informedness: number; // Mean h(v) / h*(v) over the nodes that can reach the target: 1 is perfect
+}
+
+const TOLERANCE = 1e-9;
+
+function exceeds(value: number, bound: number): boolean {
+  return value > bound + TOLERANCE * Math.max(1, Math.abs(bound));
+}
+
+/**
+ * Whether an estimate never drops by more than an edge's weight and is at
+ * most 0 at the target, which also makes it admissible. Only then does a
+ * search that never reopens a closed node end on a shortest path.
+ */
+export function isConsistentEstimate(graph: Graph, targetId: string, estimate: (nodeId: string) => number): boolean {
+  if (exceeds(estimate(targetId), 0)) return false;
+  for (const nodeId of graph.nodes.keys()) {
+    for (const { nodeId: toId, weight } of getNeighbors(graph, nodeId)) {
+      if (exceeds(estimate(nodeId), weight + estimate(toId))) return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Checks a heuristic for one target against the true distances, found by
+ * Dijkstra from the target along reversed edges. Needs non-negative weights.
+ */
+export function analyzeHeuristic(graph: Graph, targetId: string, settings: HeuristicSettings): HeuristicAnalysis {
+  const target = graph.nodes.get(targetId)!;
+  const base = new Map<string, number>();
+  for (const [nodeId, node] of graph.nodes) {
+    base.set(nodeId, baseDistance(settings.type, node, target));
+  }
+  const h = (nodeId: string) => base.get(nodeId)! * settings.scale;
+
+  // Reverse Dijkstra: distance from every node to the target
+  const incoming = getIncomingAdjacency(graph);
+  const trueDistances = new Map<string, number>([[targetId, 0]]);
+  const settled = new Set<string>();
+  const pq = createPriorityQueue();
+  pq.insert(targetId, 0);
+  while (pq.size > 0) {
+    const { nodeId, priority } = pq.extractMin()!;
+    settled.add(nodeId);
+    for (const { nodeId: fromId, weight } of incoming.get(nodeId)!) {
+      if (settled.has(fromId)) continue;
+      const distance = priority + weight;
+      if (distance < (trueDistances.get(fromId) ?? Infinity)) {
+        trueDistances.set(fromId, distance);
+        pq.insertOrDecreaseKey(fromId, distance);
+      }
+    }
+  }
+
+  const overestimates = new Map<string, number>();
+  let maxAdmissibleScale = Infinity;
+  let ratioSum = 0;
+  let ratioCount = 0;
+  for (const [nodeId, distance] of trueDistances) {
+    if (exceeds(h(nodeId), distance)) overestimates.set(nodeId, h(nodeId) - distance);
+    if (base.get(nodeId)! > 0) maxAdmissibleScale = Math.min(maxAdmissibleScale, distance / base.get(nodeId)!);
+    if (distance > 0) {
+      ratioSum += h(nodeId) / distance;
+      ratioCount++;
+    }
+  }
+
+  // Consistency is local to each edge, whether or not it leads to the target
+  const inconsistentEdges = new Map<string, number>();
+  let maxConsistentScale = Infinity;
+  for (const nodeId of graph.nodes.keys()) {
+    for (const { nodeId: toId, edgeId, weight } of getNeighbors(graph, nodeId)) {
+      const excess = h(nodeId) - weight - h(toId);
+      if (exceeds(h(nodeId), weight + h(toId))) {
+        inconsistentEdges.set(edgeId, Math.max(excess, inconsistentEdges.get(edgeId) ?? 0));
+      }
+      const drop = base.get(nodeId)! - base.get(toId)!;
+      if (drop > 0) maxConsistentScale = Math.min(maxConsistentScale, Math.max(0, weight) / drop);
+    }
+  }
+
+  return {
+    targetId,
+    trueDistances,
+    overestimates,
+    inconsistentEdges,
+    maxAdmissibleScale,
+    maxConsistentScale,
+    informedness: ratioCount > 0 ? ratioSum / ratioCount : 1,
+  };
+}
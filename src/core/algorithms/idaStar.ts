@@ -0,0 +1,273 @@
+/**
+ * IDA* (Iterative Deepening A*) - Step-by-Step Generator
+ *
+ * IDA* replaces A*'s open set with repeated depth-first searches. Each pass
+ * explores every path whose f = g + h stays within a threshold; the next
+ * threshold is the smallest f that went over. Only the current path is
+ * kept in memory, at the price of re-expanding nodes on every pass.
+ *
+ * The recursion runs on an explicit stack of frames so each step can be
+ * shown; the stack is reported top-first in the step's queue. A path never
+ * revisits one of its own nodes, so every pass ends, but graphs with many
+ * routes can make a pass very long: the run stops after
+ * IDA_STAR_MAX_EXPANSIONS expansions.
+ *
+ * Time Complexity: O(b^d) expansions in the worst case
+ * Space Complexity: O(d) for the path
+ */
+
+import { Graph, Node, AlgorithmStep, NodeState, EdgeState } from '../types';
+import { getNeighbors } from '../graph';
+import { euclideanDistance } from './heuristics';
+import { TrackedMap, TrackedSet } from '../trace';
+
+// Every expansion is a step, and the same nodes come back in pass after
+// pass, so a run on a graph with many routes could otherwise go on for
+// millions of steps
+export const IDA_STAR_MAX_EXPANSIONS = 2000;
+
+// ============================================
+// IDA* PSEUDOCODE (for display)
+// ============================================
+
+export const IDA_STAR_PSEUDOCODE = [
+  'function IDA*(Graph, source, target, h):',
+  '    bound ← h(source)',
+  '    path ← [source]',
+  '    loop:',
+  '        t ← Search(path, 0, bound)',
+  '        if t = FOUND: return path',
+  '        if t = INFINITY: return failure',
+  '        bound ← t',
+  '',
+  'function Search(path, g, bound):',
+  '    node ← last(path)',
+  '    f ← g + h(node)',
+  '    if f > bound: return f',
+  '    if node = target: return FOUND',
+  '    min ← INFINITY',
+  '    for each neighbor succ of node not in path:',
+  '        path.push(succ)',
+  '        t ← Search(path, g + w(node, succ), bound)',
+  '        if t = FOUND: return FOUND',
+  '        if t < min: min ← t',
+  '        path.pop()',
+  '    return min',
+];
+
+// ============================================
+// STEP GENERATOR
+// ============================================
+
+// One call of Search() on the explicit stack
+interface Frame {
+  nodeId: string;
+  g: number;
+  neighbors: Array<{ nodeId: string; edgeId: string; weight: number }>;
+  next: number;
+  min: number; // Smallest f over the bound seen below this node
+}
+
+export function* generateIdaStarSteps(
+  graph: Graph,
+  sourceId: string,
+  targetId: string,
+  heuristic: (a: Node, b: Node) => number = euclideanDistance
+): Generator<AlgorithmStep, void, unknown> {
+  const targetNode = graph.nodes.get(targetId);
+  if (!targetNode) {
+    throw new Error(`Target node ${targetId} not found in graph`);
+  }
+  const h = (nodeId: string) => heuristic(graph.nodes.get(nodeId)!, targetNode);
+
+  // Reset at the start of every pass
+  const gScore = new TrackedMap<string, number>();
+  const predecessors = new TrackedMap<string, string | null>();
+  const predecessorEdges = new TrackedMap<string, string | null>();
+  const visited = new TrackedSet<string>(); // Expanded during this pass
+  const nodeStates = new TrackedMap<string, NodeState>();
+  const edgeStates = new TrackedMap<string, EdgeState>();
+  const stack: Frame[] = [];
+  let bound = h(sourceId);
+  let expanded = 0;
+  let pass = 0;
+
+  const setNodeState = (nodeId: string, state: NodeState) => {
+    if (nodeId !== sourceId && nodeId !== targetId) nodeStates.set(nodeId, state);
+  };
+
+  const resetPass = () => {
+    for (const [nodeId] of graph.nodes) {
+      gScore.set(nodeId, Infinity);
+      predecessors.set(nodeId, null);
+      predecessorEdges.set(nodeId, null);
+      nodeStates.set(nodeId, 'default');
+    }
+    nodeStates.set(sourceId, 'start');
+    nodeStates.set(targetId, 'end');
+    for (const [edgeId] of graph.edges) {
+      edgeStates.set(edgeId, 'default');
+    }
+    visited.clear();
+  };
+
+  const snapshot = (
+    type: AlgorithmStep['type'],
+    currentNode: string | null,
+    pseudocodeLine: number,
+    explanation: AlgorithmStep['explanation'],
+    extra: Partial<AlgorithmStep> = {}
+  ): AlgorithmStep => ({
+    type,
+    currentNode,
+    distances: gScore,
+    predecessors,
+    predecessorEdges,
+    visited,
+    queue: stack.map(frame => ({ nodeId: frame.nodeId, priority: frame.g + h(frame.nodeId) })).reverse(),
+    queueKind: 'stack',
+    nodeStates,
+    edgeStates,
+    pseudocodeLine,
+    explanation,
+    expanded,
+    threshold: bound,
+    ...extra,
+  });
+
+  const format = (d: number) => (d === Infinity ? '∞' : d.toFixed(1));
+
+  const push = (nodeId: string, g: number) => {
+    gScore.set(nodeId, g);
+    stack.push({ nodeId, g, neighbors: getNeighbors(graph, nodeId), next: 0, min: Infinity });
+    expanded++;
+  };
+
+  resetPass();
+  yield snapshot('init', null, 1, {
+    beginner: `Starting IDA* from ${sourceId} to ${targetId}. Instead of a big open set, it runs depth-first searches that give up on any path whose estimated total f = g + h goes over a limit, raising the limit each time.`,
+    advanced: `Init: bound ← h(${sourceId}) = ${format(bound)}. Memory is O(depth): only the current path is stored.`,
+  });
+
+  while (true) {
+    pass++;
+    resetPass();
+    push(sourceId, 0);
+    let rootMin = Infinity;
+
+    yield snapshot('begin-pass', sourceId, 4, {
+      beginner: `Pass ${pass}: explore every path whose estimated total stays within ${format(bound)}. Nodes from earlier passes are explored all over again.`,
+      advanced: `Pass ${pass}: Search(path = [${sourceId}], g = 0, bound = ${format(bound)}). ${expanded - 1} expansions so far.`,
+    });
+
+    if (sourceId === targetId) {
+      yield snapshot('path-found', sourceId, 13, {
+        beginner: `${sourceId} is both the source and the target, so the path has no edges.`,
+        advanced: `source = target: trivial path with cost 0.`,
+      }, { shortestPath: [sourceId], totalDistance: 0 });
+      return;
+    }
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const currentId = frame.nodeId;
+
+      if (frame.next >= frame.neighbors.length) {
+        // Every neighbor tried: return min to the caller
+        stack.pop();
+        visited.add(currentId);
+        setNodeState(currentId, 'visited');
+        const pathEdge = predecessorEdges.get(currentId);
+        if (pathEdge) edgeStates.set(pathEdge, 'default');
+        const caller = stack.length > 0 ? stack[stack.length - 1] : null;
+        if (caller) {
+          caller.min = Math.min(caller.min, frame.min);
+          setNodeState(caller.nodeId, 'current');
+        } else {
+          rootMin = frame.min;
+        }
+
+        yield snapshot('mark-visited', caller?.nodeId ?? null, caller ? 20 : 21, {
+          beginner: `Nothing more to try below ${currentId} within the limit. ${caller ? `Back up to ${caller.nodeId}.` : 'The pass is over.'}`,
+          advanced: `Search(${currentId}) returns min = ${format(frame.min)}.${caller ? ` path.pop(); min(${caller.nodeId}) = ${format(caller.min)}.` : ''}`,
+        });
+        continue;
+      }
+
+      const { nodeId: neighborId, edgeId, weight } = frame.neighbors[frame.next++];
+      // A path never loops back through itself
+      if (stack.some(f => f.nodeId === neighborId)) continue;
+
+      const g = frame.g + weight;
+      const hValue = h(neighborId);
+      const f = g + hValue;
+      const currentEdge = {
+        edgeId,
+        from: currentId,
+        to: neighborId,
+        weight,
+        oldDistance: gScore.get(neighborId)!,
+        newDistance: g,
+        wasRelaxed: f <= bound,
+      };
+
+      if (f > bound) {
+        frame.min = Math.min(frame.min, f);
+        edgeStates.set(edgeId, 'rejected');
+
+        yield snapshot('skip-edge', currentId, 12, {
+          beginner: `Going on to ${neighborId} would make the estimated total ${format(f)}, over this pass's limit of ${format(bound)}. Skip it for now; the next limit is at most ${format(frame.min)}.`,
+          advanced: `f(${neighborId}) = g(${format(g)}) + h(${format(hValue)}) = ${format(f)} > bound ${format(bound)}: return f; min(${currentId}) = ${format(frame.min)}.`,
+        }, { currentEdge });
+
+        edgeStates.set(edgeId, 'default');
+        continue;
+      }
+
+      predecessors.set(neighborId, currentId);
+      predecessorEdges.set(neighborId, edgeId);
+      edgeStates.set(edgeId, 'relaxed');
+      setNodeState(currentId, 'in-queue');
+      setNodeState(neighborId, 'current');
+      push(neighborId, g);
+
+      if (neighborId === targetId) {
+        const path = stack.map(f => f.nodeId);
+        for (let i = 0; i < path.length - 1; i++) {
+          const pathEdgeId = predecessorEdges.get(path[i + 1]);
+          if (pathEdgeId) edgeStates.set(pathEdgeId, 'path');
+          setNodeState(path[i], 'path');
+        }
+
+        yield snapshot('path-found', targetId, 13, {
+          beginner: `Reached ${targetId} within the limit! The path costs ${format(g)}. Since earlier passes found nothing cheaper, it is a shortest path.`,
+          advanced: `FOUND at f = ${format(f)} ≤ bound ${format(bound)} in pass ${pass}: ${path.join(' → ')}. ${expanded} expansions in total, counting re-expansions.`,
+        }, { currentEdge, shortestPath: path, totalDistance: g });
+        return;
+      }
+
+      if (expanded >= IDA_STAR_MAX_EXPANSIONS) {
+        yield snapshot('complete', neighborId, 17, {
+          beginner: `Stopping after ${expanded} expansions: this graph has too many routes for IDA* to finish here. A* would keep an open set and never redo work.`,
+          advanced: `Expansion cap (${IDA_STAR_MAX_EXPANSIONS}) reached in pass ${pass} with bound ${format(bound)}. IDA* re-expands shared subpaths on every pass and across every route.`,
+        });
+        return;
+      }
+
+      yield snapshot('select-node', neighborId, 17, {
+        beginner: `Go deeper to ${neighborId}: distance so far ${format(g)} plus estimate ${format(hValue)} is ${format(f)}, within the limit.`,
+        advanced: `f(${neighborId}) = ${format(g)} + ${format(hValue)} = ${format(f)} ≤ ${format(bound)}: path.push(${neighborId}), Search(g = ${format(g)}).`,
+      }, { currentEdge });
+    }
+
+    // The pass found nothing: raise the bound to the smallest f that went over
+    if (rootMin === Infinity) {
+      yield snapshot('no-path', null, 6, {
+        beginner: `No path went over the limit, and none reached ${targetId}, so no path exists.`,
+        advanced: `Search returned ∞: every path from ${sourceId} was exhausted.`,
+      });
+      return;
+    }
+    bound = rootMin;
+  }
+}
@@ -4,4 +4,65 @@
  */
 
 export { generateDijkstraSteps, DIJKSTRA_PSEUDOCODE } from './dijkstra';
-export { generateAStarSteps, ASTAR_PSEUDOCODE, euclideanDistance, manhattanDistance, haversineDistance } from './astar';
+export {
+  generateAStarSteps,
+  generateGreedyBestFirstSteps,
+  generateWeightedAStarSteps,
+  ASTAR_PSEUDOCODE,
+  GREEDY_BEST_FIRST_PSEUDOCODE,
+  WEIGHTED_ASTAR_PSEUDOCODE,
+} from './astar';
+export {
+  HEURISTICS,
+  DEFAULT_HEURISTIC,
+  createHeuristic,
+  fScoreOf,
+  analyzeHeuristic,
+  euclideanDistance,
+  manhattanDistance,
+  haversineDistance,
+} from './heuristics';
+export type { HeuristicAnalysis } from './heuristics';
+export { generateBellmanFordSteps, BELLMAN_FORD_PSEUDOCODE } from './bellmanFord';
+export { generateBfsSteps, BFS_PSEUDOCODE } from './bfs';
+export { generateDfsSteps, DFS_PSEUDOCODE } from './dfs';
+export {
+  generateFloydWarshallSteps,
+  reconstructAllPairsPath,
+  FLOYD_WARSHALL_PSEUDOCODE,
+  FLOYD_WARSHALL_MAX_NODES,
+} from './floydWarshall';
+export {
+  generateBidirectionalDijkstraSteps,
+  generateBidirectionalAStarSteps,
+  BIDIRECTIONAL_DIJKSTRA_PSEUDOCODE,
+  BIDIRECTIONAL_ASTAR_PSEUDOCODE,
+} from './bidirectional';
+export { generateIdaStarSteps, IDA_STAR_PSEUDOCODE, IDA_STAR_MAX_EXPANSIONS } from './idaStar';
+export { generateYenSteps, YEN_PSEUDOCODE } from './yen';
+export { generatePrimSteps, PRIM_PSEUDOCODE } from './prim';
+export { generateKruskalSteps, minimumSpanningForest, KRUSKAL_PSEUDOCODE } from './kruskal';
+export {
+  generateTopologicalSortSteps,
+  generateDagShortestPathSteps,
+  generateCriticalPathSteps,
+  topologicalOrder,
+  findCycle,
+  TOPOLOGICAL_SORT_PSEUDOCODE,
+  DAG_SHORTEST_PATH_PSEUDOCODE,
+  CRITICAL_PATH_PSEUDOCODE,
+} from './dag';
+export {
+  ALGORITHMS,
+  ALGORITHM_PARAMETERS,
+  DEFAULT_ALGORITHM_PARAMETERS,
+  getMissingInput,
+} from './registry';
+export type {
+  AlgorithmDefinition,
+  AlgorithmInputs,
+  AlgorithmParameterKey,
+  AlgorithmParameters,
+  AlgorithmParameterDefinition,
+  InputRequirement,
+} from './registry';
@@ -0,0 +1,223 @@
+/**
+ * Kruskal's Algorithm - Step-by-Step Generator
+ *
+ * Builds a minimum spanning tree by going through the edges from lightest
+ * to heaviest and keeping each one that joins two different trees. A
+ * union-find (disjoint-set) forest answers "same tree?" quickly: every node
+ * points toward a root that names its set. Find compresses the paths it
+ * walks; Union hangs the shallower tree under the deeper one (by rank).
+ *
+ * Spanning trees ignore edge direction. A disconnected graph gives a
+ * minimum spanning forest.
+ *
+ * Time Complexity: O(E log E) for the sort; union-find is nearly O(1)
+ * Space Complexity: O(V)
+ */
+
+import { Graph, AlgorithmStep, NodeState, EdgeState, UnionFindState } from '../types';
+import { TrackedMap, TrackedSet } from '../trace';
+
+// ============================================
+// UNION-FIND
+// ============================================
+
+class UnionFind {
+  // Tracked, so a step only costs the entries a Find or Union rewrote
+  readonly parent = new TrackedMap<string, string>();
+  readonly rank = new TrackedMap<string, number>();
+
+  constructor(ids: Iterable<string>) {
+    for (const id of ids) {
+      this.parent.set(id, id);
+      this.rank.set(id, 0);
+    }
+  }
+
+  // Root of x's set; every node on the way is re-pointed at the root.
+  // Walked nodes are appended to `trail` for display.
+  find(x: string, trail?: string[]): string {
+    let root = x;
+    while (this.parent.get(root) !== root) {
+      trail?.push(root);
+      root = this.parent.get(root)!;
+    }
+    trail?.push(root);
+    while (x !== root) {
+      const next = this.parent.get(x)!;
+      this.parent.set(x, root);
+      x = next;
+    }
+    return root;
+  }
+
+  // Joins two roots; returns the one that stays a root
+  union(rootA: string, rootB: string): string {
+    const rankA = this.rank.get(rootA)!;
+    const rankB = this.rank.get(rootB)!;
+    if (rankA < rankB) [rootA, rootB] = [rootB, rootA];
+    this.parent.set(rootB, rootA);
+    if (rankA === rankB) this.rank.set(rootA, rankA + 1);
+    return rootA;
+  }
+}
+
+// ============================================
+// KRUSKAL PSEUDOCODE (for display)
+// ============================================
+
+export const KRUSKAL_PSEUDOCODE = [
+  'function Kruskal(Graph):',
+  '    T ← empty set',
+  '    for each vertex v: MakeSet(v)',
+  '    sort edges by weight, ascending',
+  '',
+  '    for each edge (u, v) in sorted order:',
+  '        if Find(u) ≠ Find(v):',
+  '            add (u, v) to T',
+  '            Union(Find(u), Find(v))',
+  '        else:',
+  '            skip: (u, v) would close a cycle',
+  '        if |T| = |V| − 1: break',
+  '',
+  '    return T',
+  '',
+  'function Find(x):',
+  '    if parent[x] ≠ x: parent[x] ← Find(parent[x])',
+  '    return parent[x]',
+];
+
+// ============================================
+// STEP GENERATOR
+// ============================================
+
+export function* generateKruskalSteps(graph: Graph): Generator<AlgorithmStep, void, unknown> {
+  const sets = new UnionFind(graph.nodes.keys());
+  const nodeStates = new TrackedMap<string, NodeState>();
+  const edgeStates = new TrackedMap<string, EdgeState>();
+  const treeEdges: string[] = [];
+  const joined = new TrackedSet<string>(); // Nodes touching a tree edge
+  let treeWeight = 0;
+  let touched: string[] = [];
+
+  for (const [nodeId] of graph.nodes) {
+    nodeStates.set(nodeId, 'default');
+  }
+  for (const [edgeId] of graph.edges) {
+    edgeStates.set(edgeId, 'default');
+  }
+
+  const sorted = sortEdges(graph);
+
+  const snapshot = (
+    type: AlgorithmStep['type'],
+    currentNode: string | null,
+    pseudocodeLine: number,
+    explanation: AlgorithmStep['explanation'],
+    extra: Partial<AlgorithmStep> = {}
+  ): AlgorithmStep => {
+    // `touched` is replaced, never changed, once a step has it
+    const unionFind: UnionFindState = { parent: sets.parent, rank: sets.rank, touched };
+    return {
+      type,
+      currentNode,
+      distances: new Map(),
+      predecessors: new Map(),
+      predecessorEdges: new Map(),
+      visited: joined,
+      queue: [],
+      nodeStates,
+      edgeStates,
+      pseudocodeLine,
+      explanation,
+      spanningTree: { edges: treeEdges, weight: treeWeight },
+      unionFind,
+      ...extra,
+    };
+  };
+
+  const format = (d: number) => String(Number(d.toFixed(2)));
+  const target = Math.max(graph.nodes.size - 1, 0);
+
+  yield snapshot('init', null, 3, {
+    beginner: `Building a minimum spanning tree by trying edges from lightest to heaviest.${graph.directed ? ' Edge directions are ignored.' : ''} Every node starts as its own little tree.`,
+    advanced: `MakeSet for ${graph.nodes.size} vertices; ${sorted.length} edges sorted by weight: ${sorted.slice(0, 8).map(e => format(e.weight)).join(', ')}${sorted.length > 8 ? ', …' : ''}.`,
+  });
+
+  for (const edge of sorted) {
+    if (treeEdges.length === target) break;
+
+    touched = [];
+    const rootU = sets.find(edge.source, touched);
+    const rootV = sets.find(edge.target, touched);
+    const currentEdge = {
+      edgeId: edge.id,
+      from: edge.source,
+      to: edge.target,
+      weight: edge.weight,
+      oldDistance: treeWeight,
+      newDistance: treeWeight + edge.weight,
+      wasRelaxed: rootU !== rootV,
+    };
+
+    if (rootU === rootV) {
+      edgeStates.set(edge.id, 'rejected');
+      yield snapshot('skip-edge', edge.source, 10, {
+        beginner: `${edge.source} and ${edge.target} are already in the same tree, so edge ${edge.source}–${edge.target} (${format(edge.weight)}) would close a loop. Skip it.`,
+        advanced: `Find(${edge.source}) = Find(${edge.target}) = ${rootU}: (${edge.source}, ${edge.target}) would close a cycle.`,
+      }, { currentEdge });
+      continue;
+    }
+
+    const root = sets.union(rootU, rootV);
+    treeEdges.push(edge.id);
+    treeWeight += edge.weight;
+    edgeStates.set(edge.id, 'tree');
+    for (const nodeId of [edge.source, edge.target]) {
+      joined.add(nodeId);
+      nodeStates.set(nodeId, 'visited');
+    }
+
+    yield snapshot('relax-edge', edge.source, 8, {
+      beginner: `${edge.source} and ${edge.target} are in different trees, so the edge between them (${format(edge.weight)}) joins the two. Tree weight so far: ${format(treeWeight)}.`,
+      advanced: `Find(${edge.source}) = ${rootU} ≠ Find(${edge.target}) = ${rootV}: T ← T ∪ {(${edge.source}, ${edge.target})}, Union by rank makes ${root} the root. |T| = ${treeEdges.length}/${target}.`,
+    }, { currentEdge });
+  }
+
+  touched = [];
+  const components = graph.nodes.size - treeEdges.length;
+  yield snapshot('complete', null, 13, {
+    beginner: components <= 1
+      ? `Minimum spanning tree complete! ${treeEdges.length} edges connect all ${graph.nodes.size} nodes with total weight ${format(treeWeight)}.`
+      : `Minimum spanning forest complete! The graph has ${components} separate parts; ${treeEdges.length} edges with total weight ${format(treeWeight)} connect each of them.`,
+    advanced: `|T| = ${treeEdges.length}, w(T) = ${format(treeWeight)}, ${components} component${components === 1 ? '' : 's'}. Greedy choice is safe by the cut property: the lightest edge across any cut is in some MST.`,
+  });
+}
+
+// ============================================
+// PLAIN SPANNING FOREST (no steps)
+// ============================================
+
+// Edge IDs of a minimum spanning forest, for overlays
+export function minimumSpanningForest(graph: Graph): Set<string> {
+  const sets = new UnionFind(graph.nodes.keys());
+  const edges = new Set<string>();
+  for (const edge of sortEdges(graph)) {
+    const rootU = sets.find(edge.source);
+    const rootV = sets.find(edge.target);
+    if (rootU === rootV) continue;
+    sets.union(rootU, rootV);
+    edges.add(edge.id);
+  }
+  return edges;
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+// Lightest first; ties keep insertion order. Self-loops never join two trees.
+function sortEdges(graph: Graph) {
+  return [...graph.edges.values()]
+    .filter(edge => edge.source !== edge.target)
+    .sort((a, b) => a.weight - b.weight);
+}
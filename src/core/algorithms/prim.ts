@@ -0,0 +1,205 @@
+/**
+ * Prim's Algorithm - Step-by-Step Generator
+ *
+ * Grows a minimum spanning tree from a root, always adding the cheapest
+ * edge that connects a new node to the tree. It looks just like Dijkstra,
+ * with one difference: a node's key is the weight of the single edge that
+ * would attach it, not the length of the whole path from the root. That is
+ * why the spanning tree and the shortest-path tree usually differ.
+ *
+ * Spanning trees ignore edge direction. When the graph is disconnected,
+ * a new tree is started in each component (a minimum spanning forest).
+ *
+ * Time Complexity: O((V + E) log V) with a priority queue
+ * Space Complexity: O(V)
+ */
+
+import { Graph, AlgorithmStep, NodeState, EdgeState, PriorityQueueType } from '../types';
+import { createPriorityQueue } from '../queues';
+import { TrackedMap, TrackedSet } from '../trace';
+
+// ============================================
+// PRIM PSEUDOCODE (for display)
+// ============================================
+
+export const PRIM_PSEUDOCODE = [
+  'function Prim(Graph, root):',
+  '    for each vertex v in Graph:',
+  '        key[v] ← INFINITY',
+  '        parent[v] ← UNDEFINED',
+  '    key[root] ← 0',
+  '    Q ← priority queue of all vertices by key',
+  '',
+  '    while Q is not empty:',
+  '        u ← extract-min(Q)           // u joins the tree',
+  '        if parent[u] is defined: add (parent[u], u) to T',
+  '        for each edge (u, v):',
+  '            if v in Q and w(u, v) < key[v]:',
+  '                key[v] ← w(u, v)      // Dijkstra: dist[u] + w(u, v)',
+  '                parent[v] ← u',
+  '',
+  '    return T',
+];
+
+// ============================================
+// STEP GENERATOR
+// ============================================
+
+export function* generatePrimSteps(
+  graph: Graph,
+  rootId?: string,
+  queueType: PriorityQueueType = 'binary'
+): Generator<AlgorithmStep, void, unknown> {
+  const keys = new TrackedMap<string, number>();
+  const predecessors = new TrackedMap<string, string | null>();
+  const predecessorEdges = new TrackedMap<string, string | null>();
+  const inTree = new TrackedSet<string>();
+  const nodeStates = new TrackedMap<string, NodeState>();
+  const edgeStates = new TrackedMap<string, EdgeState>();
+  const treeEdges: string[] = [];
+  const pq = createPriorityQueue(queueType);
+  let treeWeight = 0;
+
+  // Spanning trees ignore direction: every edge joins its two endpoints
+  const incident = new Map<string, Array<{ nodeId: string; edgeId: string; weight: number }>>();
+  for (const [nodeId] of graph.nodes) {
+    incident.set(nodeId, []);
+    keys.set(nodeId, Infinity);
+    predecessors.set(nodeId, null);
+    predecessorEdges.set(nodeId, null);
+    nodeStates.set(nodeId, 'default');
+  }
+  for (const [edgeId, edge] of graph.edges) {
+    edgeStates.set(edgeId, 'default');
+    if (edge.source === edge.target) continue; // A self-loop never joins anything
+    incident.get(edge.source)!.push({ nodeId: edge.target, edgeId, weight: edge.weight });
+    incident.get(edge.target)!.push({ nodeId: edge.source, edgeId, weight: edge.weight });
+  }
+
+  const setNodeState = (nodeId: string, state: NodeState) => {
+    if (nodeId !== rootId) nodeStates.set(nodeId, state);
+  };
+
+  const snapshot = (
+    type: AlgorithmStep['type'],
+    currentNode: string | null,
+    pseudocodeLine: number,
+    explanation: AlgorithmStep['explanation'],
+    extra: Partial<AlgorithmStep> = {}
+  ): AlgorithmStep => ({
+    type,
+    currentNode,
+    distances: keys,
+    predecessors,
+    predecessorEdges,
+    visited: inTree,
+    queue: pq.toArray(),
+    queueStats: { ...pq.counts },
+    nodeStates,
+    edgeStates,
+    pseudocodeLine,
+    explanation,
+    spanningTree: { edges: treeEdges, weight: treeWeight },
+    ...extra,
+  });
+
+  const format = (d: number) => (d === Infinity ? '∞' : String(Number(d.toFixed(2))));
+  const firstRoot = rootId ?? graph.nodes.keys().next().value;
+  if (firstRoot === undefined) return;
+  if (rootId) nodeStates.set(rootId, 'start');
+
+  yield snapshot('init', null, 4, {
+    beginner: `Building a minimum spanning tree from ${firstRoot}: the cheapest set of edges that connects every node.${graph.directed ? ' Edge directions are ignored.' : ''} Each node's number is the cheapest single edge that could attach it to the tree.`,
+    advanced: `key[${firstRoot}] = 0, key[v] = ∞ otherwise. Unlike Dijkstra's dist[], key[v] is one edge weight, not a path length.`,
+  });
+
+  // Each pass grows one tree; later passes start in components the first one can't reach
+  for (const startId of [firstRoot, ...graph.nodes.keys()]) {
+    if (inTree.has(startId)) continue;
+
+    keys.set(startId, 0);
+    pq.insert(startId, 0);
+    if (startId !== firstRoot) {
+      yield snapshot('begin-pass', startId, 8, {
+        beginner: `The tree can't reach ${startId}: the graph is disconnected. Start a new tree there, so the result is a spanning forest.`,
+        advanced: `Q's minimum key is ∞: extract-min returns ${startId} with no parent. Starting a new component of the minimum spanning forest.`,
+      });
+    }
+
+    while (!pq.isEmpty()) {
+      const currentId = pq.extractMin()!.nodeId;
+
+      inTree.add(currentId);
+      const parent = predecessors.get(currentId);
+      const viaEdge = predecessorEdges.get(currentId);
+      if (viaEdge) {
+        treeEdges.push(viaEdge);
+        treeWeight += keys.get(currentId)!;
+        edgeStates.set(viaEdge, 'tree');
+      }
+      setNodeState(currentId, 'current');
+
+      yield snapshot('select-node', currentId, viaEdge ? 9 : 8, {
+        beginner: viaEdge
+          ? `${currentId} is the cheapest node to attach: edge ${parent}–${currentId} with weight ${format(keys.get(currentId)!)} joins the tree. Tree weight so far: ${format(treeWeight)}.`
+          : `${currentId} is the root of this tree. Look at its edges to see which neighbors are cheapest to attach.`,
+        advanced: viaEdge
+          ? `Extract-min: u = ${currentId}, key = ${format(keys.get(currentId)!)}. T ← T ∪ {(${parent}, ${currentId})}; |T| = ${treeEdges.length}, w(T) = ${format(treeWeight)}.`
+          : `Extract-min: u = ${currentId}, key = 0 (root).`,
+      });
+
+      for (const { nodeId: neighborId, edgeId, weight } of incident.get(currentId)!) {
+        if (inTree.has(neighborId)) continue;
+
+        const oldKey = keys.get(neighborId)!;
+        const currentEdge = {
+          edgeId,
+          from: currentId,
+          to: neighborId,
+          weight,
+          oldDistance: oldKey,
+          newDistance: weight,
+          wasRelaxed: weight < oldKey,
+        };
+
+        if (weight < oldKey) {
+          // The old candidate edge is no longer the cheapest way in
+          const oldEdge = predecessorEdges.get(neighborId);
+          if (oldEdge) edgeStates.set(oldEdge, 'default');
+
+          keys.set(neighborId, weight);
+          predecessors.set(neighborId, currentId);
+          predecessorEdges.set(neighborId, edgeId);
+          pq.insertOrDecreaseKey(neighborId, weight);
+          edgeStates.set(edgeId, 'relaxed');
+          setNodeState(neighborId, 'in-queue');
+
+          yield snapshot('relax-edge', currentId, 12, {
+            beginner: `${neighborId} can now be attached for just ${format(weight)} (was ${format(oldKey)}). Only this one edge counts, not the distance back to the root.`,
+            advanced: `w(${currentId}, ${neighborId}) = ${format(weight)} < key[${neighborId}] = ${format(oldKey)}: key ← ${format(weight)}, parent ← ${currentId}. Dijkstra would compare dist[${currentId}] + ${format(weight)} instead.`,
+          }, { currentEdge });
+        } else {
+          const previousState = edgeStates.get(edgeId)!;
+          edgeStates.set(edgeId, 'rejected');
+
+          yield snapshot('skip-edge', currentId, 11, {
+            beginner: `${neighborId} already has a cheaper way in (${format(oldKey)}), so edge ${currentId}–${neighborId} (${format(weight)}) is not needed.`,
+            advanced: `w(${currentId}, ${neighborId}) = ${format(weight)} ≥ key[${neighborId}] = ${format(oldKey)}: no change.`,
+          }, { currentEdge });
+
+          edgeStates.set(edgeId, previousState);
+        }
+      }
+
+      setNodeState(currentId, 'visited');
+    }
+  }
+
+  const components = graph.nodes.size - treeEdges.length;
+  yield snapshot('complete', null, 15, {
+    beginner: components === 1
+      ? `Minimum spanning tree complete! ${treeEdges.length} edges connect all ${graph.nodes.size} nodes with total weight ${format(treeWeight)}. Compare it with the shortest-path tree: the path between two nodes in this tree is often not the shortest.`
+      : `Minimum spanning forest complete! The graph has ${components} separate parts; ${treeEdges.length} edges with total weight ${format(treeWeight)} connect each of them.`,
+    advanced: `|T| = ${treeEdges.length} = |V| − ${components} (${components} component${components === 1 ? '' : 's'}), w(T) = ${format(treeWeight)}. The MST minimizes total weight; an SPT minimizes each root-to-node distance.`,
+  });
+}
@@ -0,0 +1,351 @@
+/**
+ * Algorithm Registry
+ *
+ * One entry per algorithm: its names, pseudocode, step generator, the
+ * inputs it needs and what extra UI it comes with. The toolbar, the
+ * pseudocode panel, the side panels and the visualizer hook are all built
+ * from this table, so adding an algorithm means adding its generator and
+ * an entry here (plus its id in AlgorithmType).
+ */
+
+import { Graph, Node, AlgorithmStep, AlgorithmType, PriorityQueueType, TieBreakingSettings } from '../types';
+import { generateDijkstraSteps, DIJKSTRA_PSEUDOCODE } from './dijkstra';
+import {
+  generateAStarSteps,
+  generateGreedyBestFirstSteps,
+  generateWeightedAStarSteps,
+  ASTAR_PSEUDOCODE,
+  GREEDY_BEST_FIRST_PSEUDOCODE,
+  WEIGHTED_ASTAR_PSEUDOCODE,
+} from './astar';
+import { generateIdaStarSteps, IDA_STAR_PSEUDOCODE } from './idaStar';
+import { generateYenSteps, YEN_PSEUDOCODE } from './yen';
+import { generateBellmanFordSteps, BELLMAN_FORD_PSEUDOCODE } from './bellmanFord';
+import { generateBfsSteps, BFS_PSEUDOCODE } from './bfs';
+import { generateDfsSteps, DFS_PSEUDOCODE } from './dfs';
+import { generateFloydWarshallSteps, FLOYD_WARSHALL_PSEUDOCODE, FLOYD_WARSHALL_MAX_NODES } from './floydWarshall';
+import {
+  generateBidirectionalDijkstraSteps,
+  generateBidirectionalAStarSteps,
+  BIDIRECTIONAL_DIJKSTRA_PSEUDOCODE,
+  BIDIRECTIONAL_ASTAR_PSEUDOCODE,
+} from './bidirectional';
+import { generatePrimSteps, PRIM_PSEUDOCODE } from './prim';
+import { generateKruskalSteps, KRUSKAL_PSEUDOCODE } from './kruskal';
+import {
+  generateTopologicalSortSteps,
+  generateDagShortestPathSteps,
+  generateCriticalPathSteps,
+  TOPOLOGICAL_SORT_PSEUDOCODE,
+  DAG_SHORTEST_PATH_PSEUDOCODE,
+  CRITICAL_PATH_PSEUDOCODE,
+} from './dag';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type InputRequirement = 'required' | 'optional' | 'unused';
+
+// Tunable numbers an algorithm can take, each with its own toolbar slider
+export type AlgorithmParameterKey = 'epsilon' | 'pathCount';
+export type AlgorithmParameters = Record<AlgorithmParameterKey, number>;
+
+export interface AlgorithmParameterDefinition {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  defaultValue: number;
+  format: (value: number) => string;
+  hint?: (value: number) => string; // Shown under the slider
+}
+
+// What a step generator is given; it reads only the inputs it declares
+export interface AlgorithmInputs {
+  sourceId: string | null;
+  targetId: string | null;
+  heuristic: (a: Node, b: Node) => number;
+  parameters: AlgorithmParameters;
+  queue: PriorityQueueType;
+  tieBreaking: TieBreakingSettings;
+}
+
+export interface AlgorithmDefinition {
+  label: string; // Short name for buttons
+  name: string; // Full name, e.g. the pseudocode heading
+  description?: string; // Button tooltip
+  pseudocode: string[];
+  // Steps share the generator's live state and are only valid until it is
+  // resumed, so keep them through recordTrace or a TraceEncoder (../trace)
+  generate: (graph: Graph, inputs: AlgorithmInputs) => Generator<AlgorithmStep, void, unknown>;
+
+  requires: {
+    source: InputRequirement;
+    target: InputRequirement;
+    heuristic: boolean; // Reads inputs.heuristic
+    nonNegativeWeights: boolean; // Assumes a path never gets cheaper as it grows, so negative edges give wrong answers
+    acyclic?: boolean; // Directed graph without cycles; the generator reports a cycle otherwise
+    maxNodes?: number;
+  };
+
+  capabilities: {
+    parameters?: AlgorithmParameterKey[];
+    priorityQueue?: boolean; // Runs on inputs.queue, so the queue can be swapped per run
+    tieBreaking?: boolean; // Settles equal keys by inputs.tieBreaking and explains each tie
+    ignoresDirection?: boolean; // Treats every edge as undirected
+    panel?: 'matrix' | 'paths' | 'union-find'; // Extra side panel fed by the steps
+    hint?: string; // Shown under the algorithm buttons
+  };
+}
+
+// ============================================
+// PARAMETERS
+// ============================================
+
+export const ALGORITHM_PARAMETERS: Record<AlgorithmParameterKey, AlgorithmParameterDefinition> = {
+  epsilon: {
+    label: 'Heuristic weight ε',
+    min: 0,
+    max: 4,
+    step: 0.1,
+    defaultValue: 0.5,
+    format: value => value.toFixed(1),
+    hint: value => `Path cost ≤ ${(1 + value).toFixed(1)} × optimal; ε = 0 is plain A*.`,
+  },
+  pathCount: {
+    label: 'Paths to find (k)',
+    min: 1,
+    max: 10,
+    step: 1,
+    defaultValue: 3,
+    format: value => String(value),
+  },
+};
+
+export const DEFAULT_ALGORITHM_PARAMETERS = Object.fromEntries(
+  Object.entries(ALGORITHM_PARAMETERS).map(([key, parameter]) => [key, parameter.defaultValue])
+) as AlgorithmParameters;
+
+// ============================================
+// REGISTRY
+// ============================================
+
+// Shortest-path searches that need both endpoints and prune on path cost
+const GOAL_DIRECTED = {
+  source: 'required',
+  target: 'required',
+  nonNegativeWeights: true,
+} as const;
+
+// Single-source algorithms where the target only picks a path to show
+const SINGLE_SOURCE = {
+  source: 'required',
+  target: 'optional',
+  heuristic: false,
+} as const;
+
+// In toolbar order
+export const ALGORITHMS: Record<AlgorithmType, AlgorithmDefinition> = {
+  dijkstra: {
+    label: 'Dijkstra',
+    name: "Dijkstra's Algorithm",
+    pseudocode: DIJKSTRA_PSEUDOCODE,
+    generate: (graph, { sourceId, targetId, queue, tieBreaking }) =>
+      generateDijkstraSteps(graph, sourceId!, targetId ?? undefined, queue, tieBreaking),
+    requires: { ...SINGLE_SOURCE, nonNegativeWeights: true },
+    capabilities: { priorityQueue: true, tieBreaking: true },
+  },
+  astar: {
+    label: 'A*',
+    name: 'A* Algorithm',
+    pseudocode: ASTAR_PSEUDOCODE,
+    generate: (graph, { sourceId, targetId, heuristic, queue, tieBreaking }) =>
+      generateAStarSteps(graph, sourceId!, targetId!, heuristic, queue, tieBreaking),
+    requires: { ...GOAL_DIRECTED, heuristic: true },
+    capabilities: { priorityQueue: true, tieBreaking: true },
+  },
+  'greedy-best-first': {
+    label: 'Greedy',
+    name: 'Greedy Best-First Search',
+    description: 'Greedy best-first search (f = h)',
+    pseudocode: GREEDY_BEST_FIRST_PSEUDOCODE,
+    generate: (graph, { sourceId, targetId, heuristic, queue, tieBreaking }) =>
+      generateGreedyBestFirstSteps(graph, sourceId!, targetId!, heuristic, queue, tieBreaking),
+    requires: { ...GOAL_DIRECTED, heuristic: true },
+    capabilities: { priorityQueue: true, tieBreaking: true },
+  },
+  'weighted-astar': {
+    label: 'Weighted A*',
+    name: 'Weighted A*',
+    description: 'Weighted A* (f = g + (1+ε)·h)',
+    pseudocode: WEIGHTED_ASTAR_PSEUDOCODE,
+    generate: (graph, { sourceId, targetId, heuristic, parameters, queue, tieBreaking }) =>
+      generateWeightedAStarSteps(graph, sourceId!, targetId!, parameters.epsilon, heuristic, queue, tieBreaking),
+    requires: { ...GOAL_DIRECTED, heuristic: true },
+    capabilities: { parameters: ['epsilon'], priorityQueue: true, tieBreaking: true },
+  },
+  'ida-star': {
+    label: 'IDA*',
+    name: 'IDA* (Iterative Deepening A*)',
+    description: 'Iterative deepening A*',
+    pseudocode: IDA_STAR_PSEUDOCODE,
+    generate: (graph, { sourceId, targetId, heuristic }) => generateIdaStarSteps(graph, sourceId!, targetId!, heuristic),
+    requires: { ...GOAL_DIRECTED, heuristic: true },
+    capabilities: {},
+  },
+  yen: {
+    label: 'Yen (k)',
+    name: "Yen's k Shortest Paths",
+    description: "Yen's k shortest loopless paths",
+    pseudocode: YEN_PSEUDOCODE,
+    generate: (graph, { sourceId, targetId, parameters }) =>
+      generateYenSteps(graph, sourceId!, targetId!, parameters.pathCount),
+    requires: { ...GOAL_DIRECTED, heuristic: false },
+    capabilities: { parameters: ['pathCount'], panel: 'paths' },
+  },
+  'bellman-ford': {
+    label: 'Bellman-Ford',
+    name: 'Bellman-Ford Algorithm',
+    pseudocode: BELLMAN_FORD_PSEUDOCODE,
+    generate: (graph, { sourceId, targetId }) => generateBellmanFordSteps(graph, sourceId!, targetId ?? undefined),
+    requires: { ...SINGLE_SOURCE, nonNegativeWeights: false },
+    capabilities: {},
+  },
+  bfs: {
+    label: 'BFS',
+    name: 'Breadth-First Search',
+    description: 'Breadth-first search',
+    pseudocode: BFS_PSEUDOCODE,
+    generate: (graph, { sourceId, targetId }) => generateBfsSteps(graph, sourceId!, targetId ?? undefined),
+    requires: { ...SINGLE_SOURCE, nonNegativeWeights: false },
+    capabilities: {},
+  },
+  dfs: {
+    label: 'DFS',
+    name: 'Depth-First Search',
+    description: 'Depth-first search',
+    pseudocode: DFS_PSEUDOCODE,
+    generate: (graph, { sourceId, targetId }) => generateDfsSteps(graph, sourceId!, targetId ?? undefined),
+    requires: { ...SINGLE_SOURCE, nonNegativeWeights: false },
+    capabilities: {},
+  },
+  'floyd-warshall': {
+    label: 'Floyd',
+    name: 'Floyd–Warshall Algorithm',
+    description: 'Floyd–Warshall (all pairs)',
+    pseudocode: FLOYD_WARSHALL_PSEUDOCODE,
+    // All pairs; the source and target only pick a path to show
+    generate: (graph, { sourceId, targetId }) =>
+      generateFloydWarshallSteps(graph, sourceId ?? undefined, targetId ?? undefined),
+    requires: {
+      source: 'optional',
+      target: 'optional',
+      heuristic: false,
+      nonNegativeWeights: false,
+      maxNodes: FLOYD_WARSHALL_MAX_NODES,
+    },
+    capabilities: { panel: 'matrix' },
+  },
+  'bidirectional-dijkstra': {
+    label: 'Bi-Dijkstra',
+    name: 'Bidirectional Dijkstra',
+    description: 'Bidirectional Dijkstra',
+    pseudocode: BIDIRECTIONAL_DIJKSTRA_PSEUDOCODE,
+    generate: (graph, { sourceId, targetId, queue }) =>
+      generateBidirectionalDijkstraSteps(graph, sourceId!, targetId!, queue),
+    requires: { ...GOAL_DIRECTED, heuristic: false },
+    capabilities: { priorityQueue: true },
+  },
+  'bidirectional-astar': {
+    label: 'Bi-A*',
+    name: 'Bidirectional A*',
+    description: 'Bidirectional A*',
+    pseudocode: BIDIRECTIONAL_ASTAR_PSEUDOCODE,
+    generate: (graph, { sourceId, targetId, heuristic, queue }) =>
+      generateBidirectionalAStarSteps(graph, sourceId!, targetId!, heuristic, queue),
+    requires: { ...GOAL_DIRECTED, heuristic: true },
+    capabilities: { priorityQueue: true },
+  },
+  prim: {
+    label: 'Prim',
+    name: "Prim's Minimum Spanning Tree",
+    description: "Prim's minimum spanning tree",
+    pseudocode: PRIM_PSEUDOCODE,
+    generate: (graph, { sourceId, queue }) => generatePrimSteps(graph, sourceId ?? undefined, queue),
+    requires: { source: 'optional', target: 'unused', heuristic: false, nonNegativeWeights: false },
+    capabilities: {
+      priorityQueue: true,
+      ignoresDirection: true,
+      hint: 'Grows from the source if one is set. No target needed.',
+    },
+  },
+  kruskal: {
+    label: 'Kruskal',
+    name: "Kruskal's Minimum Spanning Tree",
+    description: "Kruskal's minimum spanning tree",
+    pseudocode: KRUSKAL_PSEUDOCODE,
+    generate: graph => generateKruskalSteps(graph),
+    requires: { source: 'unused', target: 'unused', heuristic: false, nonNegativeWeights: false },
+    capabilities: { ignoresDirection: true, panel: 'union-find', hint: 'No source or target needed.' },
+  },
+  'topological-sort': {
+    label: 'Topo Sort',
+    name: 'Topological Sort (Kahn)',
+    description: "Topological sort (Kahn's algorithm)",
+    pseudocode: TOPOLOGICAL_SORT_PSEUDOCODE,
+    generate: graph => generateTopologicalSortSteps(graph),
+    requires: { source: 'unused', target: 'unused', heuristic: false, nonNegativeWeights: false, acyclic: true },
+    capabilities: {},
+  },
+  'dag-shortest-path': {
+    label: 'DAG SP',
+    name: 'DAG Shortest Paths',
+    description: 'Shortest paths in a DAG, in topological order',
+    pseudocode: DAG_SHORTEST_PATH_PSEUDOCODE,
+    generate: (graph, { sourceId, targetId }) => generateDagShortestPathSteps(graph, sourceId!, targetId ?? undefined),
+    requires: { ...SINGLE_SOURCE, nonNegativeWeights: false, acyclic: true },
+    capabilities: {},
+  },
+  'critical-path': {
+    label: 'Critical',
+    name: 'Critical Path',
+    description: 'Critical (longest) path of a project network',
+    pseudocode: CRITICAL_PATH_PSEUDOCODE,
+    // Starts from every node with no incoming edges
+    generate: (graph, { targetId }) => generateCriticalPathSteps(graph, targetId ?? undefined),
+    requires: { source: 'unused', target: 'optional', heuristic: false, nonNegativeWeights: false, acyclic: true },
+    capabilities: {
+      hint: 'Edges are tasks, weights their durations; the target (or the last event) is the finish.',
+    },
+  },
+};
+
+// ============================================
+// INPUT CHECKS
+// ============================================
+
+/**
+ * Why the algorithm can't run on this graph and selection yet, or null
+ * when it can. Negative weights are left to the caller, which may let
+ * the user run a non-negative-only algorithm anyway to watch it fail.
+ */
+export function getMissingInput(
+  definition: AlgorithmDefinition,
+  graph: Graph,
+  sourceId: string | null,
+  targetId: string | null
+): string | null {
+  const { requires } = definition;
+  if (graph.nodes.size === 0) return 'The graph is empty';
+  if (requires.maxNodes !== undefined && graph.nodes.size > requires.maxNodes) {
+    return `${definition.label} is limited to ${requires.maxNodes} nodes`;
+  }
+  if (requires.source === 'required' && (sourceId === null || !graph.nodes.has(sourceId))) {
+    return 'Set a source node';
+  }
+  if (requires.target === 'required' && (targetId === null || !graph.nodes.has(targetId))) {
+    return 'Set a target node';
+  }
+  return null;
+}
@@ -0,0 +1,270 @@
+/**
+ * Yen's k Shortest Loopless Paths - Step-by-Step Generator
+ *
+ * Finds the k cheapest simple paths from source to target, best first.
+ * The first is Dijkstra's shortest path. Each later path must leave some
+ * earlier path at a "spur node": for every node of the previous path, the
+ * part up to it (the root path) is kept, the edges that earlier paths with
+ * the same root used next are removed, and so are the root's other nodes,
+ * so the spur path can neither repeat a known path nor loop back. Root
+ * plus spur path becomes a candidate; the cheapest candidate is accepted.
+ *
+ * Paths are compared edge by edge, so parallel edges give distinct paths.
+ *
+ * Time Complexity: O(k · V · (V + E) log V)
+ * Space Complexity: O(k · V) for the paths and candidates
+ */
+
+import { Graph, AlgorithmStep, NodeState, EdgeState, RankedPath, KShortestState } from '../types';
+import { runDijkstra, ShortestPathTree } from './dijkstra';
+import { TrackedMap, TrackedSet } from '../trace';
+
+// ============================================
+// YEN PSEUDOCODE (for display)
+// ============================================
+
+export const YEN_PSEUDOCODE = [
+  'function Yen(Graph, source, target, K):',
+  '    A[0] ← Dijkstra(Graph, source, target)',
+  '    B ← empty min-heap of candidate paths',
+  '    for k from 1 to K − 1:',
+  '        for i from 0 to |A[k−1]| − 2:',
+  '            spurNode ← A[k−1].node(i)',
+  '            rootPath ← A[k−1].nodes(0..i)',
+  '            for each path p in A:',
+  '                if p shares rootPath: remove p.edge(i)',
+  '            remove rootPath nodes except spurNode',
+  '            spurPath ← Dijkstra(Graph, spurNode, target)',
+  '            if spurPath exists:',
+  '                add rootPath + spurPath to B',
+  '            restore removed edges and nodes',
+  '        if B is empty: break',
+  '        A[k] ← cheapest path in B; remove it from B',
+  '    return A',
+];
+
+// ============================================
+// STEP GENERATOR
+// ============================================
+
+export function* generateYenSteps(
+  graph: Graph,
+  sourceId: string,
+  targetId: string,
+  k: number
+): Generator<AlgorithmStep, void, unknown> {
+  if (!Number.isInteger(k) || k < 1) {
+    throw new Error(`k must be a positive integer, got ${k}`);
+  }
+
+  const found: RankedPath[] = [];
+  const candidates: RankedPath[] = [];
+  let rootPath: string[] = [];
+  let spurNode: string | null = null;
+
+  // Canvas labels show plain shortest distances from the source. They never
+  // change, so every step shares one tracked copy
+  const tree = runDijkstra(graph, sourceId);
+  const distances = new TrackedMap(tree.distances);
+  const predecessors = new TrackedMap(tree.predecessors);
+  const predecessorEdges = new TrackedMap(tree.predecessorEdges);
+  const visited = new TrackedSet<string>();
+
+  const nodeStates = new TrackedMap<string, NodeState>();
+  const edgeStates = new TrackedMap<string, EdgeState>();
+  const resetStates = () => {
+    for (const [nodeId] of graph.nodes) {
+      nodeStates.set(nodeId, 'default');
+    }
+    nodeStates.set(sourceId, 'start');
+    nodeStates.set(targetId, 'end');
+    for (const [edgeId] of graph.edges) {
+      edgeStates.set(edgeId, 'default');
+    }
+  };
+  const setNodeState = (nodeId: string, state: NodeState) => {
+    if (nodeId !== sourceId && nodeId !== targetId) nodeStates.set(nodeId, state);
+  };
+  const markPath = (path: RankedPath, nodeState: NodeState, edgeState: EdgeState) => {
+    path.nodes.forEach(nodeId => setNodeState(nodeId, nodeState));
+    path.edges.forEach(edgeId => edgeStates.set(edgeId, edgeState));
+  };
+
+  const snapshot = (
+    type: AlgorithmStep['type'],
+    currentNode: string | null,
+    pseudocodeLine: number,
+    explanation: AlgorithmStep['explanation'],
+    extra: Partial<AlgorithmStep> = {}
+  ): AlgorithmStep => {
+    // `rootPath` is replaced, never changed, so it needs no copy either
+    const kShortest: KShortestState = { found, candidates, rootPath, spurNode };
+    return {
+      type,
+      currentNode,
+      distances,
+      predecessors,
+      predecessorEdges,
+      visited,
+      queue: [],
+      nodeStates,
+      edgeStates,
+      pseudocodeLine,
+      explanation,
+      kShortest,
+      ...extra,
+    };
+  };
+
+  const format = (d: number) => String(Number(d.toFixed(2)));
+  const describe = (path: RankedPath) => `${path.nodes.join(' → ')} (${format(path.cost)})`;
+  const keyOf = (path: RankedPath) => path.edges.join(',');
+  const ordinal = (n: number) => `${n}${n % 10 === 1 && n !== 11 ? 'st' : n % 10 === 2 && n !== 12 ? 'nd' : n % 10 === 3 && n !== 13 ? 'rd' : 'th'}`;
+
+  resetStates();
+  yield snapshot('init', null, 1, {
+    beginner: `Looking for the ${k} best routes from ${sourceId} to ${targetId} that never visit a node twice. The first one is simply the shortest path.`,
+    advanced: `Yen's algorithm with K = ${k}. A[0] is Dijkstra's shortest path; each later path deviates from its predecessor at some spur node.`,
+  });
+
+  const first = pathTo(runDijkstra(graph, sourceId, { targetId }), sourceId, targetId);
+  if (!first) {
+    yield snapshot('no-path', null, 1, {
+      beginner: `There is no path from ${sourceId} to ${targetId} at all, so there are no alternatives either.`,
+      advanced: `Dijkstra finds dist[${targetId}] = ∞: A is empty.`,
+    });
+    return;
+  }
+
+  found.push(first);
+  markPath(first, 'path', 'path');
+  yield snapshot('path-found', targetId, 1, {
+    beginner: `The shortest path is ${describe(first)}. Next, look for the best route that differs from it.`,
+    advanced: `A[0] = ${describe(first)}.`,
+  }, { shortestPath: first.nodes, totalDistance: first.cost });
+
+  while (found.length < k) {
+    const previous = found[found.length - 1];
+    resetStates();
+    markPath(previous, 'path', 'path');
+
+    yield snapshot('begin-pass', null, 3, {
+      beginner: `Finding route #${found.length + 1}. Try leaving route #${found.length} at each of its nodes in turn.`,
+      advanced: `k = ${found.length}: spur nodes are A[${found.length - 1}].nodes(0..${previous.nodes.length - 2}) = ${previous.nodes.slice(0, -1).join(', ')}.`,
+    });
+
+    for (let i = 0; i < previous.nodes.length - 1; i++) {
+      spurNode = previous.nodes[i];
+      rootPath = previous.nodes.slice(0, i + 1);
+      const rootEdges = previous.edges.slice(0, i);
+      const rootCost = rootEdges.reduce((sum, edgeId) => sum + graph.edges.get(edgeId)!.weight, 0);
+
+      // Edges known paths with this root take next, and the root's other nodes
+      const blockedEdges = new Set<string>();
+      for (const path of found) {
+        if (path.edges.length > i && rootEdges.every((edgeId, j) => path.edges[j] === edgeId)) {
+          blockedEdges.add(path.edges[i]);
+        }
+      }
+      const blockedNodes = new Set(rootPath.slice(0, -1));
+
+      resetStates();
+      blockedNodes.forEach(nodeId => setNodeState(nodeId, 'visited'));
+      setNodeState(spurNode, 'current');
+      rootEdges.forEach(edgeId => edgeStates.set(edgeId, 'relaxed'));
+      blockedEdges.forEach(edgeId => edgeStates.set(edgeId, 'rejected'));
+
+      yield snapshot('select-node', spurNode, 9, {
+        beginner: `Keep the route up to ${spurNode} and look for a new way on from there. The ${blockedEdges.size === 1 ? 'edge' : `${blockedEdges.size} edges`} earlier routes took next ${blockedEdges.size === 1 ? 'is' : 'are'} off limits${blockedNodes.size > 0 ? `, and so are the nodes already on the route (${[...blockedNodes].join(', ')})` : ''}.`,
+        advanced: `Spur node ${spurNode}, root path ${rootPath.join(' → ')} (${format(rootCost)}). Removed ${blockedEdges.size} edge${blockedEdges.size === 1 ? '' : 's'} and ${blockedNodes.size} root node${blockedNodes.size === 1 ? '' : 's'}.`,
+      });
+
+      const spur = pathTo(runDijkstra(graph, spurNode, { targetId, blockedNodes, blockedEdges }), spurNode, targetId);
+      if (!spur) {
+        yield snapshot('skip-edge', spurNode, 11, {
+          beginner: `With those removed, ${targetId} can't be reached from ${spurNode}. No new route branches off here.`,
+          advanced: `Dijkstra(${spurNode}, ${targetId}) on the reduced graph: dist = ∞. No candidate.`,
+        });
+        continue;
+      }
+
+      const candidate: RankedPath = {
+        nodes: [...rootPath, ...spur.nodes.slice(1)],
+        edges: [...rootEdges, ...spur.edges],
+        cost: rootCost + spur.cost,
+      };
+      markPath(spur, 'in-queue', 'tree');
+      setNodeState(spurNode, 'current');
+
+      const key = keyOf(candidate);
+      if (candidates.some(path => keyOf(path) === key)) {
+        yield snapshot('skip-edge', spurNode, 12, {
+          beginner: `Branching at ${spurNode} gives ${describe(candidate)}, which is already on the candidate list.`,
+          advanced: `Root + spur = ${describe(candidate)} ∈ B already; skip the duplicate.`,
+        });
+        continue;
+      }
+
+      // Keep B sorted; ties go to the path found first
+      const at = candidates.findIndex(path => path.cost > candidate.cost);
+      candidates.splice(at === -1 ? candidates.length : at, 0, candidate);
+
+      yield snapshot('relax-edge', spurNode, 12, {
+        beginner: `Found a new route by branching at ${spurNode}: ${describe(candidate)}. It joins the candidate list.`,
+        advanced: `Spur path ${spur.nodes.join(' → ')} (${format(spur.cost)}). B ← B ∪ {${describe(candidate)}}; |B| = ${candidates.length}.`,
+      });
+    }
+
+    spurNode = null;
+    rootPath = [];
+    resetStates();
+
+    if (candidates.length === 0) {
+      found.forEach(path => markPath(path, 'path', 'path'));
+      yield snapshot('complete', null, 14, {
+        beginner: `No more routes exist: there ${found.length === 1 ? 'is only 1 loopless route' : `are only ${found.length} loopless routes`} from ${sourceId} to ${targetId}.`,
+        advanced: `B is empty after k = ${found.length}: the graph has exactly ${found.length} simple ${sourceId}–${targetId} path${found.length === 1 ? '' : 's'}.`,
+      }, { shortestPath: first.nodes, totalDistance: first.cost });
+      return;
+    }
+
+    const next = candidates.shift()!;
+    found.push(next);
+    markPath(next, 'path', 'path');
+
+    yield snapshot('path-found', targetId, 15, {
+      beginner: `The cheapest candidate becomes the ${ordinal(found.length)} best route: ${describe(next)}.`,
+      advanced: `A[${found.length - 1}] ← ${describe(next)}; ${candidates.length} candidate${candidates.length === 1 ? '' : 's'} left in B.`,
+    }, { shortestPath: next.nodes, totalDistance: next.cost });
+  }
+
+  resetStates();
+  found.forEach(path => markPath(path, 'path', 'path'));
+  yield snapshot('complete', null, 16, {
+    beginner: `Found the ${k} best loopless routes from ${sourceId} to ${targetId}. Pick one in the list to highlight it.`,
+    advanced: `Terminated with |A| = K = ${k}. Costs: ${found.map(path => format(path.cost)).join(' ≤ ')}.`,
+  }, { shortestPath: first.nodes, totalDistance: first.cost });
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+// Read the path to `targetId` off a shortest-path tree; null if unreachable
+function pathTo(
+  tree: ShortestPathTree,
+  sourceId: string,
+  targetId: string
+): RankedPath | null {
+  const cost = tree.distances.get(targetId);
+  if (cost === undefined || cost === Infinity) return null;
+
+  const nodes = [targetId];
+  const edges: string[] = [];
+  for (let nodeId = targetId; nodeId !== sourceId; ) {
+    edges.unshift(tree.predecessorEdges.get(nodeId)!);
+    nodeId = tree.predecessors.get(nodeId)!;
+    nodes.unshift(nodeId);
+  }
+  return { nodes, edges, cost };
+}
@@ -0,0 +1,6 @@
+/**
+ * Application identity
+ * The name shown in the header and written into exported files
+ */
+
+export const APP_NAME = 'PathFinder';
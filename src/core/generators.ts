@@ -0,0 +1,438 @@
+/**
+ * Random graph generators
+ * Reproducible test graphs: the same options (including the seed) always
+ * produce the same graph.
+ *
+ * Every generator takes a `density` in [0, 1] whose meaning depends on the
+ * family (see GRAPH_GENERATORS). Nodes are named like editor nodes
+ * (A–Z, N1, N2, ...) and laid out in an area that grows with the node count.
+ */
+
+import { Graph, Node, Edge } from './types';
+import { buildGraph, nodeLabel } from './graph';
+import { Rng, createRng, randomInt, shuffle } from './random';
+import { uniqueEdgeId } from './io/build';
+
+// ============================================
+// OPTIONS
+// ============================================
+
+export type GeneratorType = 'erdos-renyi' | 'geometric' | 'barabasi-albert' | 'grid' | 'planar';
+
+export type WeightDistribution = 'uniform' | 'exponential' | 'euclidean' | 'constant';
+
+export interface GeneratorOptions {
+  type: GeneratorType;
+  nodeCount: number;
+  density: number;
+  seed: number;
+  directed: boolean;
+  weights: {
+    distribution: WeightDistribution;
+    min: number;
+    max: number;
+  };
+}
+
+export const MIN_GENERATED_NODES = 10;
+export const MAX_GENERATED_NODES = 5000;
+export const MAX_GENERATED_EDGES = 100_000;
+
+export const GRAPH_GENERATORS: Record<GeneratorType, { label: string; densityLabel: string; description: string }> = {
+  'erdos-renyi': {
+    label: 'Erdős–Rényi',
+    densityLabel: 'Edge probability',
+    description: 'Every pair of nodes is linked independently with the given probability.',
+  },
+  geometric: {
+    label: 'Random geometric',
+    densityLabel: 'Connection radius',
+    description: 'Random points; nodes closer than the radius are linked, like a road network.',
+  },
+  'barabasi-albert': {
+    label: 'Barabási–Albert',
+    densityLabel: 'Links per new node',
+    description: 'Preferential attachment: new nodes favour well-connected hubs.',
+  },
+  grid: {
+    label: 'Grid',
+    densityLabel: 'Extra lattice edges',
+    description: 'A lattice; a random spanning tree is always kept, other edges with the given probability.',
+  },
+  planar: {
+    label: 'Planar (Delaunay)',
+    densityLabel: 'Extra triangulation edges',
+    description: 'Delaunay triangulation of random points; a spanning tree is always kept.',
+  },
+};
+
+export const WEIGHT_DISTRIBUTIONS: Record<WeightDistribution, { label: string; description: string }> = {
+  uniform: { label: 'Uniform', description: 'Integers spread evenly between min and max.' },
+  exponential: { label: 'Exponential', description: 'Mostly cheap edges with a few expensive ones.' },
+  euclidean: { label: 'Edge length', description: 'Rounded-up drawn length, so the A* straight-line heuristic stays admissible. Ignores min/max.' },
+  constant: { label: 'Constant', description: 'Every edge weighs min.' },
+};
+
+// ============================================
+// LAYOUT
+// ============================================
+
+const NODE_SPACING = 70; // Average distance between neighbouring nodes, px
+const MARGIN = 60;
+
+// Canvas area for n nodes, at least the editor's default 720×480
+function layoutSize(nodeCount: number): { width: number; height: number } {
+  const width = Math.max(720, Math.round(Math.sqrt(nodeCount * 1.5) * NODE_SPACING));
+  return { width, height: Math.round(width / 1.5) };
+}
+
+function randomPositions(rng: Rng, nodeCount: number): Array<{ x: number; y: number }> {
+  const { width, height } = layoutSize(nodeCount);
+  // Not rounded: coincident points would break the Delaunay triangulation
+  return Array.from({ length: nodeCount }, () => ({
+    x: MARGIN + rng() * width,
+    y: MARGIN + rng() * height,
+  }));
+}
+
+// ============================================
+// GENERATOR
+// ============================================
+
+type Link = [number, number]; // Node indices
+
+export function generateGraph(options: GeneratorOptions): Graph {
+  const { type, nodeCount, density } = options;
+  if (!Number.isInteger(nodeCount) || nodeCount < MIN_GENERATED_NODES || nodeCount > MAX_GENERATED_NODES) {
+    throw new Error(`Node count must be an integer from ${MIN_GENERATED_NODES} to ${MAX_GENERATED_NODES}`);
+  }
+  if (!(density >= 0 && density <= 1)) {
+    throw new Error('Density must be between 0 and 1');
+  }
+  const estimate = estimateEdgeCount(options);
+  if (estimate > MAX_GENERATED_EDGES) {
+    throw new Error(`About ${Math.round(estimate).toLocaleString()} edges would be generated; the limit is ${MAX_GENERATED_EDGES.toLocaleString()}`);
+  }
+
+  const rng = createRng(options.seed);
+  let positions: Array<{ x: number; y: number }>;
+  let links: Link[];
+
+  switch (type) {
+    case 'erdos-renyi':
+      positions = randomPositions(rng, nodeCount);
+      links = erdosRenyiLinks(rng, nodeCount, density, options.directed);
+      break;
+    case 'geometric':
+      positions = randomPositions(rng, nodeCount);
+      links = geometricLinks(positions, geometricRadius(nodeCount, density));
+      break;
+    case 'barabasi-albert':
+      positions = randomPositions(rng, nodeCount);
+      links = barabasiAlbertLinks(rng, nodeCount, attachmentCount(density));
+      break;
+    case 'grid': {
+      const grid = gridLayout(nodeCount);
+      positions = grid.positions;
+      links = thinOut(rng, nodeCount, grid.links, density);
+      break;
+    }
+    case 'planar':
+      positions = randomPositions(rng, nodeCount);
+      links = thinOut(rng, nodeCount, delaunayLinks(positions), density);
+      break;
+  }
+
+  const nodes: Node[] = positions.map((pos, i) => {
+    const id = nodeLabel(i);
+    return { id, x: pos.x, y: pos.y, label: id };
+  });
+
+  const edgeIds = new Set<string>();
+  const edges: Edge[] = links.map(([a, b]) => {
+    // Erdős–Rényi samples ordered pairs itself; other families get a random orientation
+    const [from, to] = options.directed && type !== 'erdos-renyi' && rng() < 0.5 ? [b, a] : [a, b];
+    const source = nodes[from].id;
+    const target = nodes[to].id;
+    return {
+      id: uniqueEdgeId(edgeIds, source, target),
+      source,
+      target,
+      weight: edgeWeight(rng, options.weights, positions[from], positions[to]),
+    };
+  });
+
+  return buildGraph(options.directed, nodes, edges);
+}
+
+/**
+ * Expected number of edges for the options, used to reject settings that
+ * would swamp the canvas before any work is done.
+ */
+export function estimateEdgeCount(options: GeneratorOptions): number {
+  const { nodeCount: n, density } = options;
+  switch (options.type) {
+    case 'erdos-renyi':
+      return density * n * (n - 1) / (options.directed ? 1 : 2);
+    case 'geometric': {
+      const { width, height } = layoutSize(n);
+      const r = geometricRadius(n, density);
+      return n * (n - 1) / 2 * Math.min(1, Math.PI * r * r / (width * height));
+    }
+    case 'barabasi-albert': {
+      const m = Math.min(attachmentCount(density), n - 1);
+      return m * (m + 1) / 2 + m * (n - m - 1);
+    }
+    case 'grid':
+      return (n - 1) + density * (gridLayout(n).links.length - (n - 1));
+    case 'planar':
+      // A triangulation of n random points has just under 3n edges
+      return (n - 1) + density * (2 * n - 5);
+  }
+}
+
+// ============================================
+// FAMILIES
+// ============================================
+
+/**
+ * G(n, p) with Batagelj–Brandes skipping: jumps straight to the next
+ * selected pair, so the cost is proportional to the edges produced.
+ */
+function erdosRenyiLinks(rng: Rng, n: number, p: number, directed: boolean): Link[] {
+  const links: Link[] = [];
+  if (p <= 0) return links;
+  const logQ = Math.log(1 - p);
+  const skip = () => (p >= 1 ? 0 : Math.floor(Math.log(1 - rng()) / logQ));
+
+  if (directed) {
+    // Ordered pairs (i, j), i ≠ j, indexed 0 .. n(n-1)-1
+    const total = n * (n - 1);
+    for (let k = skip(); k < total; k += 1 + skip()) {
+      const i = Math.floor(k / (n - 1));
+      const j = k % (n - 1);
+      links.push([i, j >= i ? j + 1 : j]);
+    }
+    return links;
+  }
+
+  // Unordered pairs (v, w), w < v, walked row by row
+  let v = 1;
+  let w = -1;
+  while (v < n) {
+    w += 1 + skip();
+    while (w >= v && v < n) {
+      w -= v;
+      v++;
+    }
+    if (v < n) links.push([w, v]);
+  }
+  return links;
+}
+
+function geometricRadius(n: number, density: number): number {
+  const { width, height } = layoutSize(n);
+  // Scaled to the mean spacing: about 4 neighbours at 0, about 22 at 1
+  return Math.sqrt(width * height / n) * (1.2 + 1.5 * density);
+}
+
+// Pairs closer than `radius`, found with a bucket grid of radius-sized cells
+function geometricLinks(positions: Array<{ x: number; y: number }>, radius: number): Link[] {
+  const cellOf = (x: number, y: number) => `${Math.floor(x / radius)},${Math.floor(y / radius)}`;
+  const cells = new Map<string, number[]>();
+  positions.forEach((p, i) => {
+    const key = cellOf(p.x, p.y);
+    const cell = cells.get(key);
+    if (cell) cell.push(i); else cells.set(key, [i]);
+  });
+
+  const links: Link[] = [];
+  const r2 = radius * radius;
+  positions.forEach((p, i) => {
+    const cx = Math.floor(p.x / radius);
+    const cy = Math.floor(p.y / radius);
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (const j of cells.get(`${cx + dx},${cy + dy}`) ?? []) {
+          if (j <= i) continue;
+          const ex = positions[j].x - p.x;
+          const ey = positions[j].y - p.y;
+          if (ex * ex + ey * ey <= r2) links.push([i, j]);
+        }
+      }
+    }
+  });
+  return links;
+}
+
+function attachmentCount(density: number): number {
+  return 1 + Math.round(density * 4);
+}
+
+/**
+ * Preferential attachment starting from a clique of m + 1 nodes. Sampling
+ * from the list of edge endpoints picks nodes in proportion to degree.
+ */
+function barabasiAlbertLinks(rng: Rng, n: number, m: number): Link[] {
+  const links: Link[] = [];
+  const endpoints: number[] = [];
+  const seedSize = Math.min(m + 1, n);
+
+  for (let i = 0; i < seedSize; i++) {
+    for (let j = 0; j < i; j++) {
+      links.push([j, i]);
+      endpoints.push(i, j);
+    }
+  }
+
+  for (let v = seedSize; v < n; v++) {
+    const targets = new Set<number>();
+    while (targets.size < Math.min(m, v)) {
+      targets.add(endpoints[Math.floor(rng() * endpoints.length)]);
+    }
+    for (const t of targets) {
+      links.push([t, v]);
+      endpoints.push(t, v);
+    }
+  }
+  return links;
+}
+
+// Row-major lattice; the last row may be partly filled
+function gridLayout(n: number): { positions: Array<{ x: number; y: number }>; links: Link[] } {
+  const cols = Math.ceil(Math.sqrt(n * 1.5));
+  const positions: Array<{ x: number; y: number }> = [];
+  const links: Link[] = [];
+
+  for (let i = 0; i < n; i++) {
+    const row = Math.floor(i / cols);
+    const col = i % cols;
+    positions.push({ x: MARGIN + col * NODE_SPACING, y: MARGIN + row * NODE_SPACING });
+    if (col > 0) links.push([i - 1, i]);
+    if (row > 0) links.push([i - cols, i]);
+  }
+  return { positions, links };
+}
+
+/**
+ * Keep a random spanning tree of `links` plus each remaining link with
+ * probability `keep`, so sparse settings still give a connected graph.
+ */
+function thinOut(rng: Rng, n: number, links: Link[], keep: number): Link[] {
+  const parent = Array.from({ length: n }, (_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  const kept: Link[] = [];
+  for (const link of shuffle(rng, [...links])) {
+    const a = find(link[0]);
+    const b = find(link[1]);
+    if (a !== b) {
+      parent[a] = b;
+      kept.push(link);
+    } else if (rng() < keep) {
+      kept.push(link);
+    }
+  }
+  return kept;
+}
+
+/**
+ * Bowyer–Watson triangulation. Each insertion scans every triangle, which
+ * is quadratic overall but fast enough for the 5,000-node limit.
+ */
+function delaunayLinks(positions: Array<{ x: number; y: number }>): Link[] {
+  const n = positions.length;
+  const pts = positions.map(p => [p.x, p.y]);
+
+  // Super-triangle enclosing every point; its corners are indices n..n+2
+  const xs = pts.map(p => p[0]);
+  const ys = pts.map(p => p[1]);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const span = Math.max(Math.max(...xs) - minX, Math.max(...ys) - minY) || 1;
+  pts.push(
+    [minX - span * 10, minY - span * 10],
+    [minX + span * 20, minY - span * 10],
+    [minX - span * 10, minY + span * 20],
+  );
+
+  interface Triangle { a: number; b: number; c: number; cx: number; cy: number; r2: number }
+  const makeTriangle = (a: number, b: number, c: number): Triangle => {
+    const [ax, ay] = pts[a];
+    const [bx, by] = pts[b];
+    const [cx, cy] = pts[c];
+    const d = 2 * (ax * (by - cy) + bx * (cy - ay) + cx * (ay - by));
+    const ux = ((ax * ax + ay * ay) * (by - cy) + (bx * bx + by * by) * (cy - ay) + (cx * cx + cy * cy) * (ay - by)) / d;
+    const uy = ((ax * ax + ay * ay) * (cx - bx) + (bx * bx + by * by) * (ax - cx) + (cx * cx + cy * cy) * (bx - ax)) / d;
+    return { a, b, c, cx: ux, cy: uy, r2: (ax - ux) ** 2 + (ay - uy) ** 2 };
+  };
+
+  let triangles: Triangle[] = [makeTriangle(n, n + 1, n + 2)];
+
+  for (let i = 0; i < n; i++) {
+    const [px, py] = pts[i];
+    const kept: Triangle[] = [];
+    const boundary = new Map<string, [number, number]>();
+
+    for (const t of triangles) {
+      if ((px - t.cx) ** 2 + (py - t.cy) ** 2 < t.r2) {
+        // Edges shared by two removed triangles are interior to the hole
+        for (const [u, v] of [[t.a, t.b], [t.b, t.c], [t.c, t.a]]) {
+          const key = u < v ? `${u},${v}` : `${v},${u}`;
+          if (boundary.has(key)) boundary.delete(key); else boundary.set(key, [u, v]);
+        }
+      } else {
+        kept.push(t);
+      }
+    }
+
+    for (const [u, v] of boundary.values()) {
+      kept.push(makeTriangle(u, v, i));
+    }
+    triangles = kept;
+  }
+
+  const seen = new Set<string>();
+  const links: Link[] = [];
+  for (const t of triangles) {
+    for (const [u, v] of [[t.a, t.b], [t.b, t.c], [t.c, t.a]]) {
+      if (u >= n || v >= n) continue; // Skip super-triangle edges
+      const key = u < v ? `${u},${v}` : `${v},${u}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        links.push(u < v ? [u, v] : [v, u]);
+      }
+    }
+  }
+  return links;
+}
+
+// ============================================
+// WEIGHTS
+// ============================================
+
+function edgeWeight(
+  rng: Rng,
+  weights: GeneratorOptions['weights'],
+  from: { x: number; y: number },
+  to: { x: number; y: number }
+): number {
+  const { min, max } = weights;
+  switch (weights.distribution) {
+    case 'uniform':
+      return randomInt(rng, min, max);
+    case 'exponential':
+      // Mean at a third of the range, clipped at max
+      return Math.min(max, min + Math.floor(-Math.log(1 - rng()) * (max - min) / 3));
+    case 'euclidean':
+      return Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y)));
+    case 'constant':
+      return min;
+  }
+}
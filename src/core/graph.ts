@@ -18,6 +18,39 @@ export function createGraph(directed: boolean = false): Graph {
   };
 }
 
+/**
+ * Build a graph from complete node and edge lists in one pass.
+ * Equivalent to folding addNode/addEdge over the lists, but without copying
+ * the maps for every element, so importers and generators stay linear.
+ */
+export function buildGraph(directed: boolean, nodes: Node[], edges: Edge[]): Graph {
+  const graph = createGraph(directed);
+  
+  for (const node of nodes) {
+    graph.nodes.set(node.id, node);
+    graph.adjacencyList.set(node.id, new Set());
+  }
+  
+  for (const edge of edges) {
+    const edgeDirected = edge.directed ?? directed;
+    graph.edges.set(edge.id, { ...edge, directed: edgeDirected });
+    
+    if (!graph.adjacencyList.has(edge.source)) {
+      graph.adjacencyList.set(edge.source, new Set());
+    }
+    graph.adjacencyList.get(edge.source)!.add(edge.id);
+    
+    if (!edgeDirected) {
+      if (!graph.adjacencyList.has(edge.target)) {
+        graph.adjacencyList.set(edge.target, new Set());
+      }
+      graph.adjacencyList.get(edge.target)!.add(edge.id);
+    }
+  }
+  
+  return graph;
+}
+
 // ============================================
 // NODE OPERATIONS
 // ============================================
@@ -50,11 +83,14 @@ export function removeNode(graph: Graph, nodeId: string): Graph {
     if (edge.source === nodeId || edge.target === nodeId) {
       newEdges.delete(edgeId);
       
-      // Update adjacency for the other node
+      // Update adjacency for the other node (copy-on-write so the
+      // previous graph value is left untouched)
       const otherId = edge.source === nodeId ? edge.target : edge.source;
       const otherAdj = newAdjacency.get(otherId);
-      if (otherAdj) {
-        otherAdj.delete(edgeId);
+      if (otherAdj?.has(edgeId)) {
+        const updated = new Set(otherAdj);
+        updated.delete(edgeId);
+        newAdjacency.set(otherId, updated);
       }
     }
   }
@@ -69,28 +105,71 @@ export function removeNode(graph: Graph, nodeId: string): Graph {
   };
 }
 
+/**
+ * Change a node's ID (and label), rewiring every edge that touches it.
+ * Node order is preserved. Throws if `newId` is already in use.
+ */
+export function renameNode(graph: Graph, nodeId: string, newId: string): Graph {
+  const node = graph.nodes.get(nodeId);
+  if (!node || nodeId === newId) return graph;
+  if (graph.nodes.has(newId)) {
+    throw new Error(`Node ${newId} already exists`);
+  }
+  
+  const newNodes = new Map<string, Node>();
+  for (const [id, n] of graph.nodes) {
+    if (id === nodeId) {
+      newNodes.set(newId, { ...n, id: newId, label: newId });
+    } else {
+      newNodes.set(id, n);
+    }
+  }
+  
+  const newEdges = new Map(graph.edges);
+  for (const [edgeId, edge] of graph.edges) {
+    if (edge.source === nodeId || edge.target === nodeId) {
+      newEdges.set(edgeId, {
+        ...edge,
+        source: edge.source === nodeId ? newId : edge.source,
+        target: edge.target === nodeId ? newId : edge.target,
+      });
+    }
+  }
+  
+  const newAdjacency = new Map<string, Set<string>>();
+  for (const [id, adj] of graph.adjacencyList) {
+    newAdjacency.set(id === nodeId ? newId : id, adj);
+  }
+  
+  return {
+    ...graph,
+    nodes: newNodes,
+    edges: newEdges,
+    adjacencyList: newAdjacency,
+  };
+}
+
 // ============================================
 // EDGE OPERATIONS
 // ============================================
 
+/**
+ * Add an edge. `edge.directed` overrides the graph's default direction,
+ * which is how mixed graphs (one-way and two-way edges together) are built.
+ */
 export function addEdge(graph: Graph, edge: Edge): Graph {
+  const directed = edge.directed ?? graph.directed;
   const newEdges = new Map(graph.edges);
-  newEdges.set(edge.id, { ...edge, directed: graph.directed });
+  newEdges.set(edge.id, { ...edge, directed });
   
   const newAdjacency = new Map(graph.adjacencyList);
   
-  // Add to source's adjacency
-  if (!newAdjacency.has(edge.source)) {
-    newAdjacency.set(edge.source, new Set());
-  }
-  newAdjacency.get(edge.source)!.add(edge.id);
+  // Add to source's adjacency (sets are copied, never shared between graphs)
+  newAdjacency.set(edge.source, new Set(newAdjacency.get(edge.source)).add(edge.id));
   
-  // For undirected graphs, also add to target's adjacency
-  if (!graph.directed) {
-    if (!newAdjacency.has(edge.target)) {
-      newAdjacency.set(edge.target, new Set());
-    }
-    newAdjacency.get(edge.target)!.add(edge.id);
+  // For undirected edges, also add to target's adjacency
+  if (!directed) {
+    newAdjacency.set(edge.target, new Set(newAdjacency.get(edge.target)).add(edge.id));
   }
   
   return {
@@ -112,14 +191,18 @@ export function removeEdge(graph: Graph, edgeId: string): Graph {
   // Remove from source's adjacency
   const sourceAdj = newAdjacency.get(edge.source);
   if (sourceAdj) {
-    sourceAdj.delete(edgeId);
+    const updated = new Set(sourceAdj);
+    updated.delete(edgeId);
+    newAdjacency.set(edge.source, updated);
   }
   
-  // For undirected graphs, also remove from target's adjacency
-  if (!graph.directed) {
+  // For undirected edges, also remove from target's adjacency
+  if (!isEdgeDirected(graph, edge)) {
     const targetAdj = newAdjacency.get(edge.target);
     if (targetAdj) {
-      targetAdj.delete(edgeId);
+      const updated = new Set(targetAdj);
+      updated.delete(edgeId);
+      newAdjacency.set(edge.target, updated);
     }
   }
   
@@ -130,6 +213,67 @@ export function removeEdge(graph: Graph, edgeId: string): Graph {
   };
 }
 
+export function updateEdge(
+  graph: Graph,
+  edgeId: string,
+  changes: Partial<Pick<Edge, 'weight'>>
+): Graph {
+  const edge = graph.edges.get(edgeId);
+  if (!edge) return graph;
+  
+  const newEdges = new Map(graph.edges);
+  newEdges.set(edgeId, { ...edge, ...changes });
+  
+  return {
+    ...graph,
+    edges: newEdges,
+  };
+}
+
+// ============================================
+// DIRECTION
+// ============================================
+
+// Edges carry their own direction; the graph flag is the default for new edges
+export function isEdgeDirected(graph: Graph, edge: Edge): boolean {
+  return edge.directed ?? graph.directed;
+}
+
+/**
+ * How existing edges are treated when the whole graph switches direction:
+ * - 'keep-edges': only the default for new edges changes (mixed graph)
+ * - 'convert': every edge takes the new direction; edges are never merged,
+ *   so opposite one-way edges become parallel two-way edges
+ * - 'convert-split': like 'convert', but when becoming directed each two-way
+ *   edge (other than a self-loop) becomes a pair of opposite one-way edges
+ */
+export type DirectionConversion = 'keep-edges' | 'convert' | 'convert-split';
+
+export function setGraphDirected(graph: Graph, directed: boolean, conversion: DirectionConversion): Graph {
+  if (conversion === 'keep-edges') {
+    return { ...graph, directed };
+  }
+  
+  const edges: Edge[] = [];
+  const ids = new Set(graph.edges.keys());
+  
+  for (const edge of graph.edges.values()) {
+    edges.push({ ...edge, directed });
+    
+    const isSelfLoop = edge.source === edge.target;
+    if (directed && conversion === 'convert-split' && !isEdgeDirected(graph, edge) && !isSelfLoop) {
+      let reverseId = `${edge.target}${edge.source}`;
+      for (let n = 2; ids.has(reverseId); n++) {
+        reverseId = `${edge.target}${edge.source}_${n}`;
+      }
+      ids.add(reverseId);
+      edges.push({ ...edge, id: reverseId, source: edge.target, target: edge.source, directed: true });
+    }
+  }
+  
+  return buildGraph(directed, [...graph.nodes.values()], edges);
+}
+
 // ============================================
 // GRAPH QUERIES
 // ============================================
@@ -148,7 +292,7 @@ export function getNeighbors(graph: Graph, nodeId: string): Array<{ nodeId: stri
     let neighborId: string;
     if (edge.source === nodeId) {
       neighborId = edge.target;
-    } else if (!graph.directed && edge.target === nodeId) {
+    } else if (!isEdgeDirected(graph, edge) && edge.target === nodeId) {
       neighborId = edge.source;
     } else {
       continue; // Directed edge pointing the wrong way
@@ -164,23 +308,91 @@ export function getNeighbors(graph: Graph, nodeId: string): Array<{ nodeId: stri
   return neighbors;
 }
 
-export function getEdgeBetween(graph: Graph, sourceId: string, targetId: string): Edge | null {
+// Nodes with an edge that can be traversed *into* `nodeId`, for searches that
+// run backward from a target. Directed edges are only indexed at their
+// source, so this scans every edge; a search that asks for many nodes
+// should build getIncomingAdjacency once instead.
+export function getIncomingNeighbors(graph: Graph, nodeId: string): Array<{ nodeId: string; edgeId: string; weight: number }> {
+  const neighbors: Array<{ nodeId: string; edgeId: string; weight: number }> = [];
+  
+  for (const [edgeId, edge] of graph.edges) {
+    let neighborId: string;
+    if (edge.target === nodeId) {
+      neighborId = edge.source;
+    } else if (!isEdgeDirected(graph, edge) && edge.source === nodeId) {
+      neighborId = edge.target;
+    } else {
+      continue;
+    }
+    
+    neighbors.push({
+      nodeId: neighborId,
+      edgeId,
+      weight: edge.weight,
+    });
+  }
+  
+  return neighbors;
+}
+
+// getIncomingNeighbors for every node at once, in a single pass over the edges
+export function getIncomingAdjacency(graph: Graph): Map<string, Array<{ nodeId: string; edgeId: string; weight: number }>> {
+  const incoming = new Map<string, Array<{ nodeId: string; edgeId: string; weight: number }>>();
+  for (const nodeId of graph.nodes.keys()) {
+    incoming.set(nodeId, []);
+  }
+  
+  for (const [edgeId, edge] of graph.edges) {
+    incoming.get(edge.target)?.push({ nodeId: edge.source, edgeId, weight: edge.weight });
+    if (!isEdgeDirected(graph, edge) && edge.source !== edge.target) {
+      incoming.get(edge.source)?.push({ nodeId: edge.target, edgeId, weight: edge.weight });
+    }
+  }
+  
+  return incoming;
+}
+
+/**
+ * All edges that can be traversed from `sourceId` to `targetId`.
+ * Multigraphs may have several (parallel roads); self-loops match when
+ * both IDs are the same node.
+ */
+export function getEdgesBetween(graph: Graph, sourceId: string, targetId: string): Edge[] {
+  const edges: Edge[] = [];
   const edgeIds = graph.adjacencyList.get(sourceId);
-  if (!edgeIds) return null;
+  if (!edgeIds) return edges;
   
   for (const edgeId of edgeIds) {
     const edge = graph.edges.get(edgeId);
     if (!edge) continue;
     
     if (edge.source === sourceId && edge.target === targetId) {
-      return edge;
-    }
-    if (!graph.directed && edge.source === targetId && edge.target === sourceId) {
-      return edge;
+      edges.push(edge);
+    } else if (!isEdgeDirected(graph, edge) && edge.source === targetId && edge.target === sourceId) {
+      edges.push(edge);
     }
   }
   
-  return null;
+  return edges;
+}
+
+// The cheapest traversable edge from `sourceId` to `targetId`, if any
+export function getEdgeBetween(graph: Graph, sourceId: string, targetId: string): Edge | null {
+  let cheapest: Edge | null = null;
+  for (const edge of getEdgesBetween(graph, sourceId, targetId)) {
+    if (!cheapest || edge.weight < cheapest.weight) {
+      cheapest = edge;
+    }
+  }
+  return cheapest;
+}
+
+// Dijkstra and A* assume no edge has negative weight
+export function hasNegativeWeights(graph: Graph): boolean {
+  for (const edge of graph.edges.values()) {
+    if (edge.weight < 0) return true;
+  }
+  return false;
 }
 
 // ============================================
@@ -223,6 +435,69 @@ export function createSampleGraph(): Graph {
   return graph;
 }
 
+/**
+ * A small project network for the DAG algorithms: nodes are events
+ * (A = start, H = finish), edges are tasks weighted by duration in days.
+ * Acyclic, with a single critical path and some tasks that have slack.
+ */
+export function createProjectGraph(): Graph {
+  let graph = createGraph(true);
+
+  const nodes: Node[] = [
+    { id: 'A', x: 80, y: 220, label: 'A' },
+    { id: 'B', x: 210, y: 110, label: 'B' },
+    { id: 'C', x: 210, y: 330, label: 'C' },
+    { id: 'D', x: 350, y: 110, label: 'D' },
+    { id: 'E', x: 350, y: 330, label: 'E' },
+    { id: 'F', x: 490, y: 110, label: 'F' },
+    { id: 'G', x: 490, y: 330, label: 'G' },
+    { id: 'H', x: 620, y: 220, label: 'H' },
+  ];
+
+  for (const node of nodes) {
+    graph = addNode(graph, node);
+  }
+
+  const edges: Omit<Edge, 'directed'>[] = [
+    { id: 'AB', source: 'A', target: 'B', weight: 3 },
+    { id: 'AC', source: 'A', target: 'C', weight: 2 },
+    { id: 'BD', source: 'B', target: 'D', weight: 4 },
+    { id: 'BE', source: 'B', target: 'E', weight: 2 },
+    { id: 'CE', source: 'C', target: 'E', weight: 4 },
+    { id: 'DF', source: 'D', target: 'F', weight: 2 },
+    { id: 'DG', source: 'D', target: 'G', weight: 3 },
+    { id: 'EG', source: 'E', target: 'G', weight: 5 },
+    { id: 'FH', source: 'F', target: 'H', weight: 3 },
+    { id: 'GH', source: 'G', target: 'H', weight: 2 },
+  ];
+
+  for (const edge of edges) {
+    graph = addEdge(graph, edge as Edge);
+  }
+
+  return graph;
+}
+
+/**
+ * Edge ID following the editor's `${source}${target}` convention,
+ * with a numeric suffix if that ID is already in use (e.g. after a rename).
+ */
+export function nextEdgeId(graph: Graph, sourceId: string, targetId: string): string {
+  const base = `${sourceId}${targetId}`;
+  let id = base;
+  for (let n = 2; graph.edges.has(id); n++) {
+    id = `${base}_${n}`;
+  }
+  return id;
+}
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+// Editor node names: A–Z, then N1, N2, ...
+export function nodeLabel(counter: number): string {
+  return counter < 26 ? ALPHABET[counter] : `N${counter - 25}`;
+}
+
 // Generate unique IDs
 let nodeCounter = 0;
 let edgeCounter = 0;
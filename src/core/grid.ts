@@ -0,0 +1,155 @@
+/**
+ * Tile grids for grid-mode pathfinding
+ * A grid is a rectangle of cells, each either a wall or open terrain with a
+ * movement cost. compileGrid turns it into an ordinary Graph so the step
+ * generators and playback controls work on grids unchanged.
+ */
+
+import { Graph, Node, Edge, HeuristicSettings } from './types';
+import { buildGraph } from './graph';
+
+// ============================================
+// GRID DATA STRUCTURES
+// ============================================
+
+export type Terrain = 'open' | 'grass' | 'sand' | 'water';
+
+export type GridCell = Terrain | 'wall';
+
+export const TERRAINS: Record<Terrain, { label: string; cost: number }> = {
+  open: { label: 'Open', cost: 1 },
+  grass: { label: 'Grass', cost: 2 },
+  sand: { label: 'Sand', cost: 3 },
+  water: { label: 'Water', cost: 5 },
+};
+
+export interface Grid {
+  rows: number;
+  cols: number;
+  cells: GridCell[]; // Row-major
+}
+
+export type Connectivity = 4 | 8;
+
+export interface GridOptions {
+  connectivity: Connectivity;
+  diagonalCost: number; // Multiplier for diagonal moves (8-connectivity only)
+}
+
+export const DEFAULT_GRID_OPTIONS: GridOptions = {
+  connectivity: 4,
+  diagonalCost: Math.SQRT2,
+};
+
+// Cells sit one unit apart and cost at least 1 to enter, so an unscaled
+// straight-line estimate is admissible while diagonals cost at least √2
+export const DEFAULT_GRID_HEURISTIC: HeuristicSettings = { type: 'euclidean', scale: 1 };
+
+export type GridSize = 'small' | 'medium' | 'large';
+
+// Sized for painting and watching, not for the algorithms: every cell is
+// its own SVG element, redrawn at each playback step, and has to stay big
+// enough to hit with the mouse. Maze animations also copy the whole grid
+// at every step (see maze.ts). Odd sizes let generated mazes fill the grid.
+export const GRID_SIZES: Record<GridSize, { label: string; rows: number; cols: number }> = {
+  small: { label: 'Small', rows: 9, cols: 13 },
+  medium: { label: 'Medium', rows: 13, cols: 21 },
+  large: { label: 'Large', rows: 15, cols: 25 },
+};
+
+// ============================================
+// GRID OPERATIONS
+// ============================================
+
+export function createGrid(rows: number, cols: number): Grid {
+  return { rows, cols, cells: new Array<GridCell>(rows * cols).fill('open') };
+}
+
+// Node ID of a cell in the compiled graph
+export function cellId(row: number, col: number): string {
+  return `r${row}c${col}`;
+}
+
+export function parseCellId(id: string): { row: number; col: number } | null {
+  const match = /^r(\d+)c(\d+)$/.exec(id);
+  return match ? { row: Number(match[1]), col: Number(match[2]) } : null;
+}
+
+export function getCell(grid: Grid, row: number, col: number): GridCell | undefined {
+  if (row < 0 || row >= grid.rows || col < 0 || col >= grid.cols) return undefined;
+  return grid.cells[row * grid.cols + col];
+}
+
+// Returns the same grid when nothing changes, so repeated paints are cheap
+export function setCell(grid: Grid, row: number, col: number, cell: GridCell): Grid {
+  if (getCell(grid, row, col) === undefined || getCell(grid, row, col) === cell) return grid;
+  const cells = [...grid.cells];
+  cells[row * grid.cols + col] = cell;
+  return { ...grid, cells };
+}
+
+// Keeps the overlapping top-left region; new cells are open
+export function resizeGrid(grid: Grid, rows: number, cols: number): Grid {
+  const resized = createGrid(rows, cols);
+  for (let row = 0; row < Math.min(rows, grid.rows); row++) {
+    for (let col = 0; col < Math.min(cols, grid.cols); col++) {
+      resized.cells[row * cols + col] = grid.cells[row * grid.cols + col];
+    }
+  }
+  return resized;
+}
+
+// ============================================
+// COMPILATION
+// ============================================
+
+/**
+ * Build an undirected graph with one node per open cell. Nodes sit at
+ * (col, row), so straight-line distance is measured in cells and matches
+ * the cost of crossing open terrain.
+ *
+ * A move costs the average terrain cost of the two cells (half to leave,
+ * half to enter), times `diagonalCost` for diagonal moves. Diagonal moves
+ * may not cut past a wall corner.
+ */
+export function compileGrid(grid: Grid, options: GridOptions): Graph {
+  const nodes: Node[] = [];
+  const edges: Edge[] = [];
+
+  const costAt = (row: number, col: number): number | null => {
+    const cell = getCell(grid, row, col);
+    return cell === undefined || cell === 'wall' ? null : TERRAINS[cell].cost;
+  };
+
+  const link = (row: number, col: number, toRow: number, toCol: number, multiplier: number) => {
+    const from = costAt(row, col);
+    const to = costAt(toRow, toCol);
+    if (from === null || to === null) return;
+    const source = cellId(row, col);
+    const target = cellId(toRow, toCol);
+    edges.push({ id: `${source}${target}`, source, target, weight: (from + to) / 2 * multiplier });
+  };
+
+  for (let row = 0; row < grid.rows; row++) {
+    for (let col = 0; col < grid.cols; col++) {
+      if (costAt(row, col) === null) continue;
+      const id = cellId(row, col);
+      nodes.push({ id, x: col, y: row, label: id });
+
+      // Each neighbour pair is linked once, from the earlier cell
+      link(row, col, row, col + 1, 1);
+      link(row, col, row + 1, col, 1);
+
+      if (options.connectivity === 8) {
+        if (costAt(row, col + 1) !== null && costAt(row + 1, col) !== null) {
+          link(row, col, row + 1, col + 1, options.diagonalCost);
+        }
+        if (costAt(row, col - 1) !== null && costAt(row + 1, col) !== null) {
+          link(row, col, row + 1, col - 1, options.diagonalCost);
+        }
+      }
+    }
+  }
+
+  return buildGraph(false, nodes, edges);
+}
@@ -0,0 +1,98 @@
+/**
+ * Shared helpers for turning parsed graph files into Graph values
+ * Handles coordinate placement and edge ID assignment
+ */
+
+import { Node } from '../types';
+
+// Canvas area imported coordinates are fitted into
+const CANVAS_MIN = 60;
+const CANVAS_WIDTH = 720;
+const CANVAS_HEIGHT = 480;
+
+// Coordinates already inside this range are kept as-is, so graphs written
+// by this app read back at the same positions
+const MAX_NATIVE_COORD = 2000;
+
+export interface RawNode {
+  id: string;
+  label?: string;
+  x?: number;
+  y?: number;
+}
+
+/**
+ * Assign canvas positions to parsed nodes.
+ * If every node has coordinates they are kept (or scaled to fit the canvas
+ * when they are far outside it, e.g. DIMACS micro-degrees); otherwise all
+ * nodes are placed on a circle and a warning is recorded.
+ */
+export function placeNodes(rawNodes: RawNode[], warnings: string[]): Node[] {
+  const missing = rawNodes.filter(n => n.x === undefined || n.y === undefined).length;
+
+  if (rawNodes.length === 0) return [];
+
+  if (missing > 0) {
+    if (missing < rawNodes.length) {
+      warnings.push(`${missing} of ${rawNodes.length} nodes have no coordinates; all nodes were auto-placed on a circle`);
+    }
+    return circleLayout(rawNodes);
+  }
+
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const n of rawNodes) {
+    minX = Math.min(minX, n.x!);
+    minY = Math.min(minY, n.y!);
+    maxX = Math.max(maxX, n.x!);
+    maxY = Math.max(maxY, n.y!);
+  }
+
+  if (minX >= 0 && minY >= 0 && maxX <= MAX_NATIVE_COORD && maxY <= MAX_NATIVE_COORD) {
+    return rawNodes.map(n => toNode(n, n.x!, n.y!));
+  }
+
+  // Uniform scale keeps the drawing's aspect ratio
+  const spanX = maxX - minX || 1;
+  const spanY = maxY - minY || 1;
+  const scale = Math.min(CANVAS_WIDTH / spanX, CANVAS_HEIGHT / spanY);
+
+  return rawNodes.map(n => toNode(
+    n,
+    CANVAS_MIN + (n.x! - minX) * scale,
+    CANVAS_MIN + (n.y! - minY) * scale
+  ));
+}
+
+function circleLayout(rawNodes: RawNode[]): Node[] {
+  const cx = CANVAS_MIN + CANVAS_WIDTH / 2;
+  const cy = CANVAS_MIN + CANVAS_HEIGHT / 2;
+  const radius = CANVAS_HEIGHT / 2;
+
+  return rawNodes.map((n, i) => {
+    const angle = (2 * Math.PI * i) / rawNodes.length - Math.PI / 2;
+    return toNode(n, cx + radius * Math.cos(angle), cy + radius * Math.sin(angle));
+  });
+}
+
+function toNode(raw: RawNode, x: number, y: number): Node {
+  return {
+    id: raw.id,
+    x,
+    y,
+    label: raw.label ?? raw.id,
+  };
+}
+
+/**
+ * Edge IDs follow the editor's `${source}${target}` convention,
+ * with a numeric suffix when that ID is already taken.
+ */
+export function uniqueEdgeId(taken: Set<string>, source: string, target: string): string {
+  const base = `${source}${target}`;
+  let id = base;
+  for (let n = 2; taken.has(id); n++) {
+    id = `${base}_${n}`;
+  }
+  taken.add(id);
+  return id;
+}
@@ -0,0 +1,203 @@
+/**
+ * DIMACS shortest-path challenge format reader and writer
+ *
+ * A graph is split across two files:
+ *   .gr  `p sp <nodes> <arcs>` then one `a <u> <v> <w>` line per arc
+ *   .co  `p aux sp co <nodes>` then one `v <id> <x> <y>` line per node
+ * Lines starting with `c` are comments. Nodes are numbered 1..n.
+ *
+ * DIMACS graphs are always directed, so undirected edges are written as
+ * two opposite arcs. Coordinates are usually micro-degrees and are
+ * scaled to fit the canvas; without a .co file nodes are auto-placed.
+ */
+
+import { Edge, GraphDocument, GraphImportResult } from '../types';
+import { buildGraph, isEdgeDirected } from '../graph';
+import { APP_NAME } from '../app';
+import { GraphFormatError } from './errors';
+import { placeNodes, uniqueEdgeId, RawNode } from './build';
+
+// ============================================
+// PARSER
+// ============================================
+
+export function parseDimacs(grText: string, coText?: string): GraphImportResult {
+  const warnings: string[] = [];
+  let nodeCount: number | null = null;
+  let declaredArcs = 0;
+  const edgeIds = new Set<string>();
+  const edges: Edge[] = [];
+
+  forEachLine(grText, '.gr', (fields, at) => {
+    switch (fields[0]) {
+      case 'p': {
+        if (nodeCount !== null) throw new GraphFormatError('Duplicate problem line', at);
+        if (fields[1] !== 'sp' || fields.length !== 4) {
+          throw new GraphFormatError('Expected "p sp <nodes> <arcs>"', at);
+        }
+        nodeCount = parseInteger(fields[2], 'node count', at);
+        declaredArcs = parseInteger(fields[3], 'arc count', at);
+        break;
+      }
+      case 'a': {
+        if (nodeCount === null) throw new GraphFormatError('Arc before the "p sp" problem line', at);
+        if (fields.length !== 4) throw new GraphFormatError('Expected "a <from> <to> <weight>"', at);
+        const source = parseNodeRef(fields[1], nodeCount, at);
+        const target = parseNodeRef(fields[2], nodeCount, at);
+        const weight = Number(fields[3]);
+        if (!Number.isFinite(weight)) {
+          throw new GraphFormatError(`Invalid weight "${fields[3]}"`, at);
+        }
+        edges.push({ id: uniqueEdgeId(edgeIds, source, `-${target}`), source, target, weight });
+        break;
+      }
+      default:
+        throw new GraphFormatError(`Unsupported line type "${fields[0]}" (expected c, p or a)`, at);
+    }
+  });
+
+  if (nodeCount === null) {
+    throw new GraphFormatError('Missing "p sp <nodes> <arcs>" problem line', '.gr');
+  }
+  if (edges.length !== declaredArcs) {
+    warnings.push(`Problem line declares ${declaredArcs} arcs but ${edges.length} were found`);
+  }
+
+  const rawNodes: RawNode[] = [];
+  for (let i = 1; i <= nodeCount; i++) {
+    rawNodes.push({ id: String(i) });
+  }
+
+  if (coText !== undefined) {
+    readCoordinates(coText, rawNodes, warnings);
+  } else {
+    warnings.push('No .co coordinate file was provided; nodes were auto-placed');
+  }
+
+  const graph = buildGraph(true, placeNodes(rawNodes, warnings), edges);
+
+  return {
+    document: { graph, selection: { sourceId: null, targetId: null } },
+    warnings,
+  };
+}
+
+function readCoordinates(coText: string, rawNodes: RawNode[], warnings: string[]): void {
+  let seenProblem = false;
+
+  forEachLine(coText, '.co', (fields, at) => {
+    switch (fields[0]) {
+      case 'p': {
+        if (fields.slice(1, 4).join(' ') !== 'aux sp co' || fields.length !== 5) {
+          throw new GraphFormatError('Expected "p aux sp co <nodes>"', at);
+        }
+        const count = parseInteger(fields[4], 'node count', at);
+        if (count !== rawNodes.length) {
+          throw new GraphFormatError(`Coordinate file is for ${count} nodes but the graph has ${rawNodes.length}`, at);
+        }
+        seenProblem = true;
+        break;
+      }
+      case 'v': {
+        if (!seenProblem) throw new GraphFormatError('Vertex before the "p aux sp co" problem line', at);
+        if (fields.length !== 4) throw new GraphFormatError('Expected "v <id> <x> <y>"', at);
+        const node = rawNodes[Number(parseNodeRef(fields[1], rawNodes.length, at)) - 1];
+        const x = Number(fields[2]);
+        const y = Number(fields[3]);
+        if (!Number.isFinite(x) || !Number.isFinite(y)) {
+          throw new GraphFormatError(`Invalid coordinates "${fields[2]} ${fields[3]}"`, at);
+        }
+        // Longitude/latitude: flip y so north is up on the canvas
+        node.x = x;
+        node.y = -y;
+        break;
+      }
+      default:
+        throw new GraphFormatError(`Unsupported line type "${fields[0]}" (expected c, p or v)`, at);
+    }
+  });
+
+  if (!seenProblem) {
+    throw new GraphFormatError('Missing "p aux sp co <nodes>" problem line', '.co');
+  }
+  if (rawNodes.every(n => n.x === undefined)) {
+    warnings.push('Coordinate file contains no vertices');
+  }
+}
+
+function forEachLine(
+  text: string,
+  file: string,
+  visit: (fields: string[], at: string) => void
+): void {
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const fields = lines[i].trim().split(/\s+/);
+    if (fields[0] === '' || fields[0] === 'c') continue;
+    visit(fields, `${file} line ${i + 1}`);
+  }
+}
+
+function parseInteger(text: string, what: string, at: string): number {
+  const value = Number(text);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new GraphFormatError(`Invalid ${what} "${text}"`, at);
+  }
+  return value;
+}
+
+function parseNodeRef(text: string, nodeCount: number, at: string): string {
+  const value = Number(text);
+  if (!Number.isInteger(value) || value < 1 || value > nodeCount) {
+    throw new GraphFormatError(`Node "${text}" is outside 1..${nodeCount}`, at);
+  }
+  return String(value);
+}
+
+// ============================================
+// WRITER
+// ============================================
+
+/**
+ * Write a graph as a .gr/.co pair. Node IDs are renumbered 1..n in
+ * insertion order; weights must be integers, as the format requires.
+ */
+export function writeDimacs(document: GraphDocument): { gr: string; co: string } {
+  const { graph } = document;
+  const numbering = new Map<string, number>();
+  for (const nodeId of graph.nodes.keys()) {
+    numbering.set(nodeId, numbering.size + 1);
+  }
+
+  const arcs: string[] = [];
+  for (const edge of graph.edges.values()) {
+    if (!Number.isInteger(edge.weight)) {
+      throw new GraphFormatError(
+        `DIMACS requires integer weights, but edge ${edge.source}–${edge.target} has weight ${edge.weight}`
+      );
+    }
+    const u = numbering.get(edge.source)!;
+    const v = numbering.get(edge.target)!;
+    arcs.push(`a ${u} ${v} ${edge.weight}`);
+    // An undirected self-loop is a single arc; its reverse would duplicate it
+    if (!isEdgeDirected(graph, edge) && edge.source !== edge.target) {
+      arcs.push(`a ${v} ${u} ${edge.weight}`);
+    }
+  }
+
+  const gr = [
+    `c Exported from ${APP_NAME}`,
+    `p sp ${graph.nodes.size} ${arcs.length}`,
+    ...arcs,
+  ];
+
+  const co = [
+    `c Exported from ${APP_NAME}`,
+    `p aux sp co ${graph.nodes.size}`,
+  ];
+  for (const [nodeId, node] of graph.nodes) {
+    co.push(`v ${numbering.get(nodeId)} ${Math.round(node.x)} ${Math.round(-node.y)}`);
+  }
+
+  return { gr: gr.join('\n') + '\n', co: co.join('\n') + '\n' };
+}
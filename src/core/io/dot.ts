@@ -0,0 +1,416 @@
+/**
+ * Graphviz DOT reader and writer
+ *
+ * Supports the subset of DOT that describes a flat weighted graph:
+ * `graph`/`digraph` (optionally `strict`), node and edge statements
+ * (including chains like `a -> b -> c`), `node`/`edge`/`graph` default
+ * attribute statements and `ID = ID` graph attributes.
+ *
+ * Attribute mapping:
+ *   node `pos="x,y"` → Node.x/y (Graphviz y points up, so it is flipped)
+ *   node `label`     → Node.label
+ *   edge `weight`    → Edge.weight (falls back to a numeric `label`, then 1)
+ *   edge `dir`       → Edge.directed for mixed graphs: `dir=none` makes an
+ *                      edge two-way in a digraph, `dir=forward`/`back` makes
+ *                      it one-way in a graph
+ *
+ * Subgraphs, clusters and anonymous `{ a b }` groups are rejected with the
+ * line they appear on; ports (`a:n`) are ignored with a warning.
+ */
+
+import { Edge, GraphDocument, GraphImportResult } from '../types';
+import { buildGraph, isEdgeDirected } from '../graph';
+import { GraphFormatError } from './errors';
+import { placeNodes, uniqueEdgeId, RawNode } from './build';
+
+// ============================================
+// TOKENIZER
+// ============================================
+
+type TokenKind = 'id' | 'punct' | 'edgeop' | 'eof';
+
+interface Token {
+  kind: TokenKind;
+  value: string;
+  line: number;
+  quoted?: boolean;
+}
+
+const KEYWORDS = new Set(['strict', 'graph', 'digraph', 'node', 'edge', 'subgraph']);
+
+// Numerals and unquoted identifiers; sticky so it matches at lastIndex only
+const ID_PATTERN = /-?(\.[0-9]+|[0-9]+(\.[0-9]*)?)|[A-Za-z_\u0080-\uffff][A-Za-z0-9_\u0080-\uffff]*/y;
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === '\n') {
+      line++;
+      i++;
+      continue;
+    }
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // Comments: //, /* */ and preprocessor-style # lines
+    if (ch === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+      continue;
+    }
+    if (ch === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      if (end === -1) throw new GraphFormatError('Unterminated /* comment', `line ${line}`);
+      for (let j = i; j < end; j++) if (text[j] === '\n') line++;
+      i = end + 2;
+      continue;
+    }
+    if (ch === '#' && (i === 0 || text[i - 1] === '\n')) {
+      while (i < text.length && text[i] !== '\n') i++;
+      continue;
+    }
+
+    if (ch === '-' && (text[i + 1] === '>' || text[i + 1] === '-')) {
+      tokens.push({ kind: 'edgeop', value: text.slice(i, i + 2), line });
+      i += 2;
+      continue;
+    }
+
+    if ('{}[];,=:'.includes(ch)) {
+      tokens.push({ kind: 'punct', value: ch, line });
+      i++;
+      continue;
+    }
+
+    if (ch === '"') {
+      const start = line;
+      let value = '';
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === '\\' && i + 1 < text.length) {
+          // Line continuation, otherwise only \" is an escape in DOT
+          if (text[i + 1] === '\n') {
+            line++;
+            i += 2;
+            continue;
+          }
+          if (text[i + 1] === '"') {
+            value += '"';
+            i += 2;
+            continue;
+          }
+        }
+        if (text[i] === '\n') line++;
+        value += text[i++];
+      }
+      if (i >= text.length) throw new GraphFormatError('Unterminated string', `line ${start}`);
+      i++;
+      // "a" + "b" concatenation
+      const last = tokens[tokens.length - 1];
+      if (last?.kind === 'punct' && last.value === '+') {
+        tokens.pop();
+        tokens[tokens.length - 1].value += value;
+      } else {
+        tokens.push({ kind: 'id', value, line: start, quoted: true });
+      }
+      continue;
+    }
+
+    if (ch === '+') {
+      tokens.push({ kind: 'punct', value: '+', line });
+      i++;
+      continue;
+    }
+
+    if (ch === '<') {
+      throw new GraphFormatError('HTML-like labels (<...>) are not supported', `line ${line}`);
+    }
+
+    ID_PATTERN.lastIndex = i;
+    const match = ID_PATTERN.exec(text);
+    if (!match) {
+      throw new GraphFormatError(`Unexpected character "${ch}"`, `line ${line}`);
+    }
+    tokens.push({ kind: 'id', value: match[0], line });
+    i += match[0].length;
+  }
+
+  tokens.push({ kind: 'eof', value: '', line });
+  return tokens;
+}
+
+// ============================================
+// PARSER
+// ============================================
+
+export function parseDot(text: string): GraphImportResult {
+  const tokens = tokenize(text);
+  const warnings: string[] = [];
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const at = (token: Token) => `line ${token.line}`;
+  const isKeyword = (token: Token, word: string) =>
+    token.kind === 'id' && !token.quoted && token.value.toLowerCase() === word;
+  const isPunct = (token: Token, value: string) => token.kind === 'punct' && token.value === value;
+
+  const expectPunct = (value: string) => {
+    const token = next();
+    if (!isPunct(token, value)) {
+      throw new GraphFormatError(`Expected "${value}", found ${describeToken(token)}`, at(token));
+    }
+  };
+
+  const expectId = (): Token => {
+    const token = next();
+    if (token.kind !== 'id' || (!token.quoted && KEYWORDS.has(token.value.toLowerCase()))) {
+      throw new GraphFormatError(`Expected an identifier, found ${describeToken(token)}`, at(token));
+    }
+    return token;
+  };
+
+  // Header
+  if (isKeyword(peek(), 'strict')) next();
+  const header = next();
+  let directed: boolean;
+  if (isKeyword(header, 'digraph')) {
+    directed = true;
+  } else if (isKeyword(header, 'graph')) {
+    directed = false;
+  } else {
+    throw new GraphFormatError(`Expected "graph" or "digraph", found ${describeToken(header)}`, at(header));
+  }
+  if (peek().kind === 'id') next();
+  expectPunct('{');
+
+  const nodes = new Map<string, RawNode>();
+  const pendingEdges: Array<{ source: string; target: string; attrs: Map<string, string>; line: number }> = [];
+  const edgeDefaults = new Map<string, string>();
+  let ignoredPorts = false;
+
+  const parseAttrList = (): Map<string, string> => {
+    const attrs = new Map<string, string>();
+    while (isPunct(peek(), '[')) {
+      next();
+      while (!isPunct(peek(), ']')) {
+        const key = expectId();
+        expectPunct('=');
+        const value = expectId();
+        attrs.set(key.value, value.value);
+        if (isPunct(peek(), ',') || isPunct(peek(), ';')) next();
+      }
+      expectPunct(']');
+    }
+    return attrs;
+  };
+
+  const parseNodeId = (): Token => {
+    const token = peek();
+    if (isKeyword(token, 'subgraph') || isPunct(token, '{')) {
+      throw new GraphFormatError('Subgraphs and { } node groups are not supported', at(token));
+    }
+    const id = expectId();
+    // Ports: a:port or a:port:compass
+    while (isPunct(peek(), ':')) {
+      next();
+      expectId();
+      ignoredPorts = true;
+    }
+    return id;
+  };
+
+  const ensureNode = (id: string): RawNode => {
+    let node = nodes.get(id);
+    if (!node) {
+      node = { id };
+      nodes.set(id, node);
+    }
+    return node;
+  };
+
+  while (!isPunct(peek(), '}')) {
+    const token = peek();
+    if (token.kind === 'eof') {
+      throw new GraphFormatError('Missing closing "}"', at(token));
+    }
+
+    if (isPunct(token, ';')) {
+      next();
+      continue;
+    }
+
+    if (isKeyword(token, 'graph') || isKeyword(token, 'node') || isKeyword(token, 'edge')) {
+      next();
+      const attrs = parseAttrList();
+      if (isKeyword(token, 'edge')) {
+        for (const [key, value] of attrs) edgeDefaults.set(key, value);
+      }
+      continue;
+    }
+
+    const first = parseNodeId();
+
+    // Graph attribute: ID = ID
+    if (isPunct(peek(), '=')) {
+      next();
+      expectId();
+      continue;
+    }
+
+    // Edge chain
+    if (peek().kind === 'edgeop') {
+      const chain = [first];
+      while (peek().kind === 'edgeop') {
+        const op = next();
+        if (op.value === '->' && !directed) {
+          throw new GraphFormatError('"->" used in an undirected graph', at(op));
+        }
+        if (op.value === '--' && directed) {
+          throw new GraphFormatError('"--" used in a directed graph', at(op));
+        }
+        chain.push(parseNodeId());
+      }
+      const attrs = new Map([...edgeDefaults, ...parseAttrList()]);
+      for (let i = 0; i < chain.length - 1; i++) {
+        ensureNode(chain[i].value);
+        ensureNode(chain[i + 1].value);
+        pendingEdges.push({
+          source: chain[i].value,
+          target: chain[i + 1].value,
+          attrs,
+          line: chain[i].line,
+        });
+      }
+      continue;
+    }
+
+    // Node statement
+    const node = ensureNode(first.value);
+    const attrs = parseAttrList();
+    const label = attrs.get('label');
+    if (label !== undefined && label !== '\\N') node.label = label;
+    const posText = attrs.get('pos');
+    if (posText !== undefined) {
+      const match = /^\s*(-?[\d.eE+-]+)\s*,\s*(-?[\d.eE+-]+)\s*!?\s*$/.exec(posText);
+      const x = match ? Number(match[1]) : NaN;
+      const y = match ? Number(match[2]) : NaN;
+      if (!Number.isFinite(x) || !Number.isFinite(y)) {
+        throw new GraphFormatError(`Invalid pos "${posText}" for node "${first.value}" (expected "x,y")`, at(first));
+      }
+      node.x = x;
+      node.y = -y;
+    }
+  }
+  next();
+
+  if (peek().kind !== 'eof') {
+    throw new GraphFormatError('Only one graph per file is supported', at(peek()));
+  }
+
+  if (ignoredPorts) {
+    warnings.push('Node ports (a:port) are not supported and were ignored');
+  }
+
+  const edgeIds = new Set<string>();
+  const edges: Edge[] = [];
+  let defaultedWeights = 0;
+
+  for (const pending of pendingEdges) {
+    let source = pending.source;
+    let target = pending.target;
+    let edgeDirected = directed;
+    const dir = pending.attrs.get('dir');
+    if (dir !== undefined) {
+      if (!['forward', 'back', 'both', 'none'].includes(dir)) {
+        throw new GraphFormatError(`Unknown dir "${dir}" (expected forward, back, both or none)`, `line ${pending.line}`);
+      }
+      if (dir === 'none') edgeDirected = false;
+      if (dir === 'forward') edgeDirected = true;
+      if (dir === 'back') {
+        edgeDirected = true;
+        [source, target] = [target, source];
+      }
+    }
+    
+    const weightText = pending.attrs.get('weight') ?? pending.attrs.get('label');
+    let weight = 1;
+    if (weightText === undefined) {
+      defaultedWeights++;
+    } else {
+      weight = Number(weightText);
+      if (weightText.trim() === '' || !Number.isFinite(weight)) {
+        throw new GraphFormatError(
+          `Edge ${pending.source} ${directed ? '->' : '--'} ${pending.target} has non-numeric weight "${weightText}"`,
+          `line ${pending.line}`
+        );
+      }
+    }
+
+    edges.push({
+      id: uniqueEdgeId(edgeIds, source, target),
+      source,
+      target,
+      weight,
+      directed: edgeDirected,
+    });
+  }
+
+  if (defaultedWeights > 0) {
+    warnings.push(`${defaultedWeights} edge(s) had no weight or numeric label; weight 1 was used`);
+  }
+
+  const graph = buildGraph(directed, placeNodes([...nodes.values()], warnings), edges);
+
+  return {
+    document: { graph, selection: { sourceId: null, targetId: null } },
+    warnings,
+  };
+}
+
+function describeToken(token: Token): string {
+  if (token.kind === 'eof') return 'end of file';
+  return `"${token.value}"`;
+}
+
+// ============================================
+// WRITER
+// ============================================
+
+export function writeDot(document: GraphDocument): string {
+  const { graph } = document;
+  const op = graph.directed ? '->' : '--';
+  const lines: string[] = [`${graph.directed ? 'digraph' : 'graph'} G {`];
+
+  for (const node of graph.nodes.values()) {
+    const attrs = [`pos="${node.x},${-node.y}"`];
+    if (node.label !== undefined) attrs.push(`label=${quoteId(node.label)}`);
+    lines.push(`  ${quoteId(node.id)} [${attrs.join(', ')}];`);
+  }
+
+  for (const edge of graph.edges.values()) {
+    const attrs = [`weight=${edge.weight}`, `label="${edge.weight}"`];
+    // Edges whose direction differs from the graph's (mixed graphs)
+    const edgeDirected = isEdgeDirected(graph, edge);
+    if (edgeDirected !== graph.directed) {
+      attrs.push(edgeDirected ? 'dir=forward' : 'dir=none');
+    }
+    lines.push(`  ${quoteId(edge.source)} ${op} ${quoteId(edge.target)} [${attrs.join(', ')}];`);
+  }
+
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+function quoteId(id: string): string {
+  if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(id) && !KEYWORDS.has(id.toLowerCase())) {
+    return id;
+  }
+  return `"${id.replace(/"/g, '\\"')}"`;
+}
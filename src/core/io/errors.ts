@@ -0,0 +1,17 @@
+/**
+ * Errors raised while reading graph files
+ */
+
+export class GraphFormatError extends Error {
+  /**
+   * Where in the input the problem was found, e.g. `edges[3].weight`
+   * for JSON or `line 12` for text formats.
+   */
+  readonly location?: string;
+
+  constructor(message: string, location?: string) {
+    super(location ? `${location}: ${message}` : message);
+    this.name = 'GraphFormatError';
+    this.location = location;
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Format detection and dispatch for graph files
+ * Maps file extensions to readers and writers
+ */
+
+import { GraphDocument, GraphImportResult } from '../types';
+import { APP_NAME } from '../app';
+import { GraphFormatError } from './errors';
+import { parseGraphJson, stringifyGraph } from './json';
+import { parseDot, writeDot } from './dot';
+import { parseGraphML, writeGraphML } from './graphml';
+import { parseDimacs, writeDimacs } from './dimacs';
+
+export type GraphFileFormat = 'json' | 'dot' | 'graphml' | 'dimacs';
+
+export const GRAPH_FILE_FORMATS: Record<GraphFileFormat, { label: string; extensions: string[] }> = {
+  json: { label: `${APP_NAME} JSON`, extensions: ['.json'] },
+  dot: { label: 'Graphviz DOT', extensions: ['.dot', '.gv'] },
+  graphml: { label: 'GraphML', extensions: ['.graphml', '.xml'] },
+  dimacs: { label: 'DIMACS (.gr + .co)', extensions: ['.gr', '.co'] },
+};
+
+// Value for an <input type="file"> accept attribute
+export const GRAPH_FILE_ACCEPT = Object.values(GRAPH_FILE_FORMATS)
+  .flatMap(f => f.extensions)
+  .join(',');
+
+export interface TextFile {
+  name: string;
+  content: string;
+  mimeType?: string;
+}
+
+function extensionOf(name: string): string {
+  const dot = name.lastIndexOf('.');
+  return dot === -1 ? '' : name.slice(dot).toLowerCase();
+}
+
+/**
+ * Read one graph from the selected files. DIMACS needs a .gr file and
+ * optionally its .co companion; every other format is a single file.
+ */
+export function importGraphFiles(files: TextFile[]): GraphImportResult {
+  if (files.length === 0) {
+    throw new GraphFormatError('No file selected');
+  }
+
+  const gr = files.filter(f => extensionOf(f.name) === '.gr');
+  const co = files.filter(f => extensionOf(f.name) === '.co');
+
+  if (gr.length > 0 || co.length > 0) {
+    if (gr.length !== 1 || co.length > 1 || gr.length + co.length !== files.length) {
+      throw new GraphFormatError('Select one DIMACS .gr file, optionally with its .co coordinate file');
+    }
+    return parseDimacs(gr[0].content, co[0]?.content);
+  }
+
+  if (files.length > 1) {
+    throw new GraphFormatError('Select a single graph file (only DIMACS uses a .gr/.co pair)');
+  }
+
+  const [file] = files;
+  const ext = extensionOf(file.name);
+
+  if (GRAPH_FILE_FORMATS.json.extensions.includes(ext)) {
+    return { document: parseGraphJson(file.content), warnings: [] };
+  }
+  if (GRAPH_FILE_FORMATS.dot.extensions.includes(ext)) {
+    return parseDot(file.content);
+  }
+  if (GRAPH_FILE_FORMATS.graphml.extensions.includes(ext)) {
+    return parseGraphML(file.content);
+  }
+
+  throw new GraphFormatError(
+    `Unrecognized file type "${ext || file.name}" (supported: ${GRAPH_FILE_ACCEPT.split(',').join(' ')})`
+  );
+}
+
+export function exportGraphFiles(format: GraphFileFormat, document: GraphDocument, baseName = 'graph'): TextFile[] {
+  switch (format) {
+    case 'json':
+      return [{ name: `${baseName}.json`, content: stringifyGraph(document), mimeType: 'application/json' }];
+    case 'dot':
+      return [{ name: `${baseName}.dot`, content: writeDot(document), mimeType: 'text/vnd.graphviz' }];
+    case 'graphml':
+      return [{ name: `${baseName}.graphml`, content: writeGraphML(document), mimeType: 'application/xml' }];
+    case 'dimacs': {
+      const { gr, co } = writeDimacs(document);
+      return [
+        { name: `${baseName}.gr`, content: gr },
+        { name: `${baseName}.co`, content: co },
+      ];
+    }
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * GraphML reader and writer
+ *
+ * Reads the first <graph> of a GraphML document. Node positions and labels
+ * come from <data> values whose <key attr.name> is `x`, `y` and `label`
+ * (case-insensitive), or from yEd's <y:Geometry>/<y:NodeLabel> elements.
+ * Edge weights come from a key named `weight`; edges without one get 1.
+ *
+ * Hyperedges, nested graphs and ports are rejected or ignored with a
+ * diagnostic. Parsing uses the browser's DOMParser.
+ */
+
+import { Edge, GraphDocument, GraphImportResult } from '../types';
+import { buildGraph, isEdgeDirected } from '../graph';
+import { GraphFormatError } from './errors';
+import { placeNodes, uniqueEdgeId, RawNode } from './build';
+
+const GRAPHML_NS = 'http://graphml.graphdrawing.org/xmlns';
+
+interface KeyDef {
+  name: string;
+  defaultValue?: string;
+}
+
+// ============================================
+// PARSER
+// ============================================
+
+export function parseGraphML(text: string): GraphImportResult {
+  const xml = new DOMParser().parseFromString(text, 'application/xml');
+  const parseError = xml.getElementsByTagName('parsererror')[0];
+  if (parseError) {
+    throw new GraphFormatError(`Invalid XML (${parseError.textContent?.trim().split('\n')[0] ?? 'parse error'})`);
+  }
+
+  const root = xml.documentElement;
+  if (root.localName !== 'graphml') {
+    throw new GraphFormatError(`Expected a <graphml> root element, found <${root.localName}>`);
+  }
+
+  const warnings: string[] = [];
+
+  // <key> declarations, split by domain
+  const nodeKeys = new Map<string, KeyDef>();
+  const edgeKeys = new Map<string, KeyDef>();
+  for (const key of childElements(root, 'key')) {
+    const id = key.getAttribute('id');
+    if (!id) throw new GraphFormatError('<key> without an id attribute');
+    const def: KeyDef = {
+      name: (key.getAttribute('attr.name') ?? id).toLowerCase(),
+      defaultValue: childElements(key, 'default')[0]?.textContent ?? undefined,
+    };
+    const domain = key.getAttribute('for') ?? 'all';
+    if (domain === 'node' || domain === 'all') nodeKeys.set(id, def);
+    if (domain === 'edge' || domain === 'all') edgeKeys.set(id, def);
+  }
+
+  const graphs = childElements(root, 'graph');
+  if (graphs.length === 0) {
+    throw new GraphFormatError('No <graph> element found');
+  }
+  if (graphs.length > 1) {
+    warnings.push(`File contains ${graphs.length} graphs; only the first was imported`);
+  }
+  const graphEl = graphs[0];
+  const directed = graphEl.getAttribute('edgedefault') === 'directed';
+
+  if (childElements(graphEl, 'hyperedge').length > 0) {
+    throw new GraphFormatError('<hyperedge> elements are not supported');
+  }
+
+  const nodes = new Map<string, RawNode>();
+  for (const nodeEl of childElements(graphEl, 'node')) {
+    const id = nodeEl.getAttribute('id');
+    if (!id) throw new GraphFormatError('<node> without an id attribute');
+    if (nodes.has(id)) throw new GraphFormatError(`Duplicate node id "${id}"`);
+    if (childElements(nodeEl, 'graph').length > 0) {
+      throw new GraphFormatError(`Node "${id}" contains a nested graph, which is not supported`);
+    }
+    if (childElements(nodeEl, 'port').length > 0) {
+      warnings.push(`Ports on node "${id}" were ignored`);
+    }
+
+    const data = readData(nodeEl, nodeKeys);
+    const node: RawNode = { id };
+
+    // yEd stores geometry and labels inside <data> as y:ShapeNode children
+    const geometry = nodeEl.getElementsByTagNameNS('*', 'Geometry')[0];
+    const yLabel = nodeEl.getElementsByTagNameNS('*', 'NodeLabel')[0];
+
+    const x = data.get('x') ?? geometry?.getAttribute('x') ?? undefined;
+    const y = data.get('y') ?? geometry?.getAttribute('y') ?? undefined;
+    if (x !== undefined && y !== undefined) {
+      node.x = parseNumber(x, `x of node "${id}"`);
+      node.y = parseNumber(y, `y of node "${id}"`);
+    }
+
+    const label = data.get('label') ?? yLabel?.textContent?.trim();
+    if (label) node.label = label;
+
+    nodes.set(id, node);
+  }
+
+  const edgeIds = new Set<string>();
+  const edges: Edge[] = [];
+  let defaultedWeights = 0;
+
+  for (const edgeEl of childElements(graphEl, 'edge')) {
+    const source = edgeEl.getAttribute('source');
+    const target = edgeEl.getAttribute('target');
+    if (!source || !target) {
+      throw new GraphFormatError('<edge> is missing a source or target attribute');
+    }
+    for (const end of [source, target]) {
+      if (!nodes.has(end)) {
+        throw new GraphFormatError(`Edge ${source} → ${target} references unknown node "${end}"`);
+      }
+    }
+    if (edgeEl.hasAttribute('sourceport') || edgeEl.hasAttribute('targetport')) {
+      warnings.push(`Ports on edge ${source} → ${target} were ignored`);
+    }
+
+    const data = readData(edgeEl, edgeKeys);
+    const weightText = data.get('weight');
+    let weight = 1;
+    if (weightText === undefined) {
+      defaultedWeights++;
+    } else {
+      weight = parseNumber(weightText, `weight of edge ${source} → ${target}`);
+    }
+
+    const requestedId = edgeEl.getAttribute('id');
+    const id = requestedId && !edgeIds.has(requestedId)
+      ? requestedId
+      : uniqueEdgeId(edgeIds, source, target);
+    edgeIds.add(id);
+
+    const edgeDirected = edgeEl.getAttribute('directed');
+    edges.push({
+      id,
+      source,
+      target,
+      weight,
+      ...(edgeDirected !== null && { directed: edgeDirected === 'true' }),
+    });
+  }
+
+  if (defaultedWeights > 0) {
+    warnings.push(`${defaultedWeights} edge(s) had no weight; weight 1 was used`);
+  }
+
+  const graph = buildGraph(directed, placeNodes([...nodes.values()], warnings), edges);
+
+  return {
+    document: { graph, selection: { sourceId: null, targetId: null } },
+    warnings,
+  };
+}
+
+function childElements(parent: Element, localName: string): Element[] {
+  return Array.from(parent.children).filter(el => el.localName === localName);
+}
+
+function readData(el: Element, keys: Map<string, KeyDef>): Map<string, string> {
+  const values = new Map<string, string>();
+  for (const def of keys.values()) {
+    if (def.defaultValue !== undefined) values.set(def.name, def.defaultValue);
+  }
+  for (const dataEl of childElements(el, 'data')) {
+    const def = keys.get(dataEl.getAttribute('key') ?? '');
+    // Data with child elements (e.g. yEd graphics) is not a plain value
+    if (def && dataEl.children.length === 0) {
+      values.set(def.name, dataEl.textContent?.trim() ?? '');
+    }
+  }
+  return values;
+}
+
+function parseNumber(text: string, what: string): number {
+  const value = Number(text);
+  if (text.trim() === '' || !Number.isFinite(value)) {
+    throw new GraphFormatError(`Invalid number "${text}" for ${what}`);
+  }
+  return value;
+}
+
+// ============================================
+// WRITER
+// ============================================
+
+export function writeGraphML(document: GraphDocument): string {
+  const { graph } = document;
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<graphml xmlns="${GRAPHML_NS}">`,
+    '  <key id="x" for="node" attr.name="x" attr.type="double"/>',
+    '  <key id="y" for="node" attr.name="y" attr.type="double"/>',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="weight" for="edge" attr.name="weight" attr.type="double"/>',
+    `  <graph id="G" edgedefault="${graph.directed ? 'directed' : 'undirected'}">`,
+  ];
+
+  for (const node of graph.nodes.values()) {
+    lines.push(`    <node id="${escapeXml(node.id)}">`);
+    lines.push(`      <data key="x">${node.x}</data>`);
+    lines.push(`      <data key="y">${node.y}</data>`);
+    if (node.label !== undefined) {
+      lines.push(`      <data key="label">${escapeXml(node.label)}</data>`);
+    }
+    lines.push('    </node>');
+  }
+
+  for (const edge of graph.edges.values()) {
+    const edgeDirected = isEdgeDirected(graph, edge);
+    const directedAttr = edgeDirected !== graph.directed ? ` directed="${edgeDirected}"` : '';
+    lines.push(`    <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}"${directedAttr}>`);
+    lines.push(`      <data key="weight">${edge.weight}</data>`);
+    lines.push('    </edge>');
+  }
+
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n') + '\n';
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
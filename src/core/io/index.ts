@@ -0,0 +1,20 @@
+/**
+ * Graph file format exports
+ * Central point for reading and writing graphs
+ */
+
+export { GraphFormatError } from './errors';
+export {
+  GRAPH_FORMAT_ID,
+  GRAPH_FORMAT_VERSION,
+  serializeGraph,
+  stringifyGraph,
+  parseGraphJson,
+  deserializeGraph,
+} from './json';
+export type { SerializedGraph, SerializedNode, SerializedEdge } from './json';
+export { parseDot, writeDot } from './dot';
+export { parseGraphML, writeGraphML } from './graphml';
+export { parseDimacs, writeDimacs } from './dimacs';
+export { GRAPH_FILE_FORMATS, GRAPH_FILE_ACCEPT, importGraphFiles, exportGraphFiles } from './files';
+export type { GraphFileFormat, TextFile } from './files';
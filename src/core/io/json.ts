@@ -0,0 +1,262 @@
+/**
+ * Versioned JSON format for graphs
+ *
+ * `Graph` keeps its nodes, edges and adjacency in `Map`/`Set` fields, which
+ * JSON.stringify cannot represent. This module defines a plain document shape
+ * for saving a graph (plus the current source/target selection) and a
+ * validating parser that rebuilds the graph through createGraph/addNode/addEdge.
+ *
+ * Schema (version 1):
+ *
+ *   {
+ *     "format": "path-weaver-graph",
+ *     "version": 1,
+ *     "directed": false,
+ *     "nodes": [{ "id": "A", "x": 100, "y": 200, "label": "A" }],
+ *     "edges": [{ "id": "AB", "source": "A", "target": "B", "weight": 4 }],
+ *     "selection": { "sourceId": "A", "targetId": "F" }
+ *   }
+ *
+ * `label`, `edges[].directed` and `selection` are optional. Node and edge IDs
+ * must be unique, edges must reference existing nodes and all numbers must be
+ * finite. Bump GRAPH_FORMAT_VERSION whenever the shape changes and teach
+ * parseGraphJson to read the older versions.
+ */
+
+import { Graph, GraphDocument } from '../types';
+import { createGraph, addNode, addEdge } from '../graph';
+import { GraphFormatError } from './errors';
+
+// ============================================
+// SCHEMA
+// ============================================
+
+export const GRAPH_FORMAT_ID = 'path-weaver-graph';
+export const GRAPH_FORMAT_VERSION = 1;
+
+export interface SerializedNode {
+  id: string;
+  x: number;
+  y: number;
+  label?: string;
+}
+
+export interface SerializedEdge {
+  id: string;
+  source: string;
+  target: string;
+  weight: number;
+  directed?: boolean;
+}
+
+export interface SerializedGraph {
+  format: typeof GRAPH_FORMAT_ID;
+  version: number;
+  directed: boolean;
+  nodes: SerializedNode[];
+  edges: SerializedEdge[];
+  selection?: {
+    sourceId: string | null;
+    targetId: string | null;
+  };
+}
+
+// ============================================
+// WRITER
+// ============================================
+
+export function serializeGraph(document: GraphDocument): SerializedGraph {
+  const { graph, selection } = document;
+
+  const nodes: SerializedNode[] = [];
+  for (const node of graph.nodes.values()) {
+    nodes.push({
+      id: node.id,
+      x: node.x,
+      y: node.y,
+      ...(node.label !== undefined && { label: node.label }),
+    });
+  }
+
+  const edges: SerializedEdge[] = [];
+  for (const edge of graph.edges.values()) {
+    edges.push({
+      id: edge.id,
+      source: edge.source,
+      target: edge.target,
+      weight: edge.weight,
+      ...(edge.directed !== undefined && { directed: edge.directed }),
+    });
+  }
+
+  return {
+    format: GRAPH_FORMAT_ID,
+    version: GRAPH_FORMAT_VERSION,
+    directed: graph.directed,
+    nodes,
+    edges,
+    selection: {
+      sourceId: selection.sourceId,
+      targetId: selection.targetId,
+    },
+  };
+}
+
+export function stringifyGraph(document: GraphDocument): string {
+  return JSON.stringify(serializeGraph(document), null, 2);
+}
+
+// ============================================
+// PARSER
+// ============================================
+
+export function parseGraphJson(text: string): GraphDocument {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    throw new GraphFormatError(`Invalid JSON (${(err as Error).message})`);
+  }
+  return deserializeGraph(data);
+}
+
+export function deserializeGraph(data: unknown): GraphDocument {
+  const root = expectObject(data, '$');
+
+  if (root.format !== GRAPH_FORMAT_ID) {
+    throw new GraphFormatError(`Expected "${GRAPH_FORMAT_ID}", got ${describe(root.format)}`, 'format');
+  }
+
+  const version = expectInteger(root.version, 'version');
+  if (version < 1 || version > GRAPH_FORMAT_VERSION) {
+    throw new GraphFormatError(
+      `Unsupported version ${version} (this build reads versions 1 to ${GRAPH_FORMAT_VERSION})`,
+      'version'
+    );
+  }
+
+  const directed = expectBoolean(root.directed, 'directed');
+  let graph: Graph = createGraph(directed);
+
+  const rawNodes = expectArray(root.nodes, 'nodes');
+  rawNodes.forEach((raw, i) => {
+    const path = `nodes[${i}]`;
+    const node = expectObject(raw, path);
+    const id = expectId(node.id, `${path}.id`);
+    if (graph.nodes.has(id)) {
+      throw new GraphFormatError(`Duplicate node id "${id}"`, `${path}.id`);
+    }
+
+    graph = addNode(graph, {
+      id,
+      x: expectNumber(node.x, `${path}.x`),
+      y: expectNumber(node.y, `${path}.y`),
+      ...(node.label !== undefined && { label: expectString(node.label, `${path}.label`) }),
+    });
+  });
+
+  const rawEdges = expectArray(root.edges, 'edges');
+  rawEdges.forEach((raw, i) => {
+    const path = `edges[${i}]`;
+    const edge = expectObject(raw, path);
+    const id = expectId(edge.id, `${path}.id`);
+    if (graph.edges.has(id)) {
+      throw new GraphFormatError(`Duplicate edge id "${id}"`, `${path}.id`);
+    }
+
+    const source = expectNodeRef(graph, edge.source, `${path}.source`);
+    const target = expectNodeRef(graph, edge.target, `${path}.target`);
+
+    graph = addEdge(graph, {
+      id,
+      source,
+      target,
+      weight: expectNumber(edge.weight, `${path}.weight`),
+      ...(edge.directed !== undefined && { directed: expectBoolean(edge.directed, `${path}.directed`) }),
+    });
+  });
+
+  let sourceId: string | null = null;
+  let targetId: string | null = null;
+  if (root.selection !== undefined) {
+    const selection = expectObject(root.selection, 'selection');
+    if (selection.sourceId != null) {
+      sourceId = expectNodeRef(graph, selection.sourceId, 'selection.sourceId');
+    }
+    if (selection.targetId != null) {
+      targetId = expectNodeRef(graph, selection.targetId, 'selection.targetId');
+    }
+  }
+
+  return { graph, selection: { sourceId, targetId } };
+}
+
+// ============================================
+// VALIDATION HELPERS
+// ============================================
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `"${value}"`;
+  return typeof value === 'object' ? 'an object' : String(value);
+}
+
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new GraphFormatError(`Expected an object, got ${describe(value)}`, path);
+  }
+  return value as Record<string, unknown>;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new GraphFormatError(`Expected an array, got ${describe(value)}`, path);
+  }
+  return value;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string') {
+    throw new GraphFormatError(`Expected a string, got ${describe(value)}`, path);
+  }
+  return value;
+}
+
+function expectId(value: unknown, path: string): string {
+  const id = expectString(value, path);
+  if (id.length === 0) {
+    throw new GraphFormatError('IDs must not be empty', path);
+  }
+  return id;
+}
+
+function expectNumber(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new GraphFormatError(`Expected a finite number, got ${describe(value)}`, path);
+  }
+  return value;
+}
+
+function expectInteger(value: unknown, path: string): number {
+  const n = expectNumber(value, path);
+  if (!Number.isInteger(n)) {
+    throw new GraphFormatError(`Expected an integer, got ${n}`, path);
+  }
+  return n;
+}
+
+function expectBoolean(value: unknown, path: string): boolean {
+  if (typeof value !== 'boolean') {
+    throw new GraphFormatError(`Expected true or false, got ${describe(value)}`, path);
+  }
+  return value;
+}
+
+function expectNodeRef(graph: Graph, value: unknown, path: string): string {
+  const id = expectId(value, path);
+  if (!graph.nodes.has(id)) {
+    throw new GraphFormatError(`References unknown node "${id}"`, path);
+  }
+  return id;
+}
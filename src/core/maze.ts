@@ -0,0 +1,357 @@
+/**
+ * Maze generators for grid mode - Step-by-Step Generators
+ *
+ * Mazes use the usual "rooms and walls" layout: cells at even (row, col)
+ * are rooms, the cells between two rooms are the walls that may be carved
+ * away, and cells at odd (row, col) are always walls. Each generator
+ * yields a snapshot after every change so the construction can be played
+ * back like an algorithm run; the same seed always gives the same maze.
+ */
+
+import { Grid, GridCell, cellId } from './grid';
+import { Rng, createRng, shuffle } from './random';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type MazeAlgorithm = 'backtracker' | 'prim' | 'kruskal' | 'division' | 'wilson';
+
+export const MAZE_ALGORITHMS: Record<MazeAlgorithm, { label: string; description: string }> = {
+  backtracker: {
+    label: 'Recursive backtracker',
+    description: 'Depth-first carving: long winding corridors with few branches.',
+  },
+  prim: {
+    label: "Randomized Prim's",
+    description: 'Grows outward from one room through random frontier walls: many short dead ends.',
+  },
+  kruskal: {
+    label: "Randomized Kruskal's",
+    description: 'Removes random walls between rooms that are not yet connected.',
+  },
+  division: {
+    label: 'Recursive division',
+    description: 'Splits open space with walls that each leave one gap: long straight walls.',
+  },
+  wilson: {
+    label: "Wilson's",
+    description: 'Loop-erased random walks: an unbiased sample of all possible mazes.',
+  },
+};
+
+export interface MazeStep {
+  grid: Grid;
+  highlight: string[]; // Cell IDs the generator is working on
+  explanation: string;
+}
+
+interface Room {
+  row: number; // Room coordinates; the cell is (2 * row, 2 * col)
+  col: number;
+}
+
+const DIRECTIONS: Array<[number, number]> = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+
+// ============================================
+// MAZE CANVAS
+// ============================================
+
+/**
+ * Mutable cell buffer shared by the generators. Every snapshot copies the
+ * cells, so yielded steps never change afterwards.
+ */
+class MazeCanvas {
+  readonly roomRows: number;
+  readonly roomCols: number;
+  private cells: GridCell[];
+
+  constructor(readonly rows: number, readonly cols: number, fill: GridCell) {
+    this.roomRows = Math.ceil(rows / 2);
+    this.roomCols = Math.ceil(cols / 2);
+    this.cells = new Array<GridCell>(rows * cols).fill(fill);
+  }
+
+  set(row: number, col: number, cell: GridCell): void {
+    this.cells[row * this.cols + col] = cell;
+  }
+
+  openRoom(room: Room): void {
+    this.set(room.row * 2, room.col * 2, 'open');
+  }
+
+  // Open the wall cell between two adjacent rooms, and both rooms
+  carve(a: Room, b: Room): void {
+    this.openRoom(a);
+    this.openRoom(b);
+    this.set(a.row + b.row, a.col + b.col, 'open');
+  }
+
+  neighbors(room: Room): Room[] {
+    return DIRECTIONS
+      .map(([dr, dc]) => ({ row: room.row + dr, col: room.col + dc }))
+      .filter(r => r.row >= 0 && r.row < this.roomRows && r.col >= 0 && r.col < this.roomCols);
+  }
+
+  allRooms(): Room[] {
+    const rooms: Room[] = [];
+    for (let row = 0; row < this.roomRows; row++) {
+      for (let col = 0; col < this.roomCols; col++) {
+        rooms.push({ row, col });
+      }
+    }
+    return rooms;
+  }
+
+  snapshot(highlight: string[], explanation: string): MazeStep {
+    return {
+      grid: { rows: this.rows, cols: this.cols, cells: [...this.cells] },
+      highlight,
+      explanation,
+    };
+  }
+}
+
+function roomKey(room: Room): number {
+  return room.row * 100000 + room.col;
+}
+
+function roomCell(room: Room): string {
+  return cellId(room.row * 2, room.col * 2);
+}
+
+function wallCell(a: Room, b: Room): string {
+  return cellId(a.row + b.row, a.col + b.col);
+}
+
+function pick<T>(rng: Rng, items: T[]): T {
+  return items[Math.floor(rng() * items.length)];
+}
+
+// ============================================
+// STEP GENERATORS
+// ============================================
+
+export function* generateMazeSteps(
+  algorithm: MazeAlgorithm,
+  rows: number,
+  cols: number,
+  seed: number
+): Generator<MazeStep, void, unknown> {
+  const rng = createRng(seed);
+  switch (algorithm) {
+    case 'backtracker': yield* backtracker(rng, rows, cols); break;
+    case 'prim': yield* prim(rng, rows, cols); break;
+    case 'kruskal': yield* kruskal(rng, rows, cols); break;
+    case 'division': yield* division(rng, rows, cols); break;
+    case 'wilson': yield* wilson(rng, rows, cols); break;
+  }
+}
+
+// Run a generator to completion and keep only the finished maze
+export function generateMaze(algorithm: MazeAlgorithm, rows: number, cols: number, seed: number): Grid {
+  let last: MazeStep | null = null;
+  for (const step of generateMazeSteps(algorithm, rows, cols, seed)) {
+    last = step;
+  }
+  return last!.grid;
+}
+
+// Opposite corner rooms, the natural start and goal of a maze
+export function mazeEndpoints(rows: number, cols: number): { sourceId: string; targetId: string } {
+  return {
+    sourceId: roomCell({ row: 0, col: 0 }),
+    targetId: roomCell({ row: Math.ceil(rows / 2) - 1, col: Math.ceil(cols / 2) - 1 }),
+  };
+}
+
+function* backtracker(rng: Rng, rows: number, cols: number): Generator<MazeStep> {
+  const canvas = new MazeCanvas(rows, cols, 'wall');
+  const visited = new Set<number>();
+  const start: Room = { row: 0, col: 0 };
+  const stack: Room[] = [start];
+  visited.add(roomKey(start));
+  canvas.openRoom(start);
+  yield canvas.snapshot([roomCell(start)], 'Start in the top-left room and walk depth-first.');
+
+  while (stack.length > 0) {
+    const current = stack[stack.length - 1];
+    const unvisited = canvas.neighbors(current).filter(r => !visited.has(roomKey(r)));
+
+    if (unvisited.length === 0) {
+      stack.pop();
+      const previous = stack[stack.length - 1];
+      if (previous) {
+        yield canvas.snapshot([roomCell(previous)], 'Dead end: backtrack to the previous room.');
+      }
+      continue;
+    }
+
+    const next = pick(rng, unvisited);
+    visited.add(roomKey(next));
+    canvas.carve(current, next);
+    stack.push(next);
+    yield canvas.snapshot([roomCell(next)], 'Carve into a random unvisited neighbour.');
+  }
+
+  yield canvas.snapshot([], 'Every room has been visited: the maze is complete.');
+}
+
+function* prim(rng: Rng, rows: number, cols: number): Generator<MazeStep> {
+  const canvas = new MazeCanvas(rows, cols, 'wall');
+  const visited = new Set<number>();
+  const frontier: Array<[Room, Room]> = [];
+
+  const visit = (room: Room) => {
+    visited.add(roomKey(room));
+    canvas.openRoom(room);
+    for (const next of canvas.neighbors(room)) {
+      if (!visited.has(roomKey(next))) frontier.push([room, next]);
+    }
+  };
+
+  const start = pick(rng, canvas.allRooms());
+  visit(start);
+  yield canvas.snapshot([roomCell(start)], 'Start from a random room; its walls form the frontier.');
+
+  while (frontier.length > 0) {
+    // Swap-remove a random frontier wall
+    const index = Math.floor(rng() * frontier.length);
+    const [from, to] = frontier[index];
+    frontier[index] = frontier[frontier.length - 1];
+    frontier.pop();
+
+    if (visited.has(roomKey(to))) continue; // Both sides already in the maze
+    canvas.carve(from, to);
+    visit(to);
+    yield canvas.snapshot([wallCell(from, to), roomCell(to)], 'Open a random frontier wall into a new room.');
+  }
+
+  yield canvas.snapshot([], 'The frontier is empty: the maze is complete.');
+}
+
+function* kruskal(rng: Rng, rows: number, cols: number): Generator<MazeStep> {
+  const canvas = new MazeCanvas(rows, cols, 'wall');
+  const rooms = canvas.allRooms();
+  rooms.forEach(room => canvas.openRoom(room));
+
+  const parent = new Map<number, number>(rooms.map(r => [roomKey(r), roomKey(r)]));
+  const find = (key: number): number => {
+    while (parent.get(key) !== key) {
+      const up = parent.get(parent.get(key)!)!;
+      parent.set(key, up);
+      key = up;
+    }
+    return key;
+  };
+
+  const walls: Array<[Room, Room]> = [];
+  for (const room of rooms) {
+    if (room.row + 1 < canvas.roomRows) walls.push([room, { row: room.row + 1, col: room.col }]);
+    if (room.col + 1 < canvas.roomCols) walls.push([room, { row: room.row, col: room.col + 1 }]);
+  }
+  shuffle(rng, walls);
+  yield canvas.snapshot([], 'Every room starts as its own set; walls are tried in random order.');
+
+  for (const [a, b] of walls) {
+    const rootA = find(roomKey(a));
+    const rootB = find(roomKey(b));
+    if (rootA === rootB) continue; // Would create a loop
+    parent.set(rootA, rootB);
+    canvas.carve(a, b);
+    yield canvas.snapshot([wallCell(a, b)], 'The rooms on each side are not connected yet: remove the wall and merge their sets.');
+  }
+
+  yield canvas.snapshot([], 'All rooms are in one set: the maze is complete.');
+}
+
+function* division(rng: Rng, rows: number, cols: number): Generator<MazeStep> {
+  const canvas = new MazeCanvas(rows, cols, 'open');
+  // Odd-odd cells are never passable in this layout
+  for (let row = 1; row < rows; row += 2) {
+    for (let col = 1; col < cols; col += 2) {
+      canvas.set(row, col, 'wall');
+    }
+  }
+  yield canvas.snapshot([], 'Start from an open chamber.');
+
+  // Chambers are inclusive room ranges, processed depth-first
+  const chambers: Array<[number, number, number, number]> = [[0, 0, canvas.roomRows - 1, canvas.roomCols - 1]];
+
+  while (chambers.length > 0) {
+    const [r0, c0, r1, c1] = chambers.pop()!;
+    const height = r1 - r0 + 1;
+    const width = c1 - c0 + 1;
+    if (height < 2 && width < 2) continue;
+
+    const horizontal = height > width || (height === width && rng() < 0.5);
+    const highlight: string[] = [];
+
+    if (horizontal) {
+      // Wall below room row k, with one gap
+      const k = r0 + Math.floor(rng() * (height - 1));
+      const gap = c0 + Math.floor(rng() * width);
+      for (let c = c0; c <= c1; c++) {
+        if (c === gap) continue;
+        canvas.set(2 * k + 1, 2 * c, 'wall');
+        highlight.push(cellId(2 * k + 1, 2 * c));
+      }
+      yield canvas.snapshot(highlight, 'Divide the chamber with a horizontal wall, leaving one gap.');
+      chambers.push([k + 1, c0, r1, c1], [r0, c0, k, c1]);
+    } else {
+      const k = c0 + Math.floor(rng() * (width - 1));
+      const gap = r0 + Math.floor(rng() * height);
+      for (let r = r0; r <= r1; r++) {
+        if (r === gap) continue;
+        canvas.set(2 * r, 2 * k + 1, 'wall');
+        highlight.push(cellId(2 * r, 2 * k + 1));
+      }
+      yield canvas.snapshot(highlight, 'Divide the chamber with a vertical wall, leaving one gap.');
+      chambers.push([r0, k + 1, r1, c1], [r0, c0, r1, k]);
+    }
+  }
+
+  yield canvas.snapshot([], 'No chamber can be divided further: the maze is complete.');
+}
+
+function* wilson(rng: Rng, rows: number, cols: number): Generator<MazeStep> {
+  const canvas = new MazeCanvas(rows, cols, 'wall');
+  const rooms = canvas.allRooms();
+  const inMaze = new Set<number>();
+
+  const first = pick(rng, rooms);
+  inMaze.add(roomKey(first));
+  canvas.openRoom(first);
+  yield canvas.snapshot([roomCell(first)], 'Add one random room to the maze.');
+
+  for (const start of shuffle(rng, [...rooms])) {
+    if (inMaze.has(roomKey(start))) continue;
+
+    // Random walk until the maze is hit; overwriting the exit direction
+    // of a revisited room erases the loop that was just made
+    const exit = new Map<number, Room>();
+    let current = start;
+    while (!inMaze.has(roomKey(current))) {
+      const next = pick(rng, canvas.neighbors(current));
+      exit.set(roomKey(current), next);
+      current = next;
+
+      // The latest exits lead from the start to the walker without loops
+      const walk: string[] = [];
+      for (let r = start; walk.length <= exit.size; r = exit.get(roomKey(r))!) {
+        walk.push(roomCell(r));
+        if (roomKey(r) === roomKey(current)) break;
+      }
+      yield canvas.snapshot(walk, 'Random walk from a room outside the maze until it reaches the maze.');
+    }
+
+    // Carve the loop-erased path into the maze
+    for (let r = start; !inMaze.has(roomKey(r)); r = exit.get(roomKey(r))!) {
+      inMaze.add(roomKey(r));
+      canvas.carve(r, exit.get(roomKey(r))!);
+    }
+    yield canvas.snapshot([roomCell(start)], 'The walk hit the maze: carve its loop-erased path.');
+  }
+
+  yield canvas.snapshot([], 'Every room has joined the maze: it is complete.');
+}
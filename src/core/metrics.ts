@@ -0,0 +1,145 @@
+/**
+ * Run metrics - counters for comparing runs, step by step
+ *
+ * Everything here is read from a trace's step summaries (type, queue,
+ * queue counters, path), so a whole run is measured without rebuilding
+ * any per-node state. Metrics are cumulative: the entry for
+ * step i covers steps 0..i, which is what playback shows at step i.
+ */
+
+import { AlgorithmTrace, StepSummary } from './trace';
+
+export interface RunMetrics {
+  nodesExpanded: number;
+  edgesExamined: number; // Edges whose relaxation was decided, either way
+  relaxations: number; // ...that improved a distance
+  rejectedRelaxations: number; // ...that did not
+  pushes: number;
+  pops: number;
+  stalePops: number; // Pops that expanded nothing
+  frontierSize: number; // Entries queued at this step (both queues for bidirectional search)
+  peakQueueSize: number;
+  pathCost: number | null; // Of the last path found so far
+  pathHops: number | null;
+}
+
+// What the metrics read from a step
+export type MeasuredStep = Pick<
+  StepSummary,
+  'type' | 'queue' | 'queueKind' | 'queueStats' | 'backward' | 'expanded' | 'shortestPath' | 'totalDistance'
+>;
+
+export const RUN_METRICS: Record<Exclude<keyof RunMetrics, 'frontierSize'>, { label: string; description: string }> = {
+  nodesExpanded: {
+    label: 'Nodes expanded',
+    description: 'Nodes taken off the frontier and processed. IDA* counts every re-expansion in later passes.',
+  },
+  edgesExamined: {
+    label: 'Edges examined',
+    description: 'Edges looked at from an expanded node, whether or not they led anywhere better.',
+  },
+  relaxations: {
+    label: 'Relaxations',
+    description: 'Examined edges that lowered a distance (or, in a traversal, reached a new node).',
+  },
+  rejectedRelaxations: {
+    label: 'Rejected',
+    description: 'Examined edges that offered nothing better than what was already known.',
+  },
+  pushes: {
+    label: 'Pushes',
+    description: 'Entries added to the queue, stack or open set. Decrease-keys move an entry rather than add one.',
+  },
+  pops: {
+    label: 'Pops',
+    description: 'Entries taken off the queue, stack or open set.',
+  },
+  stalePops: {
+    label: 'Stale pops',
+    description: 'Priority-queue pops that expanded nothing: outdated duplicates a lazy-deletion queue has to skip. The queues here lower keys in place, so this stays 0.',
+  },
+  peakQueueSize: {
+    label: 'Peak queue size',
+    description: 'The most entries queued at once so far: the memory a search needed for its frontier.',
+  },
+  pathCost: {
+    label: 'Path cost',
+    description: 'Total weight of the path found, once there is one.',
+  },
+  pathHops: {
+    label: 'Path hops',
+    description: 'Edges on the path found, once there is one.',
+  },
+};
+
+/**
+ * Metrics after every step of a run, extended as the run's trace grows.
+ * Algorithms without queue counters (BFS, DFS, Kahn's sort) have their
+ * pushes and pops worked out from how the queue changes between steps.
+ */
+export class RunMetricsRecorder {
+  private readonly series: RunMetrics[] = [];
+  private selected = 0; // select-node steps so far
+  private queued = new Map<string, number>(); // Entries per node at the last step
+
+  // Metrics for steps 0..length − 1
+  slice(length: number): RunMetrics[] {
+    return this.series.slice(0, length);
+  }
+
+  // Measures the steps the trace has gained since the last call
+  extend(trace: AlgorithmTrace): void {
+    for (let i = this.series.length; i < trace.length; i++) {
+      this.record(trace.summary(i)!);
+    }
+  }
+
+  record(step: MeasuredStep): void {
+    const previous = this.series[this.series.length - 1] as RunMetrics | undefined;
+    if (step.type === 'select-node') this.selected++;
+
+    let pushes: number;
+    let pops: number;
+    let stalePops = 0; // Only a priority queue's pops are meant to expand a node each
+    if (step.queueStats) {
+      pushes = step.queueStats.insert;
+      pops = step.queueStats.extractMin;
+      stalePops = Math.max(0, pops - this.selected);
+    } else {
+      const change = this.queueChange(step.queue);
+      pushes = (previous?.pushes ?? 0) + change.added;
+      pops = (previous?.pops ?? 0) + change.removed;
+    }
+
+    const frontierSize = step.queue.length + (step.backward?.queue.length ?? 0);
+    const pathFound = step.type === 'path-found' && step.shortestPath !== undefined;
+
+    this.series.push({
+      // A DFS visits a node as it pushes its frame; the others as they select it
+      nodesExpanded: step.expanded ?? (step.queueKind === 'stack' ? pushes : this.selected),
+      edgesExamined: (previous?.edgesExamined ?? 0) + (step.type === 'relax-edge' || step.type === 'skip-edge' ? 1 : 0),
+      relaxations: (previous?.relaxations ?? 0) + (step.type === 'relax-edge' ? 1 : 0),
+      rejectedRelaxations: (previous?.rejectedRelaxations ?? 0) + (step.type === 'skip-edge' ? 1 : 0),
+      pushes,
+      pops,
+      stalePops,
+      frontierSize,
+      peakQueueSize: Math.max(previous?.peakQueueSize ?? 0, frontierSize),
+      pathCost: pathFound ? step.totalDistance ?? null : previous?.pathCost ?? null,
+      pathHops: pathFound ? step.shortestPath!.length - 1 : previous?.pathHops ?? null,
+    });
+  }
+
+  // Entries that joined and left the queue since the last step
+  private queueChange(queue: MeasuredStep['queue']): { added: number; removed: number } {
+    const counts = new Map<string, number>();
+    for (const { nodeId } of queue) counts.set(nodeId, (counts.get(nodeId) ?? 0) + 1);
+
+    let added = 0;
+    let removed = 0;
+    for (const [nodeId, count] of counts) added += Math.max(0, count - (this.queued.get(nodeId) ?? 0));
+    for (const [nodeId, count] of this.queued) removed += Math.max(0, count - (counts.get(nodeId) ?? 0));
+    this.queued = counts;
+    return { added, removed };
+  }
+}
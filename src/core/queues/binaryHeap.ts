@@ -0,0 +1,79 @@
+/**
+ * Binary heap - an implicit tree in an array
+ *
+ * A position index makes decrease-key a sift-up from the node's slot.
+ *
+ * insert, decrease-key, extract-min: O(log n)
+ */
+
+import { IndexedPriorityQueue } from './indexedQueue';
+
+export class BinaryHeapQueue extends IndexedPriorityQueue {
+  readonly type = 'binary' as const;
+  private heap: string[] = [];
+  private position = new Map<string, number>();
+
+  protected insertEntry(nodeId: string): void {
+    this.heap.push(nodeId);
+    this.position.set(nodeId, this.heap.length - 1);
+    this.siftUp(this.heap.length - 1);
+  }
+
+  protected decreaseEntry(nodeId: string): void {
+    this.siftUp(this.position.get(nodeId)!);
+  }
+
+  protected peekEntry(): string {
+    return this.heap[0];
+  }
+
+  protected extractEntry(): string {
+    const min = this.heap[0];
+    const last = this.heap.pop()!;
+    this.position.delete(min);
+
+    if (this.heap.length > 0) {
+      this.heap[0] = last;
+      this.position.set(last, 0);
+      this.siftDown(0);
+    }
+
+    return min;
+  }
+
+  private swap(i: number, j: number): void {
+    [this.heap[i], this.heap[j]] = [this.heap[j], this.heap[i]];
+    this.position.set(this.heap[i], i);
+    this.position.set(this.heap[j], j);
+    this.counts.moves++;
+  }
+
+  private siftUp(index: number): void {
+    while (index > 0) {
+      const parentIndex = Math.floor((index - 1) / 2);
+      if (!this.less(this.heap[index], this.heap[parentIndex])) break;
+      this.swap(index, parentIndex);
+      index = parentIndex;
+    }
+  }
+
+  private siftDown(index: number): void {
+    while (true) {
+      const leftChild = 2 * index + 1;
+      const rightChild = 2 * index + 2;
+      let smallest = index;
+
+      if (leftChild < this.heap.length && this.less(this.heap[leftChild], this.heap[smallest])) {
+        smallest = leftChild;
+      }
+      if (rightChild < this.heap.length && this.less(this.heap[rightChild], this.heap[smallest])) {
+        smallest = rightChild;
+      }
+
+      if (smallest === index) break;
+
+      this.swap(index, smallest);
+      index = smallest;
+    }
+  }
+}
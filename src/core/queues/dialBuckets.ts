@@ -0,0 +1,74 @@
+/**
+ * Dial's buckets - one bucket per integer key
+ *
+ * Bucket b holds the nodes whose key rounds down to b. Extract-min moves a
+ * cursor up to the first non-empty bucket and takes its smallest entry, so
+ * with integer weights every operation is O(1) plus the empty buckets the
+ * cursor passes: O(V·C) over a whole Dijkstra run, C the largest weight.
+ *
+ * Dijkstra never queues a key below the last minimum, so the cursor only
+ * moves forward. Keys that do (Prim, greedy search, inconsistent
+ * heuristics) move it back and cost extra scans.
+ */
+
+import { IndexedPriorityQueue } from './indexedQueue';
+
+export class DialBucketQueue extends IndexedPriorityQueue {
+  readonly type = 'dial' as const;
+  private buckets = new Map<number, Set<string>>();
+  private cursor = 0; // No bucket below this one holds anything
+
+  protected insertEntry(nodeId: string, priority: number): void {
+    this.addToBucket(nodeId, priority);
+  }
+
+  protected decreaseEntry(nodeId: string, priority: number, oldPriority: number): void {
+    const from = Math.floor(oldPriority);
+    if (from === Math.floor(priority)) return;
+
+    this.removeFromBucket(nodeId, from);
+    this.addToBucket(nodeId, priority);
+    this.counts.moves++;
+  }
+
+  protected peekEntry(): string {
+    while (!this.buckets.has(this.cursor)) {
+      this.counts.bucketScans++;
+      this.cursor++;
+    }
+    this.counts.bucketScans++;
+
+    // Fractional keys share a bucket, so look for the smallest inside it
+    let min: string | null = null;
+    for (const nodeId of this.buckets.get(this.cursor)!) {
+      if (min === null || this.less(nodeId, min)) {
+        min = nodeId;
+      }
+    }
+    return min!;
+  }
+
+  protected extractEntry(): string {
+    const min = this.peekEntry();
+    this.removeFromBucket(min, this.cursor);
+    return min;
+  }
+
+  private addToBucket(nodeId: string, priority: number): void {
+    const index = Math.floor(priority);
+    if (this.size === 1 || index < this.cursor) this.cursor = index;
+
+    let bucket = this.buckets.get(index);
+    if (!bucket) {
+      bucket = new Set();
+      this.buckets.set(index, bucket);
+    }
+    bucket.add(nodeId);
+  }
+
+  private removeFromBucket(nodeId: string, index: number): void {
+    const bucket = this.buckets.get(index)!;
+    bucket.delete(nodeId);
+    if (bucket.size === 0) this.buckets.delete(index);
+  }
+}
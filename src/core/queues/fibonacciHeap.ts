@@ -0,0 +1,177 @@
+/**
+ * Fibonacci heap - a lazily consolidated forest
+ *
+ * Insert adds a one-node tree to the root list. Decrease-key cuts the node
+ * loose when it breaks heap order, and a parent that loses a second child
+ * is cut too (cascading cut), which keeps tree sizes exponential in their
+ * degree. Extract-min does the deferred work: it links roots of equal
+ * degree until every root degree is distinct.
+ *
+ * insert, decrease-key: O(1) amortized; extract-min: O(log n) amortized
+ */
+
+import { IndexedPriorityQueue } from './indexedQueue';
+
+class FibonacciNode {
+  degree = 0;
+  marked = false; // Lost a child since it last became a child itself
+  parent: FibonacciNode | null = null;
+  child: FibonacciNode | null = null;
+  // Circular doubly linked sibling list
+  left: FibonacciNode = this;
+  right: FibonacciNode = this;
+
+  constructor(readonly nodeId: string, public priority: number) {}
+}
+
+export class FibonacciHeapQueue extends IndexedPriorityQueue {
+  readonly type = 'fibonacci' as const;
+  private min: FibonacciNode | null = null; // Also the entry point of the root list
+  private nodes = new Map<string, FibonacciNode>();
+
+  protected insertEntry(nodeId: string, priority: number): void {
+    const node = new FibonacciNode(nodeId, priority);
+    this.nodes.set(nodeId, node);
+    this.addRoot(node);
+  }
+
+  protected decreaseEntry(nodeId: string, priority: number): void {
+    const node = this.nodes.get(nodeId)!;
+    node.priority = priority;
+
+    const parent = node.parent;
+    if (parent && this.less(node.nodeId, parent.nodeId)) {
+      this.cut(node, parent);
+      this.cascadingCut(parent);
+    }
+    if (node !== this.min && this.less(node.nodeId, this.min!.nodeId)) {
+      this.min = node;
+    }
+  }
+
+  protected peekEntry(): string {
+    return this.min!.nodeId;
+  }
+
+  protected extractEntry(): string {
+    const z = this.min!;
+    this.nodes.delete(z.nodeId);
+
+    // Promote the children to roots
+    for (const child of siblings(z.child)) {
+      child.parent = null;
+      splice(child, z);
+    }
+    z.child = null;
+
+    if (z.right === z) {
+      this.min = null;
+    } else {
+      z.left.right = z.right;
+      z.right.left = z.left;
+      this.min = z.right;
+      this.consolidate();
+    }
+
+    return z.nodeId;
+  }
+
+  private addRoot(node: FibonacciNode): void {
+    if (!this.min) {
+      node.left = node.right = node;
+      this.min = node;
+      return;
+    }
+    splice(node, this.min);
+    if (this.less(node.nodeId, this.min.nodeId)) this.min = node;
+  }
+
+  // Move a node (and its subtree) from its parent's child list to the roots
+  private cut(node: FibonacciNode, parent: FibonacciNode): void {
+    if (node.right === node) {
+      parent.child = null;
+    } else {
+      node.left.right = node.right;
+      node.right.left = node.left;
+      if (parent.child === node) parent.child = node.right;
+    }
+    parent.degree--;
+    node.parent = null;
+    node.marked = false;
+    splice(node, this.min!);
+    this.counts.moves++;
+  }
+
+  private cascadingCut(node: FibonacciNode): void {
+    const parent = node.parent;
+    if (!parent) return;
+    if (!node.marked) {
+      node.marked = true;
+    } else {
+      this.cut(node, parent);
+      this.cascadingCut(parent);
+    }
+  }
+
+  // Link roots of equal degree until all root degrees differ, then find the new minimum
+  private consolidate(): void {
+    const byDegree: Array<FibonacciNode | undefined> = [];
+
+    for (const root of siblings(this.min)) {
+      let x = root;
+      x.left = x.right = x;
+      let degree = x.degree;
+      while (byDegree[degree]) {
+        let y = byDegree[degree]!;
+        if (this.less(y.nodeId, x.nodeId)) [x, y] = [y, x];
+        this.link(y, x);
+        byDegree[degree] = undefined;
+        degree++;
+      }
+      byDegree[degree] = x;
+    }
+
+    this.min = null;
+    for (const root of byDegree) {
+      if (root) this.addRoot(root);
+    }
+  }
+
+  // Make root y a child of root x
+  private link(y: FibonacciNode, x: FibonacciNode): void {
+    y.parent = x;
+    y.marked = false;
+    if (x.child) {
+      splice(y, x.child);
+    } else {
+      y.left = y.right = y;
+      x.child = y;
+    }
+    x.degree++;
+    this.counts.moves++;
+  }
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+// Insert node into a circular list, just right of anchor
+function splice(node: FibonacciNode, anchor: FibonacciNode): void {
+  node.left = anchor;
+  node.right = anchor.right;
+  anchor.right.left = node;
+  anchor.right = node;
+}
+
+// A snapshot of a circular list, safe to iterate while relinking
+function siblings(start: FibonacciNode | null): FibonacciNode[] {
+  const list: FibonacciNode[] = [];
+  if (!start) return list;
+  let node = start;
+  do {
+    list.push(node);
+    node = node.right;
+  } while (node !== start);
+  return list;
+}
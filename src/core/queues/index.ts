@@ -0,0 +1,53 @@
+/**
+ * Priority queue exports
+ * Interchangeable indexed queues for the best-first algorithms, chosen per run
+ */
+
+import { PriorityQueueType } from '../types';
+import { IndexedPriorityQueue } from './indexedQueue';
+import { BinaryHeapQueue } from './binaryHeap';
+import { PairingHeapQueue } from './pairingHeap';
+import { FibonacciHeapQueue } from './fibonacciHeap';
+import { DialBucketQueue } from './dialBuckets';
+import { RadixHeapQueue } from './radixHeap';
+import { TieBreaker } from './tieBreaking';
+
+export { IndexedPriorityQueue, emptyQueueCounts } from './indexedQueue';
+export type { QueueEntry } from './indexedQueue';
+export { TieBreaker, TIE_BREAKING_POLICIES, DEFAULT_TIE_BREAKING, effectiveTieBreaking } from './tieBreaking';
+export type { TieBreakingSources } from './tieBreaking';
+export { BinaryHeapQueue, PairingHeapQueue, FibonacciHeapQueue, DialBucketQueue, RadixHeapQueue };
+
+export const PRIORITY_QUEUES: Record<PriorityQueueType, { label: string; description: string }> = {
+  binary: {
+    label: 'Binary heap',
+    description: 'An array-backed tree. Insert, decrease-key and extract-min each sift an entry up or down: O(log n).',
+  },
+  pairing: {
+    label: 'Pairing heap',
+    description: 'Insert and decrease-key just link a tree to the root; extract-min pairs up the root\'s children. Simple and fast in practice.',
+  },
+  fibonacci: {
+    label: 'Fibonacci heap',
+    description: 'O(1) amortized insert and decrease-key; extract-min links trees of equal degree. The best bound, O(E + V log V), with the most overhead.',
+  },
+  dial: {
+    label: "Dial's buckets",
+    description: 'One bucket per integer key, scanned upward. No comparisons between buckets, but every empty bucket passed costs a scan: best with small integer weights.',
+  },
+  radix: {
+    label: 'Radix heap',
+    description: 'Buckets by the highest bit a key shares with the last minimum; entries only move down. Needs keys that never fall below the last minimum, as in Dijkstra.',
+  },
+};
+
+// Without a tie-breaker, equal keys leave in whatever order the structure gives
+export function createPriorityQueue(type: PriorityQueueType = 'binary', tieBreaker: TieBreaker | null = null): IndexedPriorityQueue {
+  switch (type) {
+    case 'binary': return new BinaryHeapQueue(tieBreaker);
+    case 'pairing': return new PairingHeapQueue(tieBreaker);
+    case 'fibonacci': return new FibonacciHeapQueue(tieBreaker);
+    case 'dial': return new DialBucketQueue(tieBreaker);
+    case 'radix': return new RadixHeapQueue(tieBreaker);
+  }
+}
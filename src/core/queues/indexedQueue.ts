@@ -0,0 +1,125 @@
+/**
+ * Indexed priority queue - shared contract and bookkeeping
+ *
+ * Every queue holds each node at most once, keyed by node id, so a cheaper
+ * path lowers the node's key in place (decrease-key) instead of leaving a
+ * stale duplicate behind. Subclasses only arrange the entries; this class
+ * tracks the keys and counts the operations.
+ *
+ * Subclasses order entries through less(), which settles equal keys with
+ * the queue's TieBreaker if it has one. Without one, ties come out in
+ * whatever order the structure leaves them.
+ */
+
+import { PriorityQueueType, QueueOperationCounts } from '../types';
+import { TieBreaker } from './tieBreaking';
+
+export interface QueueEntry {
+  nodeId: string;
+  priority: number;
+}
+
+export function emptyQueueCounts(): QueueOperationCounts {
+  return { insert: 0, decreaseKey: 0, extractMin: 0, comparisons: 0, moves: 0, bucketScans: 0 };
+}
+
+export abstract class IndexedPriorityQueue {
+  abstract readonly type: PriorityQueueType;
+  readonly counts: QueueOperationCounts = emptyQueueCounts();
+  protected readonly priorities = new Map<string, number>();
+
+  constructor(protected readonly tieBreaker: TieBreaker | null = null) {}
+
+  get size(): number {
+    return this.priorities.size;
+  }
+
+  isEmpty(): boolean {
+    return this.priorities.size === 0;
+  }
+
+  has(nodeId: string): boolean {
+    return this.priorities.has(nodeId);
+  }
+
+  priorityOf(nodeId: string): number | undefined {
+    return this.priorities.get(nodeId);
+  }
+
+  insert(nodeId: string, priority: number): void {
+    if (this.priorities.has(nodeId)) {
+      throw new Error(`Node ${nodeId} is already in the queue`);
+    }
+    this.counts.insert++;
+    this.priorities.set(nodeId, priority);
+    this.tieBreaker?.rank(nodeId);
+    this.insertEntry(nodeId, priority);
+  }
+
+  decreaseKey(nodeId: string, priority: number): void {
+    const oldPriority = this.priorities.get(nodeId);
+    if (oldPriority === undefined) {
+      throw new Error(`Node ${nodeId} is not in the queue`);
+    }
+    if (priority > oldPriority) {
+      throw new Error(`Decrease-key cannot raise ${nodeId} from ${oldPriority} to ${priority}`);
+    }
+    this.counts.decreaseKey++;
+    this.priorities.set(nodeId, priority);
+    // An unchanged key keeps its rank: moving it back could break the order
+    if (priority < oldPriority) this.tieBreaker?.rank(nodeId);
+    this.decreaseEntry(nodeId, priority, oldPriority);
+  }
+
+  // Relaxation in one call: queue the node, or lower its key if already queued
+  insertOrDecreaseKey(nodeId: string, priority: number): void {
+    if (this.priorities.has(nodeId)) {
+      this.decreaseKey(nodeId, priority);
+    } else {
+      this.insert(nodeId, priority);
+    }
+  }
+
+  peek(): QueueEntry | undefined {
+    if (this.isEmpty()) return undefined;
+    const nodeId = this.peekEntry();
+    return { nodeId, priority: this.priorities.get(nodeId)! };
+  }
+
+  extractMin(): QueueEntry | undefined {
+    if (this.isEmpty()) return undefined;
+    this.counts.extractMin++;
+    const nodeId = this.extractEntry();
+    const priority = this.priorities.get(nodeId)!;
+    this.priorities.delete(nodeId);
+    return { nodeId, priority };
+  }
+
+  // Queued nodes, lowest key first, for display. With a TieBreaker this
+  // is the order they will leave in; without one, ties are in no order
+  toArray(): QueueEntry[] {
+    return [...this.priorities]
+      .map(([nodeId, priority]) => ({ nodeId, priority }))
+      .sort((a, b) => a.priority - b.priority || (this.tieBreaker?.compare(a.nodeId, b.nodeId) ?? 0));
+  }
+
+  // Whether queued node a goes before queued node b: a counted key
+  // comparison, with ties settled by the TieBreaker
+  protected less(a: string, b: string): boolean {
+    const keyA = this.priorities.get(a)!;
+    const keyB = this.priorities.get(b)!;
+    if (this.lessKey(keyA, keyB)) return true;
+    return keyA === keyB && this.tieBreaker !== null && this.tieBreaker.compare(a, b) < 0;
+  }
+
+  // A counted comparison of bare keys
+  protected lessKey(a: number, b: number): boolean {
+    this.counts.comparisons++;
+    return a < b;
+  }
+
+  protected abstract insertEntry(nodeId: string, priority: number): void;
+  protected abstract decreaseEntry(nodeId: string, priority: number, oldPriority: number): void;
+  protected abstract peekEntry(): string;
+  protected abstract extractEntry(): string;
+}
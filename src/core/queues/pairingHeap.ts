@@ -0,0 +1,100 @@
+/**
+ * Pairing heap - a heap-ordered multiway tree
+ *
+ * Insert and decrease-key just meld a single-node (or cut-out) tree with
+ * the root; extract-min pays for the laziness by pairing up the root's
+ * children left to right, then melding the pairs right to left.
+ *
+ * insert, meld: O(1); decrease-key: o(log n) amortized; extract-min: O(log n) amortized
+ */
+
+import { IndexedPriorityQueue } from './indexedQueue';
+
+interface PairingNode {
+  nodeId: string;
+  priority: number;
+  child: PairingNode | null; // Leftmost child
+  next: PairingNode | null; // Right sibling
+  prev: PairingNode | null; // Left sibling, or the parent for a leftmost child
+}
+
+export class PairingHeapQueue extends IndexedPriorityQueue {
+  readonly type = 'pairing' as const;
+  private root: PairingNode | null = null;
+  private nodes = new Map<string, PairingNode>();
+
+  protected insertEntry(nodeId: string, priority: number): void {
+    const node: PairingNode = { nodeId, priority, child: null, next: null, prev: null };
+    this.nodes.set(nodeId, node);
+    this.root = this.meld(this.root, node);
+  }
+
+  protected decreaseEntry(nodeId: string, priority: number): void {
+    const node = this.nodes.get(nodeId)!;
+    node.priority = priority;
+    if (node === this.root) return;
+
+    // Cut the node's subtree out and meld it back in at the top
+    const prev = node.prev!;
+    if (prev.child === node) {
+      prev.child = node.next;
+    } else {
+      prev.next = node.next;
+    }
+    if (node.next) node.next.prev = prev;
+    node.next = null;
+    node.prev = null;
+    this.counts.moves++;
+
+    this.root = this.meld(this.root, node);
+  }
+
+  protected peekEntry(): string {
+    return this.root!.nodeId;
+  }
+
+  protected extractEntry(): string {
+    const min = this.root!;
+    this.nodes.delete(min.nodeId);
+    this.root = this.mergePairs(min.child);
+    if (this.root) this.root.prev = null;
+    return min.nodeId;
+  }
+
+  // Link two roots: the larger becomes the leftmost child of the smaller
+  private meld(a: PairingNode | null, b: PairingNode | null): PairingNode | null {
+    if (!a) return b;
+    if (!b) return a;
+    if (this.less(b.nodeId, a.nodeId)) [a, b] = [b, a];
+
+    b.prev = a;
+    b.next = a.child;
+    if (a.child) a.child.prev = b;
+    a.child = b;
+    a.next = null;
+    a.prev = null;
+    this.counts.moves++;
+
+    return a;
+  }
+
+  // Two-pass pairing of a sibling list
+  private mergePairs(first: PairingNode | null): PairingNode | null {
+    const pairs: PairingNode[] = [];
+
+    while (first) {
+      const a = first;
+      const b = a.next;
+      first = b ? b.next : null;
+      a.next = a.prev = null;
+      if (b) b.next = b.prev = null;
+      pairs.push(this.meld(a, b)!);
+    }
+
+    let result: PairingNode | null = pairs.pop() ?? null;
+    while (pairs.length > 0) {
+      result = this.meld(pairs.pop()!, result);
+    }
+    return result;
+  }
+}
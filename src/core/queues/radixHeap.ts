@@ -0,0 +1,119 @@
+/**
+ * Radix heap - buckets by the highest bit a key shares with the last minimum
+ *
+ * Bucket 0 holds keys with the same integer part as `last`, the last
+ * minimum taken out; bucket i holds keys whose integer part first differs
+ * from it in bit i − 1. When bucket 0 runs dry, the smallest key of the
+ * first non-empty bucket becomes `last` and that bucket's entries spread
+ * out over the buckets below it. An entry only ever moves down, so each is
+ * moved O(log C) times over a Dijkstra run, C the largest weight.
+ *
+ * This relies on keys never dropping below `last`, which Dijkstra
+ * guarantees. A key that does (Prim, greedy search, inconsistent
+ * heuristics) forces every entry to be re-bucketed around it.
+ */
+
+import { IndexedPriorityQueue } from './indexedQueue';
+
+const BUCKET_COUNT = 33; // Bucket 0, plus one per bit of a 32-bit integer
+
+export class RadixHeapQueue extends IndexedPriorityQueue {
+  readonly type = 'radix' as const;
+  private buckets: Array<Set<string>> = Array.from({ length: BUCKET_COUNT }, () => new Set());
+  private bucketOf = new Map<string, number>();
+  private last = 0; // Integer part of the last minimum
+
+  protected insertEntry(nodeId: string, priority: number): void {
+    if (this.size === 1) {
+      this.last = integerPart(priority);
+    } else if (integerPart(priority) < this.last) {
+      this.rebuild(priority);
+    }
+    this.place(nodeId, priority);
+  }
+
+  protected decreaseEntry(nodeId: string, priority: number): void {
+    this.buckets[this.bucketOf.get(nodeId)!].delete(nodeId);
+    this.bucketOf.delete(nodeId);
+    if (integerPart(priority) < this.last) this.rebuild(priority);
+    this.place(nodeId, priority);
+    this.counts.moves++;
+  }
+
+  protected peekEntry(): string {
+    if (this.buckets[0].size === 0) this.refill();
+
+    let min: string | null = null;
+    for (const nodeId of this.buckets[0]) {
+      if (min === null || this.less(nodeId, min)) {
+        min = nodeId;
+      }
+    }
+    return min!;
+  }
+
+  protected extractEntry(): string {
+    const min = this.peekEntry();
+    this.buckets[0].delete(min);
+    this.bucketOf.delete(min);
+    return min;
+  }
+
+  private bucketIndex(priority: number): number {
+    const diff = integerPart(priority) ^ this.last;
+    return diff === 0 ? 0 : 32 - Math.clz32(diff);
+  }
+
+  private place(nodeId: string, priority: number): void {
+    const index = this.bucketIndex(priority);
+    this.buckets[index].add(nodeId);
+    this.bucketOf.set(nodeId, index);
+  }
+
+  // Bucket 0 is empty: advance `last` to the smallest key of the first
+  // non-empty bucket and spread that bucket out below it
+  private refill(): void {
+    let index = 1;
+    this.counts.bucketScans++;
+    while (this.buckets[index].size === 0) {
+      this.counts.bucketScans++;
+      index++;
+    }
+
+    const bucket = this.buckets[index];
+    let minKey = Infinity;
+    for (const nodeId of bucket) {
+      const priority = this.priorities.get(nodeId)!;
+      if (this.lessKey(priority, minKey)) minKey = priority;
+    }
+    this.last = integerPart(minKey);
+
+    this.buckets[index] = new Set();
+    for (const nodeId of bucket) {
+      this.place(nodeId, this.priorities.get(nodeId)!);
+      this.counts.moves++;
+    }
+  }
+
+  // A key fell below `last`: make it the new reference and re-bucket everything
+  private rebuild(priority: number): void {
+    this.last = integerPart(priority);
+    for (const bucket of this.buckets) bucket.clear();
+    for (const [nodeId] of this.bucketOf) {
+      this.place(nodeId, this.priorities.get(nodeId)!);
+      this.counts.moves++;
+    }
+  }
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function integerPart(priority: number): number {
+  const value = Math.floor(priority);
+  if (value < -0x80000000 || value > 0x7fffffff) {
+    throw new RangeError(`Radix heap keys must fit in 32 bits, got ${priority}`);
+  }
+  return value;
+}
@@ -0,0 +1,133 @@
+/**
+ * Tie-breaking - which of several equal keys leaves the queue first
+ *
+ * Without a rule, equal keys come out in whatever order the queue's
+ * structure happens to leave them, which differs between heaps and shifts
+ * with every small change to the graph. A TieBreaker makes the order part
+ * of the run's settings: the queue compares keys first and asks it only
+ * when they are equal.
+ *
+ * Each node is ranked when it gets its current key (on insert, or when
+ * decrease-key strictly lowers it), and keeps that rank until its key
+ * drops again. A rank that changed while the key stood still could break
+ * the heap order, so g and h are read at that moment, not at comparison
+ * time. Whatever the primary rule leaves tied falls back to FIFO order,
+ * so the order is always total and every run is reproducible.
+ */
+
+import { TieBreakingPolicy, TieBreakingSettings } from '../types';
+import { createRng, Rng } from '../random';
+
+export const TIE_BREAKING_POLICIES: Record<TieBreakingPolicy, { label: string; description: string; heuristicOnly?: boolean }> = {
+  fifo: {
+    label: 'FIFO',
+    description: 'The node that reached its current key first goes first, like a queue at a counter.',
+  },
+  lifo: {
+    label: 'LIFO',
+    description: 'The node that reached its current key last goes first, which tends to push the search deeper along one branch.',
+  },
+  'lowest-id': {
+    label: 'Lowest ID',
+    description: 'Node IDs in natural order (2 before 10). Easy to predict by hand, which suits worked examples.',
+  },
+  'higher-g': {
+    label: 'Prefer higher g',
+    description: 'Among equal f, the node farther from the start goes first. It is usually closer to the goal, so A* expands fewer nodes on plateaus.',
+    heuristicOnly: true,
+  },
+  'lower-h': {
+    label: 'Prefer lower h',
+    description: 'Among equal f, the node estimated closest to the goal goes first. Equivalent to higher g in plain A*, but not under weighted A*.',
+    heuristicOnly: true,
+  },
+  random: {
+    label: 'Random (seeded)',
+    description: 'Each node draws a random rank when it gets its key. The same seed repeats the same run.',
+  },
+};
+
+export const DEFAULT_TIE_BREAKING: TieBreakingSettings = { policy: 'fifo', seed: 1 };
+
+// The g and h rules mean nothing without a heuristic; such runs fall back to FIFO
+export function effectiveTieBreaking(settings: TieBreakingSettings, usesHeuristic: boolean): TieBreakingSettings {
+  return !usesHeuristic && TIE_BREAKING_POLICIES[settings.policy].heuristicOnly
+    ? { ...settings, policy: 'fifo' }
+    : settings;
+}
+
+// Where the g and h policies read their values; a missing source counts as 0
+export interface TieBreakingSources {
+  g?: (nodeId: string) => number;
+  h?: (nodeId: string) => number;
+}
+
+const naturalOrder = new Intl.Collator('en', { numeric: true });
+
+export class TieBreaker {
+  readonly policy: TieBreakingPolicy;
+  private readonly sources: TieBreakingSources;
+  private readonly seed: number;
+  private readonly rng: Rng | null;
+  private readonly primary = new Map<string, number>(); // The policy's value; lower goes first
+  private readonly sequence = new Map<string, number>(); // FIFO order, the fallback
+  private ranked = 0;
+
+  constructor(settings: TieBreakingSettings, sources: TieBreakingSources = {}) {
+    this.policy = settings.policy;
+    this.sources = sources;
+    this.seed = settings.seed;
+    this.rng = settings.policy === 'random' ? createRng(settings.seed) : null;
+  }
+
+  // The node just got a new key
+  rank(nodeId: string): void {
+    const sequence = this.ranked++;
+    this.sequence.set(nodeId, sequence);
+    this.primary.set(nodeId, this.primaryValue(nodeId, sequence));
+  }
+
+  // Negative when a goes first; both must have been ranked
+  compare(a: string, b: string): number {
+    return this.primary.get(a)! - this.primary.get(b)!
+      || (this.policy === 'lowest-id' ? naturalOrder.compare(a, b) : 0)
+      || this.sequence.get(a)! - this.sequence.get(b)!;
+  }
+
+  /**
+   * Why `winner` went before `rivals`, all with the same key, as a clause
+   * for step explanations, e.g. "it has the highest g (4.0)".
+   */
+  reason(winner: string, rivals: string[]): string {
+    const value = this.primary.get(winner)!;
+    switch (this.policy) {
+      case 'fifo': return 'it reached its key first';
+      case 'lifo': return 'it reached its key last';
+      case 'lowest-id': return 'it has the lowest ID';
+    }
+
+    // The other rules can leave a tie of their own, which FIFO order settles
+    if (rivals.some(rival => this.primary.get(rival) === value)) {
+      const shared = this.policy === 'higher-g' ? `g = ${(-value).toFixed(1)}`
+        : this.policy === 'lower-h' ? `h = ${value.toFixed(1)}`
+          : 'its random rank';
+      return `another tied node also has ${shared}, and of those it reached its key first (FIFO)`;
+    }
+    switch (this.policy) {
+      case 'higher-g': return `it has the highest g (${(-value).toFixed(1)})`;
+      case 'lower-h': return `it has the lowest h (${value.toFixed(1)})`;
+      case 'random': return `it drew the lowest random rank (seed ${this.seed})`;
+    }
+  }
+
+  private primaryValue(nodeId: string, sequence: number): number {
+    switch (this.policy) {
+      case 'fifo': return 0;
+      case 'lifo': return -sequence;
+      case 'lowest-id': return 0;
+      case 'higher-g': return -(this.sources.g?.(nodeId) ?? 0);
+      case 'lower-h': return this.sources.h?.(nodeId) ?? 0;
+      case 'random': return this.rng!();
+    }
+  }
+}
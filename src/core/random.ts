@@ -0,0 +1,42 @@
+/**
+ * Seeded pseudo-random numbers
+ * Generators and other randomized features take an Rng instead of calling
+ * Math.random, so the same seed always reproduces the same result.
+ */
+
+// Returns a float in [0, 1), like Math.random
+export type Rng = () => number;
+
+/**
+ * mulberry32: a small, fast 32-bit generator. Plenty for layouts and
+ * test graphs; not suitable for anything security related.
+ */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// A fresh seed for the "randomize" buttons; the seed itself is shown to the user
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 1_000_000);
+}
+
+// Integer in [min, max], inclusive
+export function randomInt(rng: Rng, min: number, max: number): number {
+  return min + Math.floor(rng() * (max - min + 1));
+}
+
+// Fisher–Yates shuffle, in place
+export function shuffle<T>(rng: Rng, items: T[]): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
@@ -0,0 +1,515 @@
+/**
+ * Algorithm traces - delta-encoded steps with periodic checkpoints
+ *
+ * Storing every step whole costs O(V) per step. A trace instead stores what
+ * changed in each per-node and per-edge collection (see TRACKED_FIELDS:
+ * distances, predecessors, node and edge states, the queues, the backward
+ * search, union-find, orders and the like) since the previous step, plus a
+ * full copy (checkpoint) whenever the changes since the last one add up to
+ * a full copy's worth, or after TRACE_MAX_CHECKPOINT_GAP steps. Reading
+ * step i rebuilds it from the checkpoint at or before i in O(V).
+ *
+ * Memory is about twice the total number of changes, plus one O(V)
+ * checkpoint per TRACE_MAX_CHECKPOINT_GAP steps at most. What is left of a
+ * step is stored as is: counters, explanations and paths, and the matrices
+ * of an all-pairs run, which Floyd–Warshall's node limit keeps small.
+ *
+ * Generators can go one better by yielding their live collections as
+ * TrackedMap/TrackedSet: the trace then reads the changed keys directly
+ * instead of comparing every entry with the previous step. Such steps are
+ * only valid until the generator is resumed, so read them through a trace.
+ */
+
+import { AlgorithmStep } from './types';
+
+export const TRACE_MAX_CHECKPOINT_GAP = 256;
+
+// ============================================
+// CHANGE-TRACKED COLLECTIONS
+// ============================================
+
+// A Map that remembers which keys were written or deleted since the last takeChanges()
+export class TrackedMap<K, V> extends Map<K, V> {
+  private changed?: Set<K>;
+
+  set(key: K, value: V): this {
+    (this.changed ??= new Set()).add(key);
+    return super.set(key, value);
+  }
+
+  delete(key: K): boolean {
+    (this.changed ??= new Set()).add(key);
+    return super.delete(key);
+  }
+
+  clear(): void {
+    for (const key of this.keys()) this.delete(key);
+  }
+
+  takeChanges(): K[] {
+    const keys = [...(this.changed ?? [])];
+    this.changed?.clear();
+    return keys;
+  }
+}
+
+// A Set that remembers which values were added or deleted since the last takeChanges()
+export class TrackedSet<T> extends Set<T> {
+  private changed?: Set<T>;
+
+  add(value: T): this {
+    (this.changed ??= new Set()).add(value);
+    return super.add(value);
+  }
+
+  delete(value: T): boolean {
+    (this.changed ??= new Set()).add(value);
+    return super.delete(value);
+  }
+
+  clear(): void {
+    for (const value of [...this]) this.delete(value);
+  }
+
+  takeChanges(): T[] {
+    const values = [...(this.changed ?? [])];
+    this.changed?.clear();
+    return values;
+  }
+}
+
+// ============================================
+// ENCODING
+// ============================================
+
+// Optional parts of a step that hold tracked collections of their own
+type Part = 'backward' | 'heuristic' | 'unionFind' | 'topological' | 'spanningTree' | 'traversal' | 'kShortest';
+
+interface FieldSpec {
+  kind: 'map' | 'set' | 'list' | 'queue';
+  part?: Part; // Where the collection sits; at the top level of the step when unset
+  key: string;
+  optional?: boolean; // May be left out of its part, which reads back as empty
+  summary?: boolean; // Rebuilt for summaries as well as for whole steps
+}
+
+// Every collection a trace stores as changes rather than whole. Lists are
+// compared by their common prefix, which suits the append-mostly orders
+// and logs the algorithms keep. Queues are compared entry by entry, as
+// entries leave and join anywhere but the rest keep their order.
+const TRACKED_FIELDS = {
+  queue: { kind: 'queue', key: 'queue', summary: true },
+  distances: { kind: 'map', key: 'distances' },
+  predecessors: { kind: 'map', key: 'predecessors' },
+  predecessorEdges: { kind: 'map', key: 'predecessorEdges' },
+  nodeStates: { kind: 'map', key: 'nodeStates' },
+  edgeStates: { kind: 'map', key: 'edgeStates' },
+  visited: { kind: 'set', key: 'visited' },
+  'backward.distances': { kind: 'map', part: 'backward', key: 'distances' },
+  'backward.predecessors': { kind: 'map', part: 'backward', key: 'predecessors' },
+  'backward.predecessorEdges': { kind: 'map', part: 'backward', key: 'predecessorEdges' },
+  'backward.visited': { kind: 'set', part: 'backward', key: 'visited' },
+  'backward.queue': { kind: 'queue', part: 'backward', key: 'queue', summary: true },
+  'heuristic.values': { kind: 'map', part: 'heuristic', key: 'values' },
+  'unionFind.parent': { kind: 'map', part: 'unionFind', key: 'parent' },
+  'unionFind.rank': { kind: 'map', part: 'unionFind', key: 'rank' },
+  'topological.order': { kind: 'list', part: 'topological', key: 'order' },
+  'topological.slack': { kind: 'map', part: 'topological', key: 'slack', optional: true },
+  'spanningTree.edges': { kind: 'list', part: 'spanningTree', key: 'edges' },
+  'traversal.discovered': { kind: 'list', part: 'traversal', key: 'discovered' },
+  'traversal.finished': { kind: 'list', part: 'traversal', key: 'finished' },
+  'kShortest.found': { kind: 'list', part: 'kShortest', key: 'found' },
+  'kShortest.candidates': { kind: 'list', part: 'kShortest', key: 'candidates' },
+} as const satisfies Record<string, FieldSpec>;
+
+type TrackedField = keyof typeof TRACKED_FIELDS;
+const FIELDS = Object.keys(TRACKED_FIELDS) as TrackedField[];
+const SPECS: Record<TrackedField, FieldSpec> = TRACKED_FIELDS;
+
+type Spec<F extends TrackedField> = (typeof TRACKED_FIELDS)[F];
+
+// Keys holding the collections of fields F, at the top level of a step and in each part
+type TopLevelKeys<F extends TrackedField> = { [G in F]: Spec<G> extends { part: Part } ? never : Spec<G>['key'] }[F];
+type PartKeys<P extends Part, F extends TrackedField> = { [G in F]: Spec<G> extends { part: P } ? Spec<G>['key'] : never }[F];
+
+// A step without the collections of fields F
+type StepWithout<F extends TrackedField> = Omit<AlgorithmStep, TopLevelKeys<F> | Part> & {
+  [P in Part]?: Omit<NonNullable<AlgorithmStep[P]>, PartKeys<P, F>>;
+};
+
+type SummaryField = { [F in TrackedField]: Spec<F> extends { summary: true } ? F : never }[TrackedField];
+const SUMMARY_FIELDS = FIELDS.filter(field => SPECS[field].summary);
+
+// Everything in a step except the tracked collections, kept as is
+type StepRest = StepWithout<TrackedField>;
+
+// A step with its queues but none of its per-node or per-edge collections
+export type StepSummary = StepWithout<Exclude<TrackedField, SummaryField>>;
+
+type QueueEntry = AlgorithmStep['queue'][number];
+
+type Collection = Map<string, unknown> | Set<string> | unknown[];
+
+// The tracked collections of one step, in full; those of a missing part are empty
+type TrackedState = Record<TrackedField, Collection>;
+
+interface MapDelta {
+  set: Array<[string, unknown]>;
+  deleted: string[];
+}
+
+interface SetDelta {
+  added: string[];
+  deleted: string[];
+}
+
+// Cut the list back to its first `keep` items, then append `items`
+interface ListDelta {
+  keep: number;
+  items: unknown[];
+}
+
+// Take out the entries at `removed` (positions in the old queue), then put
+// each of `inserted` at its position in the new one
+interface QueueDelta {
+  removed: number[];
+  inserted: Array<[number, QueueEntry]>;
+}
+
+type Change = MapDelta | SetDelta | ListDelta | QueueDelta;
+
+type StepDelta = Partial<Record<TrackedField, Change>>;
+
+function emptyCollection(spec: FieldSpec): Collection {
+  return spec.kind === 'map' ? new Map() : spec.kind === 'set' ? new Set() : [];
+}
+
+function copyCollection(spec: FieldSpec, collection: Collection): Collection {
+  if (spec.kind === 'map') return new Map(collection as Map<string, unknown>);
+  if (spec.kind === 'set') return new Set(collection as Set<string>);
+  return (collection as unknown[]).slice();
+}
+
+function collectionSize(collection: Collection): number {
+  return Array.isArray(collection) ? collection.length : collection.size;
+}
+
+function copyState(state: TrackedState, fields: readonly TrackedField[] = FIELDS): TrackedState {
+  const copy = {} as TrackedState;
+  for (const field of fields) copy[field] = copyCollection(SPECS[field], state[field]);
+  return copy;
+}
+
+function emptyState(): TrackedState {
+  const state = {} as TrackedState;
+  for (const field of FIELDS) state[field] = emptyCollection(SPECS[field]);
+  return state;
+}
+
+// Separates a step's tracked collections from the rest. Collections that
+// are missing, along with their part, come back undefined.
+function splitStep(step: AlgorithmStep): { rest: StepRest; fields: Partial<Record<TrackedField, Collection>> } {
+  const rest: Record<string, unknown> = { ...step };
+  const fields: Partial<Record<TrackedField, Collection>> = {};
+  for (const field of FIELDS) {
+    const { part, key } = SPECS[field];
+    let holder = rest;
+    if (part) {
+      if (!step[part]) continue;
+      // Copy the part once, before taking the first of its collections out
+      if (rest[part] === step[part]) rest[part] = { ...step[part] };
+      holder = rest[part] as Record<string, unknown>;
+    }
+    fields[field] = holder[key] as Collection | undefined;
+    delete holder[key];
+  }
+  return { rest: rest as StepRest, fields };
+}
+
+// The inverse of splitStep: puts `fields` of `state` back into the parts `rest` has
+function joinStep(rest: StepRest, state: TrackedState, fields: readonly TrackedField[] = FIELDS): AlgorithmStep {
+  const step: Record<string, unknown> = { ...rest };
+  for (const field of fields) {
+    const { part, key, optional } = SPECS[field];
+    let holder = step;
+    if (part) {
+      if (!rest[part]) continue;
+      if (step[part] === rest[part]) step[part] = { ...rest[part] };
+      holder = step[part] as Record<string, unknown>;
+    }
+    if (!optional || collectionSize(state[field]) > 0) holder[key] = state[field];
+  }
+  return step as unknown as AlgorithmStep;
+}
+
+// Changes from `previous` to `next`; only `keys` are compared when given
+function diffMap(previous: Map<string, unknown>, next: Map<string, unknown>, keys?: Iterable<string>): MapDelta | undefined {
+  const delta: MapDelta = { set: [], deleted: [] };
+  for (const key of keys ?? new Set([...previous.keys(), ...next.keys()])) {
+    if (next.has(key)) {
+      const value = next.get(key);
+      if (!previous.has(key) || !Object.is(previous.get(key), value)) delta.set.push([key, value]);
+    } else if (previous.has(key)) {
+      delta.deleted.push(key);
+    }
+  }
+  return delta.set.length > 0 || delta.deleted.length > 0 ? delta : undefined;
+}
+
+function diffSet(previous: Set<string>, next: Set<string>, keys?: Iterable<string>): SetDelta | undefined {
+  const delta: SetDelta = { added: [], deleted: [] };
+  for (const key of keys ?? new Set([...previous, ...next])) {
+    if (next.has(key) && !previous.has(key)) delta.added.push(key);
+    else if (!next.has(key) && previous.has(key)) delta.deleted.push(key);
+  }
+  return delta.added.length > 0 || delta.deleted.length > 0 ? delta : undefined;
+}
+
+function diffList(previous: unknown[], next: unknown[]): ListDelta | undefined {
+  let keep = 0;
+  const shorter = Math.min(previous.length, next.length);
+  while (keep < shorter && Object.is(previous[keep], next[keep])) keep++;
+  return keep < previous.length || keep < next.length ? { keep, items: next.slice(keep) } : undefined;
+}
+
+function sameEntry(a: QueueEntry, b: QueueEntry): boolean {
+  return a.nodeId === b.nodeId && Object.is(a.priority, b.priority);
+}
+
+// Pairs up the entries the two queues share in one pass, as those keep
+// their order; anything out of order comes out as removed and inserted
+function diffQueue(previous: QueueEntry[], next: QueueEntry[]): QueueDelta | undefined {
+  const remaining = new Map<string, number>(); // Entries of next not yet paired, by node
+  for (const { nodeId } of next) remaining.set(nodeId, (remaining.get(nodeId) ?? 0) + 1);
+  const take = (nodeId: string) => remaining.set(nodeId, remaining.get(nodeId)! - 1);
+
+  const delta: QueueDelta = { removed: [], inserted: [] };
+  let i = 0;
+  let j = 0;
+  while (i < previous.length || j < next.length) {
+    if (i < previous.length && j < next.length && sameEntry(previous[i], next[j])) {
+      take(next[j].nodeId);
+      i++;
+      j++;
+    } else if (i < previous.length && !remaining.get(previous[i].nodeId)) {
+      delta.removed.push(i++);
+    } else {
+      take(next[j].nodeId);
+      delta.inserted.push([j, next[j]]);
+      j++;
+    }
+  }
+  return delta.removed.length > 0 || delta.inserted.length > 0 ? delta : undefined;
+}
+
+function diffCollection(spec: FieldSpec, previous: Collection, next: Collection, keys?: string[]): Change | undefined {
+  if (spec.kind === 'map') return diffMap(previous as Map<string, unknown>, next as Map<string, unknown>, keys);
+  if (spec.kind === 'set') return diffSet(previous as Set<string>, next as Set<string>, keys);
+  if (spec.kind === 'queue') return diffQueue(previous as QueueEntry[], next as QueueEntry[]);
+  return diffList(previous as unknown[], next as unknown[]);
+}
+
+function stateSize(state: TrackedState): number {
+  return FIELDS.reduce((size, field) => size + collectionSize(state[field]), 0);
+}
+
+const NO_CHANGES: StepDelta = {};
+
+// Stand-ins for missing collections; never written to
+const NOTHING: Record<FieldSpec['kind'], Collection> = { map: new Map(), set: new Set(), list: [], queue: [] };
+
+// Applies one field's changes, returning how many entries they touched
+function applyChange(spec: FieldSpec, collection: Collection, change: Change): number {
+  if (spec.kind === 'map') {
+    const map = collection as Map<string, unknown>;
+    const { set, deleted } = change as MapDelta;
+    for (const [key, value] of set) map.set(key, value);
+    for (const key of deleted) map.delete(key);
+    return set.length + deleted.length;
+  }
+  if (spec.kind === 'set') {
+    const values = collection as Set<string>;
+    const { added, deleted } = change as SetDelta;
+    for (const key of added) values.add(key);
+    for (const key of deleted) values.delete(key);
+    return added.length + deleted.length;
+  }
+  if (spec.kind === 'queue') {
+    const queue = collection as QueueEntry[];
+    const { removed, inserted } = change as QueueDelta;
+    for (let k = removed.length - 1; k >= 0; k--) queue.splice(removed[k], 1);
+    for (const [index, entry] of inserted) queue.splice(index, 0, entry);
+    return removed.length + inserted.length;
+  }
+  const list = collection as unknown[];
+  const { keep, items } = change as ListDelta;
+  const dropped = list.length - keep;
+  list.length = keep;
+  for (const item of items) list.push(item);
+  return dropped + items.length;
+}
+
+function applyDelta(state: TrackedState, delta: StepDelta, fields: readonly TrackedField[] = FIELDS): number {
+  let size = 0;
+  for (const field of fields) {
+    const change = delta[field];
+    if (change) size += applyChange(SPECS[field], state[field], change);
+  }
+  return size;
+}
+
+// ============================================
+// TRACE
+// ============================================
+
+// One step as a trace stores it: everything but the tracked collections,
+// plus either their changes since the previous step or a full copy.
+// Plain data, so encoded steps can be posted between threads.
+export interface EncodedStep {
+  rest: StepRest;
+  delta?: StepDelta;
+  checkpoint?: TrackedState;
+}
+
+/**
+ * Turns a run's steps, in order, into EncodedSteps. Kept apart from the
+ * trace so one thread can encode while another stores and reads.
+ */
+export class TraceEncoder {
+  // State as of the last encoded step, and the live collections it came from
+  private current: TrackedState = emptyState();
+  private sources: Partial<Record<TrackedField, Collection>> = {};
+  private changesSinceCheckpoint = 0;
+  private stepsSinceCheckpoint = 0;
+  private started = false;
+
+  encode(step: AlgorithmStep): EncodedStep {
+    const { rest, fields } = splitStep(step);
+    const delta: StepDelta = {};
+
+    for (const field of FIELDS) {
+      const spec = SPECS[field];
+      const next = fields[field] ?? NOTHING[spec.kind];
+      const keys = this.changedKeys(field, fields[field]);
+      const change = diffCollection(spec, this.current[field], next, keys);
+      if (change) delta[field] = change;
+    }
+    this.changesSinceCheckpoint += applyDelta(this.current, delta);
+    this.stepsSinceCheckpoint++;
+
+    if (
+      !this.started ||
+      this.stepsSinceCheckpoint >= TRACE_MAX_CHECKPOINT_GAP ||
+      this.changesSinceCheckpoint >= stateSize(this.current)
+    ) {
+      this.started = true;
+      this.changesSinceCheckpoint = 0;
+      this.stepsSinceCheckpoint = 0;
+      return { rest, checkpoint: copyState(this.current) };
+    }
+    return { rest, delta };
+  }
+
+  // Keys that can differ from the last step, or undefined to compare everything.
+  // Only the same tracked collection as last step can vouch for its changes.
+  private changedKeys(field: TrackedField, collection: Collection | undefined): string[] | undefined {
+    const previous = this.sources[field];
+    this.sources[field] = collection;
+    if (!(collection instanceof TrackedMap || collection instanceof TrackedSet)) return undefined;
+    const keys = collection.takeChanges() as string[];
+    return previous === collection ? keys : undefined;
+  }
+}
+
+/**
+ * An append-only list of steps with random access. Steps read back are
+ * fresh objects (the same object for repeated reads of one index), so
+ * callers may hold on to them.
+ */
+export class AlgorithmTrace {
+  private rests: StepRest[] = [];
+  private deltas: StepDelta[] = []; // Empty at checkpointed steps
+  private checkpoints: Array<{ index: number; state: TrackedState }> = [];
+  private encoder?: TraceEncoder;
+
+  private cached: { index: number; step: AlgorithmStep } | null = null;
+  // Summary fields as of step `index`, so summaries read in order cost only their changes
+  private summaryCursor: { index: number; state: TrackedState } | null = null;
+
+  get length(): number {
+    return this.rests.length;
+  }
+
+  append(step: AlgorithmStep): void {
+    this.push((this.encoder ??= new TraceEncoder()).encode(step));
+  }
+
+  // Adds steps encoded elsewhere; they must continue this trace's sequence
+  push(...encoded: EncodedStep[]): void {
+    for (const { rest, delta, checkpoint } of encoded) {
+      if (checkpoint) {
+        this.checkpoints.push({ index: this.rests.length, state: checkpoint });
+        this.deltas.push(NO_CHANGES);
+      } else {
+        this.deltas.push(delta ?? NO_CHANGES);
+      }
+      this.rests.push(rest);
+    }
+  }
+
+  // Step `index` with its queues but without its per-node collections:
+  // for scanning a whole run's counters without rebuilding every step.
+  // Read in order, each costs the size of its queues.
+  summary(index: number): StepSummary | undefined {
+    if (index < 0 || index >= this.rests.length) return undefined;
+
+    const checkpoint = this.checkpointAt(index);
+    let cursor = this.summaryCursor;
+    if (!cursor || cursor.index > index || cursor.index < checkpoint.index) {
+      cursor = { index: checkpoint.index, state: copyState(checkpoint.state, SUMMARY_FIELDS) };
+    }
+    for (let i = cursor.index + 1; i <= index; i++) {
+      applyDelta(cursor.state, this.deltas[i], SUMMARY_FIELDS);
+    }
+    cursor.index = index;
+    this.summaryCursor = cursor;
+
+    return joinStep(this.rests[index], copyState(cursor.state, SUMMARY_FIELDS), SUMMARY_FIELDS);
+  }
+
+  get(index: number): AlgorithmStep | undefined {
+    if (index < 0 || index >= this.rests.length) return undefined;
+    if (this.cached?.index === index) return this.cached.step;
+
+    const checkpoint = this.checkpointAt(index);
+    const state = copyState(checkpoint.state);
+    for (let i = checkpoint.index + 1; i <= index; i++) {
+      applyDelta(state, this.deltas[i]);
+    }
+
+    const step = joinStep(this.rests[index], state);
+    this.cached = { index, step };
+    return step;
+  }
+
+  // Last checkpoint at or before index
+  private checkpointAt(index: number): { index: number; state: TrackedState } {
+    let low = 0;
+    let high = this.checkpoints.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (this.checkpoints[mid].index <= index) low = mid;
+      else high = mid - 1;
+    }
+    return this.checkpoints[low];
+  }
+}
+
+// Runs a step generator to the end, recording every step
+export function recordTrace(steps: Iterable<AlgorithmStep>): AlgorithmTrace {
+  const trace = new AlgorithmTrace();
+  for (const step of steps) {
+    trace.append(step);
+  }
+  return trace;
+}
@@ -29,6 +29,25 @@ export interface Graph {
   directed: boolean;
 }
 
+export interface GraphSelection {
+  sourceId: string | null;
+  targetId: string | null;
+}
+
+// A graph together with the source/target chosen in the editor,
+// as read from or written to a graph file
+export interface GraphDocument {
+  graph: Graph;
+  selection: GraphSelection;
+}
+
+// Result of reading a graph file; warnings describe input that was
+// ignored or approximated rather than rejected
+export interface GraphImportResult {
+  document: GraphDocument;
+  warnings: string[];
+}
+
 // ============================================
 // ALGORITHM STATE & STEPS
 // ============================================
@@ -39,6 +58,10 @@ export type NodeState =
   | 'visited' 
   | 'in-queue'
   | 'path'
+  | 'cycle'
+  | 'backward-in-queue'  // Bidirectional search: the search from the target
+  | 'backward-visited'
+  | 'meeting'            // ...and the node where the two searches join
   | 'start'
   | 'end';
 
@@ -47,7 +70,70 @@ export type EdgeState =
   | 'considering' 
   | 'relaxed' 
   | 'rejected'
-  | 'path';
+  | 'path'
+  | 'cycle'
+  | 'tree'      // Spanning-tree edges (Prim/Kruskal); traversal edges (BFS/DFS): discovered a node
+  | 'back'      // ...led to an ancestor, closing a cycle
+  | 'forward'   // ...led to an already finished descendant
+  | 'cross';    // ...led to another finished branch
+
+// The state of one search direction
+export interface SearchFrontier {
+  distances: Map<string, number>;
+  predecessors: Map<string, string | null>; // Toward the search's own origin
+  predecessorEdges: Map<string, string | null>;
+  visited: Set<string>;
+  queue: Array<{ nodeId: string; priority: number }>;
+}
+
+// All-pairs matrices, indexed by position in `nodes`
+export interface AllPairsState {
+  nodes: string[];
+  dist: number[][];
+  next: Array<Array<number | null>>; // Index of the first hop on the path from i to j
+  k: number | null; // Intermediate node of the current pass
+  i: number | null; // Cell being updated
+  j: number | null;
+}
+
+// One simple path, with its edges (parallel edges make the nodes alone ambiguous)
+export interface RankedPath {
+  nodes: string[];
+  edges: string[];
+  cost: number;
+}
+
+// Yen's k shortest paths: accepted paths, pending candidates and the
+// deviation currently being tried
+export interface KShortestState {
+  found: RankedPath[]; // A, best first
+  candidates: RankedPath[]; // B, cheapest first
+  rootPath: string[]; // Source to spur node, shared with the previous path
+  spurNode: string | null;
+}
+
+// Kruskal's disjoint-set forest: each node points toward its set's root
+export interface UnionFindState {
+  parent: Map<string, string>;
+  rank: Map<string, number>;
+  touched: string[]; // Nodes the current step's Find calls walked through
+}
+
+// Nodes in topological order, for the DAG algorithms
+export interface TopologicalState {
+  order: string[]; // As far as Kahn's algorithm has got, or the full order
+  index: number; // Position of the node being handled; -1 when none
+  slack?: Map<string, number>; // Critical path: latest − earliest time of each event
+}
+
+// Estimates behind a best-first search: h(n) for every node, fixed for the
+// whole run, and how the open set combines it with g into its priority,
+// f = gWeight·g + hWeight·h
+export interface HeuristicState {
+  values: Map<string, number>;
+  gWeight: number;
+  hWeight: number;
+}
 
 export interface AlgorithmStep {
   type: 
@@ -58,16 +144,21 @@ export interface AlgorithmStep {
     | 'skip-edge'
     | 'mark-visited'
     | 'update-queue'
+    | 'begin-pass'
     | 'path-found'
     | 'no-path'
+    | 'negative-cycle'
     | 'complete';
   
   // Current algorithm state
   currentNode: string | null;
   distances: Map<string, number>;
   predecessors: Map<string, string | null>;
+  predecessorEdges: Map<string, string | null>; // Edge used to reach each node (parallel edges make the node alone ambiguous)
   visited: Set<string>;
   queue: Array<{ nodeId: string; priority: number }>;
+  queueKind?: 'fifo' | 'stack'; // Plain queue (front first) or stack (top first); a priority queue when unset
+  queueStats?: QueueOperationCounts; // Priority queue work so far (both queues for bidirectional search)
   
   // Visual state
   nodeStates: Map<string, NodeState>;
@@ -94,22 +185,110 @@ export interface AlgorithmStep {
   // Final path (when complete)
   shortestPath?: string[];
   totalDistance?: number;
+  
+  // Negative-weight cycle, in order, when one makes shortest paths undefined
+  negativeCycle?: string[];
+  
+  // Bidirectional search: the backward search from the target (the
+  // top-level fields hold the forward search), the best complete path
+  // seen so far (μ) and the node where it joins the two searches
+  backward?: SearchFrontier;
+  bestCost?: number;
+  meetingNode?: string | null;
+  
+  // Heuristic search family: nodes expanded so far (IDA* counts every
+  // re-expansion), the weighted-A* guarantee cost ≤ bound × optimal, the
+  // f-cost threshold of the current IDA* pass, and the h and f weights the
+  // best-first searches rank their open set by
+  expanded?: number;
+  suboptimalityBound?: number;
+  threshold?: number;
+  heuristic?: HeuristicState;
+  
+  // Distance and next-hop matrices of an all-pairs algorithm
+  allPairs?: AllPairsState;
+  
+  // Minimum spanning tree (a forest when the graph is disconnected) so far
+  spanningTree?: {
+    edges: string[];
+    weight: number;
+  };
+  unionFind?: UnionFindState;
+  
+  // Topological order, and a directed cycle when there is none
+  topological?: TopologicalState;
+  cycle?: string[];
+  
+  // Ranked alternatives of a k-shortest-paths search
+  kShortest?: KShortestState;
+  
+  // Discovery and finish order of a graph traversal
+  traversal?: {
+    discovered: string[];
+    finished: string[];
+  };
 }
 
 // ============================================
 // ALGORITHM CONFIGURATION
 // ============================================
 
-export type AlgorithmType = 'dijkstra' | 'astar';
+export type AlgorithmType =
+  | 'dijkstra'
+  | 'astar'
+  | 'bellman-ford'
+  | 'bfs'
+  | 'dfs'
+  | 'floyd-warshall'
+  | 'bidirectional-dijkstra'
+  | 'bidirectional-astar'
+  | 'greedy-best-first'
+  | 'weighted-astar'
+  | 'ida-star'
+  | 'yen'
+  | 'prim'
+  | 'kruskal'
+  | 'topological-sort'
+  | 'dag-shortest-path'
+  | 'critical-path';
 
 export interface AlgorithmConfig {
   type: AlgorithmType;
   sourceId: string;
   targetId?: string; // Optional for Dijkstra, required for A*
-  heuristic?: (nodeA: Node, nodeB: Node) => number;
+  heuristic?: HeuristicSettings; // Goal-directed searches only
+  epsilon?: number; // Weighted A*: f = g + (1 + ε)·h
+}
+
+// Distance estimates from canvas coordinates (see core/algorithms/heuristics)
+export type HeuristicType = 'zero' | 'euclidean' | 'manhattan' | 'chebyshev' | 'octile';
+
+// A heuristic and the cost it assigns to one unit of canvas distance
+export interface HeuristicSettings {
+  type: HeuristicType;
+  scale: number;
 }
 
-export type HeuristicType = 'euclidean' | 'manhattan' | 'haversine';
+// Priority queue behind Dijkstra, A*, their variants and Prim
+export type PriorityQueueType = 'binary' | 'pairing' | 'fibonacci' | 'dial' | 'radix';
+
+// Which of several nodes with equal keys leaves the queue first (see core/queues/tieBreaking)
+export type TieBreakingPolicy = 'fifo' | 'lifo' | 'lowest-id' | 'higher-g' | 'lower-h' | 'random';
+
+export interface TieBreakingSettings {
+  policy: TieBreakingPolicy;
+  seed: number; // Random policy only
+}
+
+// Work done by a priority queue so far
+export interface QueueOperationCounts {
+  insert: number;
+  decreaseKey: number;
+  extractMin: number;
+  comparisons: number; // Key comparisons
+  moves: number; // Entries relocated: heap swaps, tree links and cuts, or bucket moves
+  bucketScans: number; // Buckets inspected while looking for the minimum (bucket queues only)
+}
 
 // ============================================
 // MAP MODE TYPES
@@ -135,7 +314,7 @@ export interface MapGraph extends Omit<Graph, 'nodes' | 'edges'> {
 // UI STATE
 // ============================================
 
-export type AppMode = 'visualizer' | 'map';
+export type AppMode = 'visualizer' | 'grid' | 'map';
 
 export type ExplanationLevel = 'beginner' | 'advanced';
 
@@ -1,35 +1,56 @@
 /**
  * Custom hook for managing algorithm visualization state
- * Handles step generation, playback controls, and timing
+ * Handles step generation, recorded as a delta-encoded trace; playback and
+ * timing come from useStepPlayback. Steps are generated in a Web Worker and
+ * streamed into the trace, so playback starts with the first batch.
  */
 
-import { useState, useCallback, useRef, useEffect } from 'react';
-import { Graph, AlgorithmStep, AlgorithmType, ExplanationLevel } from '@/core/types';
-import { generateDijkstraSteps } from '@/core/algorithms/dijkstra';
-import { generateAStarSteps, euclideanDistance } from '@/core/algorithms/astar';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { Graph, AlgorithmStep, AlgorithmType, ExplanationLevel, HeuristicSettings, PriorityQueueType, TieBreakingSettings } from '@/core/types';
+import { DEFAULT_HEURISTIC, createHeuristic } from '@/core/algorithms/heuristics';
+import { DEFAULT_TIE_BREAKING } from '@/core/queues';
+import {
+  ALGORITHMS,
+  AlgorithmParameters,
+  DEFAULT_ALGORITHM_PARAMETERS,
+  getMissingInput,
+} from '@/core/algorithms/registry';
+import { AlgorithmTrace, recordTrace } from '@/core/trace';
+import { RunMetrics, RunMetricsRecorder } from '@/core/metrics';
+import { TraceProgress, TraceWorkerRequest, TraceWorkerResponse } from '@/workers/traceProtocol';
+import { useStepPlayback, StepSequence } from './useStepPlayback';
 
 interface UseAlgorithmVisualizerProps {
   graph: Graph;
   sourceId: string | null;
   targetId: string | null;
   algorithm: AlgorithmType;
+  heuristic?: HeuristicSettings; // For algorithms that declare they read one
+  parameters?: AlgorithmParameters; // Read only by algorithms that declare them
+  queue?: PriorityQueueType; // Likewise, for algorithms with a swappable priority queue
+  tieBreaking?: TieBreakingSettings; // And for those that settle equal keys by a chosen rule
 }
 
 interface UseAlgorithmVisualizerReturn {
   // State
-  steps: AlgorithmStep[];
+  steps: StepSequence<AlgorithmStep>;
   currentStepIndex: number;
   isRunning: boolean;
   isPaused: boolean;
   isComplete: boolean;
   speed: number;
   explanationLevel: ExplanationLevel;
+  isGenerating: boolean;
+  progress: TraceProgress | null; // Of the current or last generation
+  generationError: string | null;
+  metrics: RunMetrics[]; // After each generated step
   
   // Current step data
   currentStep: AlgorithmStep | null;
   
   // Controls
   start: () => void;
+  cancel: () => void; // Stops generating; steps so far stay playable
   pause: () => void;
   resume: () => void;
   reset: () => void;
@@ -40,141 +61,164 @@ interface UseAlgorithmVisualizerReturn {
   setExplanationLevel: (level: ExplanationLevel) => void;
 }
 
+// The trace as it stands: a fresh object for each batch, so React sees it
+// grow, fixed at this length so it matches what was rendered
+function traceView(trace: AlgorithmTrace): StepSequence<AlgorithmStep> {
+  const length = trace.length;
+  return { length, get: (index) => (index < length ? trace.get(index) : undefined) };
+}
+
 export function useAlgorithmVisualizer({
   graph,
   sourceId,
   targetId,
   algorithm,
+  heuristic = DEFAULT_HEURISTIC,
+  parameters = DEFAULT_ALGORITHM_PARAMETERS,
+  queue = 'binary',
+  tieBreaking = DEFAULT_TIE_BREAKING,
 }: UseAlgorithmVisualizerProps): UseAlgorithmVisualizerReturn {
-  const [steps, setSteps] = useState<AlgorithmStep[]>([]);
-  const [currentStepIndex, setCurrentStepIndex] = useState(-1);
-  const [isRunning, setIsRunning] = useState(false);
-  const [isPaused, setIsPaused] = useState(false);
-  const [speed, setSpeed] = useState(500); // ms between steps
+  const playback = useStepPlayback<AlgorithmStep>();
   const [explanationLevel, setExplanationLevel] = useState<ExplanationLevel>('beginner');
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [progress, setProgress] = useState<TraceProgress | null>(null);
+  const [generationError, setGenerationError] = useState<string | null>(null);
+  
+  const workerRef = useRef<Worker | null>(null);
+  const traceRef = useRef(new AlgorithmTrace());
+  const metricsRef = useRef(new RunMetricsRecorder());
+  
+  const stopWorker = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, []);
   
-  const timerRef = useRef<NodeJS.Timeout | null>(null);
-  const stepsRef = useRef<AlgorithmStep[]>([]);
+  // Don't leave a run generating after the visualizer goes away
+  useEffect(() => stopWorker, [stopWorker]);
   
-  // Generate all steps when algorithm starts
+  // Generate all steps on this thread, for environments without workers
   const generateSteps = useCallback(() => {
-    if (!sourceId || graph.nodes.size === 0) return [];
-    
-    const generator = algorithm === 'dijkstra'
-      ? generateDijkstraSteps(graph, sourceId, targetId ?? undefined)
-      : generateAStarSteps(graph, sourceId, targetId!, euclideanDistance);
+    return recordTrace(ALGORITHMS[algorithm].generate(graph, {
+      sourceId,
+      targetId,
+      heuristic: createHeuristic(heuristic),
+      parameters,
+      queue,
+      tieBreaking,
+    }));
+  }, [graph, sourceId, targetId, algorithm, heuristic, parameters, queue, tieBreaking]);
+  
+  const { play, extend } = playback;
+  const start = useCallback(() => {
+    if (getMissingInput(ALGORITHMS[algorithm], graph, sourceId, targetId)) return;
     
-    const allSteps: AlgorithmStep[] = [];
-    for (const step of generator) {
-      allSteps.push(step);
+    stopWorker();
+    setGenerationError(null);
+    if (typeof Worker === 'undefined') {
+      const trace = generateSteps();
+      traceRef.current = trace;
+      metricsRef.current = new RunMetricsRecorder();
+      setProgress(null);
+      play(trace);
+      return;
     }
     
-    return allSteps;
-  }, [graph, sourceId, targetId, algorithm]);
-  
-  // Clear timer on unmount
-  useEffect(() => {
-    return () => {
-      if (timerRef.current) {
-        clearTimeout(timerRef.current);
-      }
+    const trace = new AlgorithmTrace();
+    const worker = new Worker(new URL('../workers/trace.worker.ts', import.meta.url), { type: 'module' });
+    traceRef.current = trace;
+    metricsRef.current = new RunMetricsRecorder();
+    workerRef.current = worker;
+    setIsGenerating(true);
+    setProgress({ steps: 0, visited: 0, nodes: graph.nodes.size });
+    play(traceView(trace), true);
+    
+    const finish = (error: string | null) => {
+      stopWorker();
+      setIsGenerating(false);
+      setGenerationError(error);
+      extend(traceView(trace), false);
     };
-  }, []);
-  
-  // Auto-advance when running
-  useEffect(() => {
-    if (isRunning && !isPaused && currentStepIndex < stepsRef.current.length - 1) {
-      timerRef.current = setTimeout(() => {
-        setCurrentStepIndex(prev => prev + 1);
-      }, speed);
-    } else if (currentStepIndex >= stepsRef.current.length - 1 && isRunning) {
-      setIsRunning(false);
-    }
     
-    return () => {
-      if (timerRef.current) {
-        clearTimeout(timerRef.current);
+    worker.onmessage = (event: MessageEvent<TraceWorkerResponse>) => {
+      if (workerRef.current !== worker) return; // A cancelled run's last words
+      const message = event.data;
+      switch (message.type) {
+        case 'steps':
+          trace.push(...message.steps);
+          setProgress(message.progress);
+          extend(traceView(trace), true);
+          break;
+        case 'done':
+          setProgress(message.progress);
+          finish(null);
+          break;
+        case 'error':
+          finish(message.message);
+          break;
       }
     };
-  }, [isRunning, isPaused, currentStepIndex, speed]);
-  
-  const start = useCallback(() => {
-    if (!sourceId) return;
-    if (algorithm === 'astar' && !targetId) return;
+    worker.onerror = (event) => {
+      if (workerRef.current === worker) finish(event.message || 'Step generation failed');
+    };
     
-    const generatedSteps = generateSteps();
-    setSteps(generatedSteps);
-    stepsRef.current = generatedSteps;
-    setCurrentStepIndex(0);
-    setIsRunning(true);
-    setIsPaused(false);
-  }, [generateSteps, sourceId, targetId, algorithm]);
-  
-  const pause = useCallback(() => {
-    setIsPaused(true);
-    if (timerRef.current) {
-      clearTimeout(timerRef.current);
-    }
-  }, []);
+    const request: TraceWorkerRequest = {
+      type: 'start', algorithm, graph, sourceId, targetId, heuristic, parameters, queue, tieBreaking,
+    };
+    worker.postMessage(request);
+  }, [generateSteps, play, extend, stopWorker, graph, sourceId, targetId, algorithm, heuristic, parameters, queue, tieBreaking]);
   
-  const resume = useCallback(() => {
-    setIsPaused(false);
-  }, []);
+  const cancel = useCallback(() => {
+    if (!workerRef.current) return;
+    stopWorker();
+    setIsGenerating(false);
+    extend(traceView(traceRef.current), false);
+  }, [stopWorker, extend]);
   
+  const { reset: resetPlayback } = playback;
   const reset = useCallback(() => {
-    setIsRunning(false);
-    setIsPaused(false);
-    setCurrentStepIndex(-1);
-    setSteps([]);
-    stepsRef.current = [];
-    if (timerRef.current) {
-      clearTimeout(timerRef.current);
-    }
-  }, []);
-  
-  const nextStep = useCallback(() => {
-    if (currentStepIndex < steps.length - 1) {
-      setCurrentStepIndex(prev => prev + 1);
-    }
-  }, [currentStepIndex, steps.length]);
-  
-  const prevStep = useCallback(() => {
-    if (currentStepIndex > 0) {
-      setCurrentStepIndex(prev => prev - 1);
-    }
-  }, [currentStepIndex]);
-  
-  const goToStep = useCallback((index: number) => {
-    if (index >= 0 && index < steps.length) {
-      setCurrentStepIndex(index);
-    }
-  }, [steps.length]);
-  
-  const currentStep = currentStepIndex >= 0 && currentStepIndex < steps.length
-    ? steps[currentStepIndex]
-    : null;
-  
+    stopWorker();
+    setIsGenerating(false);
+    setProgress(null);
+    setGenerationError(null);
+    resetPlayback();
+  }, [stopWorker, resetPlayback]);
+  
+  const { steps, currentStepIndex, currentStep } = playback;
+  
+  // A new steps view means new steps (or none, after a reset): measure them
+  const metrics = useMemo(() => {
+    metricsRef.current.extend(traceRef.current);
+    return metricsRef.current.slice(steps.length);
+  }, [steps]);
   const isComplete = currentStepIndex >= 0 && 
     currentStepIndex === steps.length - 1 && 
-    (currentStep?.type === 'complete' || currentStep?.type === 'path-found' || currentStep?.type === 'no-path');
+    (currentStep?.type === 'complete' ||
+      currentStep?.type === 'path-found' ||
+      currentStep?.type === 'no-path' ||
+      currentStep?.type === 'negative-cycle');
   
   return {
     steps,
     currentStepIndex,
-    isRunning,
-    isPaused,
+    isRunning: playback.isRunning,
+    isPaused: playback.isPaused,
     isComplete,
-    speed,
+    speed: playback.speed,
     explanationLevel,
+    isGenerating,
+    progress,
+    generationError,
+    metrics,
     currentStep,
     start,
-    pause,
-    resume,
+    cancel,
+    pause: playback.pause,
+    resume: playback.resume,
     reset,
-    nextStep,
-    prevStep,
-    goToStep,
-    setSpeed,
+    nextStep: playback.nextStep,
+    prevStep: playback.prevStep,
+    goToStep: playback.goToStep,
+    setSpeed: playback.setSpeed,
     setExplanationLevel,
   };
 }
@@ -0,0 +1,123 @@
+/**
+ * Custom hook for undo/redo of graph edits
+ * Keeps a linear history of immutable editor snapshots
+ */
+
+import { useState, useCallback } from 'react';
+import { Graph } from '@/core/types';
+
+const MAX_HISTORY = 100;
+
+export interface EditorSnapshot {
+  graph: Graph;
+  sourceId: string | null;
+  targetId: string | null;
+}
+
+export interface HistoryEntry {
+  label: string;
+  snapshot: EditorSnapshot;
+}
+
+interface HistoryState {
+  entries: HistoryEntry[];
+  index: number;
+  // Consecutive commits with the same key are merged into one entry
+  coalesceKey: string | null;
+}
+
+interface UseGraphHistoryReturn {
+  present: EditorSnapshot;
+  entries: HistoryEntry[];
+  index: number;
+  canUndo: boolean;
+  canRedo: boolean;
+
+  commit: (label: string, update: (snapshot: EditorSnapshot) => EditorSnapshot, coalesceKey?: string) => void;
+  replace: (update: (snapshot: EditorSnapshot) => EditorSnapshot) => void;
+  endCoalesce: () => void;
+  undo: () => void;
+  redo: () => void;
+  jumpTo: (index: number) => void;
+}
+
+export function useGraphHistory(initial: EditorSnapshot, initialLabel: string): UseGraphHistoryReturn {
+  const [history, setHistory] = useState<HistoryState>(() => ({
+    entries: [{ label: initialLabel, snapshot: initial }],
+    index: 0,
+    coalesceKey: null,
+  }));
+
+  // Record an edit as a new entry, discarding any redo entries
+  const commit = useCallback((
+    label: string,
+    update: (snapshot: EditorSnapshot) => EditorSnapshot,
+    coalesceKey?: string
+  ) => {
+    setHistory(h => {
+      const current = h.entries[h.index];
+      const next = update(current.snapshot);
+      if (next === current.snapshot) return h;
+
+      if (coalesceKey && coalesceKey === h.coalesceKey) {
+        const entries = h.entries.slice(0, h.index + 1);
+        entries[h.index] = { ...current, snapshot: next };
+        return { ...h, entries };
+      }
+
+      const entries = [...h.entries.slice(0, h.index + 1), { label, snapshot: next }].slice(-MAX_HISTORY);
+      return {
+        entries,
+        index: entries.length - 1,
+        coalesceKey: coalesceKey ?? null,
+      };
+    });
+  }, []);
+
+  // Change the present snapshot without creating an undo step
+  // (e.g. picking a different source node)
+  const replace = useCallback((update: (snapshot: EditorSnapshot) => EditorSnapshot) => {
+    setHistory(h => {
+      const current = h.entries[h.index];
+      const next = update(current.snapshot);
+      if (next === current.snapshot) return h;
+
+      const entries = [...h.entries];
+      entries[h.index] = { ...current, snapshot: next };
+      return { ...h, entries };
+    });
+  }, []);
+
+  const endCoalesce = useCallback(() => {
+    setHistory(h => (h.coalesceKey === null ? h : { ...h, coalesceKey: null }));
+  }, []);
+
+  const jumpTo = useCallback((index: number) => {
+    setHistory(h => {
+      if (index < 0 || index >= h.entries.length || index === h.index) return h;
+      return { ...h, index, coalesceKey: null };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(h => (h.index > 0 ? { ...h, index: h.index - 1, coalesceKey: null } : h));
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h => (h.index < h.entries.length - 1 ? { ...h, index: h.index + 1, coalesceKey: null } : h));
+  }, []);
+
+  return {
+    present: history.entries[history.index].snapshot,
+    entries: history.entries,
+    index: history.index,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length - 1,
+    commit,
+    replace,
+    endCoalesce,
+    undo,
+    redo,
+    jumpTo,
+  };
+}
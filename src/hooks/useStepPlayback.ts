@@ -0,0 +1,163 @@
+/**
+ * Generic step playback: a list of pre-computed steps, a cursor, and a
+ * timer that advances it. Shared by algorithm runs and maze animations.
+ * The list may still be growing while it plays (see `extend`): the timer
+ * then waits at the last step instead of stopping.
+ */
+
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+
+// Pre-computed steps with random access: a plain array, or a trace that
+// rebuilds each step on demand (see core/trace)
+export interface StepSequence<T> {
+  readonly length: number;
+  get(index: number): T | undefined;
+}
+
+function arraySequence<T>(items: T[]): StepSequence<T> {
+  return { length: items.length, get: (index) => items[index] };
+}
+
+const NO_STEPS = arraySequence<never>([]);
+
+export interface UseStepPlaybackReturn<T> {
+  // State
+  steps: StepSequence<T>;
+  currentStepIndex: number;
+  isRunning: boolean;
+  isPaused: boolean;
+  isPending: boolean; // More steps are on their way
+  speed: number;
+
+  // Current step data
+  currentStep: T | null;
+
+  // Controls
+  play: (steps: T[] | StepSequence<T>, pending?: boolean) => void;
+  extend: (steps: StepSequence<T>, pending: boolean) => void;
+  pause: () => void;
+  resume: () => void;
+  reset: () => void;
+  nextStep: () => void;
+  prevStep: () => void;
+  goToStep: (index: number) => void;
+  setSpeed: (speed: number) => void;
+}
+
+export function useStepPlayback<T>(initialSpeed = 500): UseStepPlaybackReturn<T> {
+  const [steps, setSteps] = useState<StepSequence<T>>(NO_STEPS);
+  const [currentStepIndex, setCurrentStepIndex] = useState(-1);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [isPending, setIsPending] = useState(false);
+  const [speed, setSpeed] = useState(initialSpeed); // ms between steps
+
+  const timerRef = useRef<NodeJS.Timeout | null>(null);
+
+  // Clear timer on unmount
+  useEffect(() => {
+    return () => {
+      if (timerRef.current) {
+        clearTimeout(timerRef.current);
+      }
+    };
+  }, []);
+
+  // Auto-advance when running; at the last step, stop unless more are coming
+  useEffect(() => {
+    if (isRunning && !isPaused && currentStepIndex < steps.length - 1) {
+      timerRef.current = setTimeout(() => {
+        setCurrentStepIndex(prev => prev + 1);
+      }, speed);
+    } else if (currentStepIndex >= steps.length - 1 && isRunning && !isPending) {
+      setIsRunning(false);
+    }
+
+    return () => {
+      if (timerRef.current) {
+        clearTimeout(timerRef.current);
+      }
+    };
+  }, [isRunning, isPaused, isPending, currentStepIndex, steps.length, speed]);
+
+  // Load a new list of steps and start playing from the first. Pass
+  // `pending` when more steps will follow through `extend`.
+  const play = useCallback((newSteps: T[] | StepSequence<T>, pending = false) => {
+    setSteps(Array.isArray(newSteps) ? arraySequence(newSteps) : newSteps);
+    setIsPending(pending);
+    setCurrentStepIndex(0);
+    setIsRunning(true);
+    setIsPaused(false);
+  }, []);
+
+  // Swap in a longer version of the playing list, keeping the cursor where it is
+  const extend = useCallback((newSteps: StepSequence<T>, pending: boolean) => {
+    setSteps(newSteps);
+    setIsPending(pending);
+  }, []);
+
+  const pause = useCallback(() => {
+    setIsPaused(true);
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+    }
+  }, []);
+
+  const resume = useCallback(() => {
+    setIsPaused(false);
+  }, []);
+
+  const reset = useCallback(() => {
+    setIsRunning(false);
+    setIsPaused(false);
+    setCurrentStepIndex(-1);
+    setSteps(NO_STEPS);
+    setIsPending(false);
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+    }
+  }, []);
+
+  const nextStep = useCallback(() => {
+    if (currentStepIndex < steps.length - 1) {
+      setCurrentStepIndex(prev => prev + 1);
+    }
+  }, [currentStepIndex, steps.length]);
+
+  const prevStep = useCallback(() => {
+    if (currentStepIndex > 0) {
+      setCurrentStepIndex(prev => prev - 1);
+    }
+  }, [currentStepIndex]);
+
+  const goToStep = useCallback((index: number) => {
+    if (index >= 0 && index < steps.length) {
+      setCurrentStepIndex(index);
+    }
+  }, [steps.length]);
+
+  // A trace rebuilds the step on each read, so read it once per index
+  const currentStep = useMemo(
+    () => steps.get(currentStepIndex) ?? null,
+    [steps, currentStepIndex]
+  );
+
+  return {
+    steps,
+    currentStepIndex,
+    isRunning,
+    isPaused,
+    isPending,
+    speed,
+    currentStep,
+    play,
+    extend,
+    pause,
+    resume,
+    reset,
+    nextStep,
+    prevStep,
+    goToStep,
+    setSpeed,
+  };
+}
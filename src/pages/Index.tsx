@@ -7,6 +7,7 @@ import React, { useState } from 'react';
 import { AppMode } from '@/core/types';
 import { ModeSelector } from '@/components/ModeSelector';
 import { AlgorithmVisualizer } from '@/components/visualizer/AlgorithmVisualizer';
+import { GridVisualizer } from '@/components/grid/GridVisualizer';
 import { MapView } from '@/components/map/MapView';
 
 const Index = () => {
@@ -22,6 +23,10 @@ const Index = () => {
     return <AlgorithmVisualizer onBackToDashboard={handleBackToDashboard} />;
   }
   
+  if (mode === 'grid') {
+    return <GridVisualizer onBackToDashboard={handleBackToDashboard} />;
+  }
+  
   return <MapView onBackToDashboard={handleBackToDashboard} />;
 };
 
@@ -0,0 +1,61 @@
+/**
+ * Trace worker - runs an algorithm's step generator off the main thread
+ *
+ * Steps are encoded here (see core/trace) and posted in batches, so the
+ * hook can start playing the first steps while later ones are still being
+ * generated. A batch goes out once it is BATCH_INTERVAL_MS old or holds
+ * MAX_BATCH_SIZE steps; the very first step goes out on its own.
+ */
+
+import { ALGORITHMS } from '@/core/algorithms/registry';
+import { createHeuristic } from '@/core/algorithms/heuristics';
+import { EncodedStep, TraceEncoder } from '@/core/trace';
+import { TraceStartMessage, TraceWorkerRequest, TraceWorkerResponse, TraceProgress } from './traceProtocol';
+
+const BATCH_INTERVAL_MS = 50;
+const MAX_BATCH_SIZE = 2000;
+
+function post(message: TraceWorkerResponse): void {
+  self.postMessage(message);
+}
+
+function run({ algorithm, graph, sourceId, targetId, heuristic, parameters, queue, tieBreaking }: TraceStartMessage): void {
+  const encoder = new TraceEncoder();
+  const progress: TraceProgress = { steps: 0, visited: 0, nodes: graph.nodes.size };
+  let batch: EncodedStep[] = [];
+  let lastPost = -Infinity;
+
+  const flush = () => {
+    post({ type: 'steps', steps: batch, progress: { ...progress } });
+    batch = [];
+    lastPost = performance.now();
+  };
+
+  try {
+    const steps = ALGORITHMS[algorithm].generate(graph, {
+      sourceId,
+      targetId,
+      heuristic: createHeuristic(heuristic),
+      parameters,
+      queue,
+      tieBreaking,
+    });
+    for (const step of steps) {
+      batch.push(encoder.encode(step));
+      progress.steps++;
+      progress.visited = step.visited.size;
+      if (batch.length >= MAX_BATCH_SIZE || performance.now() - lastPost >= BATCH_INTERVAL_MS) {
+        flush();
+      }
+    }
+    if (batch.length > 0) flush();
+    post({ type: 'done', progress });
+  } catch (error) {
+    if (batch.length > 0) flush();
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+self.onmessage = (event: MessageEvent<TraceWorkerRequest>) => {
+  if (event.data.type === 'start') run(event.data);
+};
@@ -0,0 +1,60 @@
+/**
+ * Trace worker protocol
+ * Messages between the visualizer hook and trace.worker.ts. A worker serves
+ * one run: the hook posts a single `start`, receives encoded steps in
+ * batches as the generator produces them, then `done` or `error`.
+ * Cancelling a run terminates its worker.
+ */
+
+import { AlgorithmType, Graph, HeuristicSettings, PriorityQueueType, TieBreakingSettings } from '@/core/types';
+import { AlgorithmParameters } from '@/core/algorithms/registry';
+import { EncodedStep } from '@/core/trace';
+
+// How far generation has got, for the progress indicator
+export interface TraceProgress {
+  steps: number; // Steps generated so far
+  visited: number; // Nodes in the latest step's visited set
+  nodes: number; // Nodes in the graph
+}
+
+// ============================================
+// HOOK → WORKER
+// ============================================
+
+export interface TraceStartMessage {
+  type: 'start';
+  algorithm: AlgorithmType;
+  graph: Graph;
+  sourceId: string | null;
+  targetId: string | null;
+  heuristic: HeuristicSettings; // Sent as settings: functions can't cross to a worker
+  parameters: AlgorithmParameters;
+  queue: PriorityQueueType;
+  tieBreaking: TieBreakingSettings;
+}
+
+export type TraceWorkerRequest = TraceStartMessage;
+
+// ============================================
+// WORKER → HOOK
+// ============================================
+
+// Steps continue the run's sequence, in order, encoded against each other
+export interface TraceStepsMessage {
+  type: 'steps';
+  steps: EncodedStep[];
+  progress: TraceProgress;
+}
+
+export interface TraceDoneMessage {
+  type: 'done';
+  progress: TraceProgress;
+}
+
+// The generator threw; steps posted before it stay valid
+export interface TraceErrorMessage {
+  type: 'error';
+  message: string;
+}
+
+export type TraceWorkerResponse = TraceStepsMessage | TraceDoneMessage | TraceErrorMessage;
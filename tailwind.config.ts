@@ -69,12 +69,23 @@ export default {
           path: "hsl(var(--node-path))",
           start: "hsl(var(--node-start))",
           end: "hsl(var(--node-end))",
+          backward: "hsl(var(--node-backward))",
+          meeting: "hsl(var(--node-meeting))",
         },
         edge: {
           default: "hsl(var(--edge-default))",
           relaxed: "hsl(var(--edge-relaxed))",
           path: "hsl(var(--edge-path))",
         },
+        cell: {
+          open: "hsl(var(--cell-open))",
+          wall: "hsl(var(--cell-wall))",
+        },
+        terrain: {
+          grass: "hsl(var(--terrain-grass))",
+          sand: "hsl(var(--terrain-sand))",
+          water: "hsl(var(--terrain-water))",
+        },
         code: {
           bg: "hsl(var(--code-bg))",
           active: "hsl(var(--code-line-active))",